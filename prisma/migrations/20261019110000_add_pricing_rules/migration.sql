@@ -0,0 +1,75 @@
+-- CreateEnum
+CREATE TYPE "DeliveryFeeType" AS ENUM ('FLAT', 'DISTANCE');
+
+-- AlterTable
+ALTER TABLE "Mall" ADD COLUMN     "latitude" DOUBLE PRECISION,
+ADD COLUMN     "longitude" DOUBLE PRECISION;
+
+-- AlterTable
+ALTER TABLE "DeliveryAddress" ADD COLUMN     "latitude" DOUBLE PRECISION,
+ADD COLUMN     "longitude" DOUBLE PRECISION;
+
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "pricingBreakdown" JSONB;
+
+-- CreateTable
+CREATE TABLE "TaxRate" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "ratePercentage" DECIMAL(65,30) NOT NULL,
+    "countryId" TEXT NOT NULL,
+    "cityId" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TaxRate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "DeliveryFeeRule" (
+    "id" TEXT NOT NULL,
+    "mallId" TEXT NOT NULL,
+    "type" "DeliveryFeeType" NOT NULL DEFAULT 'FLAT',
+    "flatFee" DECIMAL(65,30) NOT NULL DEFAULT 0,
+    "freeDeliveryMinSubtotal" DECIMAL(65,30),
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "DeliveryFeeRule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "DeliveryFeeBand" (
+    "id" TEXT NOT NULL,
+    "ruleId" TEXT NOT NULL,
+    "maxDistanceKm" DOUBLE PRECISION NOT NULL,
+    "fee" DECIMAL(65,30) NOT NULL,
+
+    CONSTRAINT "DeliveryFeeBand_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TaxRate_countryId_idx" ON "TaxRate"("countryId");
+
+-- CreateIndex
+CREATE INDEX "TaxRate_cityId_idx" ON "TaxRate"("cityId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DeliveryFeeRule_mallId_key" ON "DeliveryFeeRule"("mallId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DeliveryFeeBand_ruleId_maxDistanceKm_key" ON "DeliveryFeeBand"("ruleId", "maxDistanceKm");
+
+-- AddForeignKey
+ALTER TABLE "TaxRate" ADD CONSTRAINT "TaxRate_countryId_fkey" FOREIGN KEY ("countryId") REFERENCES "Country"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TaxRate" ADD CONSTRAINT "TaxRate_cityId_fkey" FOREIGN KEY ("cityId") REFERENCES "City"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DeliveryFeeRule" ADD CONSTRAINT "DeliveryFeeRule_mallId_fkey" FOREIGN KEY ("mallId") REFERENCES "Mall"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DeliveryFeeBand" ADD CONSTRAINT "DeliveryFeeBand_ruleId_fkey" FOREIGN KEY ("ruleId") REFERENCES "DeliveryFeeRule"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,18 @@
+-- AlterTable
+ALTER TABLE "Mall" ADD COLUMN     "orderNumberFormat" TEXT;
+
+-- AlterTable
+ALTER TABLE "Restaurant" ADD COLUMN     "orderNumberPrefix" TEXT;
+
+-- CreateTable
+CREATE TABLE "OrderNumberSequence" (
+    "restaurantId" TEXT NOT NULL,
+    "day" TEXT NOT NULL,
+    "lastValue" INTEGER NOT NULL DEFAULT 0,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "OrderNumberSequence_pkey" PRIMARY KEY ("restaurantId","day")
+);
+
+-- AddForeignKey
+ALTER TABLE "OrderNumberSequence" ADD CONSTRAINT "OrderNumberSequence_restaurantId_fkey" FOREIGN KEY ("restaurantId") REFERENCES "Restaurant"("userId") ON DELETE CASCADE ON UPDATE CASCADE;
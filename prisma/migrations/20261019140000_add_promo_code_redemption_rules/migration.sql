@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE "PromoCode" ADD COLUMN     "firstOrderOnly" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "maxDiscountAmount" DECIMAL(65,30),
+ADD COLUMN     "maxRedemptions" INTEGER,
+ADD COLUMN     "maxRedemptionsPerUser" INTEGER,
+ADD COLUMN     "minOrderSubtotal" DECIMAL(65,30),
+ADD COLUMN     "redemptionCount" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "PromoCodeUse" ADD COLUMN     "releasedAt" TIMESTAMP(3);
+
+-- Backfill redemption counters from existing usage
+UPDATE "PromoCode" SET "redemptionCount" = (
+    SELECT COUNT(*) FROM "PromoCodeUse" WHERE "PromoCodeUse"."promoCodeId" = "PromoCode"."id"
+);
+
+-- CreateIndex
+CREATE INDEX "PromoCodeUse_promoCodeId_userId_idx" ON "PromoCodeUse"("promoCodeId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "PromoCodeUse" ADD CONSTRAINT "PromoCodeUse_promoCodeId_fkey" FOREIGN KEY ("promoCodeId") REFERENCES "PromoCode"("id") ON DELETE CASCADE ON UPDATE CASCADE;
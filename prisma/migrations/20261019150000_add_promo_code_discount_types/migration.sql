@@ -0,0 +1,14 @@
+-- CreateEnum (declared in the schema but never created by a previous migration)
+DO $$ BEGIN
+    CREATE TYPE "DiscountType" AS ENUM ('PERCENTAGE', 'FIXED');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+-- AlterEnum
+ALTER TYPE "DiscountType" ADD VALUE IF NOT EXISTS 'FREE_DELIVERY';
+
+-- AlterTable
+ALTER TABLE "PromoCode" ADD COLUMN     "discountType" "DiscountType" NOT NULL DEFAULT 'PERCENTAGE',
+ADD COLUMN     "fixedDiscountAmount" DECIMAL(65,30),
+ALTER COLUMN "discountPercentage" SET DEFAULT 0;
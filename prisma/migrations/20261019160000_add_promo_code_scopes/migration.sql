@@ -0,0 +1,40 @@
+-- CreateEnum
+CREATE TYPE "PromoCodeScope" AS ENUM ('MALL', 'RESTAURANTS', 'CUISINE_CATEGORY');
+
+-- CreateTable
+CREATE TABLE "PromoCodeRestaurant" (
+    "promoCodeId" TEXT NOT NULL,
+    "restaurantId" TEXT NOT NULL,
+
+    CONSTRAINT "PromoCodeRestaurant_pkey" PRIMARY KEY ("promoCodeId","restaurantId")
+);
+
+-- Existing codes keep applying to their single restaurant
+INSERT INTO "PromoCodeRestaurant" ("promoCodeId", "restaurantId")
+SELECT "id", "restaurantId" FROM "PromoCode" WHERE "restaurantId" IS NOT NULL;
+
+-- DropForeignKey
+ALTER TABLE "PromoCode" DROP CONSTRAINT IF EXISTS "PromoCode_restaurantId_fkey";
+
+-- DropIndex
+DROP INDEX IF EXISTS "PromoCode_restaurantId_idx";
+
+-- AlterTable
+ALTER TABLE "PromoCode" DROP COLUMN "restaurantId",
+ADD COLUMN     "cuisineCategoryId" TEXT,
+ADD COLUMN     "scope" "PromoCodeScope" NOT NULL DEFAULT 'RESTAURANTS';
+
+-- CreateIndex
+CREATE INDEX "PromoCode_cuisineCategoryId_idx" ON "PromoCode"("cuisineCategoryId");
+
+-- CreateIndex
+CREATE INDEX "PromoCodeRestaurant_restaurantId_idx" ON "PromoCodeRestaurant"("restaurantId");
+
+-- AddForeignKey
+ALTER TABLE "PromoCode" ADD CONSTRAINT "PromoCode_cuisineCategoryId_fkey" FOREIGN KEY ("cuisineCategoryId") REFERENCES "CuisineCategory"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PromoCodeRestaurant" ADD CONSTRAINT "PromoCodeRestaurant_promoCodeId_fkey" FOREIGN KEY ("promoCodeId") REFERENCES "PromoCode"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PromoCodeRestaurant" ADD CONSTRAINT "PromoCodeRestaurant_restaurantId_fkey" FOREIGN KEY ("restaurantId") REFERENCES "Restaurant"("userId") ON DELETE CASCADE ON UPDATE CASCADE;
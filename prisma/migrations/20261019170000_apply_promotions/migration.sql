@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE "Promotion" ADD COLUMN     "menuCategoryIds" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "menuItemIds" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "stacksWithPromoCodes" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "promotionDiscount" DECIMAL(65,30) NOT NULL DEFAULT 0,
+ADD COLUMN     "promotionId" TEXT;
+
+-- AlterTable
+ALTER TABLE "OrderItem" ADD COLUMN     "promotionDiscount" DECIMAL(65,30) NOT NULL DEFAULT 0,
+ADD COLUMN     "promotionId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Order_promotionId_idx" ON "Order"("promotionId");
+
+-- AddForeignKey
+ALTER TABLE "Order" ADD CONSTRAINT "Order_promotionId_fkey" FOREIGN KEY ("promotionId") REFERENCES "Promotion"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrderItem" ADD CONSTRAINT "OrderItem_promotionId_fkey" FOREIGN KEY ("promotionId") REFERENCES "Promotion"("id") ON DELETE SET NULL ON UPDATE CASCADE;
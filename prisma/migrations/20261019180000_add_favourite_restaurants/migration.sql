@@ -0,0 +1,21 @@
+-- The global flag can't be attributed to any user, so it is dropped instead of migrated
+-- AlterTable
+ALTER TABLE "Restaurant" DROP COLUMN "isFavorite";
+
+-- CreateTable
+CREATE TABLE "FavouriteRestaurant" (
+    "userId" TEXT NOT NULL,
+    "restaurantId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "FavouriteRestaurant_pkey" PRIMARY KEY ("userId","restaurantId")
+);
+
+-- CreateIndex
+CREATE INDEX "FavouriteRestaurant_restaurantId_idx" ON "FavouriteRestaurant"("restaurantId");
+
+-- AddForeignKey
+ALTER TABLE "FavouriteRestaurant" ADD CONSTRAINT "FavouriteRestaurant_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FavouriteRestaurant" ADD CONSTRAINT "FavouriteRestaurant_restaurantId_fkey" FOREIGN KEY ("restaurantId") REFERENCES "Restaurant"("userId") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Mall" ADD COLUMN "timezone" TEXT NOT NULL DEFAULT 'UTC';
@@ -0,0 +1,60 @@
+-- CreateTable
+CREATE TABLE "SpecialBusinessDay" (
+    "id" TEXT NOT NULL,
+    "restaurantId" TEXT NOT NULL,
+    "date" DATE NOT NULL,
+    "isClosed" BOOLEAN NOT NULL DEFAULT false,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SpecialBusinessDay_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "SpecialBusinessTimeSlot" (
+    "id" TEXT NOT NULL,
+    "specialDayId" TEXT NOT NULL,
+    "slotType" "SlotType" NOT NULL,
+    "openTime" TEXT NOT NULL,
+    "closeTime" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SpecialBusinessTimeSlot_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "MallClosure" (
+    "id" TEXT NOT NULL,
+    "mallId" TEXT NOT NULL,
+    "startDate" DATE NOT NULL,
+    "endDate" DATE NOT NULL,
+    "reason" TEXT,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "MallClosure_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SpecialBusinessDay_restaurantId_date_key" ON "SpecialBusinessDay"("restaurantId", "date");
+
+-- CreateIndex
+CREATE INDEX "SpecialBusinessDay_restaurantId_idx" ON "SpecialBusinessDay"("restaurantId");
+
+-- CreateIndex
+CREATE INDEX "SpecialBusinessTimeSlot_specialDayId_idx" ON "SpecialBusinessTimeSlot"("specialDayId");
+
+-- CreateIndex
+CREATE INDEX "MallClosure_mallId_startDate_idx" ON "MallClosure"("mallId", "startDate");
+
+-- AddForeignKey
+ALTER TABLE "SpecialBusinessDay" ADD CONSTRAINT "SpecialBusinessDay_restaurantId_fkey" FOREIGN KEY ("restaurantId") REFERENCES "Restaurant"("userId") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SpecialBusinessTimeSlot" ADD CONSTRAINT "SpecialBusinessTimeSlot_specialDayId_fkey" FOREIGN KEY ("specialDayId") REFERENCES "SpecialBusinessDay"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MallClosure" ADD CONSTRAINT "MallClosure_mallId_fkey" FOREIGN KEY ("mallId") REFERENCES "Mall"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,12 @@
+-- AlterEnum
+ALTER TYPE "OrderStatus" ADD VALUE IF NOT EXISTS 'SCHEDULED' BEFORE 'PENDING';
+
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN "scheduledFor" TIMESTAMP(3),
+ADD COLUMN "releaseAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "Mall" ADD COLUMN "preOrderLeadMinutes" INTEGER NOT NULL DEFAULT 30;
+
+-- CreateIndex
+CREATE INDEX "Order_status_releaseAt_idx" ON "Order"("status", "releaseAt");
@@ -0,0 +1,7 @@
+-- CreateEnum
+CREATE TYPE "FulfilmentType" AS ENUM ('DELIVERY', 'PICKUP', 'DINE_IN');
+
+-- AlterTable (existing orders are deliveries)
+ALTER TABLE "Order" ADD COLUMN "fulfilmentType" "FulfilmentType" NOT NULL DEFAULT 'DELIVERY',
+ADD COLUMN "tableNumber" TEXT,
+ALTER COLUMN "deliveryAddressId" DROP NOT NULL;
@@ -0,0 +1,18 @@
+-- AlterTable
+ALTER TABLE "MenuItem" ADD COLUMN "isAvailable" BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN "dailyStock" INTEGER,
+ADD COLUMN "availableFrom" TEXT,
+ADD COLUMN "availableUntil" TEXT;
+
+-- CreateTable
+CREATE TABLE "MenuItemDailyStock" (
+    "menuItemId" TEXT NOT NULL,
+    "day" TEXT NOT NULL,
+    "soldCount" INTEGER NOT NULL DEFAULT 0,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "MenuItemDailyStock_pkey" PRIMARY KEY ("menuItemId","day")
+);
+
+-- AddForeignKey
+ALTER TABLE "MenuItemDailyStock" ADD CONSTRAINT "MenuItemDailyStock_menuItemId_fkey" FOREIGN KEY ("menuItemId") REFERENCES "MenuItem"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "VariationOption" ADD COLUMN "isAvailable" BOOLEAN NOT NULL DEFAULT true;
+
+-- AlterTable
+ALTER TABLE "AddOnOption" ADD COLUMN "isAvailable" BOOLEAN NOT NULL DEFAULT true;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "CartItem" ADD COLUMN "unitPrice" DECIMAL(65,30);
+
+-- AlterTable
+ALTER TABLE "FavouriteCartItem" ADD COLUMN "unitPrice" DECIMAL(65,30);
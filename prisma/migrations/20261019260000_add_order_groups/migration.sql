@@ -0,0 +1,37 @@
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "orderGroupId" TEXT,
+ADD COLUMN     "stripeTransferId" TEXT;
+
+-- CreateTable
+CREATE TABLE "OrderGroup" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "total" DECIMAL(65,30) NOT NULL,
+    "paymentMethod" "PaymentMethod" NOT NULL DEFAULT 'CASH',
+    "paymentStatus" "PaymentStatus" NOT NULL DEFAULT 'PENDING',
+    "stripePaymentIntentId" TEXT,
+    "paidAt" TIMESTAMP(3),
+    "idempotencyKey" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "OrderGroup_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "OrderGroup_stripePaymentIntentId_key" ON "OrderGroup"("stripePaymentIntentId");
+
+-- CreateIndex
+CREATE INDEX "OrderGroup_userId_idx" ON "OrderGroup"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "OrderGroup_userId_idempotencyKey_key" ON "OrderGroup"("userId", "idempotencyKey");
+
+-- CreateIndex
+CREATE INDEX "Order_orderGroupId_idx" ON "Order"("orderGroupId");
+
+-- AddForeignKey
+ALTER TABLE "Order" ADD CONSTRAINT "Order_orderGroupId_fkey" FOREIGN KEY ("orderGroupId") REFERENCES "OrderGroup"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrderGroup" ADD CONSTRAINT "OrderGroup_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,110 @@
+-- CreateEnum
+CREATE TYPE "OrderIssueCategory" AS ENUM ('MISSING_ITEM', 'WRONG_ITEM', 'COLD_FOOD', 'POOR_QUALITY', 'DAMAGED_PACKAGING', 'LATE_DELIVERY', 'OTHER');
+
+-- CreateEnum
+CREATE TYPE "OrderIssueStatus" AS ENUM ('OPEN', 'RESPONDED', 'RESOLVED');
+
+-- CreateEnum
+CREATE TYPE "OrderIssueResolution" AS ENUM ('REFUND', 'CREDIT', 'REJECTED');
+
+-- AlterTable
+ALTER TABLE "PromoCode" ADD COLUMN     "userId" TEXT;
+
+-- CreateTable
+CREATE TABLE "OrderIssue" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "restaurantId" TEXT NOT NULL,
+    "category" "OrderIssueCategory" NOT NULL,
+    "description" TEXT NOT NULL,
+    "status" "OrderIssueStatus" NOT NULL DEFAULT 'OPEN',
+    "restaurantResponse" TEXT,
+    "respondedAt" TIMESTAMP(3),
+    "resolution" "OrderIssueResolution",
+    "resolutionNote" TEXT,
+    "refundId" TEXT,
+    "creditPromoCodeId" TEXT,
+    "creditAmount" DECIMAL(65,30),
+    "resolvedById" TEXT,
+    "resolvedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "OrderIssue_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "OrderIssuePhoto" (
+    "id" TEXT NOT NULL,
+    "issueId" TEXT NOT NULL,
+    "imageUrl" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "OrderIssuePhoto_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "OrderIssueStatusHistory" (
+    "id" TEXT NOT NULL,
+    "issueId" TEXT NOT NULL,
+    "fromStatus" "OrderIssueStatus",
+    "status" "OrderIssueStatus" NOT NULL,
+    "note" TEXT,
+    "actionById" TEXT,
+    "actionByRole" "Role",
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "OrderIssueStatusHistory_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PromoCode_userId_idx" ON "PromoCode"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "OrderIssue_refundId_key" ON "OrderIssue"("refundId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "OrderIssue_creditPromoCodeId_key" ON "OrderIssue"("creditPromoCodeId");
+
+-- CreateIndex
+CREATE INDEX "OrderIssue_orderId_idx" ON "OrderIssue"("orderId");
+
+-- CreateIndex
+CREATE INDEX "OrderIssue_userId_idx" ON "OrderIssue"("userId");
+
+-- CreateIndex
+CREATE INDEX "OrderIssue_restaurantId_createdAt_idx" ON "OrderIssue"("restaurantId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "OrderIssue_status_idx" ON "OrderIssue"("status");
+
+-- CreateIndex
+CREATE INDEX "OrderIssuePhoto_issueId_idx" ON "OrderIssuePhoto"("issueId");
+
+-- CreateIndex
+CREATE INDEX "OrderIssueStatusHistory_issueId_createdAt_idx" ON "OrderIssueStatusHistory"("issueId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "PromoCode" ADD CONSTRAINT "PromoCode_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrderIssue" ADD CONSTRAINT "OrderIssue_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrderIssue" ADD CONSTRAINT "OrderIssue_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrderIssue" ADD CONSTRAINT "OrderIssue_restaurantId_fkey" FOREIGN KEY ("restaurantId") REFERENCES "Restaurant"("userId") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrderIssue" ADD CONSTRAINT "OrderIssue_refundId_fkey" FOREIGN KEY ("refundId") REFERENCES "Refund"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrderIssue" ADD CONSTRAINT "OrderIssue_creditPromoCodeId_fkey" FOREIGN KEY ("creditPromoCodeId") REFERENCES "PromoCode"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrderIssuePhoto" ADD CONSTRAINT "OrderIssuePhoto_issueId_fkey" FOREIGN KEY ("issueId") REFERENCES "OrderIssue"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrderIssueStatusHistory" ADD CONSTRAINT "OrderIssueStatusHistory_issueId_fkey" FOREIGN KEY ("issueId") REFERENCES "OrderIssue"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,23 @@
+-- CreateEnum
+CREATE TYPE "StripeEventSource" AS ENUM ('PAYMENTS', 'ACCOUNTS', 'SUBSCRIPTIONS');
+
+-- CreateEnum
+CREATE TYPE "StripeEventStatus" AS ENUM ('PROCESSING', 'PROCESSED', 'IGNORED', 'FAILED');
+
+-- AlterTable
+ALTER TABLE "StripeEvent" DROP CONSTRAINT "StripeEvent_pkey",
+ADD COLUMN     "source" "StripeEventSource" NOT NULL DEFAULT 'PAYMENTS',
+ADD COLUMN     "payload" JSONB,
+ADD COLUMN     "status" "StripeEventStatus" NOT NULL DEFAULT 'PROCESSED',
+ADD COLUMN     "error" TEXT,
+ADD COLUMN     "attempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "lastAttemptAt" TIMESTAMP(3),
+ADD COLUMN     "processedAt" TIMESTAMP(3),
+ADD COLUMN     "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+ADD CONSTRAINT "StripeEvent_pkey" PRIMARY KEY ("id", "source");
+
+-- CreateIndex
+CREATE INDEX "StripeEvent_status_createdAt_idx" ON "StripeEvent"("status", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "StripeEvent_type_idx" ON "StripeEvent"("type");
@@ -0,0 +1,5 @@
+-- DropIndex
+DROP INDEX "Order_orderNumber_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Order_restaurantId_orderNumber_key" ON "Order"("restaurantId", "orderNumber");
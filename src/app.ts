@@ -9,8 +9,10 @@ import { attachAuth } from "./middlewares/attach-auth.middleware";
 import orderPaymentRoutes from "./modules/payments/order-payment/orderpayment.routes";
 import { stripeWebhookHandler } from "./modules/payments/stripe-webhooks/stripe.webhook";
 import { handleStripeAccountWebhook } from "./modules/payments/stripe-webhooks/accountstatus.webhook";
+import { connectFakeProviderWebhooks } from "./modules/payments/stripe-webhooks/stripe-event-processors";
 import { subscriptionWebhookHandler } from "./modules/restaurant/subscription/subscriptionWebhook";
 import restaurantConnectRoutes from "./modules/payments/restaurant-connect-account/restaurantconnect.routes";
+import scheduledOrderRoutes from "./modules/orders/scheduled-order.routes";
 
 const app = express();
 
@@ -19,7 +21,7 @@ app.use(
     origin: true,
     credentials: true,
     methods: ["GET", "POST", "PUT", "PATCH", "DELETE", "OPTIONS"],
-    allowedHeaders: ["Content-Type", "Authorization"],
+    allowedHeaders: ["Content-Type", "Authorization", "Idempotency-Key"],
   })
 );
 
@@ -41,6 +43,9 @@ app.post(
     subscriptionWebhookHandler
   );
 
+// With PAYMENT_PROVIDER=fake, payment events are delivered in-process instead of through the endpoints above
+connectFakeProviderWebhooks();
+
 app.use(express.json());
 app.use(cookieParser());
 
@@ -53,6 +58,9 @@ app.use(attachAuth);
 // Restaurant connect routes (requires auth)
 app.use("/api/payments/stripe", restaurantConnectRoutes);
 
+// Cron jobs authenticate with CRON_SECRET instead of a session, so they are mounted before the authenticated API routes
+app.use("/api/cron", scheduledOrderRoutes);
+
 // Serve static files from uploads directory
 app.use("/uploads", express.static(path.join(process.cwd(), "uploads")));
 
@@ -108,7 +116,7 @@ app.use(
     origin: true,
     credentials: true,
     methods: ["GET", "POST", "PUT", "PATCH", "DELETE", "OPTIONS"],
-    allowedHeaders: ["Content-Type", "Authorization"],
+    allowedHeaders: ["Content-Type", "Authorization", "Idempotency-Key"],
   })
 );
 
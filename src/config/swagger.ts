@@ -150,6 +150,9 @@ const swaggerDefinition = {
                                                     location: { type: "string", nullable: true },
                                                     isFavorite: { type: "boolean" },
                                                     cuisine: { type: "string", nullable: true },
+                                                    isOpenNow: { type: "boolean" },
+                                                    opensAt: { type: "string", format: "date-time", nullable: true },
+                                                    closesAt: { type: "string", format: "date-time", nullable: true },
                                                 }
                                             }
                                         }
@@ -610,6 +613,16 @@ const swaggerDefinition = {
                         description: "City ID",
                         example: "123e4567-e89b-12d3-a456-426614174000",
                     },
+                    timezone: {
+                        type: "string",
+                        description: "IANA timezone used for restaurant opening hours",
+                        example: "America/Chicago",
+                    },
+                    preOrderLeadMinutes: {
+                        type: "integer",
+                        description: "Minutes before the scheduled time a pre-order is sent to the restaurant",
+                        example: 30,
+                    },
                     createdAt: {
                         type: "string",
                         format: "date-time",
@@ -879,6 +892,38 @@ const swaggerDefinition = {
                     updatedAt: { type: "string", format: "date-time" },
                 },
             },
+            SpecialBusinessDay: {
+                type: "object",
+                description: "Date-specific hours of a restaurant, replacing the weekly hours on that date",
+                properties: {
+                    date: { type: "string", format: "date", example: "2026-12-31" },
+                    isClosed: { type: "boolean" },
+                    note: { type: "string", nullable: true, example: "New Year's Eve" },
+                    timeSlots: {
+                        type: "array",
+                        items: {
+                            type: "object",
+                            properties: {
+                                slotType: { type: "string", enum: ["OPEN","BREAK"] },
+                                openTime: { type: "string", example: "10:00" },
+                                closeTime: { type: "string", example: "00:00" },
+                            },
+                        },
+                    },
+                },
+            },
+            MallClosure: {
+                type: "object",
+                description: "Mall-wide closure; no restaurant of the mall takes orders from startDate to endDate (inclusive)",
+                properties: {
+                    id: { type: "string" },
+                    mallId: { type: "string" },
+                    startDate: { type: "string", format: "date", example: "2026-12-25" },
+                    endDate: { type: "string", format: "date", example: "2026-12-26" },
+                    reason: { type: "string", nullable: true, example: "Christmas" },
+                    createdAt: { type: "string", format: "date-time" },
+                },
+            },
             // Input schema used by dist routes: '#/components/schemas/BusinessHoursInput'
             BusinessHoursInput: {
                 type: "object",
@@ -1039,6 +1084,30 @@ const swaggerDefinition = {
                         description: "Image URL (optional, if not uploading a file). Can also be uploaded as a file using multipart/form-data with field name 'image'.",
                         example: "https://example.com/spring-rolls.jpg",
                     },
+                    isAvailable: {
+                        type: "boolean",
+                        description: "Sold-out toggle; false hides the item from ordering (optional)",
+                        example: true,
+                    },
+                    dailyStock: {
+                        type: "integer",
+                        minimum: 0,
+                        nullable: true,
+                        description: "Portions that can be sold per day (null = unlimited) (optional)",
+                        example: 50,
+                    },
+                    availableFrom: {
+                        type: "string",
+                        nullable: true,
+                        description: "Start of the daily serving window (HH:mm, mall time) (optional)",
+                        example: "06:00",
+                    },
+                    availableUntil: {
+                        type: "string",
+                        nullable: true,
+                        description: "End of the daily serving window (HH:mm, mall time) (optional)",
+                        example: "11:00",
+                    },
                 },
             },
             UpdateMenuItemRequest: {
@@ -1071,6 +1140,30 @@ const swaggerDefinition = {
                         description: "Image URL (optional, if not uploading a file). Can also be uploaded as a file using multipart/form-data with field name 'image'.",
                         example: "https://example.com/updated-spring-rolls.jpg",
                     },
+                    isAvailable: {
+                        type: "boolean",
+                        description: "Sold-out toggle; false hides the item from ordering (optional)",
+                        example: true,
+                    },
+                    dailyStock: {
+                        type: "integer",
+                        minimum: 0,
+                        nullable: true,
+                        description: "Portions that can be sold per day (null = unlimited) (optional)",
+                        example: 50,
+                    },
+                    availableFrom: {
+                        type: "string",
+                        nullable: true,
+                        description: "Start of the daily serving window (HH:mm, mall time) (optional)",
+                        example: "06:00",
+                    },
+                    availableUntil: {
+                        type: "string",
+                        nullable: true,
+                        description: "End of the daily serving window (HH:mm, mall time) (optional)",
+                        example: "11:00",
+                    },
                 },
             },
             MenuItem: {
@@ -1115,6 +1208,48 @@ const swaggerDefinition = {
                         description: "Menu category ID",
                         example: "123e4567-e89b-12d3-a456-426614174000",
                     },
+                    isAvailable: {
+                        type: "boolean",
+                        description: "Sold-out toggle; false hides the item from ordering",
+                        example: true,
+                    },
+                    dailyStock: {
+                        type: "integer",
+                        minimum: 0,
+                        nullable: true,
+                        description: "Portions that can be sold per day (null = unlimited)",
+                        example: 50,
+                    },
+                    availableFrom: {
+                        type: "string",
+                        nullable: true,
+                        description: "Start of the daily serving window (HH:mm, mall time)",
+                        example: "06:00",
+                    },
+                    availableUntil: {
+                        type: "string",
+                        nullable: true,
+                        description: "End of the daily serving window (HH:mm, mall time)",
+                        example: "11:00",
+                    },
+                    isAvailableNow: {
+                        type: "boolean",
+                        description: "Whether the item can be ordered right now",
+                        example: true,
+                    },
+                    unavailableReason: {
+                        type: "string",
+                        enum: ["SOLD_OUT", "OUTSIDE_HOURS"],
+                        nullable: true,
+                        description: "Why the item cannot be ordered right now",
+                        example: null,
+                    },
+                    stockRemaining: {
+                        type: "integer",
+                        nullable: true,
+                        description: "Portions left today (null = unlimited)",
+                        example: 12,
+                    },
                     createdAt: {
                         type: "string",
                         format: "date-time",
@@ -1332,6 +1467,48 @@ const swaggerDefinition = {
                         description: "Estimated preparation time",
                         example: "15-20 minutes",
                     },
+                    isAvailable: {
+                        type: "boolean",
+                        description: "Sold-out toggle; false hides the item from ordering",
+                        example: true,
+                    },
+                    dailyStock: {
+                        type: "integer",
+                        minimum: 0,
+                        nullable: true,
+                        description: "Portions that can be sold per day (null = unlimited)",
+                        example: 50,
+                    },
+                    availableFrom: {
+                        type: "string",
+                        nullable: true,
+                        description: "Start of the daily serving window (HH:mm, mall time)",
+                        example: "06:00",
+                    },
+                    availableUntil: {
+                        type: "string",
+                        nullable: true,
+                        description: "End of the daily serving window (HH:mm, mall time)",
+                        example: "11:00",
+                    },
+                    isAvailableNow: {
+                        type: "boolean",
+                        description: "Whether the item can be ordered right now",
+                        example: true,
+                    },
+                    unavailableReason: {
+                        type: "string",
+                        enum: ["SOLD_OUT", "OUTSIDE_HOURS"],
+                        nullable: true,
+                        description: "Why the item cannot be ordered right now",
+                        example: null,
+                    },
+                    stockRemaining: {
+                        type: "integer",
+                        nullable: true,
+                        description: "Portions left today (null = unlimited)",
+                        example: 12,
+                    },
                     category: {
                         type: "object",
                         description: "Category information",
@@ -1495,6 +1672,11 @@ const swaggerDefinition = {
                         default: 0,
                         description: "Display order",
                     },
+                    isAvailable: {
+                        type: "boolean",
+                        description: "Whether the option can be ordered (optional, defaults to true)",
+                        example: true,
+                    },
                 },
             },
             UpdateVariationOptionRequest: {
@@ -1515,6 +1697,11 @@ const swaggerDefinition = {
                         type: "integer",
                         description: "Display order",
                     },
+                    isAvailable: {
+                        type: "boolean",
+                        description: "Switch off when the option runs out (e.g. no large size today)",
+                        example: true,
+                    },
                 },
             },
             VariationOption: {
@@ -1544,6 +1731,11 @@ const swaggerDefinition = {
                         type: "integer",
                         description: "Display order",
                     },
+                    isAvailable: {
+                        type: "boolean",
+                        description: "Whether the option can be ordered right now",
+                        example: true,
+                    },
                     createdAt: {
                         type: "string",
                         format: "date-time",
@@ -1683,6 +1875,11 @@ const swaggerDefinition = {
                         default: 0,
                         description: "Display order",
                     },
+                    isAvailable: {
+                        type: "boolean",
+                        description: "Whether the option can be ordered (optional, defaults to true)",
+                        example: true,
+                    },
                 },
             },
             UpdateAddOnOptionRequest: {
@@ -1703,6 +1900,11 @@ const swaggerDefinition = {
                         type: "integer",
                         description: "Display order",
                     },
+                    isAvailable: {
+                        type: "boolean",
+                        description: "Switch off when the option runs out",
+                        example: true,
+                    },
                 },
             },
             AddOnOption: {
@@ -1732,6 +1934,11 @@ const swaggerDefinition = {
                         type: "integer",
                         description: "Display order",
                     },
+                    isAvailable: {
+                        type: "boolean",
+                        description: "Whether the option can be ordered right now",
+                        example: true,
+                    },
                     createdAt: {
                         type: "string",
                         format: "date-time",
@@ -1863,6 +2070,12 @@ const swaggerDefinition = {
                         description: "Special notes",
                         example: "Extra spicy",
                     },
+                    unitPrice: {
+                        type: "number",
+                        nullable: true,
+                        description: "Unit price (item + options, before promotions) when the item was added; null for items added before prices were kept",
+                        example: 9.49,
+                    },
                     menuItem: {
                         type: "object",
                         description: "Menu item details",
@@ -1931,6 +2144,170 @@ const swaggerDefinition = {
                             },
                         },
                     },
+                    priceChanges: {
+                        $ref: "#/components/schemas/PriceChanges",
+                    },
+                },
+            },
+            PriceChanges: {
+                type: "object",
+                description: "Differences between the prices items were added (or ordered) at and today's prices",
+                properties: {
+                    pricesChanged: {
+                        type: "boolean",
+                        description: "Whether any item price changed",
+                        example: true,
+                    },
+                    oldTotal: {
+                        type: "number",
+                        description: "Items total at the earlier prices (before promotions, discounts, tax and fees)",
+                        example: 18.98,
+                    },
+                    newTotal: {
+                        type: "number",
+                        description: "Items total at today's prices",
+                        example: 20.98,
+                    },
+                    changes: {
+                        type: "array",
+                        description: "Items whose unit price changed",
+                        items: {
+                            type: "object",
+                            properties: {
+                                menuItemId: { type: "string" },
+                                itemName: { type: "string", example: "Spring Rolls" },
+                                quantity: { type: "integer", example: 2 },
+                                oldUnitPrice: { type: "number", example: 8.99 },
+                                newUnitPrice: { type: "number", example: 9.99 },
+                            },
+                        },
+                    },
+                },
+            },
+            Refund: {
+                type: "object",
+                description: "One refund of an order, stored in the order's refund ledger",
+                properties: {
+                    id: { type: "string", format: "uuid" },
+                    amount: { type: "number", description: "Refunded amount (currency units, like order totals)", example: 5 },
+                    reason: { type: "string", nullable: true, example: "Missing side dish" },
+                    status: { type: "string", enum: ["PENDING", "SUCCEEDED", "FAILED", "CANCELED"] },
+                    stripeRefundId: { type: "string", nullable: true, description: "Null for COD refunds", example: "re_3ABC123def456GHI" },
+                    initiatedById: { type: "string", nullable: true, description: "Null for refunds made outside the app (e.g. the Stripe dashboard)" },
+                    initiatedByRole: { type: "string", enum: ["USER", "ADMIN", "RESTAURANT"], nullable: true },
+                    deliveryFeeAmount: { type: "number", description: "Part of an item-level refund refunding the delivery fee", example: 0 },
+                    taxAmount: { type: "number", description: "Part of an item-level refund refunding tax", example: 0.95 },
+                    items: {
+                        type: "array",
+                        description: "Refunded order items (item-level refunds only)",
+                        items: {
+                            type: "object",
+                            properties: {
+                                orderItemId: { type: "string", format: "uuid" },
+                                quantity: { type: "integer", example: 1 },
+                                amount: { type: "number", example: 4.05 },
+                                orderItem: { type: "object", properties: { itemName: { type: "string", example: "Iced Latte" } } },
+                            },
+                        },
+                    },
+                    createdAt: { type: "string", format: "date-time" },
+                    updatedAt: { type: "string", format: "date-time" },
+                },
+            },
+            StripeEvent: {
+                type: "object",
+                description: "Stripe webhook event as received by one of the webhook endpoints, with its processing outcome",
+                properties: {
+                    id: { type: "string", example: "evt_1QXyZ2AbCdEfGhIj" },
+                    source: { type: "string", enum: ["PAYMENTS", "ACCOUNTS", "SUBSCRIPTIONS"], description: "Webhook endpoint that received the event" },
+                    type: { type: "string", example: "payment_intent.succeeded" },
+                    payload: { type: "object", nullable: true, description: "Event as sent by Stripe (only returned for a single event)" },
+                    status: { type: "string", enum: ["PROCESSING", "PROCESSED", "IGNORED", "FAILED"] },
+                    error: { type: "string", nullable: true, example: "Order 123e4567-e89b-12d3-a456-426614174000 not found" },
+                    attempts: { type: "integer", example: 1 },
+                    lastAttemptAt: { type: "string", format: "date-time", nullable: true },
+                    processedAt: { type: "string", format: "date-time", nullable: true },
+                    createdAt: { type: "string", format: "date-time" },
+                    updatedAt: { type: "string", format: "date-time" },
+                },
+            },
+            OrderIssue: {
+                type: "object",
+                description: "Problem reported by a customer about a delivered order",
+                properties: {
+                    id: { type: "string", format: "uuid" },
+                    orderId: { type: "string", format: "uuid" },
+                    userId: { type: "string" },
+                    restaurantId: { type: "string" },
+                    category: { type: "string", enum: ["MISSING_ITEM", "WRONG_ITEM", "COLD_FOOD", "POOR_QUALITY", "DAMAGED_PACKAGING", "LATE_DELIVERY", "OTHER"] },
+                    description: { type: "string", example: "The fries were missing from my order" },
+                    status: { type: "string", enum: ["OPEN", "RESPONDED", "RESOLVED"] },
+                    restaurantResponse: { type: "string", nullable: true },
+                    respondedAt: { type: "string", format: "date-time", nullable: true },
+                    resolution: { type: "string", enum: ["REFUND", "CREDIT", "REJECTED"], nullable: true },
+                    resolutionNote: { type: "string", nullable: true },
+                    refundId: { type: "string", nullable: true, description: "Refund granted (REFUND)" },
+                    creditPromoCodeId: { type: "string", nullable: true, description: "Personal promo code granted (CREDIT)" },
+                    creditAmount: { type: "number", nullable: true, example: 5 },
+                    resolvedById: { type: "string", nullable: true },
+                    resolvedAt: { type: "string", format: "date-time", nullable: true },
+                    createdAt: { type: "string", format: "date-time" },
+                    updatedAt: { type: "string", format: "date-time" },
+                    photos: {
+                        type: "array",
+                        items: {
+                            type: "object",
+                            properties: {
+                                id: { type: "string" },
+                                imageUrl: { type: "string", example: "/uploads/order-issues/photo-1700000000000-123456789.jpg" },
+                            },
+                        },
+                    },
+                    statusHistory: {
+                        type: "array",
+                        description: "Status changes, oldest first (detail only)",
+                        items: {
+                            type: "object",
+                            properties: {
+                                fromStatus: { type: "string", nullable: true },
+                                status: { type: "string" },
+                                note: { type: "string", nullable: true },
+                                actionById: { type: "string", nullable: true },
+                                actionByRole: { type: "string", nullable: true },
+                                createdAt: { type: "string", format: "date-time" },
+                            },
+                        },
+                    },
+                    refund: { nullable: true, allOf: [{ $ref: "#/components/schemas/Refund" }] },
+                    creditPromoCode: {
+                        type: "object",
+                        nullable: true,
+                        properties: {
+                            id: { type: "string" },
+                            code: { type: "string", example: "CREDIT-9F2A61C0" },
+                            fixedDiscountAmount: { type: "number", example: 5 },
+                            endDate: { type: "string", format: "date-time" },
+                        },
+                    },
+                },
+            },
+            OrderGroup: {
+                type: "object",
+                description: "Checkout of a cart with items from several restaurants of a mall: one payment, one order per restaurant",
+                properties: {
+                    id: { type: "string", format: "uuid" },
+                    userId: { type: "string" },
+                    total: { type: "number", description: "Sum of the order totals, paid at once", example: 42.5 },
+                    paymentMethod: { type: "string", enum: ["CASH", "CARD"] },
+                    paymentStatus: { type: "string", enum: ["PENDING", "PAID", "FAILED", "PARTIALLY_REFUNDED", "REFUNDED"] },
+                    paidAt: { type: "string", format: "date-time", nullable: true },
+                    createdAt: { type: "string", format: "date-time" },
+                    updatedAt: { type: "string", format: "date-time" },
+                    orders: {
+                        type: "array",
+                        description: "One order per restaurant, each with its own order number, tax and share of the delivery fee",
+                        items: { type: "object" },
+                    },
                 },
             },
             ClearCartRequest: {
@@ -2116,6 +2493,12 @@ const swaggerDefinition = {
                         nullable: true,
                         description: "Special notes",
                     },
+                    unitPrice: {
+                        type: "number",
+                        nullable: true,
+                        description: "Unit price (item + options, before promotions) when the item was saved; null for items saved before prices were kept",
+                        example: 9.49,
+                    },
                     createdAt: {
                         type: "string",
                         format: "date-time",
@@ -2405,9 +2788,21 @@ const swaggerDefinition = {
                         type: "string",
                         description: "Restaurant ID",
                     },
+                    fulfilmentType: {
+                        type: "string",
+                        enum: ["DELIVERY", "PICKUP", "DINE_IN"],
+                        description: "How the customer gets the order",
+                        example: "DELIVERY",
+                    },
                     deliveryAddressId: {
                         type: "string",
-                        description: "Delivery address ID",
+                        nullable: true,
+                        description: "Delivery address ID (DELIVERY orders only)",
+                    },
+                    tableNumber: {
+                        type: "string",
+                        nullable: true,
+                        description: "Table or seat number (DINE_IN orders only)",
                     },
                     subtotal: {
                         type: "number",
@@ -2442,10 +2837,17 @@ const swaggerDefinition = {
                     },
                     status: {
                         type: "string",
-                        enum: ["PENDING", "ACCEPTED", "PREPARING", "READY", "OUT_FOR_DELIVERY", "DELIVERED", "CANCELLED"],
+                        enum: ["SCHEDULED", "PENDING", "ACCEPTED", "PREPARING", "READY", "OUT_FOR_DELIVERY", "DELIVERED", "CANCELLED"],
                         description: "Order status",
                         example: "PENDING",
                     },
+                    scheduledFor: {
+                        type: "string",
+                        format: "date-time",
+                        nullable: true,
+                        description: "Time a scheduled pre-order is placed for (null for immediate orders)",
+                        example: "2026-10-20T18:30:00.000Z",
+                    },
                     estimatedDeliveryTime: {
                         type: "string",
                         nullable: true,
@@ -2540,7 +2942,7 @@ const swaggerDefinition = {
             },
             CheckoutRequest: {
                 type: "object",
-                required: ["userId", "deliveryAddressId", "paymentMethod"],
+                required: ["userId", "paymentMethod"],
                 description: "Request to create an order from cart",
                 properties: {
                     userId: {
@@ -2548,12 +2950,24 @@ const swaggerDefinition = {
                         description: "User ID",
                         example: "123e4567-e89b-12d3-a456-426614174000",
                     },
+                    fulfilmentType: {
+                        type: "string",
+                        enum: ["DELIVERY", "PICKUP", "DINE_IN"],
+                        default: "DELIVERY",
+                        description: "How the customer gets the order",
+                        example: "DELIVERY",
+                    },
                     deliveryAddressId: {
                         type: "string",
                         format: "uuid",
-                        description: "Delivery address ID",
+                        description: "Delivery address ID (required for DELIVERY orders)",
                         example: "123e4567-e89b-12d3-a456-426614174000",
                     },
+                    tableNumber: {
+                        type: "string",
+                        description: "Table or seat number (required for DINE_IN orders)",
+                        example: "B12",
+                    },
                     paymentMethod: {
                         type: "string",
                         enum: ["CASH", "CARD", "WALLET", "ONLINE"],
@@ -2634,7 +3048,7 @@ const swaggerDefinition = {
                     },
                     currentStatus: {
                         type: "string",
-                        enum: ["PENDING", "ACCEPTED", "PREPARING", "READY", "OUT_FOR_DELIVERY", "DELIVERED", "CANCELLED"],
+                        enum: ["SCHEDULED", "PENDING", "ACCEPTED", "PREPARING", "READY", "OUT_FOR_DELIVERY", "DELIVERED", "CANCELLED"],
                         description: "Current order status",
                     },
                     statusHistory: {
@@ -2965,6 +3379,10 @@ const swaggerDefinition = {
             name: "Analytics",
             description: "Analytics and statistics endpoints",
         },
+        {
+            name: "Order Issues",
+            description: "Customer complaints about delivered orders and their resolution",
+        },
         {
             name: "Promotions",
             description: "Restaurant promotion management endpoints",
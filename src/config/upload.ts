@@ -11,6 +11,7 @@ const uploadDirs = {
   restaurantGallery: path.join(process.cwd(), "uploads", "restaurants", "gallery"),
   promotions: path.join(process.cwd(), "uploads", "promotions"),
   malls: path.join(process.cwd(), "uploads", "malls"),
+  orderIssues: path.join(process.cwd(), "uploads", "order-issues"),
 };
 
 // Ensure all upload directories exist
@@ -97,6 +98,12 @@ export const uploadMallImage = multer({
   ...multerOptions,
 });
 
+// Photos attached to order issues (missing items, cold food, ...)
+export const uploadOrderIssuePhotos = multer({
+  storage: createStorage(uploadDirs.orderIssues),
+  ...multerOptions,
+});
+
 // Promotion banner upload (2MB limit, PNG/JPEG only)
 export const uploadPromotionBanner = multer({
   storage: createStorage(uploadDirs.promotions),
@@ -131,6 +138,10 @@ export const getMallImageUrl = (filename: string): string => {
   return `/uploads/malls/${filename}`;
 };
 
+export const getOrderIssuePhotoUrl = (filename: string): string => {
+  return `/uploads/order-issues/${filename}`;
+};
+
 export const getPromotionBannerUrl = (filename: string): string => {
   return `/uploads/promotions/${filename}`;
 };
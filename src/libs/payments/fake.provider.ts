@@ -0,0 +1,662 @@
+/**
+ * Fake Payment Provider
+ *
+ * In-memory payment provider for local development and integration tests. It keeps payment intents, charges,
+ * refunds, transfers, customers, Connect accounts and subscriptions in memory and emits the webhook events
+ * Stripe would send, in Stripe's event format, to the registered listeners (see `connectFakeProviderWebhooks`).
+ *
+ * What the customer or restaurant does on Stripe's side (paying, finishing onboarding) is simulated with the
+ * control methods: `completePayment`, `failPayment`, `completeAccountOnboarding`, `failInvoicePayment`.
+ * Events are delivered asynchronously, after the call that caused them returns; `flushEvents` waits for them.
+ *
+ * @module libs/payments/fake.provider
+ */
+
+import { createHmac, randomBytes } from "node:crypto";
+import type {
+  ConnectAccount,
+  PaymentIntent,
+  PaymentMethod,
+  PaymentProvider,
+  Refund,
+  RefundStatus,
+  Subscription,
+  Transfer,
+  WebhookEndpoint,
+  WebhookEvent,
+} from "./payment-provider";
+
+export type WebhookListener = (endpoint: WebhookEndpoint, event: WebhookEvent) => Promise<unknown> | unknown;
+
+export interface FakePaymentProvider extends PaymentProvider {
+  // Receives every emitted event, like a webhook endpoint
+  onWebhookEvent(listener: WebhookListener): void;
+  // Resolves once all emitted events have been delivered
+  flushEvents(): Promise<void>;
+  emittedEvents(): { endpoint: WebhookEndpoint; event: WebhookEvent }[];
+
+  // The customer pays (or fails to pay) a payment intent
+  completePayment(paymentIntentId: string): Promise<PaymentIntent>;
+  failPayment(paymentIntentId: string, message?: string): Promise<PaymentIntent>;
+  // The restaurant finishes Connect onboarding: charges, payouts and a bank account are enabled
+  completeAccountOnboarding(accountId: string): Promise<ConnectAccount>;
+  // The payment of a subscription's open invoice fails
+  failInvoicePayment(subscriptionId: string): Promise<void>;
+
+  // Clears all state, emitted events and listeners
+  reset(): void;
+}
+
+interface FakeCharge {
+  id: string;
+  paymentIntentId: string;
+  amount: number;
+  currency: string;
+  refunds: (Refund & { status: RefundStatus })[];
+}
+
+interface FakePaymentIntent extends PaymentIntent {
+  customerId: string;
+  transferGroup: string | null;
+  destinationAccountId: string | null;
+  lastPaymentError: string | null;
+}
+
+interface FakeTransfer extends Transfer {
+  currency: string;
+  destinationAccountId: string;
+  sourceChargeId: string;
+  transferGroup: string;
+  metadata: Record<string, string>;
+}
+
+interface FakeSubscription extends Subscription {
+  customerId: string;
+  priceId: string;
+  metadata: Record<string, string>;
+  defaultPaymentMethodId: string | null;
+  // Invoice waiting to be paid, with its payment intent
+  openInvoice: { id: string; paymentIntentId: string } | null;
+}
+
+// Signature expected by the fake provider's webhook endpoints: hex HMAC-SHA256 of the raw body
+export function signFakeWebhookPayload(payload: Buffer | string, secret: string) {
+  return createHmac("sha256", secret).update(payload).digest("hex");
+}
+
+function newId(prefix: string) {
+  return `${prefix}_fake_${randomBytes(12).toString("hex")}`;
+}
+
+function toUnixSeconds(date: Date) {
+  return Math.floor(date.getTime() / 1000);
+}
+
+function copy<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
+
+export function createFakePaymentProvider(): FakePaymentProvider {
+  const paymentIntents = new Map<string, FakePaymentIntent>();
+  const charges = new Map<string, FakeCharge>();
+  const transfers = new Map<string, FakeTransfer>();
+  const customers = new Map<string, { id: string; defaultPaymentMethodId: string | null }>();
+  const paymentMethods = new Map<string, PaymentMethod & { customerId: string | null }>();
+  const accounts = new Map<string, ConnectAccount>();
+  const prices = new Map<string, { id: string; unitAmount: number; currency: string; interval: "month" | "year" }>();
+  const subscriptions = new Map<string, FakeSubscription>();
+  // Results of calls made with an idempotency key, returned again for the same key
+  const idempotentResults = new Map<string, unknown>();
+
+  let listeners: WebhookListener[] = [];
+  let emitted: { endpoint: WebhookEndpoint; event: WebhookEvent }[] = [];
+  let delivery: Promise<void> = Promise.resolve();
+
+  function find<T>(map: Map<string, T>, id: string, resource: string): T {
+    const value = map.get(id);
+    if (!value) {
+      throw new Error(`No such ${resource}: '${id}'`);
+    }
+    return value;
+  }
+
+  async function idempotent<T>(key: string, create: () => T): Promise<T> {
+    if (!idempotentResults.has(key)) {
+      idempotentResults.set(key, create());
+    }
+    return copy(idempotentResults.get(key) as T);
+  }
+
+  /* ---------------- WEBHOOK EVENTS ---------------- */
+
+  function emit(endpoint: WebhookEndpoint, type: string, object: Record<string, unknown>) {
+    const event = {
+      id: newId("evt"),
+      object: "event",
+      api_version: "2025-12-15.clover",
+      created: toUnixSeconds(new Date()),
+      livemode: false,
+      pending_webhooks: listeners.length,
+      request: { id: null, idempotency_key: null },
+      type,
+      // Snapshot of the object when the event happened
+      data: { object: copy(object) },
+    } as unknown as WebhookEvent;
+    emitted.push({ endpoint, event });
+
+    // Delivered after the current call returns, like Stripe's asynchronous webhooks
+    delivery = delivery
+      .then(() => new Promise<void>((resolve) => setImmediate(resolve)))
+      .then(async () => {
+        for (const listener of listeners) {
+          try {
+            await listener(endpoint, event);
+          } catch (error: any) {
+            console.error(`[FakePayments] Webhook delivery failed: ${type}`, {
+              eventId: event.id,
+              endpoint,
+              error: error.message,
+            });
+          }
+        }
+      });
+  }
+
+  // Stripe-shaped objects carried by the events
+  function paymentIntentObject(intent: FakePaymentIntent) {
+    return {
+      id: intent.id,
+      object: "payment_intent",
+      amount: intent.amount,
+      currency: intent.currency,
+      status: intent.status,
+      client_secret: intent.clientSecret,
+      customer: intent.customerId,
+      metadata: intent.metadata,
+      latest_charge: intent.chargeId,
+      transfer_group: intent.transferGroup,
+      transfer_data: intent.destinationAccountId ? { destination: intent.destinationAccountId } : null,
+      last_payment_error: intent.lastPaymentError ? { message: intent.lastPaymentError } : null,
+    };
+  }
+
+  function refundObject(refund: Refund, charge: FakeCharge) {
+    return {
+      id: refund.id,
+      object: "refund",
+      amount: refund.amount,
+      currency: charge.currency,
+      status: refund.status,
+      reason: refund.reason,
+      metadata: refund.metadata,
+      charge: charge.id,
+      payment_intent: charge.paymentIntentId,
+    };
+  }
+
+  function chargeObject(charge: FakeCharge) {
+    const amountRefunded = refundedAmount(charge);
+    return {
+      id: charge.id,
+      object: "charge",
+      amount: charge.amount,
+      amount_refunded: amountRefunded,
+      currency: charge.currency,
+      paid: true,
+      refunded: amountRefunded >= charge.amount,
+      payment_intent: charge.paymentIntentId,
+      refunds: { object: "list", data: charge.refunds.map((refund) => refundObject(refund, charge)) },
+    };
+  }
+
+  function accountObject(account: ConnectAccount) {
+    return {
+      id: account.id,
+      object: "account",
+      charges_enabled: account.chargesEnabled,
+      payouts_enabled: account.payoutsEnabled,
+      details_submitted: account.detailsSubmitted,
+      requirements: {
+        currently_due: account.currentlyDue,
+        disabled_reason: account.disabledReason,
+      },
+      external_accounts: {
+        object: "list",
+        data: account.bankAccountAdded ? [{ id: `ba_fake_${account.id}`, object: "bank_account" }] : [],
+      },
+    };
+  }
+
+  function subscriptionObject(subscription: FakeSubscription) {
+    const currentPeriodEnd = subscription.currentPeriodEnd ? toUnixSeconds(subscription.currentPeriodEnd) : null;
+    return {
+      id: subscription.id,
+      object: "subscription",
+      status: subscription.status,
+      customer: subscription.customerId,
+      metadata: subscription.metadata,
+      default_payment_method: subscription.defaultPaymentMethodId,
+      current_period_end: currentPeriodEnd,
+      items: {
+        object: "list",
+        data: [{ id: `si_fake_${subscription.id}`, price: { id: subscription.priceId }, current_period_end: currentPeriodEnd }],
+      },
+    };
+  }
+
+  function invoiceObject(subscription: FakeSubscription, invoiceId: string, status: string) {
+    const price = prices.get(subscription.priceId);
+    return {
+      id: invoiceId,
+      object: "invoice",
+      status,
+      customer: subscription.customerId,
+      // Not expanded, like in Stripe's events
+      subscription: subscription.id,
+      amount_due: price?.unitAmount ?? 0,
+      currency: price?.currency ?? "usd",
+    };
+  }
+
+  /* ---------------- HELPERS ---------------- */
+
+  function refundedAmount(charge: FakeCharge) {
+    return charge.refunds
+      .filter((refund) => refund.status === "succeeded" || refund.status === "pending")
+      .reduce((sum, refund) => sum + refund.amount, 0);
+  }
+
+  function createIntent(input: {
+    amount: number;
+    currency: string;
+    customerId: string;
+    metadata: Record<string, string>;
+    transferGroup?: string | undefined;
+    destinationAccountId?: string | undefined;
+  }): FakePaymentIntent {
+    if (!customers.has(input.customerId)) {
+      throw new Error(`No such customer: '${input.customerId}'`);
+    }
+
+    const id = newId("pi");
+    const intent: FakePaymentIntent = {
+      id,
+      amount: input.amount,
+      currency: input.currency,
+      status: "requires_payment_method",
+      clientSecret: `${id}_secret_${randomBytes(8).toString("hex")}`,
+      chargeId: null,
+      metadata: input.metadata,
+      customerId: input.customerId,
+      transferGroup: input.transferGroup ?? null,
+      destinationAccountId: input.destinationAccountId ?? null,
+      lastPaymentError: null,
+    };
+    paymentIntents.set(id, intent);
+    return intent;
+  }
+
+  function toPaymentIntent(intent: FakePaymentIntent): PaymentIntent {
+    return copy({
+      id: intent.id,
+      amount: intent.amount,
+      currency: intent.currency,
+      status: intent.status,
+      clientSecret: intent.clientSecret,
+      chargeId: intent.chargeId,
+      metadata: intent.metadata,
+    });
+  }
+
+  function toSubscription(subscription: FakeSubscription): Subscription {
+    const openIntent = subscription.openInvoice ? paymentIntents.get(subscription.openInvoice.paymentIntentId) : undefined;
+    return {
+      id: subscription.id,
+      status: subscription.status,
+      currentPeriodEnd: subscription.currentPeriodEnd ? new Date(subscription.currentPeriodEnd) : null,
+      clientSecret: openIntent?.clientSecret ?? null,
+    };
+  }
+
+  // Pays the open invoice of a subscription and starts a new billing period
+  function payInvoice(subscription: FakeSubscription) {
+    if (!subscription.openInvoice) {
+      return;
+    }
+
+    const invoiceId = subscription.openInvoice.id;
+    const intent = find(paymentIntents, subscription.openInvoice.paymentIntentId, "payment_intent");
+    const chargeId = newId("ch");
+    charges.set(chargeId, { id: chargeId, paymentIntentId: intent.id, amount: intent.amount, currency: intent.currency, refunds: [] });
+    intent.status = "succeeded";
+    intent.chargeId = chargeId;
+
+    const interval = prices.get(subscription.priceId)?.interval ?? "month";
+    const periodEnd = new Date();
+    if (interval === "year") {
+      periodEnd.setFullYear(periodEnd.getFullYear() + 1);
+    } else {
+      periodEnd.setMonth(periodEnd.getMonth() + 1);
+    }
+    subscription.status = "active";
+    subscription.currentPeriodEnd = periodEnd;
+    subscription.openInvoice = null;
+
+    emit("SUBSCRIPTIONS", "invoice.payment_succeeded", invoiceObject(subscription, invoiceId, "paid"));
+  }
+
+  const provider: FakePaymentProvider = {
+    name: "fake",
+
+    /* ---------------- PAYMENTS ---------------- */
+
+    async createPaymentIntent(input) {
+      return idempotent(input.idempotencyKey, () =>
+        toPaymentIntent(
+          createIntent({
+            amount: input.amount,
+            currency: input.currency,
+            customerId: input.customerId,
+            metadata: input.metadata,
+            transferGroup: input.transferGroup,
+            destinationAccountId: input.destination?.accountId,
+          })
+        )
+      );
+    },
+
+    async retrievePaymentIntent(paymentIntentId) {
+      return toPaymentIntent(find(paymentIntents, paymentIntentId, "payment_intent"));
+    },
+
+    async updatePaymentIntent(paymentIntentId, input) {
+      const intent = find(paymentIntents, paymentIntentId, "payment_intent");
+      if (intent.status !== "requires_payment_method" && intent.status !== "requires_confirmation") {
+        throw new Error(`PaymentIntent ${intent.id} can no longer be updated (status: ${intent.status})`);
+      }
+
+      intent.amount = input.amount;
+      intent.metadata = { ...intent.metadata, ...input.metadata };
+      return toPaymentIntent(intent);
+    },
+
+    /* ---------------- REFUNDS & TRANSFERS ---------------- */
+
+    async createRefund(input) {
+      return idempotent(input.idempotencyKey, () => {
+        const intent = find(paymentIntents, input.paymentIntentId, "payment_intent");
+        const charge = intent.chargeId ? charges.get(intent.chargeId) : undefined;
+        if (!charge) {
+          throw new Error(`PaymentIntent ${intent.id} does not have a successful charge to refund.`);
+        }
+
+        const refundable = charge.amount - refundedAmount(charge);
+        if (input.amount > refundable) {
+          throw new Error(
+            `Refund amount (${input.amount}) is greater than unrefunded amount on charge (${refundable})`
+          );
+        }
+
+        const refund = {
+          id: newId("re"),
+          amount: input.amount,
+          status: "succeeded" as const,
+          reason: null,
+          metadata: input.metadata,
+        };
+        charge.refunds.push(refund);
+
+        emit("PAYMENTS", "refund.created", refundObject(refund, charge));
+        emit("PAYMENTS", "charge.refunded", chargeObject(charge));
+        return copy<Refund>(refund);
+      });
+    },
+
+    async createTransfer(input) {
+      return idempotent(input.idempotencyKey, () => {
+        find(accounts, input.destinationAccountId, "account");
+        const charge = find(charges, input.sourceChargeId, "charge");
+        if (input.amount > charge.amount) {
+          throw new Error(`Transfer amount (${input.amount}) exceeds the source charge (${charge.amount})`);
+        }
+
+        const transfer: FakeTransfer = {
+          id: newId("tr"),
+          amount: input.amount,
+          amountReversed: 0,
+          currency: input.currency,
+          destinationAccountId: input.destinationAccountId,
+          sourceChargeId: input.sourceChargeId,
+          transferGroup: input.transferGroup,
+          metadata: input.metadata,
+        };
+        transfers.set(transfer.id, transfer);
+        return { id: transfer.id, amount: transfer.amount, amountReversed: 0 };
+      });
+    },
+
+    async retrieveTransfer(transferId) {
+      const transfer = find(transfers, transferId, "transfer");
+      return { id: transfer.id, amount: transfer.amount, amountReversed: transfer.amountReversed };
+    },
+
+    async reverseTransfer(transferId, amount) {
+      const transfer = find(transfers, transferId, "transfer");
+      if (amount > transfer.amount - transfer.amountReversed) {
+        throw new Error(`Reversal amount (${amount}) exceeds the transfer's unreversed amount`);
+      }
+      transfer.amountReversed += amount;
+      return { id: newId("trr"), amount };
+    },
+
+    /* ---------------- CUSTOMERS ---------------- */
+
+    async createCustomer() {
+      const customer = { id: newId("cus"), defaultPaymentMethodId: null };
+      customers.set(customer.id, customer);
+      return { id: customer.id };
+    },
+
+    async attachPaymentMethod(paymentMethodId, customerId) {
+      find(customers, customerId, "customer");
+      // Stripe test payment methods name the brand (pm_card_visa, pm_card_mastercard...)
+      const brand = /^pm_card_([a-z]+)/.exec(paymentMethodId)?.[1] ?? "visa";
+      const paymentMethod = {
+        id: paymentMethodId,
+        card: { brand, last4: "4242", expMonth: 12, expYear: new Date().getFullYear() + 3 },
+        customerId,
+      };
+      paymentMethods.set(paymentMethodId, paymentMethod);
+      return { id: paymentMethod.id, card: { ...paymentMethod.card } };
+    },
+
+    async detachPaymentMethod(paymentMethodId) {
+      find(paymentMethods, paymentMethodId, "payment_method").customerId = null;
+    },
+
+    async setDefaultPaymentMethod(customerId, paymentMethodId) {
+      find(customers, customerId, "customer").defaultPaymentMethodId = paymentMethodId;
+    },
+
+    /* ---------------- CONNECT ACCOUNTS ---------------- */
+
+    async createConnectAccount() {
+      const account: ConnectAccount = {
+        id: newId("acct"),
+        chargesEnabled: false,
+        payoutsEnabled: false,
+        detailsSubmitted: false,
+        disabledReason: null,
+        currentlyDue: ["external_account", "individual.verification.document"],
+        bankAccountAdded: false,
+      };
+      accounts.set(account.id, account);
+      return copy(account);
+    },
+
+    async retrieveConnectAccount(accountId) {
+      return copy(find(accounts, accountId, "account"));
+    },
+
+    async createOnboardingLink(input) {
+      find(accounts, input.accountId, "account");
+      // No hosted onboarding: send the user straight back; onboarding is completed with completeAccountOnboarding
+      return `${input.returnUrl}${input.returnUrl.includes("?") ? "&" : "?"}account=${input.accountId}`;
+    },
+
+    /* ---------------- SUBSCRIPTIONS ---------------- */
+
+    async createRecurringPrice(input) {
+      const price = { id: newId("price"), unitAmount: input.unitAmount, currency: input.currency, interval: input.interval };
+      prices.set(price.id, price);
+      return price.id;
+    },
+
+    async createSubscription(input) {
+      const price = find(prices, input.priceId, "price");
+      const intent = createIntent({
+        amount: price.unitAmount,
+        currency: price.currency,
+        customerId: input.customerId,
+        metadata: {},
+      });
+
+      const subscription: FakeSubscription = {
+        id: newId("sub"),
+        status: "incomplete",
+        currentPeriodEnd: null,
+        clientSecret: null,
+        customerId: input.customerId,
+        priceId: input.priceId,
+        metadata: input.metadata,
+        defaultPaymentMethodId: null,
+        openInvoice: { id: newId("in"), paymentIntentId: intent.id },
+      };
+      intent.metadata = { subscriptionId: subscription.id };
+      subscriptions.set(subscription.id, subscription);
+      return toSubscription(subscription);
+    },
+
+    async retrieveSubscription(subscriptionId) {
+      return toSubscription(find(subscriptions, subscriptionId, "subscription"));
+    },
+
+    async changeSubscriptionPrice(subscriptionId, priceId) {
+      const subscription = find(subscriptions, subscriptionId, "subscription");
+      find(prices, priceId, "price");
+      subscription.priceId = priceId;
+      emit("SUBSCRIPTIONS", "customer.subscription.updated", subscriptionObject(subscription));
+      return toSubscription(subscription);
+    },
+
+    async setSubscriptionPaymentMethod(subscriptionId, paymentMethodId) {
+      find(subscriptions, subscriptionId, "subscription").defaultPaymentMethodId = paymentMethodId;
+    },
+
+    async payOpenInvoice(subscriptionId, paymentMethodId) {
+      const subscription = find(subscriptions, subscriptionId, "subscription");
+      find(paymentMethods, paymentMethodId, "payment_method");
+      payInvoice(subscription);
+    },
+
+    async cancelSubscription(subscriptionId) {
+      const subscription = find(subscriptions, subscriptionId, "subscription");
+      subscription.status = "canceled";
+      subscription.openInvoice = null;
+      emit("SUBSCRIPTIONS", "customer.subscription.deleted", subscriptionObject(subscription));
+      return toSubscription(subscription);
+    },
+
+    /* ---------------- WEBHOOKS ---------------- */
+
+    constructWebhookEvent(payload, signature, secret) {
+      const expected = signFakeWebhookPayload(payload, secret);
+      if ([signature].flat().every((value) => value !== expected)) {
+        throw new Error("No signatures found matching the expected signature for payload");
+      }
+      return JSON.parse(payload.toString()) as WebhookEvent;
+    },
+
+    /* ---------------- CONTROLS ---------------- */
+
+    onWebhookEvent(listener) {
+      listeners.push(listener);
+    },
+
+    async flushEvents() {
+      // Deliveries can emit more events: wait until the queue is stable
+      let pending: Promise<void>;
+      do {
+        pending = delivery;
+        await pending;
+      } while (pending !== delivery);
+    },
+
+    emittedEvents() {
+      return [...emitted];
+    },
+
+    async completePayment(paymentIntentId) {
+      const intent = find(paymentIntents, paymentIntentId, "payment_intent");
+      if (intent.status === "succeeded") {
+        throw new Error(`PaymentIntent ${intent.id} has already succeeded`);
+      }
+
+      const chargeId = newId("ch");
+      charges.set(chargeId, { id: chargeId, paymentIntentId: intent.id, amount: intent.amount, currency: intent.currency, refunds: [] });
+      intent.status = "succeeded";
+      intent.chargeId = chargeId;
+      intent.lastPaymentError = null;
+
+      emit("PAYMENTS", "payment_intent.succeeded", paymentIntentObject(intent));
+      return toPaymentIntent(intent);
+    },
+
+    async failPayment(paymentIntentId, message = "Your card was declined.") {
+      const intent = find(paymentIntents, paymentIntentId, "payment_intent");
+      if (intent.status === "succeeded") {
+        throw new Error(`PaymentIntent ${intent.id} has already succeeded`);
+      }
+
+      // Stripe lets the customer retry with another payment method
+      intent.status = "requires_payment_method";
+      intent.lastPaymentError = message;
+
+      emit("PAYMENTS", "payment_intent.payment_failed", paymentIntentObject(intent));
+      return toPaymentIntent(intent);
+    },
+
+    async completeAccountOnboarding(accountId) {
+      const account = find(accounts, accountId, "account");
+      account.chargesEnabled = true;
+      account.payoutsEnabled = true;
+      account.detailsSubmitted = true;
+      account.currentlyDue = [];
+      account.bankAccountAdded = true;
+
+      emit("ACCOUNTS", "account.updated", accountObject(account));
+      return copy(account);
+    },
+
+    async failInvoicePayment(subscriptionId) {
+      const subscription = find(subscriptions, subscriptionId, "subscription");
+      if (!subscription.openInvoice) {
+        throw new Error(`Subscription ${subscription.id} has no open invoice`);
+      }
+      subscription.status = subscription.currentPeriodEnd ? "past_due" : "incomplete";
+
+      emit("SUBSCRIPTIONS", "invoice.payment_failed", invoiceObject(subscription, subscription.openInvoice.id, "open"));
+    },
+
+    reset() {
+      for (const map of [paymentIntents, charges, transfers, customers, paymentMethods, accounts, prices, subscriptions, idempotentResults]) {
+        map.clear();
+      }
+      listeners = [];
+      emitted = [];
+      delivery = Promise.resolve();
+    },
+  };
+
+  return provider;
+}
@@ -0,0 +1,33 @@
+import type { PaymentProvider } from "./payment-provider";
+import { stripePaymentProvider } from "./stripe.provider";
+import { createFakePaymentProvider, FakePaymentProvider } from "./fake.provider";
+
+export * from "./payment-provider";
+export { signFakeWebhookPayload } from "./fake.provider";
+export type { FakePaymentProvider, WebhookListener } from "./fake.provider";
+
+// Stripe, or the in-memory fake with PAYMENT_PROVIDER=fake (local development and integration tests)
+function selectPaymentProvider(): PaymentProvider {
+  if (process.env.PAYMENT_PROVIDER === "fake") {
+    if (process.env.NODE_ENV === "production") {
+      throw new Error("The fake payment provider cannot be used in production");
+    }
+    console.log("[Payments] Using the fake payment provider, no payment reaches Stripe");
+    return createFakePaymentProvider();
+  }
+  return stripePaymentProvider;
+}
+
+export const paymentProvider: PaymentProvider = selectPaymentProvider();
+
+export function isFakePaymentProvider(provider: PaymentProvider): provider is FakePaymentProvider {
+  return provider.name === "fake";
+}
+
+// The fake provider, to drive payments from tests; throws when the app runs on a real gateway
+export function getFakePaymentProvider(): FakePaymentProvider {
+  if (!isFakePaymentProvider(paymentProvider)) {
+    throw new Error(`The ${paymentProvider.name} payment provider is in use, set PAYMENT_PROVIDER=fake`);
+  }
+  return paymentProvider;
+}
@@ -0,0 +1,204 @@
+/**
+ * Payment Provider
+ *
+ * Everything the app asks of a payment gateway: payment intents, refunds, Connect transfers, customers and
+ * payment methods, Connect accounts and subscriptions. Amounts are in cents. Services go through the provider
+ * selected in `libs/payments` instead of a gateway client, so money flows can run against the in-memory fake.
+ *
+ * Webhook events keep Stripe's event format, which is what the webhook processors handle: other gateways
+ * translate their notifications into it.
+ *
+ * @module libs/payments/payment-provider
+ */
+
+import type Stripe from "stripe";
+
+// Webhook endpoint an event is delivered to (same values as StripeEventSource)
+export type WebhookEndpoint = "PAYMENTS" | "ACCOUNTS" | "SUBSCRIPTIONS";
+
+export type WebhookEvent = Stripe.Event;
+
+export type PaymentIntentStatus =
+  | "requires_payment_method"
+  | "requires_confirmation"
+  | "requires_action"
+  | "processing"
+  | "requires_capture"
+  | "canceled"
+  | "succeeded";
+
+export interface PaymentIntent {
+  id: string;
+  amount: number;
+  currency: string;
+  status: PaymentIntentStatus;
+  // Used by the client to confirm the payment
+  clientSecret: string | null;
+  // Charge of the succeeded payment
+  chargeId: string | null;
+  metadata: Record<string, string>;
+}
+
+export interface CreatePaymentIntentInput {
+  amount: number;
+  currency: string;
+  customerId: string;
+  metadata: Record<string, string>;
+  // Destination charge: the amount minus the application fee goes to the Connect account
+  destination?: { accountId: string; applicationFeeAmount: number };
+  // Ties later transfers to this payment (multi-restaurant payments)
+  transferGroup?: string;
+  idempotencyKey: string;
+}
+
+export interface UpdatePaymentIntentInput {
+  amount: number;
+  // Merged into the existing metadata
+  metadata: Record<string, string>;
+}
+
+export type RefundStatus = "pending" | "requires_action" | "succeeded" | "failed" | "canceled";
+
+export interface Refund {
+  id: string;
+  amount: number;
+  status: string | null;
+  reason: string | null;
+  metadata: Record<string, string> | null;
+}
+
+export interface CreateRefundInput {
+  paymentIntentId: string;
+  amount: number;
+  metadata: Record<string, string>;
+  idempotencyKey: string;
+}
+
+export interface Transfer {
+  id: string;
+  amount: number;
+  amountReversed: number;
+}
+
+export interface CreateTransferInput {
+  amount: number;
+  currency: string;
+  destinationAccountId: string;
+  // Charge the transfer is funded from
+  sourceChargeId: string;
+  transferGroup: string;
+  metadata: Record<string, string>;
+  idempotencyKey: string;
+}
+
+export interface TransferReversal {
+  id: string;
+  amount: number;
+}
+
+export interface Customer {
+  id: string;
+}
+
+export interface CreateCustomerInput {
+  email?: string;
+  name?: string;
+  metadata?: Record<string, string>;
+}
+
+export interface PaymentMethod {
+  id: string;
+  card: {
+    brand: string;
+    last4: string;
+    expMonth: number;
+    expYear: number;
+  } | null;
+}
+
+export interface ConnectAccount {
+  id: string;
+  chargesEnabled: boolean;
+  payoutsEnabled: boolean;
+  detailsSubmitted: boolean;
+  disabledReason: string | null;
+  currentlyDue: string[];
+  bankAccountAdded: boolean;
+}
+
+export interface CreateConnectAccountInput {
+  type: "express" | "standard" | "custom";
+  country: string;
+}
+
+export interface CreateOnboardingLinkInput {
+  accountId: string;
+  refreshUrl: string;
+  returnUrl: string;
+}
+
+export interface CreateRecurringPriceInput {
+  productName: string;
+  unitAmount: number;
+  currency: string;
+  interval: "month" | "year";
+}
+
+export interface Subscription {
+  id: string;
+  // Gateway status (active, incomplete, past_due, canceled, ...)
+  status: string;
+  currentPeriodEnd: Date | null;
+  // Client secret of the first invoice's payment, to complete it on the client
+  clientSecret: string | null;
+}
+
+export interface CreateSubscriptionInput {
+  customerId: string;
+  priceId: string;
+  metadata: Record<string, string>;
+}
+
+export interface PaymentProvider {
+  readonly name: string;
+
+  /* ---------------- PAYMENTS ---------------- */
+  createPaymentIntent(input: CreatePaymentIntentInput): Promise<PaymentIntent>;
+  retrievePaymentIntent(paymentIntentId: string): Promise<PaymentIntent>;
+  // Only possible before the payment is confirmed
+  updatePaymentIntent(paymentIntentId: string, input: UpdatePaymentIntentInput): Promise<PaymentIntent>;
+
+  /* ---------------- REFUNDS & TRANSFERS ---------------- */
+  createRefund(input: CreateRefundInput): Promise<Refund>;
+  createTransfer(input: CreateTransferInput): Promise<Transfer>;
+  retrieveTransfer(transferId: string): Promise<Transfer>;
+  reverseTransfer(transferId: string, amount: number, metadata: Record<string, string>): Promise<TransferReversal>;
+
+  /* ---------------- CUSTOMERS ---------------- */
+  createCustomer(input: CreateCustomerInput): Promise<Customer>;
+  attachPaymentMethod(paymentMethodId: string, customerId: string): Promise<PaymentMethod>;
+  detachPaymentMethod(paymentMethodId: string): Promise<void>;
+  // Payment method charged for the customer's invoices
+  setDefaultPaymentMethod(customerId: string, paymentMethodId: string): Promise<void>;
+
+  /* ---------------- CONNECT ACCOUNTS ---------------- */
+  createConnectAccount(input: CreateConnectAccountInput): Promise<ConnectAccount>;
+  retrieveConnectAccount(accountId: string): Promise<ConnectAccount>;
+  // Returns the URL of the hosted onboarding
+  createOnboardingLink(input: CreateOnboardingLinkInput): Promise<string>;
+
+  /* ---------------- SUBSCRIPTIONS ---------------- */
+  // Returns the price ID
+  createRecurringPrice(input: CreateRecurringPriceInput): Promise<string>;
+  createSubscription(input: CreateSubscriptionInput): Promise<Subscription>;
+  retrieveSubscription(subscriptionId: string): Promise<Subscription>;
+  changeSubscriptionPrice(subscriptionId: string, priceId: string): Promise<Subscription>;
+  setSubscriptionPaymentMethod(subscriptionId: string, paymentMethodId: string): Promise<void>;
+  // Pays the subscription's open invoice with the payment method, if it is waiting for one
+  payOpenInvoice(subscriptionId: string, paymentMethodId: string): Promise<void>;
+  cancelSubscription(subscriptionId: string): Promise<Subscription>;
+
+  /* ---------------- WEBHOOKS ---------------- */
+  // Verifies and parses a webhook request; throws when the signature is invalid
+  constructWebhookEvent(payload: Buffer | string, signature: string | string[], secret: string): WebhookEvent;
+}
@@ -0,0 +1,304 @@
+import Stripe from "stripe";
+import { getStripe } from "../stripe";
+import type {
+  ConnectAccount,
+  PaymentIntent,
+  PaymentMethod,
+  PaymentProvider,
+  Refund,
+  Subscription,
+  Transfer,
+} from "./payment-provider";
+
+function toPaymentIntent(intent: Stripe.PaymentIntent): PaymentIntent {
+  return {
+    id: intent.id,
+    amount: intent.amount,
+    currency: intent.currency,
+    status: intent.status,
+    clientSecret: intent.client_secret,
+    chargeId: typeof intent.latest_charge === "string" ? intent.latest_charge : intent.latest_charge?.id ?? null,
+    metadata: intent.metadata,
+  };
+}
+
+function toRefund(refund: Stripe.Refund): Refund {
+  return {
+    id: refund.id,
+    amount: refund.amount,
+    status: refund.status,
+    reason: refund.reason,
+    metadata: refund.metadata,
+  };
+}
+
+function toTransfer(transfer: Stripe.Transfer): Transfer {
+  return {
+    id: transfer.id,
+    amount: transfer.amount,
+    amountReversed: transfer.amount_reversed,
+  };
+}
+
+function toPaymentMethod(paymentMethod: Stripe.PaymentMethod): PaymentMethod {
+  return {
+    id: paymentMethod.id,
+    card: paymentMethod.card
+      ? {
+          brand: paymentMethod.card.brand,
+          last4: paymentMethod.card.last4,
+          expMonth: paymentMethod.card.exp_month,
+          expYear: paymentMethod.card.exp_year,
+        }
+      : null,
+  };
+}
+
+function toConnectAccount(account: Stripe.Account): ConnectAccount {
+  return {
+    id: account.id,
+    chargesEnabled: account.charges_enabled ?? false,
+    payoutsEnabled: account.payouts_enabled ?? false,
+    detailsSubmitted: account.details_submitted ?? false,
+    disabledReason: account.requirements?.disabled_reason ?? null,
+    currentlyDue: account.requirements?.currently_due ?? [],
+    bankAccountAdded: Array.isArray(account.external_accounts?.data) && account.external_accounts.data.length > 0,
+  };
+}
+
+function toSubscription(subscription: Stripe.Subscription): Subscription {
+  // The billing period is on the subscription items in recent API versions
+  const currentPeriodEnd: number | undefined =
+    (subscription as any).current_period_end ?? subscription.items?.data[0]?.current_period_end;
+  // Only set when the latest invoice is expanded with its payment intent
+  const invoice = subscription.latest_invoice as Stripe.Invoice | null;
+  const paymentIntent = (invoice as any)?.payment_intent as Stripe.PaymentIntent | undefined;
+
+  return {
+    id: subscription.id,
+    status: subscription.status,
+    currentPeriodEnd: currentPeriodEnd ? new Date(currentPeriodEnd * 1000) : null,
+    clientSecret: paymentIntent?.client_secret ?? null,
+  };
+}
+
+/**
+ * Stripe implementation of the payment provider
+ */
+export const stripePaymentProvider: PaymentProvider = {
+  name: "stripe",
+
+  /* ---------------- PAYMENTS ---------------- */
+
+  async createPaymentIntent(input) {
+    const intent = await getStripe().paymentIntents.create({
+      amount: input.amount,
+      currency: input.currency,
+      customer: input.customerId,
+      automatic_payment_methods: {
+        enabled: true, // lets Stripe handle card types
+        allow_redirects: "never",
+      },
+      metadata: input.metadata,
+      // Stripe Connect: transfer funds to restaurant's account, minus the platform commission
+      ...(input.destination && {
+        transfer_data: { destination: input.destination.accountId },
+        application_fee_amount: input.destination.applicationFeeAmount,
+      }),
+      ...(input.transferGroup && { transfer_group: input.transferGroup }),
+    }, {
+      idempotencyKey: input.idempotencyKey,
+    });
+    return toPaymentIntent(intent);
+  },
+
+  async retrievePaymentIntent(paymentIntentId) {
+    return toPaymentIntent(await getStripe().paymentIntents.retrieve(paymentIntentId));
+  },
+
+  async updatePaymentIntent(paymentIntentId, input) {
+    const intent = await getStripe().paymentIntents.update(paymentIntentId, {
+      amount: input.amount,
+      metadata: input.metadata,
+    });
+    return toPaymentIntent(intent);
+  },
+
+  /* ---------------- REFUNDS & TRANSFERS ---------------- */
+
+  async createRefund(input) {
+    const refund = await getStripe().refunds.create({
+      payment_intent: input.paymentIntentId,
+      amount: input.amount,
+      metadata: input.metadata,
+    }, {
+      idempotencyKey: input.idempotencyKey,
+    });
+    return toRefund(refund);
+  },
+
+  async createTransfer(input) {
+    const transfer = await getStripe().transfers.create({
+      amount: input.amount,
+      currency: input.currency,
+      destination: input.destinationAccountId,
+      // Funds become available with the charge, even before the platform balance settles
+      source_transaction: input.sourceChargeId,
+      transfer_group: input.transferGroup,
+      metadata: input.metadata,
+    }, {
+      idempotencyKey: input.idempotencyKey,
+    });
+    return toTransfer(transfer);
+  },
+
+  async retrieveTransfer(transferId) {
+    return toTransfer(await getStripe().transfers.retrieve(transferId));
+  },
+
+  async reverseTransfer(transferId, amount, metadata) {
+    const reversal = await getStripe().transfers.createReversal(transferId, { amount, metadata });
+    return { id: reversal.id, amount: reversal.amount };
+  },
+
+  /* ---------------- CUSTOMERS ---------------- */
+
+  async createCustomer(input) {
+    const customer = await getStripe().customers.create(input);
+    return { id: customer.id };
+  },
+
+  async attachPaymentMethod(paymentMethodId, customerId) {
+    return toPaymentMethod(await getStripe().paymentMethods.attach(paymentMethodId, { customer: customerId }));
+  },
+
+  async detachPaymentMethod(paymentMethodId) {
+    await getStripe().paymentMethods.detach(paymentMethodId);
+  },
+
+  async setDefaultPaymentMethod(customerId, paymentMethodId) {
+    await getStripe().customers.update(customerId, {
+      invoice_settings: {
+        default_payment_method: paymentMethodId,
+      },
+    });
+  },
+
+  /* ---------------- CONNECT ACCOUNTS ---------------- */
+
+  async createConnectAccount(input) {
+    const account = await getStripe().accounts.create({
+      type: input.type,
+      country: input.country,
+      capabilities: {
+        card_payments: { requested: true },
+        transfers: { requested: true },
+      },
+    });
+    return toConnectAccount(account);
+  },
+
+  async retrieveConnectAccount(accountId) {
+    return toConnectAccount(await getStripe().accounts.retrieve(accountId));
+  },
+
+  async createOnboardingLink(input) {
+    const accountLink = await getStripe().accountLinks.create({
+      account: input.accountId,
+      refresh_url: input.refreshUrl,
+      return_url: input.returnUrl,
+      type: "account_onboarding",
+    });
+    return accountLink.url;
+  },
+
+  /* ---------------- SUBSCRIPTIONS ---------------- */
+
+  async createRecurringPrice(input) {
+    const product = await getStripe().products.create({
+      name: input.productName,
+    });
+
+    const price = await getStripe().prices.create({
+      product: product.id,
+      unit_amount: input.unitAmount,
+      currency: input.currency,
+      recurring: {
+        interval: input.interval,
+      },
+    });
+    return price.id;
+  },
+
+  async createSubscription(input) {
+    // The first invoice is paid on the client with the returned client secret
+    const subscription = await getStripe().subscriptions.create({
+      customer: input.customerId,
+      items: [{ price: input.priceId }],
+      payment_behavior: "default_incomplete",
+      payment_settings: {
+        payment_method_types: ["card"],
+        save_default_payment_method: "on_subscription",
+      },
+      expand: ["latest_invoice.payment_intent"],
+      metadata: input.metadata,
+    });
+    return toSubscription(subscription);
+  },
+
+  async retrieveSubscription(subscriptionId) {
+    return toSubscription(await getStripe().subscriptions.retrieve(subscriptionId));
+  },
+
+  async changeSubscriptionPrice(subscriptionId, priceId) {
+    // Get current subscription item first
+    const currentSub = await getStripe().subscriptions.retrieve(subscriptionId);
+    const subscriptionItemId = currentSub.items.data[0]?.id;
+
+    if (!subscriptionItemId) {
+      throw new Error("No subscription item found to update");
+    }
+
+    const subscription = await getStripe().subscriptions.update(subscriptionId, {
+      items: [{ id: subscriptionItemId, price: priceId }],
+    });
+    return toSubscription(subscription);
+  },
+
+  async setSubscriptionPaymentMethod(subscriptionId, paymentMethodId) {
+    await getStripe().subscriptions.update(subscriptionId, {
+      default_payment_method: paymentMethodId,
+    });
+  },
+
+  async payOpenInvoice(subscriptionId, paymentMethodId) {
+    const subscription = await getStripe().subscriptions.retrieve(subscriptionId, {
+      expand: ["latest_invoice"],
+    });
+
+    const invoice = subscription.latest_invoice as Stripe.Invoice;
+    const paymentIntentId = (invoice as any)?.payment_intent;
+    if (invoice && invoice.status === "open" && paymentIntentId) {
+      const paymentIntent = typeof paymentIntentId === "string"
+        ? await getStripe().paymentIntents.retrieve(paymentIntentId)
+        : paymentIntentId as Stripe.PaymentIntent;
+      if (paymentIntent.status === "requires_payment_method") {
+        // Confirm the payment intent with the new payment method
+        await getStripe().paymentIntents.confirm(paymentIntent.id, {
+          payment_method: paymentMethodId,
+        });
+      }
+    }
+  },
+
+  async cancelSubscription(subscriptionId) {
+    // Cancels immediately
+    return toSubscription(await getStripe().subscriptions.cancel(subscriptionId));
+  },
+
+  /* ---------------- WEBHOOKS ---------------- */
+
+  constructWebhookEvent(payload, signature, secret) {
+    return getStripe().webhooks.constructEvent(payload, signature, secret);
+  },
+};
@@ -1,7 +1,16 @@
 import Stripe from "stripe";
 import env from "dotenv";
 env.config();
-// Initialize Stripe once and reuse it everywhere
-export const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
-  apiVersion: "2025-12-15.clover",
-});
+
+let client: Stripe | null = null;
+
+// Initialize Stripe once, on first use, and reuse it everywhere
+// (not at import, so the app can run with the fake payment provider without a Stripe key)
+export function getStripe(): Stripe {
+  if (!client) {
+    client = new Stripe(process.env.STRIPE_SECRET_KEY!, {
+      apiVersion: "2025-12-15.clover",
+    });
+  }
+  return client;
+}
@@ -0,0 +1,26 @@
+import { Request, Response } from "express";
+import { adminOrderService } from "./order.service";
+
+export const adminOrderController = {
+  // Admin: Get order status history (audit trail)
+  async getOrderStatusHistory(req: Request, res: Response) {
+    const { orderId } = req.params as { orderId: string };
+
+    try {
+      const result = await adminOrderService.getOrderStatusHistory(orderId);
+      return res.json({
+        success: true,
+        data: result,
+      });
+    } catch (err: any) {
+      if (err.message?.includes("not found")) {
+        return res.status(404).json({ success: false, message: err.message });
+      }
+      return res.status(500).json({
+        success: false,
+        message: "Failed to fetch order status history",
+        error: err.message,
+      });
+    }
+  },
+};
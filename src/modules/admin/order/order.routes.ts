@@ -0,0 +1,78 @@
+import { Router } from "express";
+import { adminOrderController } from "./order.controller";
+import { requireAdminRole } from "../../../middlewares/role.middleware";
+
+const router = Router();
+
+// Apply admin role to all admin order routes (requireAuth is applied globally)
+router.use(requireAdminRole);
+
+/**
+ * @swagger
+ * /admin/orders/{orderId}/status-history:
+ *   get:
+ *     summary: Get the status audit trail of an order
+ *     tags: [Admin - Orders]
+ *     description: |
+ *       Returns every status transition recorded for the order, oldest first,
+ *       including who made the change, their role, the reason and the timestamp.
+ *       Transitions made by the system (webhooks, schedulers) have actionByRole "SYSTEM".
+ *     parameters:
+ *       - in: path
+ *         name: orderId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Order ID
+ *     responses:
+ *       200:
+ *         description: Status history retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     order:
+ *                       type: object
+ *                     history:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           fromStatus:
+ *                             type: string
+ *                             nullable: true
+ *                             example: "PENDING"
+ *                           status:
+ *                             type: string
+ *                             example: "ACCEPTED"
+ *                           reason:
+ *                             type: string
+ *                             nullable: true
+ *                           actionById:
+ *                             type: string
+ *                             nullable: true
+ *                           actionByRole:
+ *                             type: string
+ *                             example: "RESTAURANT"
+ *                           actionByName:
+ *                             type: string
+ *                             nullable: true
+ *                           createdAt:
+ *                             type: string
+ *                             format: date-time
+ *       404:
+ *         description: Order not found
+ *       500:
+ *         description: Internal server error
+ */
+router.get("/:orderId/status-history", adminOrderController.getOrderStatusHistory);
+
+export default router;
@@ -0,0 +1,52 @@
+import prisma from "../../../config/prisma";
+import { orderStatusHistoryService } from "../../orders/order-status-history.service";
+
+export const adminOrderService = {
+  // Get the full status audit trail of an order
+  async getOrderStatusHistory(orderId: string) {
+    const order = await prisma.order.findUnique({
+      where: { id: orderId },
+      select: {
+        id: true,
+        orderNumber: true,
+        status: true,
+        userId: true,
+        restaurantId: true,
+        createdAt: true,
+      },
+    });
+
+    if (!order) {
+      throw new Error("Order not found");
+    }
+
+    const history = await orderStatusHistoryService.getOrderStatusHistory(orderId);
+
+    // Resolve actor names in one query
+    const actorIds = Array.from(
+      new Set(history.map((entry) => entry.actionById).filter((id): id is string => !!id))
+    );
+    const actors = actorIds.length
+      ? await prisma.user.findMany({
+          where: { id: { in: actorIds } },
+          select: { id: true, name: true, email: true },
+        })
+      : [];
+    const actorMap = new Map(actors.map((actor) => [actor.id, actor]));
+
+    return {
+      order,
+      history: history.map((entry) => ({
+        id: entry.id,
+        fromStatus: entry.fromStatus,
+        status: entry.status,
+        reason: entry.reason,
+        actionById: entry.actionById,
+        actionByRole: entry.actionByRole ?? "SYSTEM",
+        actionByName: entry.actionById ? actorMap.get(entry.actionById)?.name ?? null : null,
+        actionByEmail: entry.actionById ? actorMap.get(entry.actionById)?.email ?? null : null,
+        createdAt: entry.createdAt,
+      })),
+    };
+  },
+};
@@ -0,0 +1,188 @@
+import { Request, Response } from "express";
+import { adminPricingService } from "./pricing.service";
+import {
+  createTaxRateSchema,
+  updateTaxRateSchema,
+  upsertDeliveryFeeRuleSchema,
+} from "./pricing.schema";
+
+export const adminPricingController = {
+  // Admin: List tax rates
+  async getTaxRates(req: Request, res: Response) {
+    try {
+      const taxRates = await adminPricingService.getTaxRates({
+        countryId: req.query.countryId as string | undefined,
+        cityId: req.query.cityId as string | undefined,
+      });
+
+      return res.json({
+        success: true,
+        data: taxRates,
+        total: taxRates.length,
+      });
+    } catch (err: any) {
+      return res.status(500).json({
+        success: false,
+        message: "Failed to fetch tax rates",
+        error: err.message,
+      });
+    }
+  },
+
+  // Admin: Create tax rate
+  async createTaxRate(req: Request, res: Response) {
+    try {
+      const validatedData = createTaxRateSchema.parse(req.body);
+      const taxRate = await adminPricingService.createTaxRate(validatedData);
+
+      return res.status(201).json({
+        success: true,
+        message: "Tax rate created successfully",
+        data: taxRate,
+      });
+    } catch (err: any) {
+      if (err.name === "ZodError") {
+        return res.status(400).json({
+          success: false,
+          message: "Validation error",
+          errors: err.errors,
+        });
+      }
+      if (err.message?.includes("not found")) {
+        return res.status(404).json({ success: false, message: err.message });
+      }
+      if (err.message?.includes("does not belong")) {
+        return res.status(400).json({ success: false, message: err.message });
+      }
+      return res.status(500).json({
+        success: false,
+        message: "Failed to create tax rate",
+        error: err.message,
+      });
+    }
+  },
+
+  // Admin: Update tax rate
+  async updateTaxRate(req: Request, res: Response) {
+    try {
+      const { id } = req.params as { id: string };
+      const validatedData = updateTaxRateSchema.parse(req.body);
+      const taxRate = await adminPricingService.updateTaxRate(id, validatedData);
+
+      return res.json({
+        success: true,
+        message: "Tax rate updated successfully",
+        data: taxRate,
+      });
+    } catch (err: any) {
+      if (err.name === "ZodError") {
+        return res.status(400).json({
+          success: false,
+          message: "Validation error",
+          errors: err.errors,
+        });
+      }
+      if (err.code === "P2025") {
+        return res.status(404).json({ success: false, message: "Tax rate not found" });
+      }
+      return res.status(500).json({
+        success: false,
+        message: "Failed to update tax rate",
+        error: err.message,
+      });
+    }
+  },
+
+  // Admin: Delete tax rate
+  async deleteTaxRate(req: Request, res: Response) {
+    try {
+      const { id } = req.params as { id: string };
+      const result = await adminPricingService.deleteTaxRate(id);
+      return res.json(result);
+    } catch (err: any) {
+      if (err.code === "P2025") {
+        return res.status(404).json({ success: false, message: "Tax rate not found" });
+      }
+      return res.status(500).json({
+        success: false,
+        message: "Failed to delete tax rate",
+        error: err.message,
+      });
+    }
+  },
+
+  // Admin: Get delivery fee rule of a mall
+  async getDeliveryFeeRule(req: Request, res: Response) {
+    try {
+      const { mallId } = req.params as { mallId: string };
+      const rule = await adminPricingService.getDeliveryFeeRule(mallId);
+
+      if (!rule) {
+        return res.status(404).json({
+          success: false,
+          message: "No delivery fee rule configured for this mall",
+        });
+      }
+
+      return res.json({ success: true, data: rule });
+    } catch (err: any) {
+      return res.status(500).json({
+        success: false,
+        message: "Failed to fetch delivery fee rule",
+        error: err.message,
+      });
+    }
+  },
+
+  // Admin: Create or replace delivery fee rule of a mall
+  async upsertDeliveryFeeRule(req: Request, res: Response) {
+    try {
+      const { mallId } = req.params as { mallId: string };
+      const validatedData = upsertDeliveryFeeRuleSchema.parse(req.body);
+      const rule = await adminPricingService.upsertDeliveryFeeRule(mallId, validatedData);
+
+      return res.json({
+        success: true,
+        message: "Delivery fee rule saved successfully",
+        data: rule,
+      });
+    } catch (err: any) {
+      if (err.name === "ZodError") {
+        return res.status(400).json({
+          success: false,
+          message: "Validation error",
+          errors: err.errors,
+        });
+      }
+      if (err.message?.includes("not found")) {
+        return res.status(404).json({ success: false, message: err.message });
+      }
+      return res.status(500).json({
+        success: false,
+        message: "Failed to save delivery fee rule",
+        error: err.message,
+      });
+    }
+  },
+
+  // Admin: Delete delivery fee rule of a mall
+  async deleteDeliveryFeeRule(req: Request, res: Response) {
+    try {
+      const { mallId } = req.params as { mallId: string };
+      const result = await adminPricingService.deleteDeliveryFeeRule(mallId);
+      return res.json(result);
+    } catch (err: any) {
+      if (err.code === "P2025") {
+        return res.status(404).json({
+          success: false,
+          message: "No delivery fee rule configured for this mall",
+        });
+      }
+      return res.status(500).json({
+        success: false,
+        message: "Failed to delete delivery fee rule",
+        error: err.message,
+      });
+    }
+  },
+};
@@ -0,0 +1,241 @@
+import { Router } from "express";
+import { adminPricingController } from "./pricing.controller";
+import { requireAdminRole } from "../../../middlewares/role.middleware";
+
+const router = Router();
+
+// Apply admin role to all admin pricing routes (requireAuth is applied globally)
+router.use(requireAdminRole);
+
+/**
+ * @swagger
+ * /admin/pricing/tax-rates:
+ *   get:
+ *     summary: List tax rates
+ *     tags: [Admin - Pricing]
+ *     description: |
+ *       Tax rates are applied at checkout based on the restaurant's mall location.
+ *       Rates configured for the mall's city replace the country-wide rates (rates without a city).
+ *     parameters:
+ *       - in: query
+ *         name: countryId
+ *         schema:
+ *           type: string
+ *         description: Filter by country
+ *       - in: query
+ *         name: cityId
+ *         schema:
+ *           type: string
+ *         description: Filter by city
+ *     responses:
+ *       200:
+ *         description: List of tax rates
+ *       500:
+ *         description: Failed to fetch tax rates
+ *   post:
+ *     summary: Create a tax rate
+ *     tags: [Admin - Pricing]
+ *     description: |
+ *       Create a tax rate for a whole country (omit `cityId`) or for a single city.
+ *       Several active rates at the same level add up (e.g. federal + provincial tax).
+ *
+ *       **Testing Example:**
+ *       ```json
+ *       {
+ *         "name": "VAT",
+ *         "ratePercentage": 15,
+ *         "countryId": "country-123"
+ *       }
+ *       ```
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [name, ratePercentage, countryId]
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: "VAT"
+ *               ratePercentage:
+ *                 type: number
+ *                 minimum: 0
+ *                 maximum: 100
+ *                 example: 15
+ *               countryId:
+ *                 type: string
+ *               cityId:
+ *                 type: string
+ *                 description: Optional - limits the rate to one city of the country
+ *               isActive:
+ *                 type: boolean
+ *                 default: true
+ *     responses:
+ *       201:
+ *         description: Tax rate created successfully
+ *       400:
+ *         description: Validation error or city not in country
+ *       404:
+ *         description: Country or city not found
+ */
+router.get("/tax-rates", adminPricingController.getTaxRates);
+router.post("/tax-rates", adminPricingController.createTaxRate);
+
+/**
+ * @swagger
+ * /admin/pricing/tax-rates/{id}:
+ *   patch:
+ *     summary: Update a tax rate
+ *     tags: [Admin - Pricing]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               ratePercentage:
+ *                 type: number
+ *                 minimum: 0
+ *                 maximum: 100
+ *               isActive:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Tax rate updated successfully
+ *       400:
+ *         description: Validation error
+ *       404:
+ *         description: Tax rate not found
+ *   delete:
+ *     summary: Delete a tax rate
+ *     tags: [Admin - Pricing]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Tax rate deleted successfully
+ *       404:
+ *         description: Tax rate not found
+ */
+router.patch("/tax-rates/:id", adminPricingController.updateTaxRate);
+router.delete("/tax-rates/:id", adminPricingController.deleteTaxRate);
+
+/**
+ * @swagger
+ * /admin/pricing/malls/{mallId}/delivery-fee:
+ *   get:
+ *     summary: Get the delivery fee rule of a mall
+ *     tags: [Admin - Pricing]
+ *     parameters:
+ *       - in: path
+ *         name: mallId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Delivery fee rule with its distance bands
+ *       404:
+ *         description: No delivery fee rule configured for this mall
+ *   put:
+ *     summary: Create or replace the delivery fee rule of a mall
+ *     tags: [Admin - Pricing]
+ *     description: |
+ *       - **FLAT**: `flatFee` is charged on every order
+ *       - **DISTANCE**: the fee of the first band whose `maxDistanceKm` covers the distance between
+ *         the mall and the delivery address. Addresses beyond the last band are rejected at checkout.
+ *         `flatFee` is charged when the mall or address has no coordinates.
+ *
+ *       When `freeDeliveryMinSubtotal` is set, orders with a subtotal at or above it are delivered for free.
+ *       Existing bands are replaced by the ones sent.
+ *
+ *       **Testing Example:**
+ *       ```json
+ *       {
+ *         "type": "DISTANCE",
+ *         "flatFee": 3,
+ *         "freeDeliveryMinSubtotal": 50,
+ *         "bands": [
+ *           { "maxDistanceKm": 2, "fee": 1.5 },
+ *           { "maxDistanceKm": 5, "fee": 3 },
+ *           { "maxDistanceKm": 10, "fee": 5 }
+ *         ]
+ *       }
+ *       ```
+ *     parameters:
+ *       - in: path
+ *         name: mallId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [type]
+ *             properties:
+ *               type:
+ *                 type: string
+ *                 enum: [FLAT, DISTANCE]
+ *               flatFee:
+ *                 type: number
+ *                 minimum: 0
+ *                 default: 0
+ *               freeDeliveryMinSubtotal:
+ *                 type: number
+ *                 nullable: true
+ *               isActive:
+ *                 type: boolean
+ *                 default: true
+ *               bands:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     maxDistanceKm:
+ *                       type: number
+ *                     fee:
+ *                       type: number
+ *     responses:
+ *       200:
+ *         description: Delivery fee rule saved successfully
+ *       400:
+ *         description: Validation error
+ *       404:
+ *         description: Mall not found
+ *   delete:
+ *     summary: Delete the delivery fee rule of a mall
+ *     tags: [Admin - Pricing]
+ *     parameters:
+ *       - in: path
+ *         name: mallId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Delivery fee rule deleted successfully
+ *       404:
+ *         description: No delivery fee rule configured for this mall
+ */
+router.get("/malls/:mallId/delivery-fee", adminPricingController.getDeliveryFeeRule);
+router.put("/malls/:mallId/delivery-fee", adminPricingController.upsertDeliveryFeeRule);
+router.delete("/malls/:mallId/delivery-fee", adminPricingController.deleteDeliveryFeeRule);
+
+export default router;
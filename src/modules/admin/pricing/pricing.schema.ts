@@ -0,0 +1,47 @@
+import { z } from "zod";
+
+// Admin: Create tax rate (omit cityId for a country-wide rate)
+export const createTaxRateSchema = z.object({
+  name: z.string().min(1, "Name is required").max(100),
+  ratePercentage: z.number().min(0).max(100, "Rate percentage must be between 0 and 100"),
+  countryId: z.string().min(1, "Country is required"),
+  cityId: z.string().min(1).optional(),
+  isActive: z.boolean().optional(),
+});
+
+// Admin: Update tax rate (location cannot be changed)
+export const updateTaxRateSchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  ratePercentage: z.number().min(0).max(100, "Rate percentage must be between 0 and 100").optional(),
+  isActive: z.boolean().optional(),
+});
+
+// Admin: Create or replace the delivery fee rule of a mall
+export const upsertDeliveryFeeRuleSchema = z
+  .object({
+    type: z.enum(["FLAT", "DISTANCE"]),
+    // FLAT: fee charged on every order; DISTANCE: fallback when the distance is unknown
+    flatFee: z.number().min(0).default(0),
+    freeDeliveryMinSubtotal: z.number().min(0).nullable().optional(),
+    isActive: z.boolean().optional(),
+    bands: z
+      .array(
+        z.object({
+          maxDistanceKm: z.number().positive("Band distance must be greater than 0"),
+          fee: z.number().min(0),
+        })
+      )
+      .optional(),
+  })
+  .refine((data) => data.type !== "DISTANCE" || (data.bands && data.bands.length > 0), {
+    message: "Distance rules need at least one band",
+    path: ["bands"],
+  })
+  .refine(
+    (data) => new Set((data.bands ?? []).map((band) => band.maxDistanceKm)).size === (data.bands ?? []).length,
+    { message: "Band distances must be unique", path: ["bands"] }
+  );
+
+export type CreateTaxRateRequest = z.infer<typeof createTaxRateSchema>;
+export type UpdateTaxRateRequest = z.infer<typeof updateTaxRateSchema>;
+export type UpsertDeliveryFeeRuleRequest = z.infer<typeof upsertDeliveryFeeRuleSchema>;
@@ -0,0 +1,134 @@
+import prisma from "../../../config/prisma";
+import {
+  CreateTaxRateRequest,
+  UpdateTaxRateRequest,
+  UpsertDeliveryFeeRuleRequest,
+} from "./pricing.schema";
+
+export const adminPricingService = {
+  /**
+   * Admin: List tax rates, optionally filtered by country or city
+   */
+  async getTaxRates(filters: { countryId?: string | undefined; cityId?: string | undefined }) {
+    return prisma.taxRate.findMany({
+      where: {
+        ...(filters.countryId && { countryId: filters.countryId }),
+        ...(filters.cityId && { cityId: filters.cityId }),
+      },
+      include: {
+        country: { select: { id: true, name: true } },
+        city: { select: { id: true, name: true } },
+      },
+      orderBy: [{ countryId: "asc" }, { createdAt: "asc" }],
+    });
+  },
+
+  /**
+   * Admin: Create a tax rate for a country or a city
+   */
+  async createTaxRate(data: CreateTaxRateRequest) {
+    const country = await prisma.country.findUnique({ where: { id: data.countryId } });
+    if (!country) {
+      throw new Error(`Country with ID "${data.countryId}" not found`);
+    }
+
+    if (data.cityId) {
+      const city = await prisma.city.findUnique({ where: { id: data.cityId } });
+      if (!city) {
+        throw new Error(`City with ID "${data.cityId}" not found`);
+      }
+      if (city.countryId !== data.countryId) {
+        throw new Error("City does not belong to the given country");
+      }
+    }
+
+    return prisma.taxRate.create({
+      data: {
+        name: data.name,
+        ratePercentage: data.ratePercentage,
+        countryId: data.countryId,
+        cityId: data.cityId ?? null,
+        isActive: data.isActive ?? true,
+      },
+    });
+  },
+
+  /**
+   * Admin: Update a tax rate
+   */
+  async updateTaxRate(id: string, data: UpdateTaxRateRequest) {
+    return prisma.taxRate.update({
+      where: { id },
+      data: {
+        ...(data.name !== undefined && { name: data.name }),
+        ...(data.ratePercentage !== undefined && { ratePercentage: data.ratePercentage }),
+        ...(data.isActive !== undefined && { isActive: data.isActive }),
+      },
+    });
+  },
+
+  /**
+   * Admin: Delete a tax rate
+   */
+  async deleteTaxRate(id: string) {
+    await prisma.taxRate.delete({ where: { id } });
+    return { success: true, message: "Tax rate deleted successfully" };
+  },
+
+  /**
+   * Admin: Get the delivery fee rule of a mall
+   */
+  async getDeliveryFeeRule(mallId: string) {
+    return prisma.deliveryFeeRule.findUnique({
+      where: { mallId },
+      include: { bands: { orderBy: { maxDistanceKm: "asc" } } },
+    });
+  },
+
+  /**
+   * Admin: Create or replace the delivery fee rule of a mall.
+   * Existing distance bands are replaced by the given ones.
+   */
+  async upsertDeliveryFeeRule(mallId: string, data: UpsertDeliveryFeeRuleRequest) {
+    const mall = await prisma.mall.findUnique({ where: { id: mallId } });
+    if (!mall) {
+      throw new Error(`Mall with ID "${mallId}" not found`);
+    }
+
+    const ruleData = {
+      type: data.type,
+      flatFee: data.flatFee,
+      freeDeliveryMinSubtotal: data.freeDeliveryMinSubtotal ?? null,
+      isActive: data.isActive ?? true,
+    };
+    const bands = (data.bands ?? []).map((band) => ({ maxDistanceKm: band.maxDistanceKm, fee: band.fee }));
+
+    return prisma.$transaction(async (tx) => {
+      const rule = await tx.deliveryFeeRule.upsert({
+        where: { mallId },
+        create: { mallId, ...ruleData },
+        update: ruleData,
+      });
+
+      await tx.deliveryFeeBand.deleteMany({ where: { ruleId: rule.id } });
+      if (bands.length > 0) {
+        await tx.deliveryFeeBand.createMany({
+          data: bands.map((band) => ({ ruleId: rule.id, ...band })),
+        });
+      }
+
+      return tx.deliveryFeeRule.findUniqueOrThrow({
+        where: { id: rule.id },
+        include: { bands: { orderBy: { maxDistanceKm: "asc" } } },
+      });
+    });
+  },
+
+  /**
+   * Admin: Remove the delivery fee rule of a mall (orders are then delivered for free)
+   */
+  async deleteDeliveryFeeRule(mallId: string) {
+    await prisma.deliveryFeeRule.delete({ where: { mallId } });
+    return { success: true, message: "Delivery fee rule deleted successfully" };
+  },
+};
@@ -28,6 +28,12 @@ export const adminPromoCodeController = {
           message: "Promo code already exists. Please use a unique code.",
         });
       }
+      if (err.message?.includes("does not belong to this mall")) {
+        return res.status(400).json({
+          success: false,
+          message: err.message,
+        });
+      }
       return res.status(500).json({
         success: false,
         message: "Failed to create promo code",
@@ -118,12 +124,18 @@ export const adminPromoCodeController = {
           errors: err.errors,
         });
       }
-      if (err.code === "P2025") {
+      if (err.code === "P2025" || err.message === "Promo code not found") {
         return res.status(404).json({
           success: false,
           message: "Promo code not found",
         });
       }
+      if (err.message?.includes("is required for") || err.message?.includes("does not belong to this mall")) {
+        return res.status(400).json({
+          success: false,
+          message: err.message,
+        });
+      }
       return res.status(500).json({
         success: false,
         message: "Failed to update promo code",
@@ -14,21 +14,39 @@ router.use(requireAdminRole);
  *     summary: Create a new promo code
  *     tags: [Admin - Promo Codes]
  *     description: |
- *       Create a new promo code for a specific mall and restaurant.
+ *       Create a new promo code for a mall. The `scope` decides where it applies:
+ *       - `RESTAURANTS` (default) - the restaurants in `restaurantIds` (or the single `restaurantId`)
+ *       - `MALL` - every restaurant of the mall, e.g. "10% off any food court order this weekend"
+ *       - `CUISINE_CATEGORY` - restaurants of the mall in `cuisineCategoryId`
+ *
+ *       Restaurants and the cuisine category must belong to the mall.
  *       
  *       **Testing Example:**
  *       POST /admin/promo-codes
  *       ```json
  *       {
  *         "mallId": "mall-123",
- *         "restaurantId": "rest-456",
+ *         "scope": "RESTAURANTS",
+ *         "restaurantIds": ["rest-456", "rest-789"],
  *         "code": "SUMMER2025",
+ *         "discountType": "PERCENTAGE",
  *         "discountPercentage": 20,
  *         "endDate": "2026-08-31T23:59:59Z"
  *       }
  *       ```
  *       
  *       **Note:** startDate is auto-generated as current timestamp
+ *
+ *       **Discount types:**
+ *       - `PERCENTAGE` - `discountPercentage` of the subtotal (required)
+ *       - `FIXED` - `fixedDiscountAmount` off the subtotal (required), never more than the subtotal
+ *       - `FREE_DELIVERY` - waives the delivery fee calculated at checkout
+ *
+ *       `maxDiscountAmount` caps the discount of every type.
+ *
+ *       **Redemption rules:** redemptions are recorded at checkout and released again when the
+ *       order is cancelled, rejected or refunded. Cancelled/rejected orders don't count as a
+ *       previous order for `firstOrderOnly` codes.
  *     requestBody:
  *       required: true
  *       content:
@@ -37,35 +55,82 @@ router.use(requireAdminRole);
  *             type: object
  *             required:
  *               - mallId
- *               - restaurantId
  *               - code
- *               - discountPercentage
  *               - endDate
  *             properties:
  *               mallId:
  *                 type: string
  *                 description: Mall ID
  *                 example: "mall-123"
+ *               scope:
+ *                 type: string
+ *                 enum: [MALL, RESTAURANTS, CUISINE_CATEGORY]
+ *                 default: RESTAURANTS
+ *                 description: Where the promo code applies
+ *               restaurantIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: Restaurant IDs, required for RESTAURANTS codes
+ *                 example: ["rest-456", "rest-789"]
  *               restaurantId:
  *                 type: string
- *                 description: Restaurant ID
+ *                 description: Single restaurant ID (same as restaurantIds with one entry)
  *                 example: "rest-456"
+ *               cuisineCategoryId:
+ *                 type: string
+ *                 nullable: true
+ *                 description: Cuisine category ID, required for CUISINE_CATEGORY codes
  *               code:
  *                 type: string
  *                 minLength: 3
  *                 description: Promo code (will be converted to uppercase)
  *                 example: "SUMMER2025"
+ *               discountType:
+ *                 type: string
+ *                 enum: [PERCENTAGE, FIXED, FREE_DELIVERY]
+ *                 default: PERCENTAGE
+ *                 description: How the discount is calculated
  *               discountPercentage:
  *                 type: number
  *                 minimum: 0
  *                 maximum: 100
- *                 description: Discount percentage (0-100)
+ *                 description: Discount percentage (0-100), required for PERCENTAGE codes
  *                 example: 20
+ *               fixedDiscountAmount:
+ *                 type: number
+ *                 nullable: true
+ *                 description: Amount taken off the subtotal, required for FIXED codes
+ *                 example: 5
  *               endDate:
  *                 type: string
  *                 format: date-time
  *                 description: Promo code end date (startDate is auto-generated)
  *                 example: "2026-08-31T23:59:59Z"
+ *               maxRedemptions:
+ *                 type: integer
+ *                 nullable: true
+ *                 description: Total number of redemptions allowed (omit for unlimited)
+ *                 example: 500
+ *               maxRedemptionsPerUser:
+ *                 type: integer
+ *                 nullable: true
+ *                 description: Redemptions allowed per user (omit for unlimited)
+ *                 example: 1
+ *               minOrderSubtotal:
+ *                 type: number
+ *                 nullable: true
+ *                 description: Minimum cart subtotal required to use the code
+ *                 example: 15
+ *               maxDiscountAmount:
+ *                 type: number
+ *                 nullable: true
+ *                 description: Upper limit of the discount amount
+ *                 example: 10
+ *               firstOrderOnly:
+ *                 type: boolean
+ *                 default: false
+ *                 description: Only valid on the user's first order
  *     responses:
  *       201:
  *         description: Promo code created successfully
@@ -87,8 +152,6 @@ router.use(requireAdminRole);
  *                       type: string
  *                     mallId:
  *                       type: string
- *                     restaurantId:
- *                       type: string
  *                     code:
  *                       type: string
  *                     discountPercentage:
@@ -142,12 +205,16 @@ router.post("/", adminPromoCodeController.createPromoCode);
  *                         type: string
  *                       mallId:
  *                         type: string
- *                       restaurantId:
- *                         type: string
  *                       code:
  *                         type: string
+ *                       discountType:
+ *                         type: string
+ *                         enum: [PERCENTAGE, FIXED, FREE_DELIVERY]
  *                       discountPercentage:
  *                         type: number
+ *                       fixedDiscountAmount:
+ *                         type: number
+ *                         nullable: true
  *                       startDate:
  *                         type: string
  *                         format: date-time
@@ -161,10 +228,26 @@ router.post("/", adminPromoCodeController.createPromoCode);
  *                             type: string
  *                           name:
  *                             type: string
- *                       restaurant:
+ *                       scope:
+ *                         type: string
+ *                         enum: [MALL, RESTAURANTS, CUISINE_CATEGORY]
+ *                       restaurants:
+ *                         type: array
+ *                         items:
+ *                           type: object
+ *                           properties:
+ *                             restaurant:
+ *                               type: object
+ *                               properties:
+ *                                 userId:
+ *                                   type: string
+ *                                 name:
+ *                                   type: string
+ *                       cuisineCategory:
  *                         type: object
+ *                         nullable: true
  *                         properties:
- *                           userId:
+ *                           id:
  *                             type: string
  *                           name:
  *                             type: string
@@ -225,8 +308,14 @@ router.get("/", adminPromoCodeController.getAllPromoCodes);
  *                         type: string
  *                       code:
  *                         type: string
+ *                       discountType:
+ *                         type: string
+ *                         enum: [PERCENTAGE, FIXED, FREE_DELIVERY]
  *                       discountPercentage:
  *                         type: number
+ *                       fixedDiscountAmount:
+ *                         type: number
+ *                         nullable: true
  *                       startDate:
  *                         type: string
  *                         format: date-time
@@ -240,10 +329,26 @@ router.get("/", adminPromoCodeController.getAllPromoCodes);
  *                             type: string
  *                           name:
  *                             type: string
- *                       restaurant:
+ *                       scope:
+ *                         type: string
+ *                         enum: [MALL, RESTAURANTS, CUISINE_CATEGORY]
+ *                       restaurants:
+ *                         type: array
+ *                         items:
+ *                           type: object
+ *                           properties:
+ *                             restaurant:
+ *                               type: object
+ *                               properties:
+ *                                 userId:
+ *                                   type: string
+ *                                 name:
+ *                                   type: string
+ *                       cuisineCategory:
  *                         type: object
+ *                         nullable: true
  *                         properties:
- *                           userId:
+ *                           id:
  *                             type: string
  *                           name:
  *                             type: string
@@ -261,9 +366,12 @@ router.get("/", adminPromoCodeController.getAllPromoCodes);
  *                   mall:
  *                     id: "mall-123"
  *                     name: "City Mall"
- *                   restaurant:
- *                     userId: "rest-456"
- *                     name: "Pizza Place"
+ *                   scope: "RESTAURANTS"
+ *                   restaurants:
+ *                     - restaurant:
+ *                         userId: "rest-456"
+ *                         name: "Pizza Place"
+ *                   cuisineCategory: null
  *               total: 1
  *       400:
  *         description: Search term is required or empty
@@ -441,8 +549,14 @@ router.delete("/:id", adminPromoCodeController.deletePromoCode);
  *                         type: string
  *                       code:
  *                         type: string
+ *                       discountType:
+ *                         type: string
+ *                         enum: [PERCENTAGE, FIXED, FREE_DELIVERY]
  *                       discountPercentage:
  *                         type: number
+ *                       fixedDiscountAmount:
+ *                         type: number
+ *                         nullable: true
  *                       startDate:
  *                         type: string
  *                         format: date-time
@@ -456,10 +570,26 @@ router.delete("/:id", adminPromoCodeController.deletePromoCode);
  *                             type: string
  *                           name:
  *                             type: string
- *                       restaurant:
+ *                       scope:
+ *                         type: string
+ *                         enum: [MALL, RESTAURANTS, CUISINE_CATEGORY]
+ *                       restaurants:
+ *                         type: array
+ *                         items:
+ *                           type: object
+ *                           properties:
+ *                             restaurant:
+ *                               type: object
+ *                               properties:
+ *                                 userId:
+ *                                   type: string
+ *                                 name:
+ *                                   type: string
+ *                       cuisineCategory:
  *                         type: object
+ *                         nullable: true
  *                         properties:
- *                           userId:
+ *                           id:
  *                             type: string
  *                           name:
  *                             type: string
@@ -477,9 +607,12 @@ router.delete("/:id", adminPromoCodeController.deletePromoCode);
  *                   mall:
  *                     id: "mall-123"
  *                     name: "City Mall"
- *                   restaurant:
- *                     userId: "rest-456"
- *                     name: "Pizza Place"
+ *                   scope: "RESTAURANTS"
+ *                   restaurants:
+ *                     - restaurant:
+ *                         userId: "rest-456"
+ *                         name: "Pizza Place"
+ *                   cuisineCategory: null
  *               total: 1
  *       400:
  *         description: Search term is required or empty
@@ -572,8 +705,14 @@ router.get("/search", adminPromoCodeController.searchPromoCodes);
  *                         type: string
  *                       code:
  *                         type: string
+ *                       discountType:
+ *                         type: string
+ *                         enum: [PERCENTAGE, FIXED, FREE_DELIVERY]
  *                       discountPercentage:
  *                         type: number
+ *                       fixedDiscountAmount:
+ *                         type: number
+ *                         nullable: true
  *                       startDate:
  *                         type: string
  *                         format: date-time
@@ -587,10 +726,26 @@ router.get("/search", adminPromoCodeController.searchPromoCodes);
  *                             type: string
  *                           name:
  *                             type: string
- *                       restaurant:
+ *                       scope:
+ *                         type: string
+ *                         enum: [MALL, RESTAURANTS, CUISINE_CATEGORY]
+ *                       restaurants:
+ *                         type: array
+ *                         items:
+ *                           type: object
+ *                           properties:
+ *                             restaurant:
+ *                               type: object
+ *                               properties:
+ *                                 userId:
+ *                                   type: string
+ *                                 name:
+ *                                   type: string
+ *                       cuisineCategory:
  *                         type: object
+ *                         nullable: true
  *                         properties:
- *                           userId:
+ *                           id:
  *                             type: string
  *                           name:
  *                             type: string
@@ -611,9 +766,12 @@ router.get("/search", adminPromoCodeController.searchPromoCodes);
  *                   mall:
  *                     id: "mall-123"
  *                     name: "City Mall"
- *                   restaurant:
- *                     userId: "rest-456"
- *                     name: "Pizza Place"
+ *                   scope: "RESTAURANTS"
+ *                   restaurants:
+ *                     - restaurant:
+ *                         userId: "rest-456"
+ *                         name: "Pizza Place"
+ *                   cuisineCategory: null
  *                 - id: "660e8400-e29b-41d4-a716-446655440001"
  *                   code: "WELCOME15"
  *                   discountPercentage: 15
@@ -622,9 +780,12 @@ router.get("/search", adminPromoCodeController.searchPromoCodes);
  *                   mall:
  *                     id: "mall-123"
  *                     name: "City Mall"
- *                   restaurant:
- *                     userId: "rest-456"
- *                     name: "Pizza Place"
+ *                   scope: "RESTAURANTS"
+ *                   restaurants:
+ *                     - restaurant:
+ *                         userId: "rest-456"
+ *                         name: "Pizza Place"
+ *                   cuisineCategory: null
  *               total: 2
  *       400:
  *         description: Restaurant ID is required
@@ -1,11 +1,79 @@
 import { z } from "zod";
 
+// Redemption rules (null / omitted = no limit)
+const redemptionRulesSchema = {
+  maxRedemptions: z.number().int().positive("Max redemptions must be at least 1").nullable().optional(),
+  maxRedemptionsPerUser: z.number().int().positive("Max redemptions per user must be at least 1").nullable().optional(),
+  minOrderSubtotal: z.number().min(0).nullable().optional(),
+  maxDiscountAmount: z.number().positive("Max discount amount must be greater than 0").nullable().optional(),
+  firstOrderOnly: z.boolean().optional(),
+};
+
+export const discountTypeSchema = z.enum(["PERCENTAGE", "FIXED", "FREE_DELIVERY"]);
+
+// Where a code applies: the whole mall, a list of restaurants, or a cuisine category of the mall
+export const promoCodeScopeSchema = z.enum(["MALL", "RESTAURANTS", "CUISINE_CATEGORY"]);
+
+const scopeFieldsSchema = {
+  scope: promoCodeScopeSchema.optional(),
+  restaurantIds: z.array(z.string().min(1)).optional(),
+  // Single restaurant, kept for existing clients (same as restaurantIds: [restaurantId])
+  restaurantId: z.string().optional(),
+  cuisineCategoryId: z.string().nullable().optional(),
+};
+
+/**
+ * Checks that the value required by the discount type is set:
+ * PERCENTAGE needs a percentage, FIXED needs an amount, FREE_DELIVERY needs neither.
+ * Returns the error message, or null when the definition is valid.
+ */
+export function getDiscountDefinitionError(definition: {
+  discountType: z.infer<typeof discountTypeSchema>;
+  discountPercentage?: number | null | undefined;
+  fixedDiscountAmount?: number | null | undefined;
+}): string | null {
+  if (definition.discountType === "PERCENTAGE" && !definition.discountPercentage) {
+    return "Discount percentage is required for percentage promo codes";
+  }
+  if (definition.discountType === "FIXED" && !definition.fixedDiscountAmount) {
+    return "Fixed discount amount is required for fixed-amount promo codes";
+  }
+  return null;
+}
+
+/**
+ * Checks that the target required by the scope is set:
+ * RESTAURANTS needs at least one restaurant, CUISINE_CATEGORY needs a category.
+ * Returns the error message, or null when the scope is valid.
+ */
+export function getScopeDefinitionError(definition: {
+  scope: z.infer<typeof promoCodeScopeSchema>;
+  restaurantIds: string[];
+  cuisineCategoryId?: string | null | undefined;
+}): string | null {
+  if (definition.scope === "RESTAURANTS" && definition.restaurantIds.length === 0) {
+    return "At least one restaurant is required for restaurant promo codes";
+  }
+  if (definition.scope === "CUISINE_CATEGORY" && !definition.cuisineCategoryId) {
+    return "Cuisine category is required for cuisine category promo codes";
+  }
+  return null;
+}
+
+// Merges the single restaurantId into restaurantIds (without duplicates)
+export function collectRestaurantIds(data: { restaurantIds?: string[] | undefined; restaurantId?: string | undefined }) {
+  return [...new Set([...(data.restaurantIds ?? []), ...(data.restaurantId ? [data.restaurantId] : [])])];
+}
+
 // Admin: Create promo code
 export const createPromoCodeSchema = z.object({
   mallId: z.string().min(1, "Mall is required"),
-  restaurantId: z.string().min(1, "Restaurant is required"),
+  ...scopeFieldsSchema,
+  scope: promoCodeScopeSchema.default("RESTAURANTS"),
   code: z.string().min(3, "Code must be at least 3 characters"),
-  discountPercentage: z.number().min(0).max(100, "Discount percentage must be between 0 and 100"),
+  discountType: discountTypeSchema.default("PERCENTAGE"),
+  discountPercentage: z.number().min(0).max(100, "Discount percentage must be between 0 and 100").optional(),
+  fixedDiscountAmount: z.number().positive("Fixed discount amount must be greater than 0").nullable().optional(),
   endDate: z.string().min(1, "End date is required").refine(
     (date) => {
       const parsed = new Date(date);
@@ -13,15 +81,27 @@ export const createPromoCodeSchema = z.object({
     },
     { message: "End date must be a valid date" }
   ),
+  ...redemptionRulesSchema,
   // startDate is auto-generated on the server
+}).superRefine((data, ctx) => {
+  const message = getDiscountDefinitionError(data);
+  if (message) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message, path: ["discountType"] });
+  }
+  const scopeMessage = getScopeDefinitionError({ ...data, restaurantIds: collectRestaurantIds(data) });
+  if (scopeMessage) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: scopeMessage, path: ["scope"] });
+  }
 });
 
 // Admin: Update promo code
 export const updatePromoCodeSchema = z.object({
   mallId: z.string().optional(),
-  restaurantId: z.string().optional(),
+  ...scopeFieldsSchema,
   code: z.string().min(3, "Code must be at least 3 characters").optional(),
+  discountType: discountTypeSchema.optional(),
   discountPercentage: z.number().min(0).max(100, "Discount percentage must be between 0 and 100").optional(),
+  fixedDiscountAmount: z.number().positive("Fixed discount amount must be greater than 0").nullable().optional(),
   endDate: z.string().min(1).refine(
     (date) => {
       const parsed = new Date(date);
@@ -29,6 +109,7 @@ export const updatePromoCodeSchema = z.object({
     },
     { message: "End date must be a valid date" }
   ).optional(),
+  ...redemptionRulesSchema,
   // startDate cannot be updated
 });
 
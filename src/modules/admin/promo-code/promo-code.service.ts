@@ -1,6 +1,61 @@
 
 import prisma from "../../../config/prisma";
-import { CreatePromoCodeRequest, UpdatePromoCodeRequest } from "./promo-code.schema";
+import { restaurantScopeWhere } from "../../promo-code/promo-code.service";
+import {
+  CreatePromoCodeRequest,
+  UpdatePromoCodeRequest,
+  collectRestaurantIds,
+  getDiscountDefinitionError,
+  getScopeDefinitionError,
+} from "./promo-code.schema";
+
+// Mall, restaurants and cuisine category a code applies to
+const PROMO_CODE_SCOPE_INCLUDE = {
+  mall: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+  restaurants: {
+    select: {
+      restaurant: {
+        select: {
+          userId: true,
+          name: true,
+        },
+      },
+    },
+  },
+  cuisineCategory: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+} as const;
+
+// Scope targets must belong to the promo code's mall
+async function assertScopeInMall(mallId: string, restaurantIds: string[], cuisineCategoryId: string | null) {
+  if (restaurantIds.length > 0) {
+    const count = await prisma.restaurant.count({
+      where: { userId: { in: restaurantIds }, mallId },
+    });
+    if (count !== restaurantIds.length) {
+      throw new Error("One or more restaurants do not belong to this mall");
+    }
+  }
+
+  if (cuisineCategoryId) {
+    const category = await prisma.cuisineCategory.findFirst({
+      where: { id: cuisineCategoryId, mallId },
+      select: { id: true },
+    });
+    if (!category) {
+      throw new Error("Cuisine category does not belong to this mall");
+    }
+  }
+}
 
 export const adminPromoCodeService = {
   /**
@@ -9,15 +64,33 @@ export const adminPromoCodeService = {
    * endDate must be provided from frontend calendar picker
    */
   async createPromoCode(data: CreatePromoCodeRequest) {
+    // Only the target matching the scope is stored
+    const restaurantIds = data.scope === "RESTAURANTS" ? collectRestaurantIds(data) : [];
+    const cuisineCategoryId = data.scope === "CUISINE_CATEGORY" ? data.cuisineCategoryId ?? null : null;
+    await assertScopeInMall(data.mallId, restaurantIds, cuisineCategoryId);
+
     const promoCode = await prisma.promoCode.create({
       data: {
         mallId: data.mallId,
-        restaurantId: data.restaurantId,
+        scope: data.scope,
+        cuisineCategoryId,
+        restaurants: {
+          create: restaurantIds.map((restaurantId) => ({ restaurantId })),
+        },
         code: data.code.toUpperCase(),
-        discountPercentage: data.discountPercentage,
+        discountType: data.discountType,
+        // Only the value matching the discount type is stored
+        discountPercentage: data.discountType === "PERCENTAGE" ? data.discountPercentage ?? 0 : 0,
+        fixedDiscountAmount: data.discountType === "FIXED" ? data.fixedDiscountAmount ?? null : null,
         startDate: new Date(), // Auto-generated: current timestamp
         endDate: new Date(data.endDate), // From frontend calendar
+        maxRedemptions: data.maxRedemptions ?? null,
+        maxRedemptionsPerUser: data.maxRedemptionsPerUser ?? null,
+        minOrderSubtotal: data.minOrderSubtotal ?? null,
+        maxDiscountAmount: data.maxDiscountAmount ?? null,
+        firstOrderOnly: data.firstOrderOnly ?? false,
       },
+      include: PROMO_CODE_SCOPE_INCLUDE,
     });
 
     return promoCode;
@@ -28,20 +101,7 @@ export const adminPromoCodeService = {
    */
   async getAllPromoCodes() {
     const promoCodes = await prisma.promoCode.findMany({
-      include: {
-        mall: {
-          select: {
-            id: true,
-            name: true,
-          },
-        },
-        Restaurant: {
-          select: {
-            userId: true,
-            name: true,
-          },
-        },
-      },
+      include: PROMO_CODE_SCOPE_INCLUDE,
       orderBy: {
         createdAt: "desc",
       },
@@ -56,20 +116,7 @@ export const adminPromoCodeService = {
   async getPromoCodeById(id: string) {
     const promoCode = await prisma.promoCode.findUnique({
       where: { id },
-      include: {
-        mall: {
-          select: {
-            id: true,
-            name: true,
-          },
-        },
-        Restaurant: {
-          select: {
-            userId: true,
-            name: true,
-          },
-        },
-      },
+      include: PROMO_CODE_SCOPE_INCLUDE,
     });
 
     return promoCode;
@@ -82,14 +129,92 @@ export const adminPromoCodeService = {
     const updateData: any = {};
 
     if (data.mallId) updateData.mallId = data.mallId;
-    if (data.restaurantId) updateData.restaurantId = data.restaurantId;
     if (data.code) updateData.code = data.code.toUpperCase();
+    if (data.discountType !== undefined) updateData.discountType = data.discountType;
     if (data.discountPercentage !== undefined) updateData.discountPercentage = data.discountPercentage;
+    if (data.fixedDiscountAmount !== undefined) updateData.fixedDiscountAmount = data.fixedDiscountAmount;
     if (data.endDate) updateData.endDate = new Date(data.endDate);
+    if (data.maxRedemptions !== undefined) updateData.maxRedemptions = data.maxRedemptions;
+    if (data.maxRedemptionsPerUser !== undefined) updateData.maxRedemptionsPerUser = data.maxRedemptionsPerUser;
+    if (data.minOrderSubtotal !== undefined) updateData.minOrderSubtotal = data.minOrderSubtotal;
+    if (data.maxDiscountAmount !== undefined) updateData.maxDiscountAmount = data.maxDiscountAmount;
+    if (data.firstOrderOnly !== undefined) updateData.firstOrderOnly = data.firstOrderOnly;
+
+    const discountChanged =
+      data.discountType !== undefined ||
+      data.discountPercentage !== undefined ||
+      data.fixedDiscountAmount !== undefined;
+    const scopeChanged =
+      data.mallId !== undefined ||
+      data.scope !== undefined ||
+      data.restaurantIds !== undefined ||
+      data.restaurantId !== undefined ||
+      data.cuisineCategoryId !== undefined;
+
+    if (discountChanged || scopeChanged) {
+      const existing = await prisma.promoCode.findUnique({
+        where: { id },
+        include: { restaurants: { select: { restaurantId: true } } },
+      });
+      if (!existing) {
+        throw new Error("Promo code not found");
+      }
+
+      // Validate the resulting discount definition against the stored values
+      if (discountChanged) {
+        const discountType = data.discountType ?? existing.discountType;
+        const message = getDiscountDefinitionError({
+          discountType,
+          discountPercentage: data.discountPercentage ?? existing.discountPercentage,
+          fixedDiscountAmount:
+            data.fixedDiscountAmount !== undefined
+              ? data.fixedDiscountAmount
+              : existing.fixedDiscountAmount?.toNumber() ?? null,
+        });
+        if (message) {
+          throw new Error(message);
+        }
+
+        if (discountType !== "PERCENTAGE") updateData.discountPercentage = 0;
+        if (discountType !== "FIXED") updateData.fixedDiscountAmount = null;
+      }
+
+      // Same for the scope; the restaurant list is replaced as a whole
+      if (scopeChanged) {
+        const scope = data.scope ?? existing.scope;
+        const restaurantIdsChanged = data.restaurantIds !== undefined || data.restaurantId !== undefined;
+        const restaurantIds =
+          scope !== "RESTAURANTS"
+            ? []
+            : restaurantIdsChanged
+              ? collectRestaurantIds(data)
+              : existing.restaurants.map((r) => r.restaurantId);
+        const cuisineCategoryId =
+          scope !== "CUISINE_CATEGORY"
+            ? null
+            : data.cuisineCategoryId !== undefined
+              ? data.cuisineCategoryId
+              : existing.cuisineCategoryId;
+
+        const message = getScopeDefinitionError({ scope, restaurantIds, cuisineCategoryId });
+        if (message) {
+          throw new Error(message);
+        }
+        await assertScopeInMall(data.mallId ?? existing.mallId, restaurantIds, cuisineCategoryId);
+
+        updateData.scope = scope;
+        updateData.cuisineCategoryId = cuisineCategoryId;
+        updateData.restaurants = {
+          deleteMany: {},
+          create: restaurantIds.map((restaurantId) => ({ restaurantId })),
+        };
+      }
+    }
 
     const promoCode = await prisma.promoCode.update({
       where: { id },
       data: updateData,
+      include: PROMO_CODE_SCOPE_INCLUDE,
     });
 
     return promoCode;
@@ -108,12 +233,22 @@ export const adminPromoCodeService = {
 
   /**
    * Admin: Get valid (non-expired) promo codes for a specific restaurant
+   * Includes mall-wide and cuisine category codes covering the restaurant
    */
   async getValidPromoCodesByRestaurant(restaurantId: string) {
+    const restaurant = await prisma.restaurant.findUnique({
+      where: { userId: restaurantId },
+      select: { userId: true, mallId: true, cuisineCategoryId: true },
+    });
+
+    if (!restaurant) {
+      return [];
+    }
+
     const now = new Date();
     const promoCodes = await prisma.promoCode.findMany({
       where: {
-        restaurantId: restaurantId,
+        ...restaurantScopeWhere(restaurant),
         endDate: {
           gte: now, // Not expired
         },
@@ -121,20 +256,7 @@ export const adminPromoCodeService = {
           lte: now, // Already started
         },
       },
-      include: {
-        mall: {
-          select: {
-            id: true,
-            name: true,
-          },
-        },
-        Restaurant: {
-          select: {
-            userId: true,
-            name: true,
-          },
-        },
-      },
+      include: PROMO_CODE_SCOPE_INCLUDE,
       orderBy: {
         endDate: "desc",
       },
@@ -154,20 +276,7 @@ export const adminPromoCodeService = {
           mode: 'insensitive',
         },
       },
-      include: {
-        mall: {
-          select: {
-            id: true,
-            name: true,
-          },
-        },
-        Restaurant: {
-          select: {
-            userId: true,
-            name: true,
-          },
-        },
-      },
+      include: PROMO_CODE_SCOPE_INCLUDE,
       orderBy: {
         createdAt: "desc",
       },
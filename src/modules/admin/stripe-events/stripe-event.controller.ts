@@ -0,0 +1,96 @@
+import { Request, Response } from "express";
+import { adminStripeEventService } from "./stripe-event.service";
+import { listStripeEventsSchema, stripeEventParamsSchema } from "./stripe-event.schema";
+
+export const adminStripeEventController = {
+  // Admin: List logged Stripe webhook events (failed ones by default)
+  async listEvents(req: Request, res: Response) {
+    const parseResult = listStripeEventsSchema.safeParse(req.query);
+    if (!parseResult.success) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid query parameters",
+        errors: parseResult.error.flatten(),
+      });
+    }
+
+    try {
+      const result = await adminStripeEventService.listEvents(parseResult.data);
+      return res.json({
+        success: true,
+        data: result,
+      });
+    } catch (err: any) {
+      return res.status(500).json({
+        success: false,
+        message: "Failed to fetch Stripe events",
+        error: err.message,
+      });
+    }
+  },
+
+  // Admin: Get a logged Stripe webhook event with its payload
+  async getEvent(req: Request, res: Response) {
+    const parseResult = stripeEventParamsSchema.safeParse(req.params);
+    if (!parseResult.success) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid event",
+        errors: parseResult.error.flatten(),
+      });
+    }
+
+    try {
+      const event = await adminStripeEventService.getEvent(parseResult.data);
+      return res.json({
+        success: true,
+        data: event,
+      });
+    } catch (err: any) {
+      if (err.message?.includes("not found")) {
+        return res.status(404).json({ success: false, message: err.message });
+      }
+      return res.status(500).json({
+        success: false,
+        message: "Failed to fetch Stripe event",
+        error: err.message,
+      });
+    }
+  },
+
+  // Admin: Reprocess a failed Stripe webhook event from its stored payload
+  async reprocessEvent(req: Request, res: Response) {
+    const parseResult = stripeEventParamsSchema.safeParse(req.params);
+    if (!parseResult.success) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid event",
+        errors: parseResult.error.flatten(),
+      });
+    }
+
+    try {
+      const event = await adminStripeEventService.reprocessEvent(parseResult.data);
+      return res.json({
+        success: true,
+        message: event?.status === "FAILED" ? "Event reprocessed but still failing" : "Event reprocessed successfully",
+        data: event,
+      });
+    } catch (err: any) {
+      if (err.message?.includes("not found")) {
+        return res.status(404).json({ success: false, message: err.message });
+      }
+      if (err.message?.includes("Only failed events") || err.message?.includes("already being reprocessed")) {
+        return res.status(409).json({ success: false, message: err.message });
+      }
+      if (err.message?.includes("no stored payload")) {
+        return res.status(400).json({ success: false, message: err.message });
+      }
+      return res.status(500).json({
+        success: false,
+        message: "Failed to reprocess Stripe event",
+        error: err.message,
+      });
+    }
+  },
+};
@@ -0,0 +1,179 @@
+import { Router } from "express";
+import { adminStripeEventController } from "./stripe-event.controller";
+import { requireAdminRole } from "../../../middlewares/role.middleware";
+
+const router = Router();
+
+// Apply admin role to all admin Stripe event routes (requireAuth is applied globally)
+router.use(requireAdminRole);
+
+/**
+ * @swagger
+ * /admin/stripe-events:
+ *   get:
+ *     summary: List Stripe webhook events
+ *     tags: [Admin - Stripe Events]
+ *     description: |
+ *       Lists the events received by the Stripe webhooks (payments, connected accounts and subscriptions),
+ *       newest first, without their payloads. Returns FAILED events by default: events that could not be
+ *       applied (unknown order, order group, restaurant account or subscription) or whose processing threw.
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [PROCESSING, PROCESSED, IGNORED, FAILED]
+ *           default: FAILED
+ *       - in: query
+ *         name: source
+ *         schema:
+ *           type: string
+ *           enum: [PAYMENTS, ACCOUNTS, SUBSCRIPTIONS]
+ *         description: Webhook endpoint that received the event
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *         description: Stripe event type, e.g. payment_intent.succeeded
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *     responses:
+ *       200:
+ *         description: Events retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     events:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/StripeEvent'
+ *                     pagination:
+ *                       type: object
+ *                       properties:
+ *                         page:
+ *                           type: integer
+ *                         limit:
+ *                           type: integer
+ *                         total:
+ *                           type: integer
+ *                         totalPages:
+ *                           type: integer
+ *       400:
+ *         description: Invalid query parameters
+ *       403:
+ *         description: Admin access required
+ */
+router.get("/", adminStripeEventController.listEvents);
+
+/**
+ * @swagger
+ * /admin/stripe-events/{source}/{eventId}:
+ *   get:
+ *     summary: Get a Stripe webhook event with its payload
+ *     tags: [Admin - Stripe Events]
+ *     description: |
+ *       The same Stripe event can reach several webhook endpoints, so events are identified by the
+ *       endpoint (`source`) and the Stripe event ID. Events received before payloads were stored have none.
+ *     parameters:
+ *       - in: path
+ *         name: source
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [PAYMENTS, ACCOUNTS, SUBSCRIPTIONS]
+ *       - in: path
+ *         name: eventId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: evt_1QXyZ2AbCdEfGhIj
+ *     responses:
+ *       200:
+ *         description: Event retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/StripeEvent'
+ *       400:
+ *         description: Invalid source or event ID
+ *       404:
+ *         description: Event not found
+ */
+router.get("/:source/:eventId", adminStripeEventController.getEvent);
+
+/**
+ * @swagger
+ * /admin/stripe-events/{source}/{eventId}/reprocess:
+ *   post:
+ *     summary: Reprocess a failed Stripe webhook event
+ *     tags: [Admin - Stripe Events]
+ *     description: |
+ *       Runs the webhook handler of the event's endpoint again on the stored payload, e.g. once the missing
+ *       order or subscription exists. The attempt count is incremented and the new outcome recorded; an event
+ *       that still can't be applied stays FAILED with the new error.
+ *
+ *       Only FAILED events can be reprocessed.
+ *     parameters:
+ *       - in: path
+ *         name: source
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [PAYMENTS, ACCOUNTS, SUBSCRIPTIONS]
+ *       - in: path
+ *         name: eventId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: evt_1QXyZ2AbCdEfGhIj
+ *     responses:
+ *       200:
+ *         description: Event reprocessed (check `data.status` for the outcome)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Event reprocessed successfully"
+ *                 data:
+ *                   $ref: '#/components/schemas/StripeEvent'
+ *       400:
+ *         description: Invalid source or event ID, or the event has no stored payload
+ *       404:
+ *         description: Event not found
+ *       409:
+ *         description: Event is not FAILED, or is already being reprocessed
+ *       500:
+ *         description: The handler threw again (the error is recorded on the event)
+ */
+router.post("/:source/:eventId/reprocess", adminStripeEventController.reprocessEvent);
+
+export default router;
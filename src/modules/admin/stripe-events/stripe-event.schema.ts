@@ -0,0 +1,20 @@
+import { z } from "zod";
+
+export const stripeEventSourceSchema = z.enum(["PAYMENTS", "ACCOUNTS", "SUBSCRIPTIONS"]);
+
+export const listStripeEventsSchema = z.object({
+  // Failed events by default: the ones needing attention
+  status: z.enum(["PROCESSING", "PROCESSED", "IGNORED", "FAILED"]).default("FAILED"),
+  source: stripeEventSourceSchema.optional(),
+  type: z.string().min(1).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export const stripeEventParamsSchema = z.object({
+  source: stripeEventSourceSchema,
+  eventId: z.string().startsWith("evt_", "Invalid Stripe event ID"),
+});
+
+export type ListStripeEventsInput = z.infer<typeof listStripeEventsSchema>;
+export type StripeEventParams = z.infer<typeof stripeEventParamsSchema>;
@@ -0,0 +1,76 @@
+import prisma from "../../../config/prisma";
+import { stripeEventLogService } from "../../payments/stripe-webhooks/stripe-event-log.service";
+import { stripeEventProcessors } from "../../payments/stripe-webhooks/stripe-event-processors";
+import type { ListStripeEventsInput, StripeEventParams } from "./stripe-event.schema";
+
+export const adminStripeEventService = {
+  // List logged webhook events (without payloads), newest first
+  async listEvents(input: ListStripeEventsInput) {
+    const where = {
+      status: input.status,
+      ...(input.source && { source: input.source }),
+      ...(input.type && { type: input.type }),
+    };
+
+    const [events, total] = await Promise.all([
+      prisma.stripeEvent.findMany({
+        where,
+        omit: { payload: true },
+        orderBy: { createdAt: "desc" },
+        skip: (input.page - 1) * input.limit,
+        take: input.limit,
+      }),
+      prisma.stripeEvent.count({ where }),
+    ]);
+
+    return {
+      events,
+      pagination: {
+        page: input.page,
+        limit: input.limit,
+        total,
+        totalPages: Math.ceil(total / input.limit),
+      },
+    };
+  },
+
+  // Logged event with its payload
+  async getEvent(params: StripeEventParams) {
+    const event = await prisma.stripeEvent.findUnique({
+      where: { id_source: { id: params.eventId, source: params.source } },
+    });
+
+    if (!event) {
+      throw new Error("Stripe event not found");
+    }
+
+    return event;
+  },
+
+  // Process a failed event again from its stored payload
+  async reprocessEvent(params: StripeEventParams) {
+    const record = await this.getEvent(params);
+
+    if (record.status !== "FAILED") {
+      throw new Error(`Only failed events can be reprocessed; this event is ${record.status}`);
+    }
+
+    const payload = stripeEventLogService.getPayload(record);
+    const result = await stripeEventLogService.process(
+      params.source,
+      payload,
+      stripeEventProcessors[params.source]
+    );
+
+    if (!result.processed) {
+      throw new Error("Event is already being reprocessed");
+    }
+
+    console.log(`[Admin StripeEvents] Event reprocessed: ${params.eventId}`, {
+      source: params.source,
+      status: result.event?.status,
+    });
+
+    return result.event;
+  },
+};
@@ -7,6 +7,7 @@ import {
   getPromoCodeUsageOverTimeSchema,
   getPromoCodeOrdersSchema,
   getAllRestaurantsSystemWideSchema,
+  getOrderIssueRatesSchema,
 } from "./analytics.schema";
 
 export const analyticsController = {
@@ -269,5 +270,39 @@ export const analyticsController = {
       return res.status(500).json({ message: error.message });
     }
   },
+
+  /**
+   * GET /analytics/order-issues - Get order issue rates per restaurant
+   */
+  async getOrderIssueRates(req: Request, res: Response) {
+    try {
+      const period = (req.query.period ?? "all") as string;
+      const startDate = req.query.startDate ? new Date(req.query.startDate as string) : undefined;
+      const endDate = req.query.endDate ? new Date(req.query.endDate as string) : undefined;
+
+      const parseResult = getOrderIssueRatesSchema.safeParse({
+        mallId: req.query.mallId as string | undefined,
+        period,
+        startDate: startDate?.toISOString(),
+        endDate: endDate?.toISOString(),
+      });
+
+      if (!parseResult.success) {
+        return res.status(400).json({
+          message: "Invalid request parameters",
+          errors: parseResult.error.issues,
+        });
+      }
+
+      const result = await analyticsService.getOrderIssueRates(parseResult.data);
+
+      return res.json({
+        message: "Order issue rates retrieved successfully",
+        data: result,
+      });
+    } catch (error: any) {
+      return res.status(500).json({ message: error.message });
+    }
+  },
 };
 
@@ -111,6 +111,10 @@ router.get("/analytics/mall/:mallId", requireAuth, requireAdminRole, analyticsCo
  *     description: |
  *       Get detailed sales summary for a specific restaurant including revenue, orders,
  *       discounts, taxes, and delivery fees with time period filtering (today, week, month, year, all) and trend calculations.
+ *
+ *       Succeeded refunds of the period's orders are reported in `summary.totalRefunded` and `summary.netRevenue`
+ *       (revenue less refunds). `refunds` breaks them down, with the quantity and amount refunded per item
+ *       for item-level refunds (missing or wrong items).
  *     parameters:
  *       - in: path
  *         name: restaurantId
@@ -221,6 +225,9 @@ router.get("/analytics/promo-code/:promoCodeId/usage-over-time", requireAuth, re
  *     description: |
  *       Get discount impact analysis showing orders and total discount grouped by order value ranges
  *       (0-5k, 5k-10k, 10k-20k, 20k+). Useful for visualizing discount effectiveness across different order sizes.
+ *
+ *       `discountRate` is measured against what the code discounts (`appliesTo`): the subtotal for
+ *       PERCENTAGE and FIXED codes, the delivery fee for FREE_DELIVERY codes.
  *     parameters:
  *       - in: path
  *         name: promoCodeId
@@ -330,4 +337,99 @@ router.get("/analytics/promo-code/:promoCodeId/orders", requireAuth, requireAdmi
  */
 router.get("/analytics/restaurants/all", requireAuth, requireAdminRole, analyticsController.getAllRestaurantsSystemWide);
 
+/**
+ * @swagger
+ * /analytics/order-issues:
+ *   get:
+ *     summary: Get order issue rates per restaurant
+ *     tags: [Analytics]
+ *     description: |
+ *       Issues reported by customers (missing items, cold food, ...) per restaurant, for the orders placed in the period.
+ *       The issue rate is the number of issues per 100 delivered orders. Restaurants with the highest rate come first.
+ *     parameters:
+ *       - in: query
+ *         name: mallId
+ *         required: false
+ *         schema:
+ *           type: string
+ *         description: Only restaurants of this mall
+ *       - in: query
+ *         name: period
+ *         required: false
+ *         schema:
+ *           type: string
+ *           enum: [today, week, month, year, all]
+ *           default: all
+ *       - in: query
+ *         name: startDate
+ *         required: false
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: endDate
+ *         required: false
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *     responses:
+ *       200:
+ *         description: Order issue rates retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     totals:
+ *                       type: object
+ *                       properties:
+ *                         deliveredOrders:
+ *                           type: integer
+ *                         issues:
+ *                           type: integer
+ *                         issueRate:
+ *                           type: number
+ *                           description: Issues per 100 delivered orders
+ *                           example: 2.5
+ *                     restaurants:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           restaurant:
+ *                             type: object
+ *                             properties:
+ *                               id:
+ *                                 type: string
+ *                               name:
+ *                                 type: string
+ *                               mallId:
+ *                                 type: string
+ *                           deliveredOrders:
+ *                             type: integer
+ *                           issues:
+ *                             type: integer
+ *                           issueRate:
+ *                             type: number
+ *                           unresolvedIssues:
+ *                             type: integer
+ *                           issuesByCategory:
+ *                             type: object
+ *                             additionalProperties:
+ *                               type: integer
+ *                           resolutions:
+ *                             type: object
+ *                             additionalProperties:
+ *                               type: integer
+ *                             description: Resolved issues by resolution (REFUND, CREDIT, REJECTED)
+ *       400:
+ *         description: Invalid request parameters
+ */
+router.get("/analytics/order-issues", requireAuth, requireAdminRole, analyticsController.getOrderIssueRates);
+
 export default router;
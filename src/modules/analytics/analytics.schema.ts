@@ -43,6 +43,14 @@ export const getAllRestaurantsSystemWideSchema = z.object({
   });
   
 
+// Schema for order issue rates per restaurant
+export const getOrderIssueRatesSchema = z.object({
+  mallId: z.string().optional(),
+  period: z.enum(["today", "week", "month", "year", "all"]).default("all").optional(),
+  startDate: z.string().datetime().optional(),
+  endDate: z.string().datetime().optional(),
+});
+
 // TypeScript types
 export type GetMallAnalyticsInput = z.infer<typeof getMallAnalyticsSchema>;
 export type GetRestaurantSalesSummaryInput = z.infer<typeof getRestaurantSalesSummarySchema>;
@@ -50,3 +58,4 @@ export type GetPromoCodeDetailsInput = z.infer<typeof getPromoCodeDetailsSchema>
 export type GetPromoCodeUsageOverTimeInput = z.infer<typeof getPromoCodeUsageOverTimeSchema>;
 export type GetPromoCodeOrdersInput = z.infer<typeof getPromoCodeOrdersSchema>;
 export type GetAllRestaurantsSystemWideInput = z.infer<typeof getAllRestaurantsSystemWideSchema>;
+export type GetOrderIssueRatesInput = z.infer<typeof getOrderIssueRatesSchema>;
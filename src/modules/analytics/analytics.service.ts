@@ -5,6 +5,7 @@ import {
   GetPromoCodeDetailsInput,
   GetPromoCodeUsageOverTimeInput,
   GetPromoCodeOrdersInput,
+  GetOrderIssueRatesInput,
 } from "./analytics.schema";
 
 export const analyticsService = {
@@ -338,6 +339,56 @@ export const analyticsService = {
       return sum + Number.parseFloat(order.deliveryFee.toString());
     }, 0);
 
+    // Succeeded refunds of the period's orders, including item-level refunds (missing or wrong items)
+    const refunds = await prisma.refund.findMany({
+      where: {
+        status: "SUCCEEDED",
+        order: {
+          restaurantId: input.restaurantId,
+          createdAt: {
+            gte: periodStart,
+            lte: periodEnd,
+          },
+        },
+      },
+      select: {
+        amount: true,
+        items: {
+          select: {
+            orderItemId: true,
+            quantity: true,
+            amount: true,
+            orderItem: { select: { itemName: true } },
+          },
+        },
+      },
+    });
+
+    const totalRefunded = refunds.reduce((sum, refund) => {
+      return sum + Number.parseFloat(refund.amount.toString());
+    }, 0);
+    const itemRefunds = refunds.filter((refund) => refund.items.length > 0);
+    const totalItemRefunded = itemRefunds.reduce((sum, refund) => {
+      return sum + Number.parseFloat(refund.amount.toString());
+    }, 0);
+
+    // Refunded quantity and amount per item name
+    const refundedItems = Object.values(
+      itemRefunds
+        .flatMap((refund) => refund.items)
+        .reduce((acc, item) => {
+          const itemName = item.orderItem.itemName;
+          if (!acc[itemName]) {
+            acc[itemName] = { itemName, quantity: 0, amount: 0 };
+          }
+          acc[itemName].quantity += item.quantity;
+          acc[itemName].amount += Number.parseFloat(item.amount.toString());
+          return acc;
+        }, {} as Record<string, { itemName: string; quantity: number; amount: number }>)
+    )
+      .map((item) => ({ ...item, amount: Number(item.amount.toFixed(2)) }))
+      .sort((a, b) => b.amount - a.amount);
+
     // Calculate previous period for comparison
     let previousPeriodStart: Date;
     let previousPeriodEnd: Date = periodStart;
@@ -450,9 +501,18 @@ export const analyticsService = {
         totalDiscount: Number(totalDiscount.toFixed(2)),
         totalTax: Number(totalTax.toFixed(2)),
         totalDeliveryFee: Number(totalDeliveryFee.toFixed(2)),
+        totalRefunded: Number(totalRefunded.toFixed(2)),
+        netRevenue: Number((totalRevenue - totalRefunded).toFixed(2)),
         revenueByStatus,
         ordersByStatus,
       },
+      refunds: {
+        refundCount: refunds.length,
+        totalRefunded: Number(totalRefunded.toFixed(2)),
+        itemRefundCount: itemRefunds.length,
+        totalItemRefunded: Number(totalItemRefunded.toFixed(2)),
+        refundedItems,
+      },
       trends: {
         revenue: {
           current: Number(totalRevenue.toFixed(2)),
@@ -624,7 +684,9 @@ export const analyticsService = {
   },
 
   /**
-   * Get discount impact by order value ranges
+   * Get discount impact by order value ranges.
+   * The discount rate is measured against what the code discounts: the subtotal
+   * for percentage and fixed-amount codes, the delivery fee for free-delivery codes.
    */
   async getPromoCodeDiscountImpact(promoCodeId: string) {
     const promoCode = await (prisma as any).promoCode.findUnique({
@@ -635,6 +697,15 @@ export const analyticsService = {
       throw new Error("PromoCode not found");
     }
 
+    const discountType: "PERCENTAGE" | "FIXED" | "FREE_DELIVERY" = promoCode.discountType ?? "PERCENTAGE";
+    const appliesTo = discountType === "FREE_DELIVERY" ? "DELIVERY_FEE" : "SUBTOTAL";
+    const discountValue =
+      discountType === "PERCENTAGE"
+        ? promoCode.discountPercentage
+        : discountType === "FIXED"
+          ? Number(promoCode.fixedDiscountAmount ?? 0)
+          : null;
+
     // Get all orders using this promoCode
     const orders = await prisma.order.findMany({
       where: { promoCodeId },
@@ -643,6 +714,7 @@ export const analyticsService = {
         total: true,
         discount: true,
         subtotal: true,
+        deliveryFee: true,
       },
     });
 
@@ -664,16 +736,26 @@ export const analyticsService = {
       const totalDiscount = ordersInRange.reduce((sum, order) => {
         return sum + Number.parseFloat(order.discount.toString());
       }, 0);
+      const discountBase = ordersInRange.reduce((sum, order) => {
+        const base = appliesTo === "DELIVERY_FEE" ? order.deliveryFee : order.subtotal;
+        return sum + Number.parseFloat(base.toString());
+      }, 0);
 
       return {
         orderValueRange: range.label,
         orders: totalOrders,
         totalDiscount: Number(totalDiscount.toFixed(2)),
+        averageDiscount: totalOrders > 0 ? Number((totalDiscount / totalOrders).toFixed(2)) : 0,
+        // Share of the discounted amount (subtotal or delivery fee) that was waived, in %
+        discountRate: discountBase > 0 ? Number(((totalDiscount / discountBase) * 100).toFixed(2)) : 0,
       };
     });
 
     return {
       promoCodeId,
+      discountType,
+      discountValue,
+      appliesTo,
       discountImpact: impactData,
     };
   },
@@ -803,6 +885,7 @@ export const analyticsService = {
           select: {
             orders: true,
             menuCategories: true,
+            favouritedBy: true,
           },
         },
       },
@@ -831,7 +914,6 @@ export const analyticsService = {
           banner: restaurant.banner,
           description: restaurant.description,
           location: restaurant.location,
-          isFavorite: restaurant.isFavorite,
           createdAt: restaurant.createdAt,
           updatedAt: restaurant.updatedAt,
           owner: {
@@ -856,6 +938,7 @@ export const analyticsService = {
           statistics: {
             totalOrders: restaurant._count.orders,
             totalMenuCategories: restaurant._count.menuCategories,
+            totalFavourites: restaurant._count.favouritedBy,
             totalRevenue: Number(totalRevenue.toFixed(2)),
           },
         };
@@ -872,5 +955,133 @@ export const analyticsService = {
       },
     };
   },
+
+  /**
+   * Get order issue rates per restaurant: issues reported for the orders placed in the period
+   * per 100 delivered orders, with breakdowns by category and resolution
+   */
+  async getOrderIssueRates(input: GetOrderIssueRatesInput) {
+    // Calculate date range based on period
+    let periodStart: Date;
+    let periodEnd: Date = new Date();
+    const now = new Date();
+
+    if (input.startDate && input.endDate) {
+      periodStart = new Date(input.startDate);
+      periodEnd = new Date(input.endDate);
+    } else {
+      switch (input.period || "all") {
+        case "today":
+          periodStart = new Date(now.setHours(0, 0, 0, 0));
+          periodEnd = new Date();
+          break;
+        case "week":
+          periodStart = new Date(now);
+          periodStart.setDate(periodStart.getDate() - 7);
+          break;
+        case "month":
+          periodStart = new Date(now);
+          periodStart.setMonth(periodStart.getMonth() - 1);
+          break;
+        case "year":
+          periodStart = new Date(now);
+          periodStart.setFullYear(periodStart.getFullYear() - 1);
+          break;
+        default: // "all"
+          periodStart = new Date(0);
+          periodEnd = new Date();
+          break;
+      }
+    }
+
+    const orderWhere = {
+      createdAt: {
+        gte: periodStart,
+        lte: periodEnd,
+      },
+      ...(input.mallId ? { restaurant: { mallId: input.mallId } } : {}),
+    };
+
+    const [deliveredByRestaurant, issues] = await Promise.all([
+      prisma.order.groupBy({
+        by: ["restaurantId"],
+        where: { ...orderWhere, status: "DELIVERED" },
+        _count: { _all: true },
+      }),
+      prisma.orderIssue.findMany({
+        where: { order: orderWhere },
+        select: {
+          restaurantId: true,
+          category: true,
+          status: true,
+          resolution: true,
+        },
+      }),
+    ]);
+
+    const restaurantIds = Array.from(
+      new Set([
+        ...deliveredByRestaurant.map((group) => group.restaurantId),
+        ...issues.map((issue) => issue.restaurantId),
+      ])
+    );
+    const restaurants = await prisma.restaurant.findMany({
+      where: { userId: { in: restaurantIds } },
+      select: { userId: true, name: true, mallId: true },
+    });
+    const deliveredMap = new Map(deliveredByRestaurant.map((group) => [group.restaurantId, group._count._all]));
+
+    const issueRate = (issueCount: number, deliveredOrders: number) =>
+      deliveredOrders > 0 ? Number(((issueCount / deliveredOrders) * 100).toFixed(2)) : 0;
+
+    const restaurantRates = restaurants
+      .map((restaurant) => {
+        const restaurantIssues = issues.filter((issue) => issue.restaurantId === restaurant.userId);
+        const deliveredOrders = deliveredMap.get(restaurant.userId) ?? 0;
+
+        const issuesByCategory = restaurantIssues.reduce((acc, issue) => {
+          acc[issue.category] = (acc[issue.category] ?? 0) + 1;
+          return acc;
+        }, {} as Record<string, number>);
+
+        const resolutions = restaurantIssues.reduce((acc, issue) => {
+          if (issue.resolution) {
+            acc[issue.resolution] = (acc[issue.resolution] ?? 0) + 1;
+          }
+          return acc;
+        }, {} as Record<string, number>);
+
+        return {
+          restaurant: {
+            id: restaurant.userId,
+            name: restaurant.name,
+            mallId: restaurant.mallId,
+          },
+          deliveredOrders,
+          issues: restaurantIssues.length,
+          issueRate: issueRate(restaurantIssues.length, deliveredOrders),
+          unresolvedIssues: restaurantIssues.filter((issue) => issue.status !== "RESOLVED").length,
+          issuesByCategory,
+          resolutions,
+        };
+      })
+      .sort((a, b) => b.issueRate - a.issueRate || b.issues - a.issues);
+
+    const totalDelivered = deliveredByRestaurant.reduce((sum, group) => sum + group._count._all, 0);
+
+    return {
+      period: {
+        type: input.period || "all",
+        startDate: periodStart,
+        endDate: periodEnd,
+      },
+      totals: {
+        deliveredOrders: totalDelivered,
+        issues: issues.length,
+        issueRate: issueRate(issues.length, totalDelivered),
+      },
+      restaurants: restaurantRates,
+    };
+  },
 };
 
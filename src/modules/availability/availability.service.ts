@@ -0,0 +1,340 @@
+import prisma from "../../config/prisma";
+
+/**
+ * Availability Service
+ *
+ * Evaluates a restaurant's opening hours in the timezone of its mall (`Mall.timezone`).
+ *
+ * The hours of a date come from, in order of precedence:
+ * 1. `MallClosure` - mall-wide closures, nothing in the mall is open on those dates
+ * 2. `SpecialBusinessDay` - date-specific hours of the restaurant (holidays, events)
+ * 3. `BusinessDay` / `BusinessTimeSlot` - the weekly schedule
+ *
+ * - OPEN slots are the hours the restaurant takes orders; BREAK slots are cut out of them.
+ * - A slot whose close time is not after its open time runs past midnight (e.g. 18:00-02:00).
+ * - Days marked `isClosed` have no hours, whatever their slots say.
+ * - Restaurants that haven't configured a weekly schedule are open all day (except on special
+ *   days and mall closures), so they keep accepting orders until they set up their hours.
+ *
+ * `opensAt` / `closesAt` are UTC timestamps of the next opening / the end of the current opening,
+ * looked up within the coming week. They are derived from the current UTC offset, so they can be
+ * an hour off across a DST change.
+ *
+ * @module availability/availability.service
+ */
+
+export type AvailabilityStatus = "OPEN" | "BREAK" | "CLOSED";
+
+export type RestaurantAvailability = {
+  isOpenNow: boolean;
+  availabilityStatus: AvailabilityStatus;
+  opensAt: string | null;
+  closesAt: string | null;
+};
+
+type TimeSlot = { slotType: string; openTime: string; closeTime: string };
+
+type DaySchedule = { isClosed: boolean; timeSlots: TimeSlot[] };
+
+type AvailabilitySource = {
+  timezone: string;
+  businessDays: (DaySchedule & { day: string })[];
+  specialDays: (DaySchedule & { date: Date })[];
+  closures: { startDate: Date; endDate: Date }[];
+};
+
+type Interval = { start: number; end: number };
+
+const DAYS = ["SUNDAY", "MONDAY", "TUESDAY", "WEDNESDAY", "THURSDAY", "FRIDAY", "SATURDAY"];
+const MINUTES_PER_DAY = 24 * 60;
+// Days after today searched for the next opening
+const LOOKAHEAD_DAYS = 7;
+
+const ALWAYS_OPEN: RestaurantAvailability = {
+  isOpenNow: true,
+  availabilityStatus: "OPEN",
+  opensAt: null,
+  closesAt: null,
+};
+
+// Weekly schedule of restaurants without configured hours
+const ALL_DAY: DaySchedule = {
+  isClosed: false,
+  timeSlots: [{ slotType: "OPEN", openTime: "00:00", closeTime: "24:00" }],
+};
+
+/**
+ * Checks that a timezone is a valid IANA name, e.g. "Europe/Berlin"
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Opening hours fields shown on restaurant cards (explore, search)
+ */
+export function availabilityFields(availability?: RestaurantAvailability) {
+  const { isOpenNow, opensAt, closesAt } = availability ?? ALWAYS_OPEN;
+  return { isOpenNow, opensAt, closesAt };
+}
+
+// Local date ("YYYY-MM-DD") and minutes since midnight in the given timezone
+export function toLocalTime(date: Date, timezone: string): { dateKey: string; minute: number } {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(date);
+  const part = (type: string) => parts.find((p) => p.type === type)?.value ?? "0";
+
+  return {
+    dateKey: `${part("year")}-${part("month")}-${part("day")}`,
+    minute: Number(part("hour")) * 60 + Number(part("minute")),
+  };
+}
+
+// Date stored in a `@db.Date` column -> "YYYY-MM-DD"
+export function toDateKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+// "YYYY-MM-DD" -> value for a `@db.Date` column
+export function fromDateKey(dateKey: string): Date {
+  return new Date(`${dateKey}T00:00:00.000Z`);
+}
+
+function addDays(dateKey: string, days: number): string {
+  const date = fromDateKey(dateKey);
+  date.setUTCDate(date.getUTCDate() + days);
+  return toDateKey(date);
+}
+
+// "HH:mm" -> minutes since midnight
+export function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return (hours ?? 0) * 60 + (minutes ?? 0);
+}
+
+function mergeIntervals(intervals: Interval[]): Interval[] {
+  const sorted = [...intervals].sort((a, b) => a.start - b.start);
+  const merged: Interval[] = [];
+  for (const interval of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && interval.start <= last.end) {
+      last.end = Math.max(last.end, interval.end);
+    } else {
+      merged.push({ ...interval });
+    }
+  }
+  return merged;
+}
+
+function subtractIntervals(base: Interval[], cuts: Interval[]): Interval[] {
+  return base.flatMap((interval) =>
+    cuts.reduce<Interval[]>(
+      (pieces, cut) =>
+        pieces.flatMap((piece) => {
+          if (cut.end <= piece.start || cut.start >= piece.end) {
+            return [piece];
+          }
+          return [
+            { start: piece.start, end: cut.start },
+            { start: cut.end, end: piece.end },
+          ].filter((p) => p.end > p.start);
+        }),
+      [interval]
+    )
+  );
+}
+
+function slotIntervals(schedule: DaySchedule, offset: number, slotType: "OPEN" | "BREAK"): Interval[] {
+  if (schedule.isClosed) {
+    return [];
+  }
+  return schedule.timeSlots
+    .filter((slot) => slot.slotType === slotType)
+    .map((slot) => {
+      const open = toMinutes(slot.openTime);
+      let close = toMinutes(slot.closeTime);
+      if (close <= open) {
+        close += MINUTES_PER_DAY;
+      }
+      return { start: offset + open, end: offset + close };
+    });
+}
+
+function evaluate(source: AvailabilitySource, at: Date): RestaurantAvailability {
+  const { businessDays, specialDays, closures } = source;
+  if (businessDays.length === 0 && specialDays.length === 0 && closures.length === 0) {
+    return ALWAYS_OPEN;
+  }
+
+  const local = toLocalTime(at, source.timezone);
+  const specialByDate = new Map(specialDays.map((day) => [toDateKey(day.date), day]));
+
+  // Minutes are counted from yesterday 00:00 so yesterday's overnight slots are covered
+  const openSlots: Interval[] = [];
+  const breaks: Interval[] = [];
+  const closedDays: Interval[] = [];
+  for (let day = -1; day <= LOOKAHEAD_DAYS; day++) {
+    const dateKey = addDays(local.dateKey, day);
+    const offset = (day + 1) * MINUTES_PER_DAY;
+
+    const mallClosed = closures.some(
+      (closure) => toDateKey(closure.startDate) <= dateKey && dateKey <= toDateKey(closure.endDate)
+    );
+    if (mallClosed) {
+      // Also cuts overnight slots of the previous day
+      closedDays.push({ start: offset, end: offset + MINUTES_PER_DAY });
+      continue;
+    }
+
+    const weekday = DAYS[fromDateKey(dateKey).getUTCDay()];
+    const schedule: DaySchedule | undefined =
+      specialByDate.get(dateKey) ??
+      (businessDays.length === 0 ? ALL_DAY : businessDays.find((businessDay) => businessDay.day === weekday));
+    if (!schedule) {
+      continue;
+    }
+
+    openSlots.push(...slotIntervals(schedule, offset, "OPEN"));
+    breaks.push(...slotIntervals(schedule, offset, "BREAK"));
+  }
+
+  const mergedSlots = subtractIntervals(mergeIntervals(openSlots), mergeIntervals(closedDays));
+  const openIntervals = mergeIntervals(subtractIntervals(mergedSlots, mergeIntervals(breaks)));
+
+  const now = MINUTES_PER_DAY + local.minute;
+  const rangeEnd = (LOOKAHEAD_DAYS + 2) * MINUTES_PER_DAY;
+  const startOfMinute = Math.floor(at.getTime() / 60_000) * 60_000;
+  const toTimestamp = (minute: number) => new Date(startOfMinute + (minute - now) * 60_000).toISOString();
+
+  const current = openIntervals.find((interval) => interval.start <= now && now < interval.end);
+  if (current) {
+    return {
+      isOpenNow: true,
+      availabilityStatus: "OPEN",
+      opensAt: null,
+      // Open past the lookahead window
+      closesAt: current.end >= rangeEnd ? null : toTimestamp(current.end),
+    };
+  }
+
+  const next = openIntervals.find((interval) => interval.start > now);
+  const onBreak = mergedSlots.some((interval) => interval.start <= now && now < interval.end);
+
+  return {
+    isOpenNow: false,
+    availabilityStatus: onBreak ? "BREAK" : "CLOSED",
+    opensAt: next ? toTimestamp(next.start) : null,
+    closesAt: null,
+  };
+}
+
+export const availabilityService = {
+  /**
+   * Availability of several restaurants at a point in time (restaurant cards, search results)
+   */
+  async getAvailabilityMap(restaurantIds: string[], at: Date = new Date()): Promise<Map<string, RestaurantAvailability>> {
+    const availability = new Map<string, RestaurantAvailability>();
+    if (restaurantIds.length === 0) {
+      return availability;
+    }
+
+    // Wide enough for the evaluated days in any timezone
+    const windowStart = fromDateKey(addDays(toDateKey(at), -2));
+    const windowEnd = fromDateKey(addDays(toDateKey(at), LOOKAHEAD_DAYS + 2));
+    const slotSelect = { select: { slotType: true, openTime: true, closeTime: true } };
+
+    const restaurants = await prisma.restaurant.findMany({
+      where: { userId: { in: restaurantIds } },
+      select: {
+        userId: true,
+        mall: {
+          select: {
+            timezone: true,
+            closures: {
+              where: { startDate: { lte: windowEnd }, endDate: { gte: windowStart } },
+              select: { startDate: true, endDate: true },
+            },
+          },
+        },
+        businessDays: {
+          select: { day: true, isClosed: true, timeSlots: slotSelect },
+        },
+        specialDays: {
+          where: { date: { gte: windowStart, lte: windowEnd } },
+          select: { date: true, isClosed: true, timeSlots: slotSelect },
+        },
+      },
+    });
+
+    for (const restaurant of restaurants) {
+      availability.set(
+        restaurant.userId,
+        evaluate(
+          {
+            timezone: restaurant.mall.timezone || "UTC",
+            businessDays: restaurant.businessDays,
+            specialDays: restaurant.specialDays,
+            closures: restaurant.mall.closures,
+          },
+          at
+        )
+      );
+    }
+
+    return availability;
+  },
+
+  /**
+   * Availability of one restaurant at a point in time
+   */
+  async getAvailability(restaurantId: string, at: Date = new Date()): Promise<RestaurantAvailability> {
+    const availability = (await this.getAvailabilityMap([restaurantId], at)).get(restaurantId);
+    if (!availability) {
+      throw new Error("Restaurant not found");
+    }
+    return availability;
+  },
+
+  /**
+   * Throws when the restaurant doesn't take orders right now (closed or on a break)
+   */
+  async assertAcceptingOrders(restaurantId: string, at: Date = new Date()) {
+    const availability = await this.getAvailability(restaurantId, at);
+    if (availability.isOpenNow) {
+      return availability;
+    }
+
+    const reopens = availability.opensAt ? ` Orders are accepted again from ${availability.opensAt}` : "";
+    if (availability.availabilityStatus === "BREAK") {
+      throw new Error(`Restaurant is on a break.${reopens}`);
+    }
+    throw new Error(`Restaurant is currently closed.${reopens}`);
+  },
+
+  /**
+   * Throws when the restaurant won't take orders at a future time (scheduled orders)
+   */
+  async assertOpenAt(restaurantId: string, at: Date) {
+    const availability = await this.getAvailability(restaurantId, at);
+    if (availability.isOpenNow) {
+      return availability;
+    }
+
+    const reopens = availability.opensAt ? ` It opens again at ${availability.opensAt}` : "";
+    throw new Error(`Restaurant is closed at the scheduled time.${reopens}`);
+  },
+};
+
+export default availabilityService;
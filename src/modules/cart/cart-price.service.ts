@@ -0,0 +1,160 @@
+import prisma from "../../config/prisma";
+import type { Prisma } from "../../generated/prisma/client";
+
+/**
+ * Cart Price Snapshots
+ *
+ * Cart and favourite cart lines keep the unit price the customer saw when adding the item
+ * (`unitPrice`: item price plus the prices of the chosen options, before promotions). When a
+ * restaurant changes `MenuItem.price` or an option price afterwards, checkout, favourite-cart
+ * restore and reorder compare the snapshot with the current price and report the difference
+ * instead of silently charging it.
+ *
+ * Lines saved before snapshots existed have no `unitPrice` and are not compared.
+ *
+ * @module cart/cart-price.service
+ */
+
+type SelectedVariation = { variationId: string; selectedOptionId: string };
+type SelectedAddOn = { addOnId: string; selectedOptionIds: string[] };
+
+export type PricedLine = {
+  menuItemId: string;
+  quantity: number;
+  selectedVariations?: unknown;
+  selectedAddOns?: unknown;
+};
+
+export type LinePrice = { unitPrice: number; itemName: string };
+
+// A line with the unit price it was saved (or ordered) at
+export type SnapshotLine = PricedLine & {
+  unitPrice: Prisma.Decimal | number | null;
+};
+
+export type PriceChange = {
+  menuItemId: string;
+  itemName: string;
+  quantity: number;
+  oldUnitPrice: number;
+  newUnitPrice: number;
+};
+
+export type PriceComparison = {
+  pricesChanged: boolean;
+  // Items total at the saved and at the current prices (before promotions, discounts, tax and fees)
+  oldTotal: number;
+  newTotal: number;
+  changes: PriceChange[];
+};
+
+function roundMoney(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Compares saved unit prices with the current ones (`current[i]` prices `lines[i]`)
+ */
+export function comparePrices(lines: SnapshotLine[], current: LinePrice[]): PriceComparison {
+  let oldTotal = 0;
+  let newTotal = 0;
+  const changes: PriceChange[] = [];
+
+  lines.forEach((line, index) => {
+    const price = current[index];
+    if (!price) {
+      return;
+    }
+    const newUnitPrice = roundMoney(price.unitPrice);
+    const oldUnitPrice = line.unitPrice === null ? newUnitPrice : roundMoney(Number(line.unitPrice));
+
+    oldTotal += oldUnitPrice * line.quantity;
+    newTotal += newUnitPrice * line.quantity;
+    if (oldUnitPrice !== newUnitPrice) {
+      changes.push({
+        menuItemId: line.menuItemId,
+        itemName: price.itemName,
+        quantity: line.quantity,
+        oldUnitPrice,
+        newUnitPrice,
+      });
+    }
+  });
+
+  return {
+    pricesChanged: changes.length > 0,
+    oldTotal: roundMoney(oldTotal),
+    newTotal: roundMoney(newTotal),
+    changes,
+  };
+}
+
+export const cartPriceService = {
+  /**
+   * Current unit prices of lines: item price plus the prices of the chosen options, before promotions
+   */
+  async priceLines(lines: PricedLine[]): Promise<LinePrice[]> {
+    const variationOptionIds = new Set<string>();
+    const addOnOptionIds = new Set<string>();
+
+    for (const line of lines) {
+      const variations = (line.selectedVariations ?? []) as SelectedVariation[];
+      variations.forEach((v) => variationOptionIds.add(v.selectedOptionId));
+      const addOns = (line.selectedAddOns ?? []) as SelectedAddOn[];
+      addOns.forEach((a) => a.selectedOptionIds.forEach((id) => addOnOptionIds.add(id)));
+    }
+
+    // Batch fetch the items and their chosen options
+    const [menuItems, variationOptions, addOnOptions] = await Promise.all([
+      prisma.menuItem.findMany({
+        where: { id: { in: Array.from(new Set(lines.map((line) => line.menuItemId))) } },
+        select: { id: true, name: true, price: true },
+      }),
+      variationOptionIds.size > 0
+        ? prisma.variationOption.findMany({
+            where: { id: { in: Array.from(variationOptionIds) } },
+            select: { id: true, priceModifier: true },
+          })
+        : Promise.resolve([]),
+      addOnOptionIds.size > 0
+        ? prisma.addOnOption.findMany({
+            where: { id: { in: Array.from(addOnOptionIds) } },
+            select: { id: true, price: true },
+          })
+        : Promise.resolve([]),
+    ]);
+
+    const menuItemMap = new Map(menuItems.map((item) => [item.id, item]));
+    const variationOptionMap = new Map(variationOptions.map((opt) => [opt.id, opt.priceModifier.toNumber()]));
+    const addOnOptionMap = new Map(addOnOptions.map((opt) => [opt.id, opt.price.toNumber()]));
+
+    return lines.map((line) => {
+      const menuItem = menuItemMap.get(line.menuItemId);
+      if (!menuItem) {
+        throw new Error("Menu item not found");
+      }
+
+      let unitPrice = menuItem.price.toNumber();
+      for (const variation of (line.selectedVariations ?? []) as SelectedVariation[]) {
+        unitPrice += variationOptionMap.get(variation.selectedOptionId) ?? 0;
+      }
+      for (const addOn of (line.selectedAddOns ?? []) as SelectedAddOn[]) {
+        for (const optionId of addOn.selectedOptionIds) {
+          unitPrice += addOnOptionMap.get(optionId) ?? 0;
+        }
+      }
+
+      return { unitPrice: roundMoney(unitPrice), itemName: menuItem.name };
+    });
+  },
+
+  /**
+   * Prices lines at the current prices and compares them with the prices they were saved at
+   */
+  async compare(lines: SnapshotLine[]): Promise<PriceComparison & { prices: LinePrice[] }> {
+    const prices = await this.priceLines(lines);
+    return { ...comparePrices(lines, prices), prices };
+  },
+};
+
+export default cartPriceService;
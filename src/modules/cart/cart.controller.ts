@@ -44,9 +44,22 @@ export const cartController = {
       const cartItem = await cartService.addToCart(userId, cartData);
       return res.status(201).json(cartItem);
     } catch (error: any) {
+      if (error.name === "ZodError") {
+        return res.status(400).json({ message: "Invalid selections", errors: error.issues });
+      }
       if (error.message.includes("not found")) {
         return res.status(404).json({ message: error.message });
       }
+      if (
+        error.message.includes("currently closed") ||
+        error.message.includes("on a break") ||
+        error.message.includes("sold out") ||
+        error.message.includes("only available between") ||
+        error.message.includes("left today") ||
+        error.message.includes("currently unavailable")
+      ) {
+        return res.status(400).json({ message: error.message });
+      }
       return res.status(500).json({ message: error.message });
     }
   },
@@ -83,6 +96,13 @@ export const cartController = {
       if (error.message.includes("not found")) {
         return res.status(404).json({ message: error.message });
       }
+      if (
+        error.message.includes("sold out") ||
+        error.message.includes("only available between") ||
+        error.message.includes("left today")
+      ) {
+        return res.status(400).json({ message: error.message });
+      }
       return res.status(500).json({ message: error.message });
     }
   },
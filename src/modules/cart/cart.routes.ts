@@ -204,7 +204,10 @@ router.get("/cart/get", cartController.getCart);
  *                   type: string
  *                   nullable: true
  *       400:
- *         description: Invalid request body or missing required fields
+ *         description: |
+ *           Invalid request body, missing required fields, the restaurant is closed / on a break, or the item or one of its options is unavailable.
+ *           Selections that don't match the item's variations and add-ons return `message: "Invalid selections"`
+ *           with one entry per field in `errors` (e.g. path `["selectedVariations", 0, "selectedOptionId"]`).
  *       404:
  *         description: Menu item or restaurant not found
  *       500:
@@ -365,8 +368,8 @@ router.delete("/cart/clear", cartController.clearCart);
  *     description: |
  *       Get a summary of the cart including:
  *       - Total item count
- *       - Total price
- *       - Items grouped by restaurant with subtotals
+ *       - Total price (after active restaurant promotions)
+ *       - Items grouped by restaurant with subtotals and the applied promotion
  *       **No request body required.**
  *     parameters:
  *       - in: query
@@ -392,6 +395,9 @@ router.delete("/cart/clear", cartController.clearCart);
  *                 totalPrice:
  *                   type: number
  *                   example: 13.20
+ *                 promotionDiscount:
+ *                   type: number
+ *                   example: 0
  *                 restaurants:
  *                   type: array
  *                   items:
@@ -405,6 +411,16 @@ router.delete("/cart/clear", cartController.clearCart);
  *                       subtotal:
  *                         type: number
  *                         example: 8.80
+ *                       promotion:
+ *                         type: object
+ *                         nullable: true
+ *                       promotionDiscount:
+ *                         type: number
+ *                         example: 0
+ *                       total:
+ *                         type: number
+ *                         description: Subtotal after the promotion
+ *                         example: 8.80
  *                       items:
  *                         type: array
  *                         items:
@@ -1,4 +1,9 @@
 import prisma from "../../config/prisma";
+import { promotionService } from "../restaurant/promotion/promotion.service";
+import { availabilityService } from "../availability/availability.service";
+import { menuItemAvailabilityService } from "../menu/menu-item-availability.service";
+import { productOptionService } from "../product-detail/product-option.service";
+import { cartPriceService, comparePrices } from "./cart-price.service";
 import { AddToCartServiceInput, UpdateCartItemInput } from "./cart.schema";
 
 export const cartService = {
@@ -19,6 +24,7 @@ export const cartService = {
             menuItemId: true,
             quantity: true,
             specialNotes: true,
+            unitPrice: true,
             selectedVariations: true,
             selectedAddOns: true,
             createdAt: true,
@@ -63,6 +69,7 @@ export const cartService = {
               menuItemId: true,
               quantity: true,
               specialNotes: true,
+              unitPrice: true,
               selectedVariations: true,
               selectedAddOns: true,
               createdAt: true,
@@ -111,6 +118,7 @@ export const cartService = {
             menuItemId: true,
             quantity: true,
             specialNotes: true,
+            unitPrice: true,
             selectedVariations: true,
             selectedAddOns: true,
             createdAt: true,
@@ -158,51 +166,6 @@ export const cartService = {
     return cart;
   },
 
-  // Calculate item price including variations and add-ons
-  async calculateItemPrice(
-    menuItemId: string,
-    selectedVariations?: Array<{ variationId: string; selectedOptionId: string }>,
-    selectedAddOns?: Array<{ addOnId: string; selectedOptionIds: string[] }>
-  ): Promise<number> {
-    const menuItem = await prisma.menuItem.findUnique({
-      where: { id: menuItemId },
-    });
-
-    if (!menuItem) {
-      throw new Error("Menu item not found");
-    }
-
-    let totalPrice = menuItem.price.toNumber();
-
-    // Add variation option prices
-    if (selectedVariations && selectedVariations.length > 0) {
-      for (const variation of selectedVariations) {
-        const option = await prisma.variationOption.findUnique({
-          where: { id: variation.selectedOptionId },
-        });
-        if (option) {
-          totalPrice += option.priceModifier.toNumber();
-        }
-      }
-    }
-
-    // Add add-on option prices
-    if (selectedAddOns && selectedAddOns.length > 0) {
-      for (const addOn of selectedAddOns) {
-        for (const optionId of addOn.selectedOptionIds) {
-          const option = await prisma.addOnOption.findUnique({
-            where: { id: optionId },
-          });
-          if (option) {
-            totalPrice += option.price.toNumber();
-          }
-        }
-      }
-    }
-
-    return totalPrice;
-  },
-
   // Add item to cart (or update quantity if item already exists from same restaurant)
   async addToCart(userId: string, data: AddToCartServiceInput) {
     // Verify menu item exists
@@ -223,6 +186,12 @@ export const cartService = {
       throw new Error("Restaurant not found");
     }
 
+    // Selections must match the variations and add-ons of the item
+    await productOptionService.assertValidSelections([data]);
+
+    // Reject items from restaurants that are closed or on a break
+    await availabilityService.assertAcceptingOrders(data.restaurantId);
+
     // Get or create cart
     const cart = await this.getOrCreateCart(userId);
 
@@ -235,6 +204,18 @@ export const cartService = {
       },
     });
 
+    // Reject sold-out items, items outside their serving hours and quantities above today's stock
+    await menuItemAvailabilityService.assertAvailable([
+      {
+        menuItemId: data.menuItemId,
+        quantity: data.quantity + existingItems.reduce((sum, item) => sum + item.quantity, 0),
+      },
+    ]);
+    await productOptionService.assertOptionsAvailable([data]);
+
+    // Price the customer sees now, kept on the line to detect later price changes
+    const [linePrice] = await cartPriceService.priceLines([data]);
+
     // Normalize selections for comparison
     const normalizeSelections = (variations?: any[], addOns?: any[]) => {
       const normVars = variations
@@ -259,8 +240,17 @@ export const cartService = {
 
     const newSelectionKey = normalizeSelections(data.selectedVariations, data.selectedAddOns);
 
-    // Check if an item with the same selections exists
+    // Check if an item with the same selections exists. Units added at another price stay on their
+    // own line, so that checkout still reports the price change of the earlier units.
     for (const existingItem of existingItems) {
+      if (
+        existingItem.unitPrice !== null &&
+        linePrice &&
+        Number(existingItem.unitPrice) !== linePrice.unitPrice
+      ) {
+        continue;
+      }
+
       const existingVariations = existingItem.selectedVariations
         ? (existingItem.selectedVariations as Array<{ variationId: string; selectedOptionId: string }>)
         : [];
@@ -271,12 +261,13 @@ export const cartService = {
       const existingSelectionKey = normalizeSelections(existingVariations, existingAddOns);
 
       if (existingSelectionKey === newSelectionKey) {
-        // Update quantity if item already exists with same configuration
+        // Update quantity if item already exists with same configuration and price
         return await prisma.cartItem.update({
           where: { id: existingItem.id },
           data: {
             quantity: existingItem.quantity + data.quantity,
             ...(data.specialNotes && { specialNotes: data.specialNotes }),
+            unitPrice: linePrice?.unitPrice ?? null,
           },
           select: {
             id: true,
@@ -285,6 +276,7 @@ export const cartService = {
             menuItemId: true,
             quantity: true,
             specialNotes: true,
+            unitPrice: true,
             selectedVariations: true,
             selectedAddOns: true,
             createdAt: true,
@@ -320,6 +312,7 @@ export const cartService = {
         restaurantId: data.restaurantId,
         quantity: data.quantity,
         specialNotes: data.specialNotes || null,
+        unitPrice: linePrice?.unitPrice ?? null,
         selectedVariations: data.selectedVariations ? (data.selectedVariations as any) : null,
         selectedAddOns: data.selectedAddOns ? (data.selectedAddOns as any) : null,
       },
@@ -330,6 +323,7 @@ export const cartService = {
         menuItemId: true,
         quantity: true,
         specialNotes: true,
+        unitPrice: true,
         selectedVariations: true,
         selectedAddOns: true,
         createdAt: true,
@@ -370,6 +364,20 @@ export const cartService = {
       throw new Error("Cart item not found");
     }
 
+    // More units need to be in stock (other lines of the same item count too)
+    if (data.quantity && data.quantity > cartItem.quantity) {
+      const sameItemLines = await prisma.cartItem.findMany({
+        where: { cartId: cartItem.cartId, menuItemId: cartItem.menuItemId, id: { not: cartItem.id } },
+        select: { quantity: true },
+      });
+      await menuItemAvailabilityService.assertAvailable([
+        {
+          menuItemId: cartItem.menuItemId,
+          quantity: data.quantity + sameItemLines.reduce((sum, line) => sum + line.quantity, 0),
+        },
+      ]);
+    }
+
     // Update item
     return await prisma.cartItem.update({
       where: { id: cartItemId },
@@ -384,6 +392,7 @@ export const cartService = {
         menuItemId: true,
         quantity: true,
         specialNotes: true,
+        unitPrice: true,
         selectedVariations: true,
         selectedAddOns: true,
         createdAt: true,
@@ -456,45 +465,12 @@ export const cartService = {
         cartId: cart?.id || "",
         totalItems: 0,
         totalPrice: 0,
+        promotionDiscount: 0,
         restaurants: [],
+        priceChanges: comparePrices([], []),
       };
     }
 
-    // Collect all variation and add-on option IDs to batch query
-    const variationOptionIds = new Set<string>();
-    const addOnOptionIds = new Set<string>();
-
-    for (const item of cart.items) {
-      if (item.selectedVariations) {
-        const variations = item.selectedVariations as Array<{ variationId: string; selectedOptionId: string }>;
-        variations.forEach((v) => variationOptionIds.add(v.selectedOptionId));
-      }
-      if (item.selectedAddOns) {
-        const addOns = item.selectedAddOns as Array<{ addOnId: string; selectedOptionIds: string[] }>;
-        addOns.forEach((a) => a.selectedOptionIds.forEach((id) => addOnOptionIds.add(id)));
-      }
-    }
-
-    // Batch fetch all variation and add-on options
-    const [variationOptions, addOnOptions] = await Promise.all([
-      variationOptionIds.size > 0
-        ? prisma.variationOption.findMany({
-            where: { id: { in: Array.from(variationOptionIds) } },
-            select: { id: true, priceModifier: true },
-          })
-        : Promise.resolve([]),
-      addOnOptionIds.size > 0
-        ? prisma.addOnOption.findMany({
-            where: { id: { in: Array.from(addOnOptionIds) } },
-            select: { id: true, price: true },
-          })
-        : Promise.resolve([]),
-    ]);
-
-    // Create maps for quick lookup
-    const variationOptionMap = new Map(variationOptions.map((opt) => [opt.id, opt.priceModifier.toNumber()]));
-    const addOnOptionMap = new Map(addOnOptions.map((opt) => [opt.id, opt.price.toNumber()]));
-
     // Group items by restaurant
     const restaurantMap = new Map<
       string,
@@ -502,46 +478,19 @@ export const cartService = {
         restaurantId: string;
         restaurantName: string;
         items: (typeof cart.items)[0][];
+        lineTotals: number[];
         subtotal: number;
       }
     >();
 
     let totalPrice = 0;
+    const validItems = cart.items.filter((item) => item && item.menuItem && item.restaurantId);
+    // Current unit prices of the lines (same prices as checkout), compared with the prices they were added at
+    const linePrices = await cartPriceService.priceLines(validItems);
 
-    for (const item of cart.items) {
-      if (!item || !item.menuItem || !item.restaurantId) {
-        continue; // Skip invalid items
-      }
-
+    for (const [index, item] of validItems.entries()) {
       const restId = item.restaurantId;
-      
-      // Calculate item price including variations and add-ons
-      let itemUnitPrice = Number(item.menuItem.price || 0);
-      
-      // Add variation option prices (using cached map)
-      if (item.selectedVariations) {
-        const variations = item.selectedVariations as Array<{ variationId: string; selectedOptionId: string }>;
-        variations.forEach((variation) => {
-          const priceModifier = variationOptionMap.get(variation.selectedOptionId);
-          if (priceModifier !== undefined) {
-            itemUnitPrice += priceModifier;
-          }
-        });
-      }
-      
-      // Add add-on option prices (using cached map)
-      if (item.selectedAddOns) {
-        const addOns = item.selectedAddOns as Array<{ addOnId: string; selectedOptionIds: string[] }>;
-        addOns.forEach((addOn) => {
-          addOn.selectedOptionIds.forEach((optionId) => {
-            const price = addOnOptionMap.get(optionId);
-            if (price !== undefined) {
-              itemUnitPrice += price;
-            }
-          });
-        });
-      }
-      
+      const itemUnitPrice = linePrices[index]!.unitPrice;
       const itemTotal = itemUnitPrice * (item.quantity || 0);
       totalPrice += itemTotal;
 
@@ -550,20 +499,52 @@ export const cartService = {
           restaurantId: restId,
           restaurantName: item.restaurant?.name || "Unknown",
           items: [],
+          lineTotals: [],
           subtotal: 0,
         });
       }
 
       const restaurant = restaurantMap.get(restId)!;
       restaurant.items.push(item);
+      restaurant.lineTotals.push(itemTotal);
       restaurant.subtotal += itemTotal;
     }
 
+    // Active promotions discount the eligible items of every restaurant
+    let promotionDiscount = 0;
+    const restaurants = await Promise.all(
+      Array.from(restaurantMap.values()).map(async ({ lineTotals, ...restaurant }) => {
+        const applied = await promotionService.applyToLines(
+          restaurant.restaurantId,
+          restaurant.items.map((item, index) => ({
+            menuItemId: item.menuItemId,
+            categoryId: item.menuItem.category.id,
+            lineTotal: lineTotals[index] ?? 0,
+          }))
+        );
+        promotionDiscount += applied.discount;
+
+        return {
+          ...restaurant,
+          items: restaurant.items.map((item, index) => ({
+            ...item,
+            promotionDiscount: applied.lineDiscounts[index] ?? 0,
+          })),
+          promotion: applied.promotion,
+          promotionDiscount: applied.discount,
+          total: Number((restaurant.subtotal - applied.discount).toFixed(2)),
+        };
+      })
+    );
+
     return {
       cartId: cart.id || "",
       totalItems: cart.items.length,
-      totalPrice: Number(totalPrice.toFixed(2)),
-      restaurants: Array.from(restaurantMap.values()),
+      // Items total after promotions
+      totalPrice: Number((totalPrice - promotionDiscount).toFixed(2)),
+      promotionDiscount: Number(promotionDiscount.toFixed(2)),
+      restaurants,
+      priceChanges: comparePrices(validItems, linePrices),
     };
   },
 };
@@ -2,6 +2,8 @@ import { Request, Response } from "express";
 import { checkoutService } from "./checkout.service";
 import {
   checkoutSchema,
+  fulfilmentTypeSchema,
+  idempotencyKeySchema,
   updateOrderStatusSchema,
   getOrderSchema,
   getUserOrdersSchema,
@@ -19,18 +21,71 @@ export const checkoutController = {
         });
       }
 
-      const order = await checkoutService.createOrder(parseResult.data);
+      const rawIdempotencyKey = req.get("Idempotency-Key");
+      let idempotencyKey: string | undefined;
+      if (rawIdempotencyKey !== undefined) {
+        const keyResult = idempotencyKeySchema.safeParse(rawIdempotencyKey);
+        if (!keyResult.success) {
+          return res.status(400).json({
+            message: "Invalid Idempotency-Key header",
+            errors: keyResult.error.flatten(),
+          });
+        }
+        idempotencyKey = keyResult.data;
+      }
+
+      const result = await checkoutService.createOrder(parseResult.data, idempotencyKey);
+
+      // Menu prices changed since the items were added; the app confirms the new total and retries
+      if ("priceChanges" in result) {
+        return res.status(409).json({
+          message: "Prices have changed since the items were added to your cart",
+          data: result.priceChanges,
+        });
+      }
+
+      // Carts with items from several restaurants create an order group with an order per restaurant
+      const data = "orderGroup" in result ? result.orderGroup : result.order;
+
+      // Replayed requests return the order (group) created by the original request
+      if (result.replayed) {
+        res.setHeader("Idempotent-Replayed", "true");
+        return res.status(200).json({
+          message: "Order already created for this idempotency key",
+          data,
+        });
+      }
+
       return res.status(201).json({
-        message: "Order created successfully",
-        data: order,
+        message: "orderGroup" in result ? "Orders created successfully" : "Order created successfully",
+        data,
       });
     } catch (error: any) {
+      if (error.name === "ZodError") {
+        return res.status(400).json({ message: "Invalid selections", errors: error.issues });
+      }
       if (error.message.includes("not found")) {
         return res.status(404).json({ message: error.message });
       }
-      if (error.message.includes("empty") || error.message.includes("same restaurant")) {
+      if (
+        error.message.includes("empty") ||
+        error.message.includes("same mall") ||
+        error.message.includes("outside the delivery area") ||
+        error.message.includes("promo code") ||
+        error.message.includes("currently closed") ||
+        error.message.includes("on a break") ||
+        error.message.includes("scheduled time") ||
+        error.message.includes("is required for") ||
+        error.message.includes("sold out") ||
+        error.message.includes("only available between") ||
+        error.message.includes("left today") ||
+        error.message.includes("currently unavailable")
+      ) {
         return res.status(400).json({ message: error.message });
       }
+      if (error.message.includes("Cart was modified")) {
+        return res.status(409).json({ message: error.message });
+      }
       return res.status(500).json({ message: error.message });
     }
   },
@@ -44,10 +99,24 @@ export const checkoutController = {
         return res.status(400).json({ message: "User ID is required" });
       }
 
-      const summary = await checkoutService.getCheckoutSummary(userId);
+      const deliveryAddressId = req.query.deliveryAddressId as string | undefined;
+
+      const fulfilmentTypeResult = fulfilmentTypeSchema.default("DELIVERY").safeParse(req.query.fulfilmentType);
+      if (!fulfilmentTypeResult.success) {
+        return res.status(400).json({ message: "Invalid fulfilment type" });
+      }
+
+      const summary = await checkoutService.getCheckoutSummary(userId, deliveryAddressId, fulfilmentTypeResult.data);
       return res.json(summary);
     } catch (error: any) {
-      if (error.message.includes("empty")) {
+      if (error.message.includes("not found")) {
+        return res.status(404).json({ message: error.message });
+      }
+      if (
+        error.message.includes("empty") ||
+        error.message.includes("same mall") ||
+        error.message.includes("outside the delivery area")
+      ) {
         return res.status(400).json({ message: error.message });
       }
       return res.status(500).json({ message: error.message });
@@ -79,7 +148,7 @@ export const checkoutController = {
         return res.status(400).json({ message: "User ID is required" });
       }
 
-      const { label, address, city, postalCode, isDefault } = req.body;
+      const { label, address, city, postalCode, latitude, longitude, isDefault } = req.body;
 
       if (!address) {
         return res.status(400).json({ message: "Address is required" });
@@ -90,6 +159,8 @@ export const checkoutController = {
         address,
         city,
         postalCode,
+        latitude,
+        longitude,
         isDefault,
       });
 
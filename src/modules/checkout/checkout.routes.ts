@@ -17,6 +17,14 @@ router.use(requireUserRole,requireAuth);
  *     description: |
  *       Retrieve cart summary including items grouped by restaurant, subtotal, and saved addresses.
  *       Used to display the checkout page.
+ *
+ *       Tax and delivery fee are calculated on the server from the mall's tax rates and
+ *       delivery fee rule, priced against the selected address (or the default address).
+ *       Pickup and dine-in orders have no delivery fee.
+ *
+ *       Carts with items from several restaurants of a mall are summarised like the order group they
+ *       become: each restaurant's promotion applies to its items, tax is added up per restaurant and the
+ *       delivery fee is charged once.
  *     parameters:
  *       - in: query
  *         name: userId
@@ -25,6 +33,21 @@ router.use(requireUserRole,requireAuth);
  *           type: string
  *         description: User ID
  *         example: "123e4567-e89b-12d3-a456-426614174000"
+ *       - in: query
+ *         name: deliveryAddressId
+ *         required: false
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Address used to price the delivery fee (defaults to the user's default address)
+ *       - in: query
+ *         name: fulfilmentType
+ *         required: false
+ *         schema:
+ *           type: string
+ *           enum: [DELIVERY, PICKUP, DINE_IN]
+ *           default: DELIVERY
+ *         description: How the customer gets the order
  *     responses:
  *       200:
  *         description: Checkout summary retrieved successfully
@@ -36,6 +59,29 @@ router.use(requireUserRole,requireAuth);
  *                 subtotal:
  *                   type: number
  *                   example: 13.20
+ *                 promotion:
+ *                   type: object
+ *                   nullable: true
+ *                   description: Restaurant promotion applied to the eligible items (null with several restaurants, see itemsByRestaurant)
+ *                 promotionDiscount:
+ *                   type: number
+ *                   example: 0
+ *                 tax:
+ *                   type: number
+ *                   example: 1.32
+ *                 deliveryFee:
+ *                   type: number
+ *                   example: 2.50
+ *                 total:
+ *                   type: number
+ *                   example: 17.02
+ *                 pricingBreakdown:
+ *                   type: object
+ *                   description: Tax rates and delivery fee rule applied
+ *                 deliveryAddressId:
+ *                   type: string
+ *                   nullable: true
+ *                   description: Address used for pricing
  *                 itemsByRestaurant:
  *                   type: array
  *                   items:
@@ -45,6 +91,14 @@ router.use(requireUserRole,requireAuth);
  *                         type: string
  *                       restaurantName:
  *                         type: string
+ *                       promotion:
+ *                         type: object
+ *                         nullable: true
+ *                       promotionDiscount:
+ *                         type: number
+ *                       itemsTotal:
+ *                         type: number
+ *                         description: Items total of the restaurant after its promotion
  *                       items:
  *                         type: array
  *                         items:
@@ -74,7 +128,9 @@ router.use(requireUserRole,requireAuth);
  *                       isDefault:
  *                         type: boolean
  *       400:
- *         description: Cart is empty
+ *         description: Cart is empty or address is outside the delivery area
+ *       404:
+ *         description: Delivery address not found
  *       500:
  *         description: Internal server error
  */
@@ -194,7 +250,29 @@ router.post("/address", checkoutController.addDeliveryAddress);
  *     description: |
  *       Create an order from the user's cart. 
  *       This will clear the cart after successful order creation.
- *       All items must be from the same restaurant.
+ *       The restaurant must be open (not closed or on a break) according to its opening hours in the mall's timezone.
+ *       Tax and delivery fee are calculated on the server; the applied rules are stored in `pricingBreakdown`.
+ *
+ *       **Several restaurants:** a cart with items from several restaurants of the same mall creates an
+ *       order group (`data` is an `OrderGroup`) with one order per restaurant. Each restaurant only sees
+ *       its own order. Every restaurant must be open; each order gets its own promotion and tax, and the
+ *       delivery fee is charged once for the cart and split across the orders by their items total.
+ *       Promo codes can't be used with several restaurants. Card payments are made once for the group
+ *       with `/payments/create-group-payment-intent`, and the group is tracked with `/track-order/group/{orderGroupId}`.
+ *
+ *       The order, cart clearing and promo code usage are saved in a single transaction.
+ *       Send an `Idempotency-Key` header (e.g. a UUID generated per checkout attempt) to make retries safe:
+ *       replaying the same key returns the original order with status 200 and `Idempotent-Replayed: true`
+ *       instead of creating a new one.
+ *     parameters:
+ *       - in: header
+ *         name: Idempotency-Key
+ *         required: false
+ *         schema:
+ *           type: string
+ *           maxLength: 255
+ *         description: Unique key per checkout attempt, reused when retrying the same request
+ *         example: "6f1c2a4e-8b3d-4f6a-9c2e-1a2b3c4d5e6f"
  *     requestBody:
  *       required: true
  *       content:
@@ -203,18 +281,30 @@ router.post("/address", checkoutController.addDeliveryAddress);
  *             type: object
  *             required:
  *               - userId
- *               - deliveryAddressId
  *               - paymentMethod
  *             properties:
  *               userId:
  *                 type: string
  *                 description: User ID
  *                 example: "123e4567-e89b-12d3-a456-426614174000"
+ *               fulfilmentType:
+ *                 type: string
+ *                 enum: [DELIVERY, PICKUP, DINE_IN]
+ *                 default: DELIVERY
+ *                 description: |
+ *                   How the customer gets the order: delivered to an address, collected at the counter (PICKUP)
+ *                   or served in the food court (DINE_IN). Only DELIVERY orders are charged a delivery fee.
+ *                 example: "PICKUP"
  *               deliveryAddressId:
  *                 type: string
  *                 format: uuid
- *                 description: ID of the delivery address
+ *                 description: ID of the delivery address (required for DELIVERY orders)
  *                 example: "123e4567-e89b-12d3-a456-426614174001"
+ *               tableNumber:
+ *                 type: string
+ *                 maxLength: 20
+ *                 description: Table or seat number (required for DINE_IN orders)
+ *                 example: "B12"
  *               paymentMethod:
  *                 type: string
  *                 enum:
@@ -231,21 +321,22 @@ router.post("/address", checkoutController.addDeliveryAddress);
  *               promoCodeId:
  *                 type: string
  *                 format: uuid
- *                 description: Optional promo code ID to apply discount
+ *                 description: |
+ *                   Optional promo code ID to apply discount. It is calculated on the subtotal after
+ *                   the restaurant promotion, and rejected when the applied promotion doesn't stack with promo codes
+ *                   or the cart has items from several restaurants.
  *                 example: "123e4567-e89b-41d4-a716-446655440000"
- *               deliveryFee:
- *                 type: number
- *                 minimum: 0
- *                 description: Delivery fee amount
- *                 example: 2.50
- *               tax:
- *                 type: number
- *                 minimum: 0
- *                 description: Tax amount
- *                 example: 1.50
+ *               scheduledFor:
+ *                 type: string
+ *                 format: date-time
+ *                 description: |
+ *                   Optional pre-order time. The restaurant must be open at that time, and it must be at least the
+ *                   mall's pre-order lead time (`preOrderLeadMinutes`) from now and at most 7 days ahead.
+ *                   The order is created as SCHEDULED and sent to the restaurant (as PENDING) when the lead time starts.
+ *                 example: "2026-10-20T18:30:00.000Z"
  *     responses:
  *       201:
- *         description: Order created successfully
+ *         description: Order created successfully (or an `OrderGroup` for carts with items from several restaurants)
  *         content:
  *           application/json:
  *             schema:
@@ -260,14 +351,28 @@ router.post("/address", checkoutController.addDeliveryAddress);
  *                       type: string
  *                     orderNumber:
  *                       type: string
- *                       example: "#1234AB"
+ *                       example: "KFC-261019-0042"
  *                     userId:
  *                       type: string
  *                     restaurantId:
  *                       type: string
+ *                     fulfilmentType:
+ *                       type: string
+ *                       enum: [DELIVERY, PICKUP, DINE_IN]
+ *                     deliveryAddressId:
+ *                       type: string
+ *                       nullable: true
+ *                     tableNumber:
+ *                       type: string
+ *                       nullable: true
+ *                     orderGroupId:
+ *                       type: string
+ *                       nullable: true
+ *                       description: Order group of a multi-restaurant checkout
  *                     status:
  *                       type: string
  *                       enum:
+ *                         - SCHEDULED
  *                         - PENDING
  *                         - ACCEPTED
  *                         - PREPARING
@@ -281,10 +386,20 @@ router.post("/address", checkoutController.addDeliveryAddress);
  *                       type: number
  *                     deliveryFee:
  *                       type: number
+ *                     promotionId:
+ *                       type: string
+ *                       nullable: true
+ *                       description: Restaurant promotion applied to the order
+ *                     promotionDiscount:
+ *                       type: number
  *                     discount:
  *                       type: number
+ *                       description: Promo code discount
  *                     total:
  *                       type: number
+ *                     pricingBreakdown:
+ *                       type: object
+ *                       description: Tax rates and delivery fee rule applied to this order
  *                     promoCodeId:
  *                       type: string
  *                       format: uuid
@@ -381,10 +496,31 @@ router.post("/address", checkoutController.addDeliveryAddress);
  *                         image:
  *                           type: string
  *                           nullable: true
+ *       200:
+ *         description: Order already created for this Idempotency-Key (original order returned)
  *       400:
- *         description: Invalid request or cart empty
+ *         description: |
+ *           Invalid request, cart empty, items from restaurants of different malls, a promo code with items
+ *           from several restaurants, restaurant closed / on a break, or an item or option is unavailable.
+ *           Cart items whose selections no longer match the item's variations and add-ons return
+ *           `message: "Invalid selections"` with `errors` paths starting with `["items", cartItemId]`.
  *       404:
  *         description: Address or item not found
+ *       409:
+ *         description: |
+ *           Cart was modified while the order was being placed, or menu prices changed since the items were added.
+ *           On a price change no order is created: `data` holds the old and new totals, the cart keeps the new prices,
+ *           and placing the order again confirms them.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                   example: "Prices have changed since the items were added to your cart"
+ *                 data:
+ *                   $ref: '#/components/schemas/PriceChanges'
  *       500:
  *         description: Internal server error
  */
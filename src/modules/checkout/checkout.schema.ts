@@ -1,19 +1,41 @@
 import { z } from "zod";
 
-// Schema for checkout request
-export const checkoutSchema = z.object({
-  // Accept non-UUID user IDs (BetterAuth style)
-  userId: z.string().min(1, "User ID is required"),
-  deliveryAddressId: z.string().min(1, "Delivery address ID is required").uuid("Invalid address ID"),
-  paymentMethod: z.enum(["CASH", "CARD", "WALLET", "ONLINE"], {
-    message: "Invalid payment method",
-  }),
-  specialInstructions: z.string().optional().nullable(),
-  promoCodeId: z.string().optional(), // Optional promo code ID
-  deliveryFee: z.number().min(0).default(0),
-  tax: z.number().min(0).default(0),
+// How the customer gets the order
+export const fulfilmentTypeSchema = z.enum(["DELIVERY", "PICKUP", "DINE_IN"], {
+  message: "Invalid fulfilment type",
 });
 
+// Schema for checkout request
+export const checkoutSchema = z
+  .object({
+    // Accept non-UUID user IDs (BetterAuth style)
+    userId: z.string().min(1, "User ID is required"),
+    fulfilmentType: fulfilmentTypeSchema.default("DELIVERY"),
+    // Required for DELIVERY orders only
+    deliveryAddressId: z.string().min(1, "Delivery address ID is required").uuid("Invalid address ID").optional(),
+    // Table or seat number, required for DINE_IN orders
+    tableNumber: z.string().trim().min(1, "Table number is required").max(20, "Table number cannot exceed 20 characters").optional(),
+    paymentMethod: z.enum(["CASH", "CARD", "WALLET", "ONLINE"], {
+      message: "Invalid payment method",
+    }),
+    specialInstructions: z.string().optional().nullable(),
+    promoCodeId: z.string().optional(), // Optional promo code ID
+    // Pre-order time (ISO 8601); the order is placed as SCHEDULED and released to the restaurant later
+    scheduledFor: z.coerce.date({ message: "Invalid scheduled time" }).optional(),
+    // deliveryFee and tax are calculated on the server by the pricing engine
+  })
+  .refine((data) => data.fulfilmentType !== "DELIVERY" || !!data.deliveryAddressId, {
+    message: "Delivery address ID is required for delivery orders",
+    path: ["deliveryAddressId"],
+  })
+  .refine((data) => data.fulfilmentType !== "DINE_IN" || !!data.tableNumber, {
+    message: "Table number is required for dine-in orders",
+    path: ["tableNumber"],
+  });
+
+// Idempotency-Key header sent with create-order so retries don't place the order twice
+export const idempotencyKeySchema = z.string().trim().min(1).max(255, "Idempotency key cannot exceed 255 characters");
+
 // Schema for updating order status
 export const updateOrderStatusSchema = z.object({
   status: z.enum(["PENDING", "ACCEPTED", "PREPARING", "READY", "OUT_FOR_DELIVERY", "DELIVERED", "CANCELLED"], {
@@ -31,7 +53,7 @@ export const getOrderSchema = z.object({
 export const getUserOrdersSchema = z.object({
   // Accept non-UUID user IDs (BetterAuth style)
   userId: z.string().min(1, "User ID is required"),
-  status: z.enum(["PENDING", "ACCEPTED", "PREPARING", "READY", "OUT_FOR_DELIVERY", "DELIVERED", "CANCELLED"]).optional(),
+  status: z.enum(["SCHEDULED", "PENDING", "ACCEPTED", "PREPARING", "READY", "OUT_FOR_DELIVERY", "DELIVERED", "CANCELLED"]).optional(),
   limit: z.number().int().positive().default(10),
   offset: z.number().int().nonnegative().default(0),
 });
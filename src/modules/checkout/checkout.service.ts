@@ -1,12 +1,166 @@
 import prisma from "../../config/prisma";
+import type { FulfilmentType, PromoCode } from "../../generated/prisma/client";
+import { availabilityService } from "../availability/availability.service";
+import { menuItemAvailabilityService } from "../menu/menu-item-availability.service";
 import { notifyRestaurantAndAdminNewOrder } from "../notifications/notification.service";
+import { OrderStatusActor } from "../orders/order-status-history.service";
+import { orderLifecycleService } from "../orders/order-lifecycle.service";
+import { orderEventsService } from "../orders/order-events.service";
+import { orderNumberService } from "../orders/order-number.service";
+import { scheduledOrderService } from "../orders/scheduled-order.service";
+import { cartPriceService, comparePrices } from "../cart/cart-price.service";
+import { PricingResult, pricingService } from "../pricing/pricing.service";
+import { productOptionService } from "../product-detail/product-option.service";
+import { promoCodeService } from "../promo-code/promo-code.service";
+import { PromotionLine, promotionService } from "../restaurant/promotion/promotion.service";
 import { CheckoutInput, UpdateOrderStatusInput } from "./checkout.schema";
 
+// Order as returned by checkout
+const createdOrderSelect = {
+  id: true,
+  orderNumber: true,
+  userId: true,
+  restaurantId: true,
+  fulfilmentType: true,
+  deliveryAddressId: true,
+  tableNumber: true,
+  paymentMethod: true,
+  specialInstructions: true,
+  promoCodeId: true,
+  promotionId: true,
+  subtotal: true,
+  tax: true,
+  deliveryFee: true,
+  promotionDiscount: true,
+  discount: true,
+  total: true,
+  pricingBreakdown: true,
+  status: true,
+  scheduledFor: true,
+  releaseAt: true,
+  orderGroupId: true,
+  estimatedDeliveryTime: true,
+  actualDeliveryTime: true,
+  paymentStatus: true,
+  paidAt: true,
+  createdAt: true,
+  updatedAt: true,
+  items: {
+    select: {
+      id: true,
+      orderId: true,
+      menuItemId: true,
+      quantity: true,
+      unitPrice: true,
+      totalPrice: true,
+      promotionDiscount: true,
+      itemName: true,
+      specialNotes: true,
+      selectedVariations: true,
+      selectedAddOns: true,
+      createdAt: true,
+      updatedAt: true,
+      menuItem: {
+        select: {
+          id: true,
+          name: true,
+          description: true,
+          price: true,
+          image: true,
+        },
+      },
+    },
+  },
+  restaurant: {
+    select: {
+      userId: true,
+      name: true,
+      mainCategory: true,
+      banner: true,
+      estimatedDeliveryTime: true,
+    },
+  },
+  deliveryAddress: {
+    select: {
+      id: true,
+      label: true,
+      address: true,
+      city: true,
+      postalCode: true,
+      isDefault: true,
+    },
+  },
+  user: {
+    select: {
+      id: true,
+      name: true,
+      email: true,
+      phoneNumber: true,
+      image: true,
+    },
+  },
+} as const;
+
+function roundMoney(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+// Splits an amount proportionally to the weights; the rounding remainder goes to the last share
+function splitAmount(amount: number, weights: number[]): number[] {
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  let remaining = roundMoney(amount);
+  return weights.map((weight, index) => {
+    if (index === weights.length - 1) {
+      return remaining;
+    }
+    const share = totalWeight > 0 ? roundMoney((amount * weight) / totalWeight) : 0;
+    remaining = roundMoney(remaining - share);
+    return share;
+  });
+}
+
+// Result of an earlier checkout with the same idempotency key, if any
+async function findReplay(userId: string, idempotencyKey: string) {
+  const [order, orderGroup] = await Promise.all([
+    prisma.order.findUnique({
+      where: { userId_idempotencyKey: { userId, idempotencyKey } },
+      select: { id: true },
+    }),
+    prisma.orderGroup.findUnique({
+      where: { userId_idempotencyKey: { userId, idempotencyKey } },
+      select: { id: true },
+    }),
+  ]);
+  if (order) {
+    return { order: await checkoutService.getOrderById(order.id), replayed: true };
+  }
+  if (orderGroup) {
+    return { orderGroup: await checkoutService.getOrderGroupById(orderGroup.id), replayed: true };
+  }
+  return null;
+}
+
 export const checkoutService = {
-  // Create order from cart
-  async createOrder(checkoutData: CheckoutInput) {
-    const { userId, deliveryAddressId, paymentMethod, specialInstructions, promoCodeId, deliveryFee, tax } =
-      checkoutData;
+  // Create orders from cart: one order, or an order group with an order per restaurant.
+  // Replaying an idempotency key returns what it created.
+  async createOrder(checkoutData: CheckoutInput, idempotencyKey?: string) {
+    const {
+      userId,
+      fulfilmentType,
+      deliveryAddressId,
+      tableNumber,
+      paymentMethod,
+      specialInstructions,
+      promoCodeId,
+      scheduledFor,
+    } = checkoutData;
+
+    if (idempotencyKey) {
+      const replay = await findReplay(userId, idempotencyKey);
+      if (replay) {
+        return replay;
+      }
+    }
 
     // Get user's cart with items
     const cart = await prisma.cart.findUnique({
@@ -25,104 +179,80 @@ export const checkoutService = {
       throw new Error("Cart is empty");
     }
 
-    // Verify delivery address exists
-    const deliveryAddress = await prisma.deliveryAddress.findUnique({
-      where: { id: deliveryAddressId },
-    });
+    // Pickup and dine-in orders are collected at the mall and have no delivery address
+    let deliveryAddress = null;
+    if (fulfilmentType === "DELIVERY") {
+      if (!deliveryAddressId) {
+        throw new Error("Delivery address ID is required for delivery orders");
+      }
 
-    if (!deliveryAddress) {
-      throw new Error("Delivery address not found");
-    }
+      deliveryAddress = await prisma.deliveryAddress.findUnique({
+        where: { id: deliveryAddressId },
+      });
 
-    if (deliveryAddress.userId !== userId) {
-      throw new Error("Delivery address does not belong to this user");
-    }
+      if (!deliveryAddress) {
+        throw new Error("Delivery address not found");
+      }
 
-    // Check if all items are from the same restaurant
-    const restaurantIds = new Set(cart.items.map((item) => item.restaurantId));
-    if (restaurantIds.size > 1) {
-      throw new Error("All items in cart must be from the same restaurant");
+      if (deliveryAddress.userId !== userId) {
+        throw new Error("Delivery address does not belong to this user");
+      }
     }
 
-    const restaurantId = Array.from(restaurantIds)[0];
-    if (!restaurantId) {
-      throw new Error("Invalid restaurant ID");
+    // Every restaurant gets its own order. A cart with items from several restaurants of a mall
+    // (e.g. food court stalls) is checked out as an order group with one payment.
+    const restaurantIds = Array.from(new Set(cart.items.map((item) => item.restaurantId)));
+    const mallId = cart.items[0]!.restaurant.mallId;
+    if (cart.items.some((item) => item.restaurant.mallId !== mallId)) {
+      throw new Error("All items in cart must be from restaurants in the same mall");
+    }
+    const isGroup = restaurantIds.length > 1;
+    if (isGroup && promoCodeId) {
+      throw new Error("A promo code can only be used for orders from a single restaurant");
     }
 
-    // Collect all variation and add-on option IDs to batch query
-    const variationOptionIds = new Set<string>();
-    const addOnOptionIds = new Set<string>();
-
-    for (const item of cart.items) {
-      if (item.selectedVariations) {
-        const variations = item.selectedVariations as Array<{ variationId: string; selectedOptionId: string }>;
-        variations.forEach((v) => variationOptionIds.add(v.selectedOptionId));
-      }
-      if (item.selectedAddOns) {
-        const addOns = item.selectedAddOns as Array<{ addOnId: string; selectedOptionIds: string[] }>;
-        addOns.forEach((a) => a.selectedOptionIds.forEach((id) => addOnOptionIds.add(id)));
+    // Orders for now need the restaurants open (and not on a break); pre-orders need them open at the scheduled time
+    // Schedule of each restaurant's pre-order
+    const schedules = new Map<string, { scheduledFor: Date; releaseAt: Date }>();
+    for (const restaurantId of restaurantIds) {
+      try {
+        if (scheduledFor) {
+          schedules.set(restaurantId, await scheduledOrderService.resolveSchedule(restaurantId, mallId, scheduledFor));
+        } else {
+          await availabilityService.assertAcceptingOrders(restaurantId);
+        }
+      } catch (error: any) {
+        // Name the restaurant when the cart has several
+        if (isGroup) {
+          const restaurant = cart.items.find((item) => item.restaurantId === restaurantId)!.restaurant;
+          error.message = `${restaurant.name || "Restaurant"}: ${error.message}`;
+        }
+        throw error;
       }
     }
+    const isScheduled = schedules.size > 0;
+    const initialStatus = isScheduled ? "SCHEDULED" : "PENDING";
 
-    // Batch fetch all variation and add-on options
-    const [variationOptions, addOnOptions] = await Promise.all([
-      variationOptionIds.size > 0
-        ? prisma.variationOption.findMany({
-            where: { id: { in: Array.from(variationOptionIds) } },
-            select: { id: true, priceModifier: true },
-          })
-        : Promise.resolve([]),
-      addOnOptionIds.size > 0
-        ? prisma.addOnOption.findMany({
-            where: { id: { in: Array.from(addOnOptionIds) } },
-            select: { id: true, price: true },
-          })
-        : Promise.resolve([]),
-    ]);
-
-    // Create maps for quick lookup
-    const variationOptionMap = new Map(variationOptions.map((opt) => [opt.id, opt.priceModifier.toNumber()]));
-    const addOnOptionMap = new Map(addOnOptions.map((opt) => [opt.id, opt.price.toNumber()]));
-
-    // Calculate subtotal from cart items including variations and add-ons
-    let subtotal = 0;
-    const orderItemsData = [];
-
-    for (const item of cart.items) {
-      let itemUnitPrice = item.menuItem.price.toNumber();
-
-      // Add variation option prices (using cached map)
-      if (item.selectedVariations) {
-        const variations = item.selectedVariations as Array<{
-          variationId: string;
-          selectedOptionId: string;
-        }>;
-        variations.forEach((variation) => {
-          const priceModifier = variationOptionMap.get(variation.selectedOptionId);
-          if (priceModifier !== undefined) {
-            itemUnitPrice += priceModifier;
-          }
-        });
-      }
+    // Items must be available (and in stock) when the order is prepared
+    const orderedAt = scheduledFor ?? new Date();
+    const stockLines = cart.items.map((item) => ({ menuItemId: item.menuItemId, quantity: item.quantity }));
+    await menuItemAvailabilityService.assertAvailable(stockLines, orderedAt);
+    await productOptionService.assertOptionsAvailable(cart.items);
 
-      // Add add-on option prices (using cached map)
-      if (item.selectedAddOns) {
-        const addOns = item.selectedAddOns as Array<{
-          addOnId: string;
-          selectedOptionIds: string[];
-        }>;
-        addOns.forEach((addOn) => {
-          addOn.selectedOptionIds.forEach((optionId) => {
-            const price = addOnOptionMap.get(optionId);
-            if (price !== undefined) {
-              itemUnitPrice += price;
-            }
-          });
-        });
-      }
+    // Selections must still match the item's variations and add-ons, so every option below has a price
+    await productOptionService.assertValidSelections(
+      cart.items.map((item) => ({ ...item, path: ["items", item.id] }))
+    );
+
+    // Current unit prices (item plus chosen options), priced like the cart snapshots they are compared with
+    const linePrices = await cartPriceService.priceLines(cart.items);
+
+    // Price the cart items including variations and add-ons
+    const orderItemsData: any[] = [];
 
+    for (const [index, item] of cart.items.entries()) {
+      const itemUnitPrice = linePrices[index]!.unitPrice;
       const itemTotal = itemUnitPrice * item.quantity;
-      subtotal += itemTotal;
 
       // Prepare order item data with variations and add-ons
       orderItemsData.push({
@@ -137,141 +267,268 @@ export const checkoutService = {
       });
     }
 
-  
-     // Calculate discount if promo code is provided
-     let appliedDiscount = 0;
-     if (promoCodeId) {
-       const promoCode = await prisma.promoCode.findUnique({
-         where: { id: promoCodeId },
-       });
- 
-       if (promoCode) {
-         const now = new Date();
-         // Verify promo code is valid
-         if (promoCode.startDate <= now && promoCode.endDate >= now) {
-           // Calculate discount based on percentage
-           appliedDiscount = Math.round((subtotal * promoCode.discountPercentage) / 100 * 100) / 100;
-         }
-       }
-     }
- 
-     const total = subtotal + tax + deliveryFee - appliedDiscount;
-
-
-    // Generate unique order number
-    const orderNumber = "#" + Date.now().toString().slice(-4) + Math.random().toString(36).substring(2, 6).toUpperCase();
-
-    // Create order
-    const order = await prisma.order.create({
-      data: {
-        orderNumber,
+    // Prices changed since the items were added: report the old and new totals instead of charging
+    // them silently. The cart keeps the new prices, so checking out again confirms them.
+    const priceChanges = comparePrices(cart.items, linePrices);
+    if (priceChanges.pricesChanged) {
+      await prisma.$transaction(async (tx) => {
+        for (const [index, item] of cart.items.entries()) {
+          await tx.cartItem.update({
+            where: { id: item.id },
+            data: { unitPrice: orderItemsData[index].unitPrice },
+          });
+        }
+      });
+      return { priceChanges };
+    }
+
+    // Best active promotion of each restaurant, applied to its eligible items
+    const drafts = [];
+    for (const restaurantId of restaurantIds) {
+      const indexes = cart.items.flatMap((item, index) => (item.restaurantId === restaurantId ? [index] : []));
+      const itemsData = indexes.map((index) => orderItemsData[index]);
+      const appliedPromotion = await promotionService.applyToLines(
+        restaurantId,
+        indexes.map((index) => ({
+          menuItemId: cart.items[index]!.menuItemId,
+          categoryId: cart.items[index]!.menuItem.categoryId,
+          lineTotal: Number(orderItemsData[index].totalPrice),
+        }))
+      );
+      if (appliedPromotion.promotion) {
+        itemsData.forEach((itemData, index) => {
+          const lineDiscount = appliedPromotion.lineDiscounts[index] ?? 0;
+          if (lineDiscount > 0) {
+            itemData.promotionId = appliedPromotion.promotion!.id;
+            itemData.promotionDiscount = lineDiscount.toString();
+          }
+        });
+      }
+      const subtotal = itemsData.reduce((sum, itemData) => sum + Number(itemData.totalPrice), 0);
+      drafts.push({
+        restaurantId,
+        itemsData,
+        subtotal,
+        appliedPromotion,
+        // Promo codes, minimum order values and tax are based on the items total after the promotion
+        itemsTotal: subtotal - appliedPromotion.discount,
+      });
+    }
+    const firstDraft = drafts[0]!;
+
+    // Calculate discount if promo code is provided (limits are enforced again when redeeming)
+    let appliedDiscount = 0;
+    let promoCode: PromoCode | null = null;
+    if (promoCodeId) {
+      const promotion = firstDraft.appliedPromotion.promotion;
+      if (promotion && !promotion.stacksWithPromoCodes) {
+        throw new Error(`This promo code cannot be combined with the "${promotion.title}" promotion`);
+      }
+
+      promoCode = await prisma.promoCode.findUnique({
+        where: { id: promoCodeId },
+      });
+
+      if (!promoCode) {
+        throw new Error("Promo code not found");
+      }
+
+      const validation = await promoCodeService.validateRedemption(promoCode, {
         userId,
-        restaurantId: restaurantId,
-        deliveryAddressId,
-        paymentMethod,
-        specialInstructions: specialInstructions || null,
-        promoCodeId: promoCodeId || null, // Link promo code to order
-        subtotal: subtotal.toString(),
-        tax: tax.toString(),
-        deliveryFee: deliveryFee.toString(),
-        discount: appliedDiscount.toString(),
-        total: total.toString(),
-        status: "PENDING",
-        items: {
-          create: orderItemsData,
-        },
-      },
-      select: {
-        id: true,
-        orderNumber: true,
-        userId: true,
-        restaurantId: true,
-        deliveryAddressId: true,
-        paymentMethod: true,
-        specialInstructions: true,
-        promoCodeId: true,
-        subtotal: true,
-        tax: true,
-        deliveryFee: true,
-        discount: true,
-        total: true,
-        status: true,
-        estimatedDeliveryTime: true,
-        actualDeliveryTime: true,
-        paymentStatus: true,
-        paidAt: true,
-        createdAt: true,
-        updatedAt: true,
-        items: {
-          select: {
-            id: true,
-            orderId: true,
-            menuItemId: true,
-            quantity: true,
-            unitPrice: true,
-            totalPrice: true,
-            itemName: true,
-            specialNotes: true,
-            selectedVariations: true,
-            selectedAddOns: true,
-            createdAt: true,
-            updatedAt: true,
-            menuItem: {
-              select: {
-                id: true,
-                name: true,
-                description: true,
-                price: true,
-                image: true,
+        restaurantId: firstDraft.restaurantId,
+        subtotal: firstDraft.itemsTotal,
+      });
+      if (!validation.success) {
+        throw new Error(validation.message);
+      }
+      // Free-delivery codes are valued below, once the delivery fee is known
+      appliedDiscount = validation.discountAmount ?? 0;
+    }
+
+    // Tax and delivery fee are always computed on the server (tax is charged after item discounts)
+    const pricings: PricingResult[] = [];
+    for (const draft of drafts) {
+      pricings.push(
+        await pricingService.calculate({
+          mallId,
+          subtotal: draft.itemsTotal,
+          discount: appliedDiscount,
+          fulfilmentType,
+          deliveryAddress,
+        })
+      );
+    }
+
+    // A group is delivered together: its delivery fee is priced on the whole cart (including the
+    // free-delivery threshold) and split across the orders by their items total
+    if (isGroup) {
+      const groupPricing = await pricingService.calculate({
+        mallId,
+        subtotal: drafts.reduce((sum, draft) => sum + draft.itemsTotal, 0),
+        fulfilmentType,
+        deliveryAddress,
+      });
+      const shares = splitAmount(
+        groupPricing.deliveryFee,
+        drafts.map((draft) => draft.itemsTotal)
+      );
+      pricings.forEach((pricing, index) => {
+        pricing.deliveryFee = shares[index] ?? 0;
+        pricing.breakdown.deliveryFee = {
+          ...groupPricing.breakdown.deliveryFee,
+          amount: pricing.deliveryFee,
+          note: "Share of the order group's delivery fee",
+        };
+      });
+    }
+
+    if (promoCode?.discountType === "FREE_DELIVERY") {
+      appliedDiscount = promoCodeService.calculateDiscount(promoCode, firstDraft.itemsTotal, pricings[0]!.deliveryFee);
+    }
+
+    const pricedDrafts = drafts.map((draft, index) => {
+      const pricing = pricings[index]!;
+      return { ...draft, pricing, total: draft.itemsTotal + pricing.tax + pricing.deliveryFee - appliedDiscount };
+    });
+
+    // Orders, cart clearing and promo usage are committed together
+    let created;
+    try {
+      created = await orderNumberService.withRetry(() => prisma.$transaction(async (tx) => {
+        // Clear exactly the cart lines being ordered. A concurrent checkout of the same
+        // cart (e.g. a double tap) finds them already gone and is rolled back.
+        const cleared = await tx.cartItem.deleteMany({
+          where: { id: { in: cart.items.map((item) => item.id) } },
+        });
+        if (cleared.count !== cart.items.length) {
+          throw new Error("Cart was modified while placing the order. Please review your cart and try again.");
+        }
+
+        // Count the units against the items' daily stock (throws when sold out meanwhile)
+        await menuItemAvailabilityService.reserveStock(tx, stockLines, orderedAt);
+
+        // The group holds the payment and the idempotency key of a multi-restaurant checkout
+        const orderGroup = isGroup
+          ? await tx.orderGroup.create({
+              data: {
+                userId,
+                paymentMethod,
+                total: pricedDrafts.reduce((sum, draft) => sum + draft.total, 0).toString(),
+                idempotencyKey: idempotencyKey ?? null,
+              },
+            })
+          : null;
+
+        const orders = [];
+        for (const draft of pricedDrafts) {
+          // Per-restaurant daily order number, e.g. KFC-261019-0042
+          const orderNumber = await orderNumberService.next(tx, draft.restaurantId);
+          const schedule = schedules.get(draft.restaurantId);
+
+          const createdOrder = await tx.order.create({
+            data: {
+              orderNumber,
+              idempotencyKey: orderGroup ? null : (idempotencyKey ?? null),
+              orderGroupId: orderGroup?.id ?? null,
+              userId,
+              restaurantId: draft.restaurantId,
+              fulfilmentType,
+              deliveryAddressId: deliveryAddress?.id ?? null,
+              tableNumber: fulfilmentType === "DINE_IN" ? (tableNumber ?? null) : null,
+              paymentMethod,
+              specialInstructions: specialInstructions || null,
+              promoCodeId: promoCodeId || null, // Link promo code to order
+              promotionId: draft.appliedPromotion.promotion?.id ?? null,
+              subtotal: draft.subtotal.toString(),
+              tax: draft.pricing.tax.toString(),
+              deliveryFee: draft.pricing.deliveryFee.toString(),
+              promotionDiscount: draft.appliedPromotion.discount.toString(),
+              discount: appliedDiscount.toString(),
+              pricingBreakdown: draft.pricing.breakdown as any,
+              total: draft.total.toString(),
+              status: initialStatus,
+              scheduledFor: schedule?.scheduledFor ?? null,
+              releaseAt: schedule?.releaseAt ?? null,
+              items: {
+                create: draft.itemsData,
+              },
+              statusHistory: {
+                create: {
+                  status: initialStatus,
+                  actionById: userId,
+                  actionByRole: "USER",
+                },
               },
             },
-          },
-        },
-        restaurant: {
-          select: {
-            userId: true,
-            name: true,
-            mainCategory: true,
-            banner: true,
-            estimatedDeliveryTime: true,
-          },
-        },
-        deliveryAddress: {
-          select: {
-            id: true,
-            label: true,
-            address: true,
-            city: true,
-            postalCode: true,
-            isDefault: true,
-          },
-        },
-        user: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-            phoneNumber: true,
-            image: true,
-          },
+            select: createdOrderSelect,
+          });
+          orders.push(createdOrder);
+        }
+
+        // Record promo code redemption (throws when a usage limit was reached meanwhile)
+        if (promoCode) {
+          await promoCodeService.redeem(tx, {
+            promoCode,
+            userId,
+            orderId: orders[0]!.id,
+            discountAmount: appliedDiscount,
+          });
+        }
+
+        return { orderGroup, orders };
+      }));
+    } catch (error: any) {
+      // A concurrent request with the same idempotency key won the race
+      if (idempotencyKey) {
+        const replay = await findReplay(userId, idempotencyKey);
+        if (replay) {
+          return replay;
+        }
+      }
+      throw error;
+    }
+
+    const { orderGroup, orders } = created;
+
+    // Scheduled orders reach the restaurants when the scheduler releases them
+    if (!isScheduled) {
+      for (const order of orders) {
+        // Notify restaurant and admin about new order
+        try {
+          await notifyRestaurantAndAdminNewOrder(order);
+        } catch (error: any) {
+          console.error("[Checkout] Failed to send new order notification:", error.message);
+          // Don't fail order creation if notification fails
+        }
+
+        // Push the new order to the restaurant's live order stream
+        orderEventsService.publishNewOrder(order);
+      }
+    }
+
+    if (orderGroup) {
+      return { orderGroup: { ...orderGroup, orders }, replayed: false };
+    }
+    return { order: orders[0]!, replayed: false };
+  },
+
+  // Get order group (multi-restaurant checkout) with its orders
+  async getOrderGroupById(orderGroupId: string) {
+    const orderGroup = await prisma.orderGroup.findUnique({
+      where: { id: orderGroupId },
+      include: {
+        orders: {
+          select: createdOrderSelect,
+          orderBy: { createdAt: "asc" },
         },
       },
     });
 
-    // Clear the cart
-    await prisma.cartItem.deleteMany({
-      where: { cartId: cart.id },
-    });
-
-    // Notify restaurant and admin about new order
-    try {
-      await notifyRestaurantAndAdminNewOrder(order);
-    } catch (error: any) {
-      console.error("[Checkout] Failed to send new order notification:", error.message);
-      // Don't fail order creation if notification fails
+    if (!orderGroup) {
+      throw new Error("Order group not found");
     }
 
-    return order;
+    return orderGroup;
   },
 
   // Get order by ID
@@ -283,16 +540,22 @@ export const checkoutService = {
         orderNumber: true,
         userId: true,
         restaurantId: true,
+        fulfilmentType: true,
         deliveryAddressId: true,
+        tableNumber: true,
         paymentMethod: true,
         specialInstructions: true,
         promoCodeId: true,
+        promotionId: true,
         subtotal: true,
         tax: true,
         deliveryFee: true,
+        promotionDiscount: true,
         discount: true,
         total: true,
+        pricingBreakdown: true,
         status: true,
+        scheduledFor: true,
         estimatedDeliveryTime: true,
         actualDeliveryTime: true,
         paymentStatus: true,
@@ -307,6 +570,7 @@ export const checkoutService = {
             quantity: true,
             unitPrice: true,
             totalPrice: true,
+            promotionDiscount: true,
             itemName: true,
             specialNotes: true,
             selectedVariations: true,
@@ -376,16 +640,21 @@ export const checkoutService = {
         orderNumber: true,
         userId: true,
         restaurantId: true,
+        fulfilmentType: true,
         deliveryAddressId: true,
+        tableNumber: true,
         paymentMethod: true,
         specialInstructions: true,
         promoCodeId: true,
+        promotionId: true,
         subtotal: true,
         tax: true,
         deliveryFee: true,
+        promotionDiscount: true,
         discount: true,
         total: true,
         status: true,
+        scheduledFor: true,
         estimatedDeliveryTime: true,
         actualDeliveryTime: true,
         paymentStatus: true,
@@ -400,6 +669,7 @@ export const checkoutService = {
             quantity: true,
             unitPrice: true,
             totalPrice: true,
+            promotionDiscount: true,
             itemName: true,
             specialNotes: true,
             selectedVariations: true,
@@ -445,105 +715,21 @@ export const checkoutService = {
     return { orders, total, limit, offset };
   },
 
-  // Update order status
-  async updateOrderStatus(orderId: string, updateData: UpdateOrderStatusInput) {
-    const order = await prisma.order.findUnique({
-      where: { id: orderId },
-    });
-
-    if (!order) {
-      throw new Error("Order not found");
+  // Update order status (validated by the order lifecycle)
+  async updateOrderStatus(orderId: string, updateData: UpdateOrderStatusInput, actor?: OrderStatusActor) {
+    const transitionData: { estimatedDeliveryTime?: string } = {};
+    if (updateData.estimatedDeliveryTime) {
+      transitionData.estimatedDeliveryTime = updateData.estimatedDeliveryTime;
     }
 
-    const updatePayload: any = {
-      status: updateData.status,
-      estimatedDeliveryTime: updateData.estimatedDeliveryTime || order.estimatedDeliveryTime,
-    };
-
-    // Only include actualDeliveryTime if status is DELIVERED
-    if (updateData.status === "DELIVERED") {
-      updatePayload.actualDeliveryTime = new Date();
-    }
-
-    const updatedOrder = await prisma.order.update({
-      where: { id: orderId },
-      data: updatePayload,
-      select: {
-        id: true,
-        orderNumber: true,
-        userId: true,
-        restaurantId: true,
-        deliveryAddressId: true,
-        paymentMethod: true,
-        specialInstructions: true,
-        promoCodeId: true,
-        subtotal: true,
-        tax: true,
-        deliveryFee: true,
-        discount: true,
-        total: true,
-        status: true,
-        estimatedDeliveryTime: true,
-        actualDeliveryTime: true,
-        paymentStatus: true,
-        paidAt: true,
-        createdAt: true,
-        updatedAt: true,
-        items: {
-          select: {
-            id: true,
-            orderId: true,
-            menuItemId: true,
-            quantity: true,
-            unitPrice: true,
-            totalPrice: true,
-            itemName: true,
-            specialNotes: true,
-            selectedVariations: true,
-            selectedAddOns: true,
-            menuItem: {
-              select: {
-                id: true,
-                name: true,
-                description: true,
-                price: true,
-                image: true,
-              },
-            },
-          },
-        },
-        restaurant: {
-          select: {
-            userId: true,
-            name: true,
-            mainCategory: true,
-            banner: true,
-            estimatedDeliveryTime: true,
-          },
-        },
-        deliveryAddress: {
-          select: {
-            id: true,
-            label: true,
-            address: true,
-            city: true,
-            postalCode: true,
-            isDefault: true,
-          },
-        },
-        user: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-            phoneNumber: true,
-            image: true,
-          },
-        },
-      },
+    await orderLifecycleService.transition({
+      orderId,
+      toStatus: updateData.status,
+      actor,
+      data: transitionData,
     });
 
-    return updatedOrder;
+    return this.getOrderById(orderId);
   },
 
   // Get saved delivery addresses for user
@@ -559,7 +745,15 @@ export const checkoutService = {
   // Add delivery address
   async addDeliveryAddress(
     userId: string,
-    data: { label?: string; address: string; city?: string; postalCode?: string; isDefault?: boolean },
+    data: {
+      label?: string;
+      address: string;
+      city?: string;
+      postalCode?: string;
+      latitude?: number;
+      longitude?: number;
+      isDefault?: boolean;
+    },
   ) {
     // If this is marked as default, unset other defaults
     if (data.isDefault) {
@@ -580,7 +774,7 @@ export const checkoutService = {
   },
 
   // Get order summary (for checkout page)
-  async getCheckoutSummary(userId: string) {
+  async getCheckoutSummary(userId: string, deliveryAddressId?: string, fulfilmentType: FulfilmentType = "DELIVERY") {
     const cart = await prisma.cart.findUnique({
       where: { userId },
       select: {
@@ -599,12 +793,14 @@ export const checkoutService = {
                 id: true,
                 name: true,
                 price: true,
+                categoryId: true,
               },
             },
             restaurant: {
               select: {
                 userId: true,
                 name: true,
+                mallId: true,
               },
             },
           },
@@ -616,10 +812,10 @@ export const checkoutService = {
       throw new Error("Cart is empty");
     }
 
-    // Check if all items are from same restaurant
-    const restaurantIds = new Set(cart.items.map((item) => item.restaurantId));
-    if (restaurantIds.size > 1) {
-      throw new Error("All items must be from the same restaurant");
+    // Items of several restaurants are ordered as an order group, which stays within one mall
+    const mallId = cart.items[0]!.restaurant.mallId;
+    if (cart.items.some((item) => item.restaurant.mallId !== mallId)) {
+      throw new Error("All items must be from restaurants in the same mall");
     }
 
     // Get delivery addresses
@@ -628,81 +824,21 @@ export const checkoutService = {
       orderBy: { isDefault: "desc" },
     });
 
-    // Collect all variation and add-on option IDs to batch query
-    const variationOptionIds = new Set<string>();
-    const addOnOptionIds = new Set<string>();
-
-    for (const item of cart.items) {
-      if (item.selectedVariations) {
-        const variations = item.selectedVariations as Array<{ variationId: string; selectedOptionId: string }>;
-        variations.forEach((v) => variationOptionIds.add(v.selectedOptionId));
-      }
-      if (item.selectedAddOns) {
-        const addOns = item.selectedAddOns as Array<{ addOnId: string; selectedOptionIds: string[] }>;
-        addOns.forEach((a) => a.selectedOptionIds.forEach((id) => addOnOptionIds.add(id)));
-      }
-    }
-
-    // Batch fetch all variation and add-on options
-    const [variationOptions, addOnOptions] = await Promise.all([
-      variationOptionIds.size > 0
-        ? prisma.variationOption.findMany({
-            where: { id: { in: Array.from(variationOptionIds) } },
-            select: { id: true, priceModifier: true },
-          })
-        : Promise.resolve([]),
-      addOnOptionIds.size > 0
-        ? prisma.addOnOption.findMany({
-            where: { id: { in: Array.from(addOnOptionIds) } },
-            select: { id: true, price: true },
-          })
-        : Promise.resolve([]),
-    ]);
-
-    // Create maps for quick lookup
-    const variationOptionMap = new Map(variationOptions.map((opt) => [opt.id, opt.priceModifier.toNumber()]));
-    const addOnOptionMap = new Map(addOnOptions.map((opt) => [opt.id, opt.price.toNumber()]));
+    // Current unit prices (item plus chosen options), the same prices placing the order charges
+    const linePrices = await cartPriceService.priceLines(cart.items);
 
     // Calculate summary including variations and add-ons
     let subtotal = 0;
     const itemsByRestaurant: any = {};
+    const promotionLines: PromotionLine[] = [];
 
-    for (const item of cart.items) {
+    for (const [index, item] of cart.items.entries()) {
       const restaurantId = item.restaurantId;
-      let itemUnitPrice = item.menuItem.price.toNumber();
-
-      // Add variation option prices (using cached map)
-      if (item.selectedVariations) {
-        const variations = item.selectedVariations as Array<{
-          variationId: string;
-          selectedOptionId: string;
-        }>;
-        variations.forEach((variation) => {
-          const priceModifier = variationOptionMap.get(variation.selectedOptionId);
-          if (priceModifier !== undefined) {
-            itemUnitPrice += priceModifier;
-          }
-        });
-      }
-
-      // Add add-on option prices (using cached map)
-      if (item.selectedAddOns) {
-        const addOns = item.selectedAddOns as Array<{
-          addOnId: string;
-          selectedOptionIds: string[];
-        }>;
-        addOns.forEach((addOn) => {
-          addOn.selectedOptionIds.forEach((optionId) => {
-            const price = addOnOptionMap.get(optionId);
-            if (price !== undefined) {
-              itemUnitPrice += price;
-            }
-          });
-        });
-      }
+      const itemUnitPrice = linePrices[index]!.unitPrice;
 
       const itemTotal = itemUnitPrice * item.quantity;
       subtotal += itemTotal;
+      promotionLines.push({ menuItemId: item.menuItemId, categoryId: item.menuItem.categoryId, lineTotal: itemTotal });
 
       if (!itemsByRestaurant[restaurantId]) {
         itemsByRestaurant[restaurantId] = {
@@ -724,8 +860,69 @@ export const checkoutService = {
       });
     }
 
+    // Same promotions as placing the order would apply, each restaurant's own
+    const groups = Object.values(itemsByRestaurant) as any[];
+    let promotionDiscount = 0;
+    for (const group of groups) {
+      const indexes = cart.items.flatMap((item, index) => (item.restaurantId === group.restaurantId ? [index] : []));
+      const appliedPromotion = await promotionService.applyToLines(
+        group.restaurantId,
+        indexes.map((index) => promotionLines[index]!)
+      );
+      group.items.forEach((summaryItem: any, index: number) => {
+        summaryItem.promotionDiscount = appliedPromotion.lineDiscounts[index] ?? 0;
+      });
+      group.promotion = appliedPromotion.promotion;
+      group.promotionDiscount = appliedPromotion.discount;
+      group.itemsTotal = group.items.reduce((sum: number, summaryItem: any) => sum + summaryItem.total, 0) - appliedPromotion.discount;
+      promotionDiscount += appliedPromotion.discount;
+    }
+    const itemsTotal = subtotal - promotionDiscount;
+
+    // Price delivery orders against the selected address, falling back to the default one
+    const isDelivery = fulfilmentType === "DELIVERY";
+    const selectedAddress = !isDelivery
+      ? undefined
+      : deliveryAddressId
+        ? addresses.find((address) => address.id === deliveryAddressId)
+        : addresses[0];
+
+    if (isDelivery && deliveryAddressId && !selectedAddress) {
+      throw new Error("Delivery address not found");
+    }
+
+    const pricing = await pricingService.calculate({
+      mallId,
+      subtotal: itemsTotal,
+      fulfilmentType,
+      deliveryAddress: selectedAddress,
+    });
+
+    // The orders of a group are taxed separately, so their tax adds up like at checkout
+    let tax = pricing.tax;
+    if (groups.length > 1) {
+      tax = 0;
+      for (const group of groups) {
+        const groupPricing = await pricingService.calculate({
+          mallId,
+          subtotal: group.itemsTotal,
+          fulfilmentType,
+          deliveryAddress: selectedAddress,
+        });
+        tax = roundMoney(tax + groupPricing.tax);
+      }
+    }
+
     return {
       subtotal,
+      promotion: groups.length === 1 ? groups[0].promotion : null,
+      promotionDiscount,
+      tax,
+      deliveryFee: pricing.deliveryFee,
+      total: itemsTotal + tax + pricing.deliveryFee,
+      pricingBreakdown: pricing.breakdown,
+      fulfilmentType,
+      deliveryAddressId: selectedAddress?.id ?? null,
       itemsByRestaurant: Object.values(itemsByRestaurant),
       addresses,
       cartItemCount: cart.items.length,
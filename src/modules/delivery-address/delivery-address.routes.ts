@@ -47,6 +47,14 @@ router.use(requireUserRole);
  *                 type: string
  *                 description: Postal/ZIP code
  *                 example: "10001"
+ *               latitude:
+ *                 type: number
+ *                 description: Latitude, used to price distance-based delivery fees
+ *                 example: 40.7128
+ *               longitude:
+ *                 type: number
+ *                 description: Longitude, used to price distance-based delivery fees
+ *                 example: -74.006
  *               isDefault:
  *                 type: boolean
  *                 description: Set as default address
@@ -265,6 +273,14 @@ router.get("/address/get/:addressId", deliveryAddressController.getDeliveryAddre
  *                 type: string
  *                 description: Updated postal code
  *                 example: "90001"
+ *               latitude:
+ *                 type: number
+ *                 description: Latitude, used to price distance-based delivery fees
+ *                 example: 40.7128
+ *               longitude:
+ *                 type: number
+ *                 description: Longitude, used to price distance-based delivery fees
+ *                 example: -74.006
  *               isDefault:
  *                 type: boolean
  *                 description: Set as default address
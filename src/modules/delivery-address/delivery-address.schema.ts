@@ -6,6 +6,8 @@ export const createDeliveryAddressSchema = z.object({
   address: z.string().min(1, "Address is required").max(500, "Address cannot exceed 500 characters"),
   city: z.string().max(100, "City cannot exceed 100 characters").optional(),
   postalCode: z.string().max(20, "Postal code cannot exceed 20 characters").optional(),
+  latitude: z.number().min(-90).max(90).optional(),
+  longitude: z.number().min(-180).max(180).optional(),
   isDefault: z.boolean().optional().default(false),
 });
 
@@ -15,6 +17,8 @@ export const updateDeliveryAddressSchema = z.object({
   address: z.string().min(1, "Address is required").max(500, "Address cannot exceed 500 characters").optional(),
   city: z.string().max(100, "City cannot exceed 100 characters").optional().nullable(),
   postalCode: z.string().max(20, "Postal code cannot exceed 20 characters").optional().nullable(),
+  latitude: z.number().min(-90).max(90).optional().nullable(),
+  longitude: z.number().min(-180).max(180).optional().nullable(),
   isDefault: z.boolean().optional(),
 });
 
@@ -28,6 +28,8 @@ export const deliveryAddressService = {
         address: data.address,
         city: data.city || null,
         postalCode: data.postalCode || null,
+        latitude: data.latitude ?? null,
+        longitude: data.longitude ?? null,
         isDefault: data.isDefault || false,
       },
     });
@@ -98,6 +100,12 @@ export const deliveryAddressService = {
     if (data.postalCode !== undefined && data.postalCode !== null && data.postalCode.trim() !== "") {
       updateData.postalCode = data.postalCode;
     }
+    if (data.latitude !== undefined) {
+      updateData.latitude = data.latitude;
+    }
+    if (data.longitude !== undefined) {
+      updateData.longitude = data.longitude;
+    }
     if (data.isDefault !== undefined && data.isDefault !== null) {
       updateData.isDefault = data.isDefault;
     }
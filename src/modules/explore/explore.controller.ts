@@ -10,7 +10,8 @@ const restaurantDetailParamsSchema = z.object({
 export const exploreController = {
   async getExplore(req: Request, res: Response) {
     try {
-      const restaurants = await exploreService.getExploreRestaurants();
+      const userId = (req as any).auth?.user?.id as string | undefined;
+      const restaurants = await exploreService.getExploreRestaurants(userId);
       return res.json({ success: true, data: restaurants });
     } catch (error: any) {
       console.error('[explore] getExplore error:', error?.stack || error);
@@ -13,9 +13,46 @@ const router = Router();
  *     description: |
  *       Get a list of restaurants for exploration/browsing.
  *       This is a public endpoint that doesn't require authentication.
+ *       Each restaurant includes `isOpenNow`, `opensAt` and `closesAt` from its opening hours
+ *       (evaluated in the mall's timezone).
  *     responses:
  *       200:
  *         description: Restaurants retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       userId:
+ *                         type: string
+ *                       name:
+ *                         type: string
+ *                       banner:
+ *                         type: string
+ *                       isFavorite:
+ *                         type: boolean
+ *                         description: "Whether the requesting user marked the restaurant as favourite"
+ *                       isOpenNow:
+ *                         type: boolean
+ *                       opensAt:
+ *                         type: string
+ *                         format: date-time
+ *                         nullable: true
+ *                         description: Next opening time when currently closed
+ *                       closesAt:
+ *                         type: string
+ *                         format: date-time
+ *                         nullable: true
+ *                         description: End of the current opening when open
+ *                       cuisineCategory:
+ *                         type: object
  *       500:
  *         description: Internal server error
  */
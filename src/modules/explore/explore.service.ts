@@ -1,4 +1,6 @@
 import prisma from "../../config/prisma";
+import { favouriteRestaurantService } from "../favourite-restaurant/favourite-restaurant.service";
+import { availabilityFields, availabilityService } from "../availability/availability.service";
 
 function hasGalleryModel() {
   try {
@@ -10,14 +12,14 @@ function hasGalleryModel() {
 }
 
 export const exploreService = {
-  async getExploreRestaurants(): Promise<any[]> {
+  // `isFavorite` is computed for the requesting user, `isOpenNow`/`opensAt`/`closesAt` from the opening hours
+  async getExploreRestaurants(userId?: string): Promise<any[]> {
     try {
       const restaurants = await prisma.restaurant.findMany({
         select: {
           userId: true,
           name: true,
           banner: true,
-          isFavorite: true,
           cuisineCategoryId: true,
         },
         orderBy: { name: "asc" },
@@ -30,11 +32,18 @@ export const exploreService = {
         cuisines.forEach((c) => cuisineMap.set(c.id, { id: c.id, name: c.name }));
       }
 
+      const restaurantIds = restaurants.map((r) => r.userId);
+      const [favouriteIds, availability] = await Promise.all([
+        favouriteRestaurantService.getFavouriteRestaurantIds(userId, restaurantIds),
+        availabilityService.getAvailabilityMap(restaurantIds),
+      ]);
+
       return restaurants.map((r) => ({
         userId: r.userId,
         name: r.name ?? "",
         ...(r.banner != null ? { banner: r.banner } : {}),
-        isFavorite: r.isFavorite,
+        isFavorite: favouriteIds.has(r.userId),
+        ...availabilityFields(availability.get(r.userId)),
         ...(r.cuisineCategoryId && cuisineMap.has(r.cuisineCategoryId)
           ? { cuisineCategory: cuisineMap.get(r.cuisineCategoryId) }
           : {}),
@@ -111,6 +111,9 @@ export const favouriteCartController = {
       );
       return res.status(201).json(cartItem);
     } catch (error: any) {
+      if (error.name === "ZodError") {
+        return res.status(400).json({ message: "Invalid selections", errors: error.issues });
+      }
       if (error.message.includes("not found")) {
         return res.status(404).json({ message: error.message });
       }
@@ -280,9 +283,15 @@ export const favouriteCartController = {
       );
       return res.json(result);
     } catch (error: any) {
+      if (error.name === "ZodError") {
+        return res.status(400).json({ message: "Invalid selections", errors: error.issues });
+      }
       if (error.message.includes("not found")) {
         return res.status(404).json({ message: error.message });
       }
+      if (error.message.includes("currently unavailable")) {
+        return res.status(400).json({ message: error.message });
+      }
       return res.status(500).json({ message: error.message });
     }
   },
@@ -354,7 +354,9 @@ router.delete("/favourite-cart/delete/:favouriteCartId", favouriteCartController
  *       201:
  *         description: Item added to favourite cart successfully
  *       400:
- *         description: Invalid request body
+ *         description: |
+ *           Invalid request body. Selections that don't match the item's variations and add-ons return
+ *           `message: "Invalid selections"` with one entry per field in `errors`.
  *       404:
  *         description: Favourite cart, menu item, or restaurant not found
  *       500:
@@ -506,9 +508,14 @@ router.delete("/favourite-cart/:favouriteCartId/item/delete/:itemId", favouriteC
  *                 example: false
  *     responses:
  *       200:
- *         description: Favourite cart restored successfully
+ *         description: |
+ *           Favourite cart restored successfully. Items are added at today's prices;
+ *           `priceChanges` (see PriceChanges schema) lists the items whose price differs from when they were saved.
  *       400:
- *         description: Invalid request body
+ *         description: |
+ *           Invalid request body, or an item includes an option that is currently unavailable.
+ *           Items whose selections no longer match the item's variations and add-ons return
+ *           `message: "Invalid selections"` with `errors` paths starting with `["items", favouriteCartItemId]`.
  *       404:
  *         description: Favourite cart not found
  *       500:
@@ -1,4 +1,6 @@
 import prisma from "../../config/prisma";
+import { cartPriceService } from "../cart/cart-price.service";
+import { productOptionService } from "../product-detail/product-option.service";
 import {
   CreateFavouriteCartInput,
   AddToFavouriteCartInput,
@@ -15,6 +17,7 @@ const favouriteCartItemSelect = {
   menuItemId: true,
   quantity: true,
   specialNotes: true,
+  unitPrice: true,
   selectedVariations: true,
   selectedAddOns: true,
   createdAt: true,
@@ -100,14 +103,16 @@ export const favouriteCartService = {
       });
 
       if (currentCart && currentCart.items.length > 0) {
-        // Copy all items from current cart to favourite cart (including variations and add-ons)
+        // Copy all items from current cart to favourite cart (including variations and add-ons) at today's prices
+        const prices = await cartPriceService.priceLines(currentCart.items);
         await prisma.favouriteCartItem.createMany({
-          data: currentCart.items.map((item) => ({
+          data: currentCart.items.map((item, index) => ({
             favouriteCartId: favouriteCart.id,
             restaurantId: item.restaurantId,
             menuItemId: item.menuItemId,
             quantity: item.quantity,
             specialNotes: item.specialNotes,
+            unitPrice: prices[index]?.unitPrice ?? null,
             selectedVariations: item.selectedVariations ? (item.selectedVariations as any) : null,
             selectedAddOns: item.selectedAddOns ? (item.selectedAddOns as any) : null,
           })),
@@ -217,6 +222,12 @@ export const favouriteCartService = {
       throw new Error("Restaurant not found");
     }
 
+    // Selections must match the variations and add-ons of the item
+    await productOptionService.assertValidSelections([data]);
+
+    // Price at the time of saving, compared with the current price when the cart is restored
+    const [linePrice] = await cartPriceService.priceLines([data]);
+
     // Find all items with the same menuItemId in this favourite cart
     const existingItems = await prisma.favouriteCartItem.findMany({
       where: {
@@ -268,6 +279,7 @@ export const favouriteCartService = {
           data: {
             quantity: existingItem.quantity + data.quantity,
             ...(data.specialNotes && { specialNotes: data.specialNotes }),
+            unitPrice: linePrice?.unitPrice ?? null,
           },
           select: favouriteCartItemSelect,
         });
@@ -282,6 +294,7 @@ export const favouriteCartService = {
         restaurantId: data.restaurantId,
         quantity: data.quantity,
         specialNotes: data.specialNotes || null,
+        unitPrice: linePrice?.unitPrice ?? null,
         selectedVariations: data.selectedVariations ? (data.selectedVariations as any) : null,
         selectedAddOns: data.selectedAddOns ? (data.selectedAddOns as any) : null,
       },
@@ -448,6 +461,16 @@ export const favouriteCartService = {
       throw new Error("Favourite cart not found");
     }
 
+    // Variations and add-ons may have changed since the cart was saved
+    await productOptionService.assertValidSelections(
+      favouriteCart.items.map((item) => ({ ...item, path: ["items", item.id] }))
+    );
+    // Options switched off since the cart was saved can't be restored
+    await productOptionService.assertOptionsAvailable(favouriteCart.items);
+
+    // Differences between the prices the items were saved at and today's prices
+    const { prices, ...priceChanges } = await cartPriceService.compare(favouriteCart.items);
+
     // Get or create user's cart
     let cart = await prisma.cart.findUnique({
       where: { userId },
@@ -495,7 +518,9 @@ export const favouriteCartService = {
       return `${normVars}|${normAddOns}`;
     };
 
-    for (const favItem of favouriteCart.items) {
+    for (const [index, favItem] of favouriteCart.items.entries()) {
+      const unitPrice = prices[index]?.unitPrice ?? null;
+
       // Find items with the same menuItemId in this cart
       const existingItems = await prisma.cartItem.findMany({
         where: {
@@ -538,6 +563,7 @@ export const favouriteCartService = {
           data: {
             quantity: existingItem.quantity + favItem.quantity,
             specialNotes: favItem.specialNotes,
+            unitPrice,
           },
           select: {
             id: true,
@@ -546,6 +572,7 @@ export const favouriteCartService = {
             menuItemId: true,
             quantity: true,
             specialNotes: true,
+            unitPrice: true,
             selectedVariations: true,
             selectedAddOns: true,
             createdAt: true,
@@ -580,6 +607,7 @@ export const favouriteCartService = {
             restaurantId: favItem.restaurantId,
             quantity: favItem.quantity,
             specialNotes: favItem.specialNotes,
+            unitPrice,
             selectedVariations: favItem.selectedVariations ? (favItem.selectedVariations as any) : null,
             selectedAddOns: favItem.selectedAddOns ? (favItem.selectedAddOns as any) : null,
           },
@@ -590,6 +618,7 @@ export const favouriteCartService = {
             menuItemId: true,
             quantity: true,
             specialNotes: true,
+            unitPrice: true,
             selectedVariations: true,
             selectedAddOns: true,
             createdAt: true,
@@ -622,6 +651,7 @@ export const favouriteCartService = {
       message: "Favourite cart restored to current cart successfully",
       itemsAdded: addedItems.length,
       items: addedItems,
+      priceChanges,
     };
   },
 
@@ -0,0 +1,95 @@
+import { Request, Response } from "express";
+import { favouriteRestaurantService } from "./favourite-restaurant.service";
+import {
+  favouriteRestaurantParamsSchema,
+  getFavouriteRestaurantsQuerySchema,
+} from "./favourite-restaurant.schema";
+
+export const favouriteRestaurantController = {
+  // GET /favourite-restaurants - Favourite restaurants of the user's selected mall
+  async getFavouriteRestaurants(req: Request, res: Response) {
+    try {
+      const userId = (req as any).auth?.user?.id as string | undefined;
+      if (!userId) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      const parseResult = getFavouriteRestaurantsQuerySchema.safeParse(req.query);
+      if (!parseResult.success) {
+        return res.status(400).json({
+          message: "Invalid query parameters",
+          errors: parseResult.error.flatten(),
+        });
+      }
+
+      const result = await favouriteRestaurantService.getFavouriteRestaurants(userId, parseResult.data.mallId);
+      return res.json({
+        success: true,
+        mallId: result.mallId,
+        totalCount: result.restaurants.length,
+        data: result.restaurants,
+      });
+    } catch (error: any) {
+      console.error("[favouriteRestaurantController] getFavouriteRestaurants error:", error?.stack || error);
+      return res.status(500).json({ message: error.message || "Failed to fetch favourite restaurants" });
+    }
+  },
+
+  // POST /favourite-restaurants/:restaurantId - Add a restaurant to favourites
+  async addFavourite(req: Request, res: Response) {
+    try {
+      const userId = (req as any).auth?.user?.id as string | undefined;
+      if (!userId) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      const parseResult = favouriteRestaurantParamsSchema.safeParse(req.params);
+      if (!parseResult.success) {
+        return res.status(400).json({
+          message: "Invalid restaurant ID",
+          errors: parseResult.error.flatten(),
+        });
+      }
+
+      const favourite = await favouriteRestaurantService.addFavourite(userId, parseResult.data.restaurantId);
+      return res.status(201).json({
+        success: true,
+        message: "Restaurant added to favourites",
+        data: { ...favourite, isFavorite: true },
+      });
+    } catch (error: any) {
+      if (error.message === "Restaurant not found") {
+        return res.status(404).json({ message: error.message });
+      }
+      return res.status(500).json({ message: error.message || "Failed to add favourite restaurant" });
+    }
+  },
+
+  // DELETE /favourite-restaurants/:restaurantId - Remove a restaurant from favourites
+  async removeFavourite(req: Request, res: Response) {
+    try {
+      const userId = (req as any).auth?.user?.id as string | undefined;
+      if (!userId) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      const parseResult = favouriteRestaurantParamsSchema.safeParse(req.params);
+      if (!parseResult.success) {
+        return res.status(400).json({
+          message: "Invalid restaurant ID",
+          errors: parseResult.error.flatten(),
+        });
+      }
+
+      await favouriteRestaurantService.removeFavourite(userId, parseResult.data.restaurantId);
+      return res.status(204).send();
+    } catch (error: any) {
+      if (error.message === "Favourite restaurant not found") {
+        return res.status(404).json({ message: error.message });
+      }
+      return res.status(500).json({ message: error.message || "Failed to remove favourite restaurant" });
+    }
+  },
+};
+
+export default favouriteRestaurantController;
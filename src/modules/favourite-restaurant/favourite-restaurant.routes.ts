@@ -0,0 +1,120 @@
+import { Router } from "express";
+import { favouriteRestaurantController } from "./favourite-restaurant.controller";
+import { requireUserRole } from "../../middlewares/role.middleware";
+
+const router = Router();
+
+// Apply user role to all favourite restaurant routes (requireAuth is applied globally)
+router.use(requireUserRole);
+
+/**
+ * @swagger
+ * /favourite-restaurants:
+ *   get:
+ *     summary: Get my favourite restaurants
+ *     tags: [Favourite Restaurants]
+ *     description: |
+ *       Favourite restaurants of the authenticated user in their selected mall,
+ *       most recently added first. Pass `mallId` to list another mall.
+ *       Without a selected mall (and no `mallId`), favourites of all malls are returned.
+ *     parameters:
+ *       - in: query
+ *         name: mallId
+ *         required: false
+ *         schema:
+ *           type: string
+ *         description: Mall to list favourites for (defaults to the user's selected mall)
+ *     responses:
+ *       200:
+ *         description: Favourite restaurants retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 mallId:
+ *                   type: string
+ *                   nullable: true
+ *                 totalCount:
+ *                   type: integer
+ *                   example: 2
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       id:
+ *                         type: string
+ *                       name:
+ *                         type: string
+ *                       image:
+ *                         type: string
+ *                         nullable: true
+ *                       location:
+ *                         type: string
+ *                         nullable: true
+ *                       cuisine:
+ *                         type: string
+ *                         nullable: true
+ *                       estimatedDeliveryTime:
+ *                         type: string
+ *                         nullable: true
+ *                       isFavorite:
+ *                         type: boolean
+ *                         example: true
+ *                       favouritedAt:
+ *                         type: string
+ *                         format: date-time
+ *       401:
+ *         description: Unauthorized
+ *       500:
+ *         description: Server error
+ */
+router.get("/", favouriteRestaurantController.getFavouriteRestaurants);
+
+/**
+ * @swagger
+ * /favourite-restaurants/{restaurantId}:
+ *   post:
+ *     summary: Add a restaurant to my favourites
+ *     tags: [Favourite Restaurants]
+ *     description: Adding a restaurant that is already a favourite has no effect.
+ *     parameters:
+ *       - in: path
+ *         name: restaurantId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Restaurant user ID
+ *     responses:
+ *       201:
+ *         description: Restaurant added to favourites
+ *       404:
+ *         description: Restaurant not found
+ *       500:
+ *         description: Server error
+ *   delete:
+ *     summary: Remove a restaurant from my favourites
+ *     tags: [Favourite Restaurants]
+ *     parameters:
+ *       - in: path
+ *         name: restaurantId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Restaurant user ID
+ *     responses:
+ *       204:
+ *         description: Restaurant removed from favourites
+ *       404:
+ *         description: Favourite restaurant not found
+ *       500:
+ *         description: Server error
+ */
+router.post("/:restaurantId", favouriteRestaurantController.addFavourite);
+router.delete("/:restaurantId", favouriteRestaurantController.removeFavourite);
+
+export default router;
@@ -0,0 +1,14 @@
+import { z } from "zod";
+
+// Params for adding/removing a favourite restaurant
+export const favouriteRestaurantParamsSchema = z.object({
+  restaurantId: z.string().min(1, "Restaurant ID is required"),
+});
+
+// Query for listing favourite restaurants
+export const getFavouriteRestaurantsQuerySchema = z.object({
+  // Defaults to the user's selected mall
+  mallId: z.string().optional(),
+});
+
+export type GetFavouriteRestaurantsQuery = z.infer<typeof getFavouriteRestaurantsQuerySchema>;
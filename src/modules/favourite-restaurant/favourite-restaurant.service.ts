@@ -0,0 +1,112 @@
+import prisma from "../../config/prisma";
+
+export const favouriteRestaurantService = {
+  /**
+   * Add a restaurant to the user's favourites (no-op when already a favourite)
+   */
+  async addFavourite(userId: string, restaurantId: string) {
+    const restaurant = await prisma.restaurant.findUnique({
+      where: { userId: restaurantId },
+      select: { userId: true },
+    });
+
+    if (!restaurant) {
+      throw new Error("Restaurant not found");
+    }
+
+    return prisma.favouriteRestaurant.upsert({
+      where: { userId_restaurantId: { userId, restaurantId } },
+      create: { userId, restaurantId },
+      update: {},
+    });
+  },
+
+  /**
+   * Remove a restaurant from the user's favourites
+   */
+  async removeFavourite(userId: string, restaurantId: string) {
+    const removed = await prisma.favouriteRestaurant.deleteMany({
+      where: { userId, restaurantId },
+    });
+
+    if (removed.count === 0) {
+      throw new Error("Favourite restaurant not found");
+    }
+  },
+
+  /**
+   * Get the user's favourite restaurants in a mall (the selected mall by default)
+   */
+  async getFavouriteRestaurants(userId: string, mallId?: string) {
+    let resolvedMallId = mallId ?? null;
+    if (!resolvedMallId) {
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { selectedMallId: true },
+      });
+      resolvedMallId = user?.selectedMallId ?? null;
+    }
+
+    const favourites = await prisma.favouriteRestaurant.findMany({
+      where: {
+        userId,
+        ...(resolvedMallId ? { restaurant: { mallId: resolvedMallId } } : {}),
+      },
+      select: {
+        createdAt: true,
+        restaurant: {
+          select: {
+            userId: true,
+            name: true,
+            banner: true,
+            location: true,
+            mallId: true,
+            estimatedDeliveryTime: true,
+            cuisineCategory: {
+              select: {
+                id: true,
+                name: true,
+              },
+            },
+          },
+        },
+      },
+      orderBy: { createdAt: "desc" },
+    });
+
+    return {
+      mallId: resolvedMallId,
+      restaurants: favourites.map(({ restaurant, createdAt }) => ({
+        id: restaurant.userId,
+        name: restaurant.name,
+        image: restaurant.banner,
+        location: restaurant.location,
+        mallId: restaurant.mallId,
+        cuisine: restaurant.cuisineCategory?.name ?? null,
+        cuisineCategory: restaurant.cuisineCategory,
+        estimatedDeliveryTime: restaurant.estimatedDeliveryTime || null,
+        isFavorite: true,
+        favouritedAt: createdAt,
+      })),
+    };
+  },
+
+  /**
+   * IDs of the given restaurants the user marked as favourite.
+   * Used to compute `isFavorite` on restaurant cards.
+   */
+  async getFavouriteRestaurantIds(userId: string | undefined, restaurantIds: string[]): Promise<Set<string>> {
+    if (!userId || restaurantIds.length === 0) {
+      return new Set();
+    }
+
+    const favourites = await prisma.favouriteRestaurant.findMany({
+      where: { userId, restaurantId: { in: restaurantIds } },
+      select: { restaurantId: true },
+    });
+
+    return new Set(favourites.map((favourite) => favourite.restaurantId));
+  },
+};
+
+export default favouriteRestaurantService;
@@ -38,6 +38,28 @@ const router = Router();
  *                 minLength: 1
  *                 description: "City ID (required)"
  *                 example: "123e4567-e89b-12d3-a456-426614174000"
+ *               latitude:
+ *                 type: number
+ *                 description: "Mall latitude (optional, used for distance-based delivery fees)"
+ *                 example: 44.8549
+ *               longitude:
+ *                 type: number
+ *                 description: "Mall longitude (optional, used for distance-based delivery fees)"
+ *                 example: -93.2422
+ *               orderNumberFormat:
+ *                 type: string
+ *                 description: "Order number format (optional). Tokens: {PREFIX}, {YYYY}, {YY}, {MM}, {DD}, {SEQ} or {SEQ:n}. Must contain {SEQ}, the year ({YYYY} or {YY}), {MM} and {DD}. Default: {PREFIX}-{YY}{MM}{DD}-{SEQ:4}"
+ *                 example: "{PREFIX}-{YY}{MM}{DD}-{SEQ:4}"
+ *               timezone:
+ *                 type: string
+ *                 description: "IANA timezone used for restaurant opening hours (optional). Default: UTC"
+ *                 example: "America/Chicago"
+ *               preOrderLeadMinutes:
+ *                 type: integer
+ *                 minimum: 0
+ *                 maximum: 1440
+ *                 description: "Minutes before the scheduled time a pre-order is sent to the restaurant (optional). Default: 30"
+ *                 example: 30
  *           example:
  *             name: "Mall of America"
  *             address: "60 E Broadway, Bloomington, MN 55425"
@@ -273,6 +295,28 @@ router.get("/mall/get-by-city/:cityId", mallController.getByCityId);
  *                 minLength: 1
  *                 description: "City ID (optional, must be valid if provided)"
  *                 example: "123e4567-e89b-12d3-a456-426614174000"
+ *               latitude:
+ *                 type: number
+ *                 description: "Mall latitude (optional, used for distance-based delivery fees)"
+ *                 example: 44.8549
+ *               longitude:
+ *                 type: number
+ *                 description: "Mall longitude (optional, used for distance-based delivery fees)"
+ *                 example: -93.2422
+ *               orderNumberFormat:
+ *                 type: string
+ *                 description: "Order number format (optional). Tokens: {PREFIX}, {YYYY}, {YY}, {MM}, {DD}, {SEQ} or {SEQ:n}. Must contain {SEQ}, the year ({YYYY} or {YY}), {MM} and {DD}. Default: {PREFIX}-{YY}{MM}{DD}-{SEQ:4}"
+ *                 example: "{PREFIX}-{YY}{MM}{DD}-{SEQ:4}"
+ *               timezone:
+ *                 type: string
+ *                 description: "IANA timezone used for restaurant opening hours (optional). Default: UTC"
+ *                 example: "America/Chicago"
+ *               preOrderLeadMinutes:
+ *                 type: integer
+ *                 minimum: 0
+ *                 maximum: 1440
+ *                 description: "Minutes before the scheduled time a pre-order is sent to the restaurant (optional). Default: 30"
+ *                 example: 30
  *           example:
  *             name: "Updated Mall of America"
  *             address: "Updated Address"
@@ -1,4 +1,24 @@
 import { z } from "zod";
+import { isValidOrderNumberFormat } from "../../orders/order-number.service";
+import { isValidTimezone } from "../../availability/availability.service";
+
+// Order number format, e.g. "{PREFIX}-{YY}{MM}{DD}-{SEQ:4}"
+const orderNumberFormatSchema = z
+  .string()
+  .max(50, "Order number format must be at most 50 characters")
+  .refine(isValidOrderNumberFormat, {
+    message: "Order number format must contain {SEQ} (or {SEQ:n}), {YYYY} or {YY}, {MM} and {DD}",
+  });
+
+// IANA timezone, e.g. "Europe/Berlin"
+const timezoneSchema = z.string().refine(isValidTimezone, { message: "Invalid IANA timezone" });
+
+// Minutes a scheduled order is sent to the restaurant ahead of its time (at most a day)
+const preOrderLeadMinutesSchema = z
+  .number()
+  .int("Pre-order lead time must be a whole number of minutes")
+  .min(0, "Pre-order lead time cannot be negative")
+  .max(1440, "Pre-order lead time cannot exceed 1440 minutes");
 
 // 1) Schema for creating a new mall
 export const createMallSchema = z.object({
@@ -13,6 +33,11 @@ export const createMallSchema = z.object({
   cityId: z
     .string()
     .min(1, "cityId is required"), // you’re using String UUIDs
+  latitude: z.number().min(-90).max(90).optional(),
+  longitude: z.number().min(-180).max(180).optional(),
+  orderNumberFormat: orderNumberFormatSchema.optional(),
+  timezone: timezoneSchema.optional(),
+  preOrderLeadMinutes: preOrderLeadMinutesSchema.optional(),
 });
 
 // 2) Schema for updating an existing mall
@@ -20,6 +45,12 @@ export const updateMallSchema = z.object({
   name: z.string().min(1).max(150).optional(),
   address: z.string().max(255).optional(),
   cityId: z.string().min(1).optional(),
+  latitude: z.number().min(-90).max(90).nullable().optional(),
+  longitude: z.number().min(-180).max(180).nullable().optional(),
+  // null resets to the default format
+  orderNumberFormat: orderNumberFormatSchema.nullable().optional(),
+  timezone: timezoneSchema.optional(),
+  preOrderLeadMinutes: preOrderLeadMinutesSchema.optional(),
 });
 
 // Schema for getting mall statistics
@@ -22,6 +22,11 @@ export const mallService = {
         name: data.name,
         ...(data.address !== undefined && { address: data.address }),
         cityId: data.cityId,
+        ...(data.latitude !== undefined && { latitude: data.latitude }),
+        ...(data.longitude !== undefined && { longitude: data.longitude }),
+        ...(data.orderNumberFormat !== undefined && { orderNumberFormat: data.orderNumberFormat }),
+        ...(data.timezone !== undefined && { timezone: data.timezone }),
+        ...(data.preOrderLeadMinutes !== undefined && { preOrderLeadMinutes: data.preOrderLeadMinutes }),
       },
     });
   },
@@ -82,6 +87,11 @@ export const mallService = {
         ...(data.name !== undefined && { name: data.name }),
         ...(data.address !== undefined && { address: data.address }),
         ...(data.cityId !== undefined && { cityId: data.cityId }),
+        ...(data.latitude !== undefined && { latitude: data.latitude }),
+        ...(data.longitude !== undefined && { longitude: data.longitude }),
+        ...(data.orderNumberFormat !== undefined && { orderNumberFormat: data.orderNumberFormat }),
+        ...(data.timezone !== undefined && { timezone: data.timezone }),
+        ...(data.preOrderLeadMinutes !== undefined && { preOrderLeadMinutes: data.preOrderLeadMinutes }),
       },
     });
   },
@@ -104,6 +104,28 @@ const router = Router();
  *                             type: string
  *                             nullable: true
  *                             example: "10-15 mins"
+ *                          isAvailable:
+ *                            type: boolean
+ *                            description: Sold-out toggle of the restaurant
+ *                          isAvailableNow:
+ *                            type: boolean
+ *                            description: Whether the item can be ordered right now (toggle, daily stock and serving hours)
+ *                          unavailableReason:
+ *                            type: string
+ *                            enum: [SOLD_OUT, OUTSIDE_HOURS]
+ *                            nullable: true
+ *                          stockRemaining:
+ *                            type: integer
+ *                            nullable: true
+ *                            description: Units left today (null when the item has no daily stock)
+ *                          availableFrom:
+ *                            type: string
+ *                            nullable: true
+ *                            description: Start of the serving hours (HH:mm, mall timezone)
+ *                          availableUntil:
+ *                            type: string
+ *                            nullable: true
+ *                            description: End of the serving hours (HH:mm, mall timezone)
  *                           category:
  *                             type: object
  *                             properties:
@@ -1,4 +1,5 @@
 import prisma from "../../config/prisma";
+import { menuItemAvailabilityFields, menuItemAvailabilityService } from "../menu/menu-item-availability.service";
 
 export const menuSearchService = {
   /**
@@ -54,6 +55,9 @@ export const menuSearchService = {
           price: true,
           image: true,
           preparationTime: true,
+          isAvailable: true,
+          availableFrom: true,
+          availableUntil: true,
           category: {
             select: {
               id: true,
@@ -71,6 +75,8 @@ export const menuSearchService = {
         itemCount: cat._count.items,
       }));
 
+      const availability = await menuItemAvailabilityService.getAvailabilityMap(menuItems.map((item) => item.id));
+
       const itemsFormatted = menuItems.map((item) => ({
         id: item.id,
         name: item.name,
@@ -78,6 +84,10 @@ export const menuSearchService = {
         price: Number(item.price),
         image: item.image || null,
         preparationTime: item.preparationTime || null,
+        isAvailable: item.isAvailable,
+        availableFrom: item.availableFrom,
+        availableUntil: item.availableUntil,
+        ...menuItemAvailabilityFields(availability.get(item.id)),
         category: {
           id: item.category.id,
           name: item.category.name,
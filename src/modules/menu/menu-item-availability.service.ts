@@ -0,0 +1,233 @@
+import prisma from "../../config/prisma";
+import type { Prisma } from "../../generated/prisma/client";
+import { toLocalTime, toMinutes } from "../availability/availability.service";
+
+/**
+ * Menu Item Availability
+ *
+ * Decides whether a menu item can be ordered at a point in time:
+ * - `isAvailable` - the restaurant's sold-out toggle
+ * - `dailyStock` - units that can be sold per day. Sales are counted per mall-local day in
+ *   `MenuItemDailyStock`, so the stock starts over every day.
+ * - `availableFrom` / `availableUntil` - time-of-day window in the mall's timezone (e.g. breakfast
+ *   07:00-11:00). A missing bound means start / end of the day; a window whose end is not after
+ *   its start runs past midnight.
+ *
+ * Checkout reserves stock inside the order transaction. The increment locks the counter row, so
+ * concurrent checkouts can't sell more than the daily stock. Cancelled and rejected orders give
+ * their units back.
+ *
+ * @module menu/menu-item-availability.service
+ */
+
+export type MenuItemUnavailableReason = "SOLD_OUT" | "OUTSIDE_HOURS";
+
+export type MenuItemAvailability = {
+  // Whether the item can be ordered right now
+  isAvailableNow: boolean;
+  unavailableReason: MenuItemUnavailableReason | null;
+  // Units left today, null when the item has no daily stock
+  stockRemaining: number | null;
+};
+
+export type StockLine = { menuItemId: string; quantity: number };
+
+const itemSelect = {
+  id: true,
+  name: true,
+  isAvailable: true,
+  dailyStock: true,
+  availableFrom: true,
+  availableUntil: true,
+  category: { select: { restaurant: { select: { mall: { select: { timezone: true } } } } } },
+} satisfies Prisma.MenuItemSelect;
+
+type AvailabilityItem = Prisma.MenuItemGetPayload<{ select: typeof itemSelect }>;
+
+type Client = Prisma.TransactionClient | typeof prisma;
+
+const ALWAYS_AVAILABLE: MenuItemAvailability = {
+  isAvailableNow: true,
+  unavailableReason: null,
+  stockRemaining: null,
+};
+
+/**
+ * Availability fields shown with a menu item (menu, search, product detail)
+ */
+export function menuItemAvailabilityFields(availability?: MenuItemAvailability): MenuItemAvailability {
+  return availability ?? ALWAYS_AVAILABLE;
+}
+
+// Day the item's stock is counted on ("YYYY-MM-DD" in the mall's timezone)
+function stockDay(item: AvailabilityItem, at: Date): string {
+  return toLocalTime(at, item.category.restaurant.mall.timezone || "UTC").dateKey;
+}
+
+function isWithinWindow(item: AvailabilityItem, at: Date): boolean {
+  if (!item.availableFrom && !item.availableUntil) {
+    return true;
+  }
+
+  const { minute } = toLocalTime(at, item.category.restaurant.mall.timezone || "UTC");
+  const start = toMinutes(item.availableFrom ?? "00:00");
+  const end = toMinutes(item.availableUntil ?? "24:00");
+  if (end > start) {
+    return start <= minute && minute < end;
+  }
+  // Overnight window, e.g. 22:00-02:00
+  return minute >= start || minute < end;
+}
+
+function evaluate(item: AvailabilityItem, soldToday: number, at: Date): MenuItemAvailability {
+  const stockRemaining = item.dailyStock === null ? null : Math.max(item.dailyStock - soldToday, 0);
+
+  let unavailableReason: MenuItemUnavailableReason | null = null;
+  if (!item.isAvailable || stockRemaining === 0) {
+    unavailableReason = "SOLD_OUT";
+  } else if (!isWithinWindow(item, at)) {
+    unavailableReason = "OUTSIDE_HOURS";
+  }
+
+  return {
+    isAvailableNow: unavailableReason === null,
+    unavailableReason,
+    stockRemaining,
+  };
+}
+
+// Total quantity per menu item (the same item can be in the cart with different options)
+function sumQuantities(lines: StockLine[]): Map<string, number> {
+  const quantities = new Map<string, number>();
+  for (const line of lines) {
+    quantities.set(line.menuItemId, (quantities.get(line.menuItemId) ?? 0) + line.quantity);
+  }
+  return quantities;
+}
+
+async function loadItems(client: Client, menuItemIds: string[], at: Date) {
+  const items = await client.menuItem.findMany({
+    where: { id: { in: menuItemIds } },
+    select: itemSelect,
+  });
+
+  const stockedItems = items.filter((item) => item.dailyStock !== null);
+  const counts =
+    stockedItems.length > 0
+      ? await client.menuItemDailyStock.findMany({
+          where: {
+            OR: stockedItems.map((item) => ({ menuItemId: item.id, day: stockDay(item, at) })),
+          },
+          select: { menuItemId: true, soldCount: true },
+        })
+      : [];
+  const soldToday = new Map(counts.map((count) => [count.menuItemId, count.soldCount]));
+
+  return { items, soldToday };
+}
+
+function unavailableMessage(item: AvailabilityItem, availability: MenuItemAvailability): string {
+  if (availability.unavailableReason === "OUTSIDE_HOURS") {
+    return `"${item.name}" is only available between ${item.availableFrom ?? "00:00"} and ${item.availableUntil ?? "24:00"}`;
+  }
+  return `"${item.name}" is sold out`;
+}
+
+export const menuItemAvailabilityService = {
+  /**
+   * Availability of several menu items at a point in time
+   */
+  async getAvailabilityMap(menuItemIds: string[], at: Date = new Date()): Promise<Map<string, MenuItemAvailability>> {
+    const availability = new Map<string, MenuItemAvailability>();
+    if (menuItemIds.length === 0) {
+      return availability;
+    }
+
+    const { items, soldToday } = await loadItems(prisma, menuItemIds, at);
+    for (const item of items) {
+      availability.set(item.id, evaluate(item, soldToday.get(item.id) ?? 0, at));
+    }
+    return availability;
+  },
+
+  /**
+   * Throws when one of the items can't be ordered in the requested quantity (cart, checkout)
+   */
+  async assertAvailable(lines: StockLine[], at: Date = new Date()) {
+    const quantities = sumQuantities(lines);
+    const { items, soldToday } = await loadItems(prisma, Array.from(quantities.keys()), at);
+
+    for (const item of items) {
+      const availability = evaluate(item, soldToday.get(item.id) ?? 0, at);
+      if (!availability.isAvailableNow) {
+        throw new Error(unavailableMessage(item, availability));
+      }
+
+      const quantity = quantities.get(item.id) ?? 0;
+      if (availability.stockRemaining !== null && quantity > availability.stockRemaining) {
+        throw new Error(`Only ${availability.stockRemaining} of "${item.name}" left today`);
+      }
+    }
+  },
+
+  /**
+   * Counts the ordered units against the daily stock.
+   * Must run inside the transaction that creates the order.
+   */
+  async reserveStock(tx: Prisma.TransactionClient, lines: StockLine[], at: Date = new Date()) {
+    const quantities = sumQuantities(lines);
+    const items = await tx.menuItem.findMany({
+      where: { id: { in: Array.from(quantities.keys()) }, dailyStock: { not: null } },
+      select: itemSelect,
+    });
+
+    for (const item of items) {
+      const quantity = quantities.get(item.id) ?? 0;
+      const day = stockDay(item, at);
+      const count = await tx.menuItemDailyStock.upsert({
+        where: { menuItemId_day: { menuItemId: item.id, day } },
+        create: { menuItemId: item.id, day, soldCount: quantity },
+        update: { soldCount: { increment: quantity } },
+      });
+
+      // Sold by a concurrent checkout in the meantime; the transaction is rolled back
+      if (count.soldCount > item.dailyStock!) {
+        const left = Math.max(item.dailyStock! - (count.soldCount - quantity), 0);
+        throw new Error(left > 0 ? `Only ${left} of "${item.name}" left today` : `"${item.name}" is sold out`);
+      }
+    }
+  },
+
+  /**
+   * Gives the stock reserved by an order back (cancelled or rejected orders)
+   */
+  async releaseStock(tx: Prisma.TransactionClient, orderId: string) {
+    const order = await tx.order.findUnique({
+      where: { id: orderId },
+      select: {
+        createdAt: true,
+        scheduledFor: true,
+        items: {
+          where: { menuItem: { dailyStock: { not: null } } },
+          select: { menuItemId: true, quantity: true, menuItem: { select: itemSelect } },
+        },
+      },
+    });
+    if (!order) {
+      return;
+    }
+
+    // Stock was counted on the day the order was placed for
+    const orderedAt = order.scheduledFor ?? order.createdAt;
+    const quantities = sumQuantities(order.items);
+    for (const [menuItemId, quantity] of quantities) {
+      const item = order.items.find((orderItem) => orderItem.menuItemId === menuItemId)!.menuItem;
+      await tx.menuItemDailyStock.updateMany({
+        where: { menuItemId, day: stockDay(item, orderedAt), soldCount: { gte: quantity } },
+        data: { soldCount: { decrement: quantity } },
+      });
+    }
+  },
+};
+
+export default menuItemAvailabilityService;
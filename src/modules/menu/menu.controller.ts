@@ -5,6 +5,7 @@ import {
   updateMenuCategorySchema,
   createMenuItemSchema,
   updateMenuItemSchema,
+  menuItemAvailabilitySchema,
 } from "./menu.schema";
 import { getMenuItemImageUrl } from "../../config/upload";
 
@@ -117,6 +118,24 @@ export const menuCategoryController = {
     }
   },
 
+  async updateItemAvailability(req: Request, res: Response) {
+    const { id } = req.params;
+
+    if (!id) {
+      return res.status(400).json({ message: "Item ID is required" });
+    }
+
+    const parseResult = menuItemAvailabilitySchema.safeParse(req.body);
+    if (!parseResult.success) return res.status(400).json({ message: "Invalid request body", errors: parseResult.error.flatten() });
+
+    try {
+      const item = await menuCategoryService.updateItemAvailability(id, parseResult.data);
+      return res.json(item);
+    } catch (err: any) {
+      return res.status(404).json({ message: "Menu item not found" });
+    }
+  },
+
   async deleteItem(req: Request, res: Response) {
     const { id } = req.params;
     
@@ -233,7 +233,8 @@ router.delete("/menu/delete-category/:id", requireAuth, requireRestaurantRole, m
  *     description: |
  *       Create a new menu item. You can either upload an image file or provide an image URL.
  *       **Required fields:** menuCategoryId, name, price
- *       **Optional fields:** description, preparationTime, image (URL or file upload)
+ *       **Optional fields:** description, preparationTime, image (URL or file upload),
+ *       isAvailable, dailyStock, availableFrom, availableUntil
  *       **Image upload:** Use multipart/form-data with field name "image" to upload a file.
  *       If both file and URL are provided, the uploaded file takes priority.
  *       **Accepted image formats:** JPEG, PNG, GIF, WebP
@@ -267,6 +268,26 @@ router.delete("/menu/delete-category/:id", requireAuth, requireRestaurantRole, m
  *                 type: string
  *                 description: "Estimated preparation time (optional)"
  *                 example: "20-30 minutes"
+ *               isAvailable:
+ *                 type: boolean
+ *                 description: "Sold-out toggle (optional). Unavailable items stay on the menu but can't be ordered. Default: true"
+ *                 example: true
+ *               dailyStock:
+ *                 type: integer
+ *                 minimum: 0
+ *                 nullable: true
+ *                 description: "Units that can be sold per day (optional). Empty or null means unlimited"
+ *                 example: 40
+ *               availableFrom:
+ *                 type: string
+ *                 nullable: true
+ *                 description: "Start of the serving hours, HH:mm in the mall's timezone (optional)"
+ *                 example: "07:00"
+ *               availableUntil:
+ *                 type: string
+ *                 nullable: true
+ *                 description: "End of the serving hours, HH:mm in the mall's timezone (optional)"
+ *                 example: "11:00"
  *               image:
  *                 type: string
  *                 format: binary
@@ -324,6 +345,17 @@ router.delete("/menu/delete-category/:id", requireAuth, requireRestaurantRole, m
  *                   type: string
  *                   nullable: true
  *                   description: URL to the item image (if provided)
+ *                 isAvailable:
+ *                   type: boolean
+ *                 dailyStock:
+ *                   type: integer
+ *                   nullable: true
+ *                 availableFrom:
+ *                   type: string
+ *                   nullable: true
+ *                 availableUntil:
+ *                   type: string
+ *                   nullable: true
  *       400:
  *         description: Validation error
  *         content:
@@ -375,6 +407,29 @@ router.post("/menu/create-item", requireAuth, requireRestaurantRole, uploadMenuI
  *                 image:
  *                   type: string
  *                   nullable: true
+ *                 isAvailable:
+ *                   type: boolean
+ *                 dailyStock:
+ *                   type: integer
+ *                   nullable: true
+ *                 availableFrom:
+ *                   type: string
+ *                   nullable: true
+ *                 availableUntil:
+ *                   type: string
+ *                   nullable: true
+ *                 isAvailableNow:
+ *                   type: boolean
+ *                   description: Whether the item can be ordered right now (toggle, stock and serving hours)
+ *                 unavailableReason:
+ *                   type: string
+ *                   enum: [SOLD_OUT, OUTSIDE_HOURS]
+ *                   nullable: true
+ *                   description: Why the item can't be ordered right now (null when available)
+ *                 stockRemaining:
+ *                   type: integer
+ *                   nullable: true
+ *                   description: Units left today (null when the item has no daily stock)
  *       400:
  *         description: Invalid item ID
  *         content:
@@ -437,6 +492,26 @@ router.get("/menu/get-item/:id", menuCategoryController.getItemById);
  *                 type: string
  *                 description: "Estimated preparation time (optional)"
  *                 example: "25-35 minutes"
+ *               isAvailable:
+ *                 type: boolean
+ *                 description: "Sold-out toggle (optional). Unavailable items stay on the menu but can't be ordered. Default: true"
+ *                 example: true
+ *               dailyStock:
+ *                 type: integer
+ *                 minimum: 0
+ *                 nullable: true
+ *                 description: "Units that can be sold per day (optional). Empty or null means unlimited"
+ *                 example: 40
+ *               availableFrom:
+ *                 type: string
+ *                 nullable: true
+ *                 description: "Start of the serving hours, HH:mm in the mall's timezone (optional)"
+ *                 example: "07:00"
+ *               availableUntil:
+ *                 type: string
+ *                 nullable: true
+ *                 description: "End of the serving hours, HH:mm in the mall's timezone (optional)"
+ *                 example: "11:00"
  *               image:
  *                 type: string
  *                 format: binary
@@ -501,6 +576,114 @@ router.get("/menu/get-item/:id", menuCategoryController.getItemById);
  */
 router.patch("/menu/update-item/:id", requireAuth, requireRestaurantRole, uploadMenuItemImage.single("image"), menuCategoryController.updateItem);
 
+/**
+ * @swagger
+ * /menu/update-item-availability/{id}:
+ *   patch:
+ *     summary: Update the availability of a menu item
+ *     tags: [Menu]
+ *     description: |
+ *       Mark a menu item as sold out (or available again), set its daily stock and its serving hours
+ *       without deleting it. **All fields are optional** - send only the fields you want to update.
+ *
+ *       - **dailyStock:** units that can be sold per day. Checkout counts ordered units against it
+ *         and the count starts over every day (mall timezone). `null` removes the limit.
+ *       - **availableFrom / availableUntil:** serving hours (HH:mm, mall timezone), e.g. breakfast items
+ *         from 07:00 to 11:00. A window ending before it starts runs past midnight. `null` removes a bound.
+ *
+ *       Unavailable items are flagged in menu, menu search and product detail responses and can't be
+ *       added to the cart or ordered.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: "Menu item ID"
+ *         example: "123e4567-e89b-12d3-a456-426614174000"
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               isAvailable:
+ *                 type: boolean
+ *                 example: false
+ *               dailyStock:
+ *                 type: integer
+ *                 minimum: 0
+ *                 nullable: true
+ *                 example: 40
+ *               availableFrom:
+ *                 type: string
+ *                 nullable: true
+ *                 example: "07:00"
+ *               availableUntil:
+ *                 type: string
+ *                 nullable: true
+ *                 example: "11:00"
+ *           examples:
+ *             soldOut:
+ *               summary: Mark as sold out
+ *               value:
+ *                 isAvailable: false
+ *             breakfastItem:
+ *               summary: Breakfast item with a daily stock
+ *               value:
+ *                 dailyStock: 40
+ *                 availableFrom: "07:00"
+ *                 availableUntil: "11:00"
+ *     responses:
+ *       200:
+ *         description: Menu item availability updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 id:
+ *                   type: string
+ *                 name:
+ *                   type: string
+ *                 isAvailable:
+ *                   type: boolean
+ *                   description: Sold-out toggle
+ *                 isAvailableNow:
+ *                   type: boolean
+ *                   description: Whether the item can be ordered right now (toggle, stock and serving hours)
+ *                 unavailableReason:
+ *                   type: string
+ *                   enum: [SOLD_OUT, OUTSIDE_HOURS]
+ *                   nullable: true
+ *                 dailyStock:
+ *                   type: integer
+ *                   nullable: true
+ *                 stockRemaining:
+ *                   type: integer
+ *                   nullable: true
+ *                 availableFrom:
+ *                   type: string
+ *                   nullable: true
+ *                 availableUntil:
+ *                   type: string
+ *                   nullable: true
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       404:
+ *         description: Menu item not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.patch("/menu/update-item-availability/:id", requireAuth, requireRestaurantRole, menuCategoryController.updateItemAvailability);
+
 /**
  * @swagger
  * /menu/delete-item/{id}:
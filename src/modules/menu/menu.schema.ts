@@ -15,6 +15,32 @@ export const updateMenuCategorySchema = createMenuCategorySchema
   .omit({ restaurantId: true })
   .partial();
 
+// "HH:mm" time of day, e.g. "07:00"
+const timeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Format: HH:mm (e.g., 07:00)");
+
+// Booleans and numbers arrive as strings from multipart forms
+const booleanSchema = z.preprocess(
+  (val) => {
+    if (val === "true" || val === true) return true;
+    if (val === "false" || val === false) return false;
+    return val;
+  },
+  z.boolean()
+);
+
+// Sold-out toggle, daily stock and serving hours of a menu item
+export const menuItemAvailabilitySchema = z.object({
+  isAvailable: booleanSchema.optional(),
+  // Units that can be sold per day; null (or an empty value) removes the limit
+  dailyStock: z.preprocess(
+    (value) => (value === "" || value === "null" ? null : typeof value === "string" ? Number(value) : value),
+    z.number().int("Daily stock must be a whole number").min(0, "Daily stock cannot be negative").nullable()
+  ).optional(),
+  // Serving hours in the mall's timezone, e.g. breakfast 07:00-11:00; null (or an empty value) removes the bound
+  availableFrom: z.preprocess((value) => (value === "" ? null : value), timeOfDaySchema.nullable()).optional(),
+  availableUntil: z.preprocess((value) => (value === "" ? null : value), timeOfDaySchema.nullable()).optional(),
+});
+
 // Schema for creating a menu item
 // image can be either a URL (string) or will be handled via file upload
 export const createMenuItemSchema = z.object({
@@ -27,6 +53,7 @@ export const createMenuItemSchema = z.object({
   ),
   preparationTime: z.string().optional(),
   image: z.string().optional(), // Can be URL or will be set from file upload
+  ...menuItemAvailabilitySchema.shape,
 });
 
 // Schema for updating a menu item
@@ -40,3 +67,4 @@ export type CreateMenuCategoryInput = z.infer<typeof createMenuCategorySchema>;
 export type UpdateMenuCategoryInput = z.infer<typeof updateMenuCategorySchema>;
 export type CreateMenuItemInput = z.infer<typeof createMenuItemSchema>;
 export type UpdateMenuItemInput = z.infer<typeof updateMenuItemSchema>;
+export type MenuItemAvailabilityInput = z.infer<typeof menuItemAvailabilitySchema>;
@@ -4,8 +4,20 @@ import {
   UpdateMenuCategoryInput,
   CreateMenuItemInput,
   UpdateMenuItemInput,
+  MenuItemAvailabilityInput,
 } from "./menu.schema";
 import { deleteImageFile } from "../../config/upload";
+import { menuItemAvailabilityFields, menuItemAvailabilityService } from "./menu-item-availability.service";
+
+// Availability columns to write (null clears the stock limit / a time bound)
+function toAvailabilityData(data: MenuItemAvailabilityInput) {
+  return {
+    ...(data.isAvailable !== undefined && { isAvailable: data.isAvailable }),
+    ...(data.dailyStock !== undefined && { dailyStock: data.dailyStock }),
+    ...(data.availableFrom !== undefined && { availableFrom: data.availableFrom }),
+    ...(data.availableUntil !== undefined && { availableUntil: data.availableUntil }),
+  };
+}
 
 export const menuCategoryService = {
   // Menu Categories CRUD
@@ -14,11 +26,20 @@ export const menuCategoryService = {
   },
 
   async getCategoriesByRestaurant(restaurantId: string) {
-    return prisma.menuCategory.findMany({
+    const categories = await prisma.menuCategory.findMany({
       where: { restaurantId },
       include: { items: true }, // include all menu items under this category
       orderBy: { name: "asc" },
     });
+
+    // Flag sold-out items and items outside their serving hours
+    const availability = await menuItemAvailabilityService.getAvailabilityMap(
+      categories.flatMap((category) => category.items.map((item) => item.id))
+    );
+    return categories.map((category) => ({
+      ...category,
+      items: category.items.map((item) => ({ ...item, ...menuItemAvailabilityFields(availability.get(item.id)) })),
+    }));
   },
 
   async getCategoryById(id: string) {
@@ -47,12 +68,19 @@ export const menuCategoryService = {
         ...(data.description !== undefined && { description: data.description }),
         ...(data.preparationTime !== undefined && { preparationTime: data.preparationTime }),
         ...(data.image !== undefined && { image: data.image }),
+        ...toAvailabilityData(data),
       },
     });
   },
 
   async getItemById(id: string) {
-    return prisma.menuItem.findUnique({ where: { id } });
+    const item = await prisma.menuItem.findUnique({ where: { id } });
+    if (!item) {
+      return null;
+    }
+
+    const availability = await menuItemAvailabilityService.getAvailabilityMap([id]);
+    return { ...item, ...menuItemAvailabilityFields(availability.get(id)) };
   },
 
   async updateItem(id: string, data: UpdateMenuItemInput) {
@@ -84,10 +112,19 @@ export const menuCategoryService = {
       }
       updateData.image = data.image;
     }
+    Object.assign(updateData, toAvailabilityData(data));
     
     return prisma.menuItem.update({ where: { id }, data: updateData });
   },
 
+  // Sold-out toggle, daily stock and serving hours
+  async updateItemAvailability(id: string, data: MenuItemAvailabilityInput) {
+    const item = await prisma.menuItem.update({ where: { id }, data: toAvailabilityData(data) });
+
+    const availability = await menuItemAvailabilityService.getAvailabilityMap([id]);
+    return { ...item, ...menuItemAvailabilityFields(availability.get(id)) };
+  },
+
   async deleteItem(id: string) {
     // Get item to check for image before deletion
     const item = await prisma.menuItem.findUnique({
@@ -1,3 +1,5 @@
+import type { FulfilmentType, OrderIssueCategory } from "../../generated/prisma/client";
+
 export const ORDER_STATUS_MESSAGES = {
     ACCEPTED: {
       title: "Order Accepted ✅",
@@ -9,11 +11,73 @@ export const ORDER_STATUS_MESSAGES = {
     },
     READY: {
       title: "Order Ready 🍔",
-      body: "Your order is ready for pickup",
+      body: "Your order is ready",
     },
     CANCELLED: {
       title: "Order Cancelled ❌",
       body: "Your order has been cancelled",
     },
   };
-  
\ No newline at end of file
+
+// Messages that depend on how the customer gets the order (Order.fulfilmentType)
+export const FULFILMENT_STATUS_MESSAGES: Record<
+  FulfilmentType,
+  Partial<Record<keyof typeof ORDER_STATUS_MESSAGES, { title: string; body: string }>>
+> = {
+  DELIVERY: {
+    READY: {
+      title: "Order Ready 🍔",
+      body: "Your order is ready and will be on its way shortly",
+    },
+  },
+  PICKUP: {
+    READY: {
+      title: "Order Ready 🍔",
+      body: "Your order is ready for pickup at the counter",
+    },
+  },
+  DINE_IN: {
+    READY: {
+      title: "Order Ready 🍽️",
+      body: "Your order is ready and will be served at your table",
+    },
+  },
+};
+
+// How restaurants see the fulfilment type in new order notifications
+export const FULFILMENT_LABELS: Record<FulfilmentType, string> = {
+  DELIVERY: "Delivery",
+  PICKUP: "Pickup",
+  DINE_IN: "Dine-in",
+};
+
+// How order issue categories are shown in notifications
+export const ORDER_ISSUE_CATEGORY_LABELS: Record<OrderIssueCategory, string> = {
+  MISSING_ITEM: "Missing item",
+  WRONG_ITEM: "Wrong item",
+  COLD_FOOD: "Food arrived cold",
+  POOR_QUALITY: "Poor food quality",
+  DAMAGED_PACKAGING: "Damaged packaging",
+  LATE_DELIVERY: "Late delivery",
+  OTHER: "Other problem",
+};
+
+// Customer notifications when the restaurant responds to an issue or an admin resolves it
+export const ORDER_ISSUE_MESSAGES = {
+  RESPONDED: {
+    title: "Restaurant Replied 💬",
+    body: "The restaurant has responded to the issue you reported",
+  },
+  REFUND: {
+    title: "Issue Resolved ✅",
+    body: "Your issue has been resolved with a refund",
+  },
+  CREDIT: {
+    title: "Issue Resolved ✅",
+    body: "Your issue has been resolved with a credit for your next order",
+  },
+  REJECTED: {
+    title: "Issue Reviewed",
+    body: "Your issue has been reviewed and closed without compensation",
+  },
+};
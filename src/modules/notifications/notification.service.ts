@@ -1,5 +1,12 @@
 import prisma from "../../config/prisma";
-import { ORDER_STATUS_MESSAGES } from "./notification.constants";
+import type { FulfilmentType } from "../../generated/prisma/client";
+import {
+  FULFILMENT_LABELS,
+  FULFILMENT_STATUS_MESSAGES,
+  ORDER_ISSUE_CATEGORY_LABELS,
+  ORDER_ISSUE_MESSAGES,
+  ORDER_STATUS_MESSAGES,
+} from "./notification.constants";
 
 /**
  * Notification Service
@@ -10,6 +17,8 @@ import { ORDER_STATUS_MESSAGES } from "./notification.constants";
  * - User notifications for order status updates (ACCEPTED, PREPARING, READY, CANCELLED)
  * - Restaurant notifications for new orders and cancellations
  * - Admin notifications (same as restaurant)
+ * - Order issue notifications: new issues to the restaurant and admins, responses and
+ *   resolutions to the customer, resolutions to the restaurant
  * 
  * @module notifications/notification.service
  */
@@ -82,7 +91,7 @@ export async function sendNotification({
  * Sends notifications for the following statuses:
  * - ACCEPTED: Order has been accepted by restaurant
  * - PREPARING: Food is being prepared
- * - READY: Order is ready for pickup
+ * - READY: Order is ready (wording depends on delivery, pickup or dine-in)
  * - CANCELLED: Order has been cancelled
  * 
  * @param {any} order - Order object with status and user (with expoPushToken)
@@ -98,7 +107,8 @@ export async function notifyUserOrderStatus(order: any): Promise<void> {
   }
 
   const status = order.status as keyof typeof ORDER_STATUS_MESSAGES;
-  const message = ORDER_STATUS_MESSAGES[status];
+  const fulfilmentType = (order.fulfilmentType ?? "DELIVERY") as FulfilmentType;
+  const message = FULFILMENT_STATUS_MESSAGES[fulfilmentType]?.[status] ?? ORDER_STATUS_MESSAGES[status];
   if (!message) {
     console.log(`[Notification] No notification message for status: ${order.status}`);
     return;
@@ -172,6 +182,11 @@ export async function notifyRestaurantAndAdminNewOrder(order: any): Promise<void
 
     const orderNumber = order.orderNumber || order.id;
     const orderTotal = order.total ? `$${Number(order.total).toFixed(2)}` : "";
+    const fulfilmentType = (order.fulfilmentType ?? "DELIVERY") as FulfilmentType;
+    const fulfilment =
+      fulfilmentType === "DINE_IN" && order.tableNumber
+        ? `${FULFILMENT_LABELS.DINE_IN}, table ${order.tableNumber}`
+        : FULFILMENT_LABELS[fulfilmentType];
 
     for (const user of recipients) {
       if (!user?.expoPushToken) {
@@ -181,7 +196,7 @@ export async function notifyRestaurantAndAdminNewOrder(order: any): Promise<void
       await sendNotification({
         to: user.expoPushToken,
         title: "New Order Received 🧾",
-        body: `Order ${orderNumber}${orderTotal ? ` - ${orderTotal}` : ""} has been placed`,
+        body: `Order ${orderNumber}${orderTotal ? ` - ${orderTotal}` : ""} (${fulfilment}) has been placed`,
         data: { 
           orderId: order.id,
           orderNumber: orderNumber,
@@ -263,3 +278,152 @@ export async function notifyRestaurantAndAdminCancelled(order: any): Promise<voi
     console.error(`[Notification] Error notifying restaurant/admin about cancellation for order ${order.id}:`, error.message);
   }
 }
+
+/* ================= ORDER ISSUE NOTIFICATIONS ================= */
+
+/**
+ * Notifies the restaurant and admin users about an issue reported for an order
+ *
+ * @param {any} issue - Order issue with order (orderNumber) and restaurant (with user) relations
+ * @returns {Promise<void>}
+ *
+ * @example
+ * await notifyRestaurantAndAdminOrderIssue(issue);
+ */
+export async function notifyRestaurantAndAdminOrderIssue(issue: any): Promise<void> {
+  if (!issue) {
+    console.warn("[Notification] notifyRestaurantAndAdminOrderIssue: Issue is null/undefined");
+    return;
+  }
+
+  try {
+    const admins = await prisma.user.findMany({
+      where: {
+        role: "ADMIN",
+        expoPushToken: { not: null }
+      },
+      select: {
+        id: true,
+        expoPushToken: true,
+      },
+    });
+
+    const recipients = [
+      issue.restaurant?.user,
+      ...admins,
+    ];
+
+    const orderNumber = issue.order?.orderNumber || issue.orderId;
+    const category = ORDER_ISSUE_CATEGORY_LABELS[issue.category as keyof typeof ORDER_ISSUE_CATEGORY_LABELS] ?? issue.category;
+
+    for (const user of recipients) {
+      if (!user?.expoPushToken) {
+        continue;
+      }
+
+      await sendNotification({
+        to: user.expoPushToken,
+        title: "Issue Reported ⚠️",
+        body: `${category} reported for order ${orderNumber}`,
+        data: {
+          issueId: issue.id,
+          orderId: issue.orderId,
+          orderNumber: orderNumber,
+          screen: "OrderIssueScreen",
+        },
+      });
+    }
+
+    console.log(`[Notification] Sent order issue notifications to ${recipients.length} recipients`);
+  } catch (error: any) {
+    console.error(`[Notification] Error notifying restaurant/admin about issue ${issue.id}:`, error.message);
+  }
+}
+
+/**
+ * Notifies the customer when the restaurant responds to their issue or an admin resolves it
+ *
+ * @param {any} issue - Order issue with status, resolution and user (with expoPushToken)
+ * @returns {Promise<void>}
+ *
+ * @example
+ * await notifyUserOrderIssueUpdate(issue);
+ */
+export async function notifyUserOrderIssueUpdate(issue: any): Promise<void> {
+  if (!issue) {
+    console.warn("[Notification] notifyUserOrderIssueUpdate: Issue is null/undefined");
+    return;
+  }
+
+  const key = (issue.status === "RESOLVED" ? issue.resolution : issue.status) as keyof typeof ORDER_ISSUE_MESSAGES;
+  const message = ORDER_ISSUE_MESSAGES[key];
+  if (!message) {
+    console.log(`[Notification] No notification message for issue status: ${issue.status}`);
+    return;
+  }
+
+  if (!issue.user?.expoPushToken) {
+    console.log(`[Notification] User ${issue.userId} has no push token registered`);
+    return;
+  }
+
+  try {
+    await sendNotification({
+      to: issue.user.expoPushToken,
+      title: message.title,
+      body: message.body,
+      data: {
+        issueId: issue.id,
+        orderId: issue.orderId,
+        status: issue.status,
+        resolution: issue.resolution,
+        screen: "OrderIssueScreen",
+      },
+    });
+  } catch (error: any) {
+    console.error(`[Notification] Error notifying user about issue ${issue.id}:`, error.message);
+  }
+}
+
+/**
+ * Notifies the restaurant how an admin resolved an issue of one of its orders
+ *
+ * @param {any} issue - Resolved order issue with order (orderNumber) and restaurant (with user) relations
+ * @returns {Promise<void>}
+ *
+ * @example
+ * await notifyRestaurantOrderIssueResolved(issue);
+ */
+export async function notifyRestaurantOrderIssueResolved(issue: any): Promise<void> {
+  if (!issue) {
+    console.warn("[Notification] notifyRestaurantOrderIssueResolved: Issue is null/undefined");
+    return;
+  }
+
+  if (!issue.restaurant?.user?.expoPushToken) {
+    console.log(`[Notification] Restaurant ${issue.restaurantId} has no push token registered`);
+    return;
+  }
+
+  const orderNumber = issue.order?.orderNumber || issue.orderId;
+  const outcome =
+    issue.resolution === "REFUND" ? "with a refund" :
+    issue.resolution === "CREDIT" ? "with a customer credit" : "without compensation";
+
+  try {
+    await sendNotification({
+      to: issue.restaurant.user.expoPushToken,
+      title: "Issue Resolved",
+      body: `The issue reported for order ${orderNumber} was closed ${outcome}`,
+      data: {
+        issueId: issue.id,
+        orderId: issue.orderId,
+        orderNumber: orderNumber,
+        resolution: issue.resolution,
+        screen: "OrderIssueScreen",
+      },
+    });
+  } catch (error: any) {
+    console.error(`[Notification] Error notifying restaurant about issue ${issue.id}:`, error.message);
+  }
+}
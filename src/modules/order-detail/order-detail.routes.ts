@@ -33,7 +33,7 @@ const router = Router();
  *                   type: string
  *                 orderNumber:
  *                   type: string
- *                   example: "#1234"
+ *                   example: "KFC-261019-0042"
  *                 status:
  *                   type: string
  *                   enum:
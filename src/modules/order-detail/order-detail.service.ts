@@ -67,11 +67,16 @@ export const orderDetailService = {
           name: order.restaurant.mall.name,
         },
       },
-      deliveryAddress: {
-        label: order.deliveryAddress.label,
-        address: order.deliveryAddress.address,
-        city: order.deliveryAddress.city,
-      },
+      fulfilmentType: order.fulfilmentType,
+      tableNumber: order.tableNumber,
+      // Only delivery orders have an address
+      deliveryAddress: order.deliveryAddress
+        ? {
+            label: order.deliveryAddress.label,
+            address: order.deliveryAddress.address,
+            city: order.deliveryAddress.city,
+          }
+        : null,
       items: order.items.map((item) => ({
         id: item.id,
         itemName: item.itemName,
@@ -0,0 +1,163 @@
+import { Request, Response } from "express";
+import { OrderIssueActor, orderIssueService } from "./order-issue.service";
+import {
+  createOrderIssueSchema,
+  listOrderIssuesSchema,
+  orderIssueIdSchema,
+  resolveOrderIssueSchema,
+  respondOrderIssueSchema,
+} from "./order-issue.schema";
+import { deleteImageFile, getOrderIssuePhotoUrl } from "../../config/upload";
+import { getActorRole } from "../orders/order-lifecycle.service";
+
+// Authenticated user with the normalized role (session roles may come lowercase)
+function getActor(req: Request): OrderIssueActor {
+  const authUser = (req as any).auth?.user;
+  return { id: authUser.id, role: getActorRole(authUser) };
+}
+
+// Maps service errors to HTTP status codes
+function errorStatus(message: string) {
+  return message.includes("not found") ? 404 :
+         message.includes("Unauthorized") ? 403 :
+         message.includes("already") ? 409 :
+         message.includes("can only be reported") ? 400 :
+         message.includes("cannot exceed") ? 400 :
+         message.includes("not refundable") ? 400 :
+         message.includes("Nothing to refund") ? 400 :
+         message.includes("must be positive") ? 400 : 500;
+}
+
+export const orderIssueController = {
+  // POST /order-issues - Report an issue with a delivered order (multipart, photos in "photos")
+  async createIssue(req: Request, res: Response) {
+    const files = (req.files as Express.Multer.File[]) || [];
+    const photoUrls = files.map((file) => getOrderIssuePhotoUrl(file.filename));
+
+    try {
+      const parseResult = createOrderIssueSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        photoUrls.forEach(deleteImageFile);
+        return res.status(400).json({
+          message: "Invalid request body",
+          errors: parseResult.error.flatten(),
+        });
+      }
+
+      const issue = await orderIssueService.createIssue(
+        getActor(req),
+        parseResult.data,
+        photoUrls
+      );
+
+      return res.status(201).json({
+        message: "Issue reported successfully",
+        data: issue,
+      });
+    } catch (error: any) {
+      // The issue wasn't stored, so its photos aren't needed
+      photoUrls.forEach(deleteImageFile);
+      return res.status(errorStatus(error.message)).json({ message: error.message });
+    }
+  },
+
+  // GET /order-issues - List issues (own, own restaurant's, or all for admins)
+  async listIssues(req: Request, res: Response) {
+    try {
+      const parseResult = listOrderIssuesSchema.safeParse(req.query);
+      if (!parseResult.success) {
+        return res.status(400).json({
+          message: "Invalid query parameters",
+          errors: parseResult.error.flatten(),
+        });
+      }
+
+      const result = await orderIssueService.listIssues(getActor(req), parseResult.data);
+
+      return res.json({
+        message: "Issues retrieved successfully",
+        data: result,
+      });
+    } catch (error: any) {
+      return res.status(500).json({ message: error.message });
+    }
+  },
+
+  // GET /order-issues/:issueId - Issue with photos, status history and resolution
+  async getIssue(req: Request, res: Response) {
+    try {
+      const parseResult = orderIssueIdSchema.safeParse(req.params);
+      if (!parseResult.success) {
+        return res.status(400).json({
+          message: "Invalid issue ID",
+          errors: parseResult.error.flatten(),
+        });
+      }
+
+      const issue = await orderIssueService.getIssue(parseResult.data.issueId, getActor(req));
+
+      return res.json({
+        message: "Issue retrieved successfully",
+        data: issue,
+      });
+    } catch (error: any) {
+      return res.status(errorStatus(error.message)).json({ message: error.message });
+    }
+  },
+
+  // POST /order-issues/:issueId/respond - Restaurant response
+  async respond(req: Request, res: Response) {
+    try {
+      const paramsResult = orderIssueIdSchema.safeParse(req.params);
+      const bodyResult = respondOrderIssueSchema.safeParse(req.body);
+      if (!paramsResult.success || !bodyResult.success) {
+        return res.status(400).json({
+          message: "Invalid request",
+          errors: paramsResult.success ? bodyResult.error?.flatten() : paramsResult.error.flatten(),
+        });
+      }
+
+      const issue = await orderIssueService.respond(
+        paramsResult.data.issueId,
+        getActor(req),
+        bodyResult.data
+      );
+
+      return res.json({
+        message: "Response saved successfully",
+        data: issue,
+      });
+    } catch (error: any) {
+      return res.status(errorStatus(error.message)).json({ message: error.message });
+    }
+  },
+
+  // POST /order-issues/:issueId/resolve - Admin resolution (refund, credit or rejection)
+  async resolve(req: Request, res: Response) {
+    try {
+      const paramsResult = orderIssueIdSchema.safeParse(req.params);
+      const bodyResult = resolveOrderIssueSchema.safeParse(req.body);
+      if (!paramsResult.success || !bodyResult.success) {
+        return res.status(400).json({
+          message: "Invalid request",
+          errors: paramsResult.success ? bodyResult.error?.flatten() : paramsResult.error.flatten(),
+        });
+      }
+
+      const issue = await orderIssueService.resolve(
+        paramsResult.data.issueId,
+        getActor(req),
+        bodyResult.data
+      );
+
+      return res.json({
+        message: "Issue resolved successfully",
+        data: issue,
+      });
+    } catch (error: any) {
+      return res.status(errorStatus(error.message)).json({ message: error.message });
+    }
+  },
+};
+
+export default orderIssueController;
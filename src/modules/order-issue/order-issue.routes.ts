@@ -0,0 +1,332 @@
+import { Router } from "express";
+import { orderIssueController } from "./order-issue.controller";
+import { uploadOrderIssuePhotos } from "../../config/upload";
+import { requireAuth, requireAdminRole, requireRestaurantRole, requireUserRole } from "../../middlewares/role.middleware";
+
+const router = Router();
+
+/**
+ * @swagger
+ * /order-issues:
+ *   post:
+ *     summary: Report an issue with a delivered order
+ *     tags: [Order Issues]
+ *     security:
+ *       - cookieAuth: []
+ *     description: |
+ *       Customers report a problem with one of their delivered orders (missing item, cold food, ...)
+ *       with a category, a description and up to 5 photos.
+ *
+ *       **Rules:**
+ *       - Only the customer who placed the order can report an issue
+ *       - The order must be DELIVERED, and the issue reported within 48 hours of delivery
+ *       - One unresolved issue per order at a time
+ *       - The restaurant and admins are notified
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - orderId
+ *               - category
+ *               - description
+ *             properties:
+ *               orderId:
+ *                 type: string
+ *                 format: uuid
+ *               category:
+ *                 type: string
+ *                 enum: [MISSING_ITEM, WRONG_ITEM, COLD_FOOD, POOR_QUALITY, DAMAGED_PACKAGING, LATE_DELIVERY, OTHER]
+ *               description:
+ *                 type: string
+ *                 maxLength: 2000
+ *                 example: "The fries were missing from my order"
+ *               photos:
+ *                 type: array
+ *                 maxItems: 5
+ *                 items:
+ *                   type: string
+ *                   format: binary
+ *                 description: Photos of the problem (JPEG, PNG, GIF or WebP, max 5MB each)
+ *     responses:
+ *       201:
+ *         description: Issue reported successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                   example: "Issue reported successfully"
+ *                 data:
+ *                   $ref: '#/components/schemas/OrderIssue'
+ *       400:
+ *         description: Invalid fields, order not delivered, or reporting window over
+ *       403:
+ *         description: Not the customer of the order
+ *       404:
+ *         description: Order not found
+ *       409:
+ *         description: An issue is already open for this order
+ */
+router.post("/", requireAuth, requireUserRole, uploadOrderIssuePhotos.array("photos", 5), orderIssueController.createIssue);
+
+/**
+ * @swagger
+ * /order-issues:
+ *   get:
+ *     summary: List order issues
+ *     tags: [Order Issues]
+ *     security:
+ *       - cookieAuth: []
+ *     description: |
+ *       Customers see their own issues, restaurants the issues of their orders and admins all issues
+ *       (optionally of one restaurant). Newest first.
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [OPEN, RESPONDED, RESOLVED]
+ *       - in: query
+ *         name: category
+ *         schema:
+ *           type: string
+ *           enum: [MISSING_ITEM, WRONG_ITEM, COLD_FOOD, POOR_QUALITY, DAMAGED_PACKAGING, LATE_DELIVERY, OTHER]
+ *       - in: query
+ *         name: restaurantId
+ *         schema:
+ *           type: string
+ *         description: Restaurant filter (admins only)
+ *       - in: query
+ *         name: orderId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *           maximum: 100
+ *     responses:
+ *       200:
+ *         description: Issues retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     issues:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/OrderIssue'
+ *                     pagination:
+ *                       type: object
+ *                       properties:
+ *                         page:
+ *                           type: integer
+ *                         limit:
+ *                           type: integer
+ *                         total:
+ *                           type: integer
+ *                         totalPages:
+ *                           type: integer
+ *       400:
+ *         description: Invalid query parameters
+ */
+router.get("/", requireAuth, orderIssueController.listIssues);
+
+/**
+ * @swagger
+ * /order-issues/{issueId}:
+ *   get:
+ *     summary: Get an order issue
+ *     tags: [Order Issues]
+ *     security:
+ *       - cookieAuth: []
+ *     description: |
+ *       Issue with its photos, the restaurant's response, the status history and the resolution
+ *       (refund or credit promo code). Available to the customer, the restaurant of the order and admins.
+ *     parameters:
+ *       - in: path
+ *         name: issueId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Issue retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/OrderIssue'
+ *       403:
+ *         description: Not the customer, the restaurant of the order or an admin
+ *       404:
+ *         description: Issue not found
+ */
+router.get("/:issueId", requireAuth, orderIssueController.getIssue);
+
+/**
+ * @swagger
+ * /order-issues/{issueId}/respond:
+ *   post:
+ *     summary: Respond to an order issue (restaurant)
+ *     tags: [Order Issues]
+ *     security:
+ *       - cookieAuth: []
+ *     description: |
+ *       The restaurant of the order responds to an unresolved issue; the status becomes RESPONDED and the
+ *       customer is notified. The response can be updated until an admin resolves the issue.
+ *     parameters:
+ *       - in: path
+ *         name: issueId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [response]
+ *             properties:
+ *               response:
+ *                 type: string
+ *                 maxLength: 2000
+ *                 example: "Sorry about that, the fries were left out by mistake"
+ *     responses:
+ *       200:
+ *         description: Response saved successfully
+ *       403:
+ *         description: Not the restaurant of the order
+ *       404:
+ *         description: Issue not found
+ *       409:
+ *         description: Issue is already resolved
+ */
+router.post("/:issueId/respond", requireAuth, requireRestaurantRole, orderIssueController.respond);
+
+/**
+ * @swagger
+ * /order-issues/{issueId}/resolve:
+ *   post:
+ *     summary: Resolve an order issue (admin)
+ *     tags: [Order Issues]
+ *     security:
+ *       - cookieAuth: []
+ *     description: |
+ *       Closes an issue with one of:
+ *       - `REFUND`: refunds `amount` cents, or the given order `items` (priced like `POST /payments/refund-items`),
+ *         or the remaining refundable balance when neither is given. Card orders are refunded through Stripe,
+ *         COD orders record the adjustment.
+ *       - `CREDIT`: issues a single-use promo code worth `amount` cents to the customer, valid for 90 days in the
+ *         mall of the order
+ *       - `REJECTED`: closes the issue without compensation; `note` is required
+ *
+ *       The customer and the restaurant are notified. If the refund fails, the issue stays unresolved.
+ *     parameters:
+ *       - in: path
+ *         name: issueId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [resolution]
+ *             properties:
+ *               resolution:
+ *                 type: string
+ *                 enum: [REFUND, CREDIT, REJECTED]
+ *               amount:
+ *                 type: integer
+ *                 description: Refund or credit amount in cents (required for CREDIT)
+ *                 example: 450
+ *               items:
+ *                 type: array
+ *                 description: Order items to refund (REFUND only, instead of amount)
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     orderItemId:
+ *                       type: string
+ *                       format: uuid
+ *                     quantity:
+ *                       type: integer
+ *                       minimum: 1
+ *               includeDeliveryFee:
+ *                 type: boolean
+ *               includeTax:
+ *                 type: boolean
+ *               note:
+ *                 type: string
+ *                 maxLength: 500
+ *           examples:
+ *             itemRefund:
+ *               summary: Refund the missing item
+ *               value:
+ *                 resolution: "REFUND"
+ *                 items:
+ *                   - orderItemId: "123e4567-e89b-12d3-a456-426614174000"
+ *                     quantity: 1
+ *                 includeTax: true
+ *             credit:
+ *               summary: Credit for the next order
+ *               value:
+ *                 resolution: "CREDIT"
+ *                 amount: 500
+ *                 note: "Sorry your food arrived cold"
+ *             rejection:
+ *               summary: Reject
+ *               value:
+ *                 resolution: "REJECTED"
+ *                 note: "The photos show the complete order"
+ *     responses:
+ *       200:
+ *         description: Issue resolved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/OrderIssue'
+ *       400:
+ *         description: Invalid resolution, or the refund was rejected (amount above the refundable balance, ...)
+ *       404:
+ *         description: Issue not found
+ *       409:
+ *         description: Issue is already resolved
+ */
+router.post("/:issueId/resolve", requireAuth, requireAdminRole, orderIssueController.resolve);
+
+export default router;
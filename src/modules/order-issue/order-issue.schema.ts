@@ -0,0 +1,74 @@
+import { z } from "zod";
+import { refundItemsSchema } from "../payments/order-refund/orderrefund.schema";
+
+const orderIssueCategories = [
+  "MISSING_ITEM",
+  "WRONG_ITEM",
+  "COLD_FOOD",
+  "POOR_QUALITY",
+  "DAMAGED_PACKAGING",
+  "LATE_DELIVERY",
+  "OTHER",
+] as const;
+
+// Schema for reporting an issue (multipart form fields; photos are uploaded as files)
+export const createOrderIssueSchema = z.object({
+  orderId: z.string().uuid("Invalid order ID format"),
+  category: z.enum(orderIssueCategories, { message: "Invalid issue category" }),
+  description: z.string().trim().min(1, "Description is required").max(2000),
+});
+
+// Schema for listing issues (query string)
+export const listOrderIssuesSchema = z.object({
+  status: z.enum(["OPEN", "RESPONDED", "RESOLVED"]).optional(),
+  category: z.enum(orderIssueCategories).optional(),
+  restaurantId: z.string().optional(),
+  orderId: z.string().uuid("Invalid order ID format").optional(),
+  page: z.coerce.number().int().positive().default(1),
+  limit: z.coerce.number().int().positive().max(100).default(10),
+});
+
+// Schema for an issue ID in the path
+export const orderIssueIdSchema = z.object({
+  issueId: z.string().uuid("Invalid issue ID format"),
+});
+
+// Schema for the restaurant's response to an issue
+export const respondOrderIssueSchema = z.object({
+  response: z.string().trim().min(1, "Response is required").max(2000),
+});
+
+// Schema for resolving an issue (admin): refund, credit or rejection
+export const resolveOrderIssueSchema = z.discriminatedUnion("resolution", [
+  z
+    .object({
+      resolution: z.literal("REFUND"),
+      // Refund amount in cents (the remaining refundable balance when neither amount nor items are given)
+      amount: z.number().int("Refund amount must be an integer (cents)").positive("Refund amount must be positive").optional(),
+      // Or the order items to refund, priced like `POST /payments/refund-items`
+      items: refundItemsSchema.shape.items.optional(),
+      includeDeliveryFee: z.boolean().optional(),
+      includeTax: z.boolean().optional(),
+      note: z.string().trim().min(1).max(500).optional(),
+    })
+    .refine((data) => data.amount === undefined || data.items === undefined, {
+      message: "Provide either an amount or items to refund, not both",
+      path: ["items"],
+    }),
+  z.object({
+    resolution: z.literal("CREDIT"),
+    // Credit amount in cents, issued as a personal promo code
+    amount: z.number().int("Credit amount must be an integer (cents)").positive("Credit amount must be positive"),
+    note: z.string().trim().min(1).max(500).optional(),
+  }),
+  z.object({
+    resolution: z.literal("REJECTED"),
+    note: z.string().trim().min(1, "A note explaining the rejection is required").max(500),
+  }),
+]);
+
+// TypeScript types
+export type CreateOrderIssueInput = z.infer<typeof createOrderIssueSchema>;
+export type ListOrderIssuesInput = z.infer<typeof listOrderIssuesSchema>;
+export type RespondOrderIssueInput = z.infer<typeof respondOrderIssueSchema>;
+export type ResolveOrderIssueInput = z.infer<typeof resolveOrderIssueSchema>;
@@ -0,0 +1,429 @@
+import { randomBytes } from "crypto";
+import prisma from "../../config/prisma";
+import type { OrderIssueStatus, Prisma, Role } from "../../generated/prisma/client";
+import {
+  notifyRestaurantAndAdminOrderIssue,
+  notifyRestaurantOrderIssueResolved,
+  notifyUserOrderIssueUpdate,
+} from "../notifications/notification.service";
+import { ORDER_ISSUE_CATEGORY_LABELS } from "../notifications/notification.constants";
+import { refundOrder, refundOrderItems } from "../payments/order-refund/orderrefund.service";
+import type {
+  CreateOrderIssueInput,
+  ListOrderIssuesInput,
+  RespondOrderIssueInput,
+  ResolveOrderIssueInput,
+} from "./order-issue.schema";
+
+/**
+ * Order Issues
+ *
+ * Customers report a problem with a delivered order (missing item, cold food, ...) with a category,
+ * a description and photos. The restaurant responds, then an admin resolves the issue:
+ * - REFUND: refunds an amount or order items through the refund ledger (Stripe for card orders,
+ *   a recorded adjustment for COD orders)
+ * - CREDIT: issues a single-use promo code for the amount, personal to the customer and valid in
+ *   the mall of the order
+ * - REJECTED: closes the issue without compensation
+ *
+ * Every status change is kept in `OrderIssueStatusHistory` and notified to the other side.
+ * Issues can be reported up to 48 hours after delivery, one unresolved issue per order at a time.
+ *
+ * @module order-issue/order-issue.service
+ */
+
+export type OrderIssueActor = {
+  id: string;
+  role: string;
+};
+
+// How long after delivery an issue can be reported
+const REPORT_WINDOW_HOURS = 48;
+// How long a credit promo code can be redeemed
+const CREDIT_VALIDITY_DAYS = 90;
+
+const ROLES: Role[] = ["USER", "ADMIN", "RESTAURANT"];
+
+const issueDetailInclude = {
+  photos: {
+    select: { id: true, imageUrl: true, createdAt: true },
+    orderBy: { createdAt: "asc" },
+  },
+  statusHistory: {
+    select: { fromStatus: true, status: true, note: true, actionById: true, actionByRole: true, createdAt: true },
+    orderBy: { createdAt: "asc" },
+  },
+  order: {
+    select: {
+      id: true,
+      orderNumber: true,
+      total: true,
+      paymentMethod: true,
+      paymentStatus: true,
+      actualDeliveryTime: true,
+    },
+  },
+  restaurant: { select: { userId: true, name: true } },
+  refund: { select: { id: true, amount: true, status: true, stripeRefundId: true } },
+  creditPromoCode: { select: { id: true, code: true, fixedDiscountAmount: true, endDate: true } },
+} as const;
+
+// What the notifications need: the order number and the push tokens of both sides
+const issueNotificationInclude = {
+  order: { select: { orderNumber: true } },
+  user: { select: { id: true, expoPushToken: true } },
+  restaurant: { select: { user: { select: { id: true, expoPushToken: true } } } },
+} as const;
+
+function fromCents(cents: number) {
+  return (cents / 100).toFixed(2);
+}
+
+function creditCode() {
+  return `CREDIT-${randomBytes(4).toString("hex").toUpperCase()}`;
+}
+
+async function recordStatus(
+  tx: Prisma.TransactionClient,
+  input: {
+    issueId: string;
+    fromStatus: OrderIssueStatus | null;
+    status: OrderIssueStatus;
+    note?: string | null | undefined;
+    actor: OrderIssueActor;
+  }
+) {
+  const role = input.actor.role as Role;
+  return tx.orderIssueStatusHistory.create({
+    data: {
+      issueId: input.issueId,
+      fromStatus: input.fromStatus,
+      status: input.status,
+      note: input.note ?? null,
+      actionById: input.actor.id,
+      actionByRole: ROLES.includes(role) ? role : null,
+    },
+  });
+}
+
+async function loadForNotification(issueId: string) {
+  return prisma.orderIssue.findUnique({
+    where: { id: issueId },
+    include: issueNotificationInclude,
+  });
+}
+
+export const orderIssueService = {
+  /**
+   * Reports an issue with a delivered order of the customer
+   */
+  async createIssue(actor: OrderIssueActor, input: CreateOrderIssueInput, photoUrls: string[]) {
+    const order = await prisma.order.findUnique({
+      where: { id: input.orderId },
+      select: { id: true, userId: true, restaurantId: true, status: true, actualDeliveryTime: true, updatedAt: true },
+    });
+
+    if (!order) {
+      throw new Error("Order not found");
+    }
+
+    if (order.userId !== actor.id) {
+      throw new Error("Unauthorized: You can only report issues for your own orders");
+    }
+
+    if (order.status !== "DELIVERED") {
+      throw new Error("Issues can only be reported for delivered orders");
+    }
+
+    const deliveredAt = order.actualDeliveryTime ?? order.updatedAt;
+    if (Date.now() - deliveredAt.getTime() > REPORT_WINDOW_HOURS * 60 * 60 * 1000) {
+      throw new Error(`Issues can only be reported within ${REPORT_WINDOW_HOURS} hours of delivery`);
+    }
+
+    const issue = await prisma.$transaction(async (tx) => {
+      // Serializes reports of the same order, so only one issue stays unresolved
+      await tx.$queryRaw`SELECT "id" FROM "Order" WHERE "id" = ${order.id} FOR UPDATE`;
+
+      const unresolved = await tx.orderIssue.findFirst({
+        where: { orderId: order.id, status: { not: "RESOLVED" } },
+        select: { id: true },
+      });
+      if (unresolved) {
+        throw new Error("An issue is already open for this order");
+      }
+
+      const created = await tx.orderIssue.create({
+        data: {
+          orderId: order.id,
+          userId: order.userId,
+          restaurantId: order.restaurantId,
+          category: input.category,
+          description: input.description,
+          photos: { create: photoUrls.map((imageUrl) => ({ imageUrl })) },
+        },
+      });
+
+      await recordStatus(tx, { issueId: created.id, fromStatus: null, status: "OPEN", actor });
+      return created;
+    });
+
+    console.log(`[OrderIssue] Issue ${issue.id} reported for order ${order.id}`, {
+      category: issue.category,
+      photos: photoUrls.length,
+    });
+
+    // Notify restaurant and admin about the new issue
+    try {
+      await notifyRestaurantAndAdminOrderIssue(await loadForNotification(issue.id));
+    } catch (error: any) {
+      console.error("[OrderIssue] Failed to send new issue notification:", error.message);
+    }
+
+    return this.getIssue(issue.id, actor);
+  },
+
+  /**
+   * Issues visible to the user: their own (customers), their restaurant's (restaurants) or all (admins)
+   */
+  async listIssues(actor: OrderIssueActor, input: ListOrderIssuesInput) {
+    const where: Prisma.OrderIssueWhereInput = {
+      ...(input.status ? { status: input.status } : {}),
+      ...(input.category ? { category: input.category } : {}),
+      ...(input.orderId ? { orderId: input.orderId } : {}),
+    };
+
+    if (actor.role === "ADMIN") {
+      if (input.restaurantId) {
+        where.restaurantId = input.restaurantId;
+      }
+    } else if (actor.role === "RESTAURANT") {
+      where.restaurantId = actor.id;
+    } else {
+      where.userId = actor.id;
+    }
+
+    const [issues, total] = await Promise.all([
+      prisma.orderIssue.findMany({
+        where,
+        include: {
+          photos: { select: { id: true, imageUrl: true }, orderBy: { createdAt: "asc" } },
+          order: { select: { id: true, orderNumber: true } },
+          restaurant: { select: { userId: true, name: true } },
+        },
+        orderBy: { createdAt: "desc" },
+        skip: (input.page - 1) * input.limit,
+        take: input.limit,
+      }),
+      prisma.orderIssue.count({ where }),
+    ]);
+
+    return {
+      issues,
+      pagination: {
+        page: input.page,
+        limit: input.limit,
+        total,
+        totalPages: Math.ceil(total / input.limit),
+      },
+    };
+  },
+
+  /**
+   * Issue with its photos, status history and resolution.
+   * Visible to the customer, the restaurant of the order and admins.
+   */
+  async getIssue(issueId: string, actor: OrderIssueActor) {
+    const issue = await prisma.orderIssue.findUnique({
+      where: { id: issueId },
+      include: issueDetailInclude,
+    });
+
+    if (!issue) {
+      throw new Error("Issue not found");
+    }
+
+    const isAdmin = actor.role === "ADMIN";
+    const isRestaurantOwner = actor.role === "RESTAURANT" && issue.restaurantId === actor.id;
+    const isReporter = issue.userId === actor.id;
+    if (!isAdmin && !isRestaurantOwner && !isReporter) {
+      throw new Error("Unauthorized: You do not have permission to view this issue");
+    }
+
+    return issue;
+  },
+
+  /**
+   * Restaurant's response to an unresolved issue of one of its orders (can be updated until resolved)
+   */
+  async respond(issueId: string, actor: OrderIssueActor, input: RespondOrderIssueInput) {
+    const issue = await prisma.orderIssue.findUnique({
+      where: { id: issueId },
+      select: { id: true, restaurantId: true, status: true },
+    });
+
+    if (!issue) {
+      throw new Error("Issue not found");
+    }
+
+    if (issue.restaurantId !== actor.id) {
+      throw new Error("Unauthorized: This issue is not about one of your orders");
+    }
+
+    await prisma.$transaction(async (tx) => {
+      // Only while nobody resolved the issue since we read it
+      const result = await tx.orderIssue.updateMany({
+        where: { id: issue.id, status: { not: "RESOLVED" } },
+        data: { status: "RESPONDED", restaurantResponse: input.response, respondedAt: new Date() },
+      });
+      if (result.count === 0) {
+        throw new Error("Issue is already resolved");
+      }
+
+      await recordStatus(tx, {
+        issueId: issue.id,
+        fromStatus: issue.status,
+        status: "RESPONDED",
+        note: input.response,
+        actor,
+      });
+    });
+
+    try {
+      await notifyUserOrderIssueUpdate(await loadForNotification(issue.id));
+    } catch (error: any) {
+      console.error("[OrderIssue] Failed to send issue response notification:", error.message);
+    }
+
+    return this.getIssue(issue.id, actor);
+  },
+
+  /**
+   * Resolves an issue with a refund, a credit or a rejection (admins)
+   *
+   * The issue is marked RESOLVED (with its history row and credit promo code) in one transaction
+   * before the refund is made, so two admins can't compensate the same issue twice; it is reopened
+   * when the refund fails.
+   */
+  async resolve(issueId: string, actor: OrderIssueActor, input: ResolveOrderIssueInput) {
+    const issue = await prisma.orderIssue.findUnique({
+      where: { id: issueId },
+      include: {
+        order: { select: { id: true, restaurant: { select: { mallId: true } } } },
+      },
+    });
+
+    if (!issue) {
+      throw new Error("Issue not found");
+    }
+
+    const note = input.note ?? null;
+    const resolvedHistory = await prisma.$transaction(async (tx) => {
+      const claimed = await tx.orderIssue.updateMany({
+        where: { id: issue.id, status: { not: "RESOLVED" } },
+        data: {
+          status: "RESOLVED",
+          resolution: input.resolution,
+          resolutionNote: note,
+          resolvedById: actor.id,
+          resolvedAt: new Date(),
+        },
+      });
+      if (claimed.count === 0) {
+        throw new Error("Issue is already resolved");
+      }
+
+      if (input.resolution === "CREDIT") {
+        const now = new Date();
+        const endDate = new Date(now);
+        endDate.setDate(endDate.getDate() + CREDIT_VALIDITY_DAYS);
+
+        const promoCode = await tx.promoCode.create({
+          data: {
+            code: creditCode(),
+            discountType: "FIXED",
+            fixedDiscountAmount: fromCents(input.amount),
+            mallId: issue.order.restaurant.mallId,
+            scope: "MALL",
+            startDate: now,
+            endDate,
+            maxRedemptions: 1,
+            maxRedemptionsPerUser: 1,
+            userId: issue.userId,
+          },
+        });
+        await tx.orderIssue.update({
+          where: { id: issue.id },
+          data: { creditPromoCodeId: promoCode.id, creditAmount: fromCents(input.amount) },
+        });
+      }
+
+      return recordStatus(tx, {
+        issueId: issue.id,
+        fromStatus: issue.status,
+        status: "RESOLVED",
+        note: note ?? input.resolution,
+        actor,
+      });
+    });
+
+    let refundId: string | null = null;
+    if (input.resolution === "REFUND") {
+      const reason = note ?? `Order issue: ${ORDER_ISSUE_CATEGORY_LABELS[issue.category]}`;
+      try {
+        const refund = input.items
+          ? await refundOrderItems(
+              {
+                orderId: issue.orderId,
+                items: input.items,
+                includeDeliveryFee: input.includeDeliveryFee,
+                includeTax: input.includeTax,
+                reason,
+              },
+              actor.id,
+              actor.role
+            )
+          : await refundOrder(issue.orderId, input.amount, actor.id, actor.role, reason);
+        refundId = refund.id;
+      } catch (error) {
+        // Back to where it was, so the issue can be resolved again
+        await prisma.$transaction([
+          prisma.orderIssueStatusHistory.delete({ where: { id: resolvedHistory.id } }),
+          prisma.orderIssue.update({
+            where: { id: issue.id },
+            data: { status: issue.status, resolution: null, resolutionNote: null, resolvedById: null, resolvedAt: null },
+          }),
+        ]);
+        throw error;
+      }
+
+      try {
+        await prisma.orderIssue.update({
+          where: { id: issue.id },
+          data: { refundId },
+        });
+      } catch (error: any) {
+        // The refund is made and recorded in the order's refund ledger; only its link to the issue is missing
+        console.error(`[OrderIssue] Failed to link refund ${refundId} to issue ${issue.id}:`, error.message);
+      }
+    }
+
+    console.log(`[OrderIssue] Issue ${issue.id} resolved`, {
+      resolution: input.resolution,
+      refundId,
+      resolvedById: actor.id,
+    });
+
+    // Notify the customer and the restaurant about the outcome
+    try {
+      const loaded = await loadForNotification(issue.id);
+      await notifyUserOrderIssueUpdate(loaded);
+      await notifyRestaurantOrderIssueResolved(loaded);
+    } catch (error: any) {
+      console.error("[OrderIssue] Failed to send issue resolution notifications:", error.message);
+    }
+
+    return this.getIssue(issue.id, actor);
+  },
+};
+
+export default orderIssueService;
@@ -0,0 +1,164 @@
+import { EventEmitter } from "events";
+import { Request, Response } from "express";
+
+/**
+ * Order Events
+ *
+ * In-process publish/subscribe hub for real-time order updates, streamed to clients
+ * over Server-Sent Events (SSE).
+ *
+ * Channels:
+ * - `order:<orderId>` - status, ETA and payment updates for the customer tracking an order
+ * - `restaurant:<restaurantId>` - new incoming orders and cancellations for the restaurant
+ *
+ * Events are published next to the push notifications (order lifecycle, checkout, payments).
+ * The hub lives in memory, so subscribers only receive events published by the same
+ * server instance; clients should re-fetch `/track-order/:orderId` after reconnecting.
+ *
+ * @module orders/order-events.service
+ */
+
+export type OrderEventType =
+  | "order.status"
+  | "order.eta"
+  | "order.payment"
+  | "order.created"
+  | "order.cancelled";
+
+export type OrderEvent = {
+  type: OrderEventType;
+  orderId: string;
+  orderNumber?: string | null | undefined;
+  restaurantId?: string | null | undefined;
+  status?: string | null | undefined;
+  paymentStatus?: string | null | undefined;
+  estimatedDeliveryTime?: string | null | undefined;
+  total?: string | null | undefined;
+  reason?: string | null | undefined;
+  at: string;
+};
+
+// Interval between keep-alive comments so proxies don't close idle streams
+const HEARTBEAT_INTERVAL_MS = 25_000;
+
+const emitter = new EventEmitter();
+// One listener per open stream; there is no meaningful upper bound
+emitter.setMaxListeners(0);
+
+const orderChannel = (orderId: string) => `order:${orderId}`;
+const restaurantChannel = (restaurantId: string) => `restaurant:${restaurantId}`;
+
+function emit(channel: string, event: OrderEvent) {
+  try {
+    emitter.emit(channel, event);
+  } catch (error: any) {
+    // A broken subscriber must never fail the request that published the event
+    console.error(`[OrderEvents] Failed to publish ${event.type} on ${channel}:`, error.message);
+  }
+}
+
+function toEvent(type: OrderEventType, order: any, extra: Partial<OrderEvent> = {}): OrderEvent {
+  return {
+    type,
+    orderId: order.id,
+    orderNumber: order.orderNumber,
+    restaurantId: order.restaurantId,
+    status: order.status,
+    paymentStatus: order.paymentStatus,
+    estimatedDeliveryTime: order.estimatedDeliveryTime,
+    at: new Date().toISOString(),
+    ...extra,
+  };
+}
+
+function subscribe(channel: string, listener: (event: OrderEvent) => void) {
+  emitter.on(channel, listener);
+  return () => {
+    emitter.off(channel, listener);
+  };
+}
+
+export const orderEventsService = {
+  /**
+   * Publishes an order status change to the customer stream.
+   * Cancellations and rejections are also pushed to the restaurant stream.
+   */
+  publishStatusChange(order: any, reason?: string | null) {
+    emit(orderChannel(order.id), toEvent("order.status", order, { reason: reason ?? null }));
+
+    if ((order.status === "CANCELLED" || order.status === "REJECTED") && order.restaurantId) {
+      emit(restaurantChannel(order.restaurantId), toEvent("order.cancelled", order, { reason: reason ?? null }));
+    }
+  },
+
+  /**
+   * Publishes a new estimated delivery time to the customer stream
+   */
+  publishEtaUpdate(order: any) {
+    emit(orderChannel(order.id), toEvent("order.eta", order));
+  },
+
+  /**
+   * Publishes a payment status change to the customer stream
+   */
+  publishPaymentStatus(order: any) {
+    emit(orderChannel(order.id), toEvent("order.payment", order));
+  },
+
+  /**
+   * Publishes a newly placed order to the restaurant stream
+   */
+  publishNewOrder(order: any) {
+    if (!order?.restaurantId) {
+      return;
+    }
+    emit(
+      restaurantChannel(order.restaurantId),
+      toEvent("order.created", order, { total: order.total != null ? String(order.total) : null })
+    );
+  },
+
+  subscribeToOrder(orderId: string, listener: (event: OrderEvent) => void) {
+    return subscribe(orderChannel(orderId), listener);
+  },
+
+  subscribeToRestaurant(restaurantId: string, listener: (event: OrderEvent) => void) {
+    return subscribe(restaurantChannel(restaurantId), listener);
+  },
+
+  /**
+   * Turns the response into an SSE stream.
+   * Sends an optional initial `snapshot` event, forwards every published event as
+   * `event: <type>` and cleans up the subscription when the client disconnects.
+   */
+  openStream(
+    req: Request,
+    res: Response,
+    subscribeFn: (listener: (event: OrderEvent) => void) => () => void,
+    snapshot?: unknown
+  ) {
+    res.status(200);
+    res.setHeader("Content-Type", "text/event-stream");
+    res.setHeader("Cache-Control", "no-cache, no-transform");
+    res.setHeader("Connection", "keep-alive");
+    // Disable response buffering on nginx-style proxies
+    res.setHeader("X-Accel-Buffering", "no");
+    res.flushHeaders();
+
+    const write = (eventName: string, data: unknown) => {
+      res.write(`event: ${eventName}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    if (snapshot !== undefined) {
+      write("snapshot", snapshot);
+    }
+
+    const unsubscribe = subscribeFn((event) => write(event.type, event));
+    const heartbeat = setInterval(() => res.write(": ping\n\n"), HEARTBEAT_INTERVAL_MS);
+
+    req.on("close", () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+  },
+};
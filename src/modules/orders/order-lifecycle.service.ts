@@ -0,0 +1,292 @@
+import prisma from "../../config/prisma";
+import type { FulfilmentType, OrderStatus } from "../../generated/prisma/client";
+import { refundOrder } from "../payments/order-refund/orderrefund.service";
+import {
+  notifyUserOrderStatus,
+  notifyRestaurantAndAdminCancelled,
+} from "../notifications/notification.service";
+import { orderStatusHistoryService, OrderStatusActor } from "./order-status-history.service";
+import { orderEventsService } from "./order-events.service";
+import { promoCodeService } from "../promo-code/promo-code.service";
+import { menuItemAvailabilityService } from "../menu/menu-item-availability.service";
+
+/**
+ * Order Lifecycle
+ *
+ * Single source of truth for order states and the transitions each role may perform.
+ * Every code path that changes `Order.status` must go through `orderLifecycleService.transition`
+ * so that illegal transitions (e.g. DELIVERED → PREPARING) are rejected everywhere and the
+ * side effects (delivery time, COD payment, refunds, history, notifications) stay consistent.
+ *
+ * @module orders/order-lifecycle.service
+ */
+
+/**
+ * Roles that can drive a transition. SYSTEM covers webhooks, schedulers and
+ * any transition made without an authenticated actor.
+ */
+export type OrderActorRole = "USER" | "RESTAURANT" | "ADMIN" | "SYSTEM";
+
+/**
+ * Statuses from which an order can no longer move
+ */
+export const FINAL_ORDER_STATUSES: OrderStatus[] = ["DELIVERED", "REJECTED", "CANCELLED"];
+
+/**
+ * Final statuses of orders that will not be fulfilled: they are not charged, and refunded if already paid
+ */
+export const UNFULFILLED_ORDER_STATUSES: OrderStatus[] = ["REJECTED", "CANCELLED"];
+
+/**
+ * Allowed transitions per current status and role
+ */
+export const ORDER_TRANSITIONS: Record<OrderStatus, Partial<Record<OrderActorRole, OrderStatus[]>>> = {
+  // Pre-orders waiting for their release time (see scheduled-order.service)
+  SCHEDULED: {
+    USER: ["CANCELLED"],
+    RESTAURANT: ["REJECTED"],
+    ADMIN: ["PENDING", "CANCELLED"],
+    SYSTEM: ["PENDING", "CANCELLED"],
+  },
+  PENDING: {
+    USER: ["CANCELLED"],
+    RESTAURANT: ["ACCEPTED", "REJECTED"],
+    ADMIN: ["ACCEPTED", "REJECTED", "CANCELLED"],
+    SYSTEM: ["CANCELLED"],
+  },
+  ACCEPTED: {
+    RESTAURANT: ["PREPARING", "REJECTED", "CANCELLED"],
+    ADMIN: ["PREPARING", "REJECTED", "CANCELLED"],
+  },
+  PREPARING: {
+    RESTAURANT: ["READY"],
+    ADMIN: ["READY", "CANCELLED"],
+  },
+  // Delivery orders go out for delivery; pickup and dine-in orders are handed over (DELIVERED) directly
+  READY: {
+    RESTAURANT: ["OUT_FOR_DELIVERY", "DELIVERED"],
+    ADMIN: ["OUT_FOR_DELIVERY", "DELIVERED", "CANCELLED"],
+  },
+  OUT_FOR_DELIVERY: {
+    RESTAURANT: ["DELIVERED"],
+    ADMIN: ["DELIVERED"],
+  },
+  DELIVERED: {},
+  REJECTED: {},
+  CANCELLED: {},
+};
+
+// Wording used in error messages for transitions users trigger directly
+const TRANSITION_VERBS: Partial<Record<OrderStatus, string>> = {
+  ACCEPTED: "accepted",
+  REJECTED: "declined",
+  CANCELLED: "cancelled",
+};
+
+export type OrderTransitionInput = {
+  orderId: string;
+  toStatus: OrderStatus;
+  actor?: OrderStatusActor | undefined;
+  reason?: string | undefined;
+  // Extra order columns to write together with the status change
+  data?: {
+    specialInstructions?: string | null;
+    estimatedDeliveryTime?: string | null;
+  };
+  // Ownership checks performed against the loaded order
+  restaurantId?: string | undefined;
+  userId?: string | undefined;
+};
+
+/**
+ * Resolves the lifecycle role of an actor (session roles may come lowercase)
+ */
+export function getActorRole(actor?: OrderStatusActor): OrderActorRole {
+  const role = actor?.role ? String(actor.role).toUpperCase() : "";
+  if (role === "USER" || role === "RESTAURANT" || role === "ADMIN") {
+    return role;
+  }
+  return "SYSTEM";
+}
+
+/**
+ * Checks whether the given role may move an order from one status to another
+ */
+export function canTransition(
+  from: OrderStatus,
+  to: OrderStatus,
+  role: OrderActorRole,
+  fulfilmentType: FulfilmentType = "DELIVERY"
+): boolean {
+  if (!(ORDER_TRANSITIONS[from]?.[role]?.includes(to) ?? false)) {
+    return false;
+  }
+
+  // Only delivery orders are taken out for delivery, and they can't skip that step
+  if (fulfilmentType === "DELIVERY") {
+    return !(from === "READY" && to === "DELIVERED");
+  }
+  return to !== "OUT_FOR_DELIVERY";
+}
+
+export const orderLifecycleService = {
+  /**
+   * Moves an order to a new status.
+   *
+   * - Validates ownership and the transition for the actor's role
+   * - Applies status side effects (delivery time, COD payment, promo code and stock release) in the same transaction as the history row
+   * - Triggers refunds for paid card orders that are cancelled or rejected
+   * - Sends the status notifications and real-time order events
+   */
+  async transition(input: OrderTransitionInput) {
+    const order = await prisma.order.findUnique({
+      where: { id: input.orderId },
+    });
+
+    if (!order) {
+      throw new Error("Order not found");
+    }
+
+    if (input.restaurantId && order.restaurantId !== input.restaurantId) {
+      throw new Error("Unauthorized: This order does not belong to your restaurant");
+    }
+
+    if (input.userId && order.userId !== input.userId) {
+      throw new Error("Unauthorized: This order does not belong to you");
+    }
+
+    const role = getActorRole(input.actor);
+    if (!canTransition(order.status, input.toStatus, role, order.fulfilmentType)) {
+      const verb = TRANSITION_VERBS[input.toStatus];
+      throw new Error(
+        verb
+          ? `Order cannot be ${verb}. Current status: ${order.status}`
+          : `Invalid status transition from ${order.status} to ${input.toStatus}`
+      );
+    }
+
+    const updateData: any = {
+      status: input.toStatus,
+      ...input.data,
+    };
+
+    // Set delivery time if marking as delivered
+    if (input.toStatus === "DELIVERED") {
+      updateData.actualDeliveryTime = new Date();
+
+      // Auto-mark COD orders as paid when delivered
+      if (order.paymentMethod === "CASH" && order.paymentStatus === "PENDING") {
+        updateData.paymentStatus = "PAID";
+        updateData.paidAt = new Date();
+      }
+    }
+
+    const updatedOrder = await prisma.$transaction(async (tx) => {
+      // Only update if nobody changed the status since we read it
+      const result = await tx.order.updateMany({
+        where: { id: order.id, status: order.status },
+        data: updateData,
+      });
+
+      if (result.count === 0) {
+        throw new Error(
+          `Invalid status transition from ${order.status} to ${input.toStatus}: order was updated by another request`
+        );
+      }
+
+      await orderStatusHistoryService.record(tx, {
+        orderId: order.id,
+        fromStatus: order.status,
+        status: input.toStatus,
+        reason: input.reason,
+        actor: input.actor,
+      });
+
+      // Orders that won't be fulfilled give their promo code redemption and item stock back
+      if (input.toStatus === "CANCELLED" || input.toStatus === "REJECTED") {
+        await promoCodeService.releaseOrderRedemptions(tx, order.id);
+        await menuItemAvailabilityService.releaseStock(tx, order.id);
+      }
+
+      return tx.order.findUniqueOrThrow({
+        where: { id: order.id },
+        include: {
+          items: true,
+          user: {
+            select: {
+              id: true,
+              name: true,
+              phoneNumber: true,
+              expoPushToken: true,
+            },
+          },
+          restaurant: {
+            include: {
+              user: {
+                select: {
+                  id: true,
+                  expoPushToken: true,
+                },
+              },
+            },
+          },
+        },
+      });
+    });
+
+    // Automatically trigger refund for paid card orders that will not be fulfilled
+    let refundInitiated = false;
+    if (
+      UNFULFILLED_ORDER_STATUSES.includes(input.toStatus) &&
+      order.paymentMethod === "CARD" &&
+      (order.paymentStatus === "PAID" || order.paymentStatus === "PARTIALLY_REFUNDED") &&
+      (order.stripePaymentIntentId || order.orderGroupId)
+    ) {
+      try {
+        console.log(`[OrderLifecycle] Initiating automatic refund for ${input.toStatus} order ${order.id}`);
+        await refundOrder(
+          order.id,
+          undefined,
+          input.actor?.id,
+          input.actor?.role,
+          input.reason ?? `Order ${input.toStatus.toLowerCase()}`
+        );
+        refundInitiated = true;
+      } catch (error: any) {
+        // Log error but don't fail the transition - refund should be handled manually
+        console.error(`[OrderLifecycle] Failed to initiate automatic refund for order ${order.id}:`, error.message);
+      }
+    }
+
+    // Notify user about the new status (only statuses with messages are sent)
+    try {
+      await notifyUserOrderStatus(updatedOrder);
+    } catch (error: any) {
+      console.error("[OrderLifecycle] Failed to send order status notification to user:", error.message);
+    }
+
+    // Notify restaurant and admin when the order will not be fulfilled
+    if (input.toStatus === "CANCELLED" || input.toStatus === "REJECTED") {
+      try {
+        await notifyRestaurantAndAdminCancelled(updatedOrder);
+      } catch (error: any) {
+        console.error("[OrderLifecycle] Failed to send cancellation notification to restaurant/admin:", error.message);
+      }
+    }
+
+    // Push the change to open tracking streams
+    orderEventsService.publishStatusChange(updatedOrder, input.reason);
+    if (input.data?.estimatedDeliveryTime !== undefined) {
+      orderEventsService.publishEtaUpdate(updatedOrder);
+    }
+    if (updatedOrder.paymentStatus !== order.paymentStatus) {
+      orderEventsService.publishPaymentStatus(updatedOrder);
+    }
+
+    return {
+      order: updatedOrder,
+      previousStatus: order.status,
+      refundInitiated,
+    };
+  },
+};
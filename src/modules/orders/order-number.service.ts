@@ -0,0 +1,140 @@
+import type { Prisma } from "../../generated/prisma/client";
+
+/**
+ * Order Numbers
+ *
+ * Generates short, human-friendly order numbers from a per-restaurant daily sequence,
+ * e.g. `KFC-261019-0042` (42nd order of KFC on October 19, 2026). Numbers are unique per
+ * restaurant, so restaurants sharing a prefix don't compete for the same numbers.
+ *
+ * The format is configured per mall (`Mall.orderNumberFormat`) with these tokens:
+ * - `{PREFIX}` - restaurant prefix (`Restaurant.orderNumberPrefix`, or derived from its name)
+ * - `{YYYY}`, `{YY}`, `{MM}`, `{DD}` - order date (UTC)
+ * - `{SEQ}` / `{SEQ:n}` - daily sequence, zero-padded to n digits (default 4)
+ *
+ * Formats must contain the year, month and day, so numbers don't repeat from one year to the next.
+ *
+ * The sequence row is incremented inside the order transaction, so concurrent checkouts for
+ * the same restaurant are serialized by the row lock; numbers already taken by an existing order
+ * (e.g. after the mall format changed) are skipped. Use `withRetry` around the transaction to retry
+ * on the rare unique conflict of two checkouts creating the first sequence row of the day.
+ *
+ * @module orders/order-number.service
+ */
+
+export const DEFAULT_ORDER_NUMBER_FORMAT = "{PREFIX}-{YY}{MM}{DD}-{SEQ:4}";
+
+const MAX_ATTEMPTS = 5;
+const SEQ_TOKEN = /\{SEQ(?::(\d+))?\}/g;
+
+/**
+ * Checks that a mall format produces unique numbers: it needs the sequence and the full date
+ */
+export function isValidOrderNumberFormat(format: string): boolean {
+  return (
+    /\{SEQ(?::\d+)?\}/.test(format) &&
+    (format.includes("{YYYY}") || format.includes("{YY}")) &&
+    format.includes("{MM}") &&
+    format.includes("{DD}")
+  );
+}
+
+// Uppercase letters and digits of the restaurant name, e.g. "Burger King" -> "BUR"
+function derivePrefix(name?: string | null): string {
+  const cleaned = (name ?? "").toUpperCase().replace(/[^A-Z0-9]/g, "");
+  return cleaned.slice(0, 3) || "ORD";
+}
+
+// Day key of the sequence (UTC), e.g. "20261019"
+function toDayKey(date: Date): string {
+  return date.toISOString().slice(0, 10).replace(/-/g, "");
+}
+
+export function formatOrderNumber(
+  format: string,
+  values: { prefix: string; date: Date; sequence: number }
+): string {
+  const yyyy = String(values.date.getUTCFullYear());
+  const mm = String(values.date.getUTCMonth() + 1).padStart(2, "0");
+  const dd = String(values.date.getUTCDate()).padStart(2, "0");
+
+  return format
+    .replace(SEQ_TOKEN, (_match, width?: string) => String(values.sequence).padStart(Number(width ?? 4), "0"))
+    .replace(/\{PREFIX\}/g, values.prefix)
+    .replace(/\{YYYY\}/g, yyyy)
+    .replace(/\{YY\}/g, yyyy.slice(-2))
+    .replace(/\{MM\}/g, mm)
+    .replace(/\{DD\}/g, dd);
+}
+
+// Unique violations caused by the sequence row (two checkouts creating the first row of the day)
+function isSequenceConflict(error: any): boolean {
+  if (error?.code !== "P2002") {
+    return false;
+  }
+  const target = JSON.stringify(error.meta?.target ?? "");
+  return error.meta?.modelName === "OrderNumberSequence" || target.includes("OrderNumberSequence");
+}
+
+export const orderNumberService = {
+  /**
+   * Reserves the next order number of a restaurant.
+   * Must run inside the transaction that creates the order.
+   */
+  async next(tx: Prisma.TransactionClient, restaurantId: string, date: Date = new Date()) {
+    const restaurant = await tx.restaurant.findUnique({
+      where: { userId: restaurantId },
+      select: {
+        name: true,
+        orderNumberPrefix: true,
+        mall: { select: { orderNumberFormat: true } },
+      },
+    });
+
+    if (!restaurant) {
+      throw new Error("Restaurant not found");
+    }
+
+    // Formats saved before the full date was required fall back to the default
+    const mallFormat = restaurant.mall.orderNumberFormat;
+    const format = mallFormat && isValidOrderNumberFormat(mallFormat) ? mallFormat : DEFAULT_ORDER_NUMBER_FORMAT;
+    const prefix = restaurant.orderNumberPrefix || derivePrefix(restaurant.name);
+    const day = toDayKey(date);
+
+    for (;;) {
+      const sequence = await tx.orderNumberSequence.upsert({
+        where: { restaurantId_day: { restaurantId, day } },
+        create: { restaurantId, day, lastValue: 1 },
+        update: { lastValue: { increment: 1 } },
+      });
+
+      const orderNumber = formatOrderNumber(format, { prefix, date, sequence: sequence.lastValue });
+      const taken = await tx.order.findUnique({
+        where: { restaurantId_orderNumber: { restaurantId, orderNumber } },
+        select: { id: true },
+      });
+      if (!taken) {
+        return orderNumber;
+      }
+      console.warn(`[OrderNumber] Order number ${orderNumber} already taken, moving the sequence forward`, {
+        restaurantId,
+      });
+    }
+  },
+
+  /**
+   * Runs an order-creating transaction, retrying when two checkouts created the same sequence row
+   */
+  async withRetry<T>(run: () => Promise<T>): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await run();
+      } catch (error: any) {
+        if (!isSequenceConflict(error) || attempt >= MAX_ATTEMPTS) {
+          throw error;
+        }
+        console.warn(`[OrderNumber] Order number sequence conflict, retrying (attempt ${attempt + 1}/${MAX_ATTEMPTS})`);
+      }
+    }
+  },
+};
@@ -0,0 +1,68 @@
+import prisma from "../../config/prisma";
+import type { Prisma, OrderStatus, Role } from "../../generated/prisma/client";
+
+/**
+ * Who performed an order status change.
+ * Leave both fields empty for system-driven transitions (webhooks, schedulers).
+ */
+export type OrderStatusActor = {
+  id?: string | undefined;
+  role?: string | undefined;
+};
+
+export type RecordOrderStatusInput = {
+  orderId: string;
+  fromStatus?: OrderStatus | null | undefined;
+  status: OrderStatus;
+  reason?: string | null | undefined;
+  actor?: OrderStatusActor | undefined;
+};
+
+// Normalizes the role coming from the session (may be lowercase) to the Role enum
+function toRole(role?: string): Role | null {
+  const value = role ? String(role).toUpperCase() : "";
+  if (value === "USER" || value === "ADMIN" || value === "RESTAURANT") {
+    return value;
+  }
+  return null;
+}
+
+export const orderStatusHistoryService = {
+  /**
+   * Records a status transition for an order.
+   * Pass the transaction client so the history row is written together with the order update.
+   */
+  async record(client: Prisma.TransactionClient, input: RecordOrderStatusInput) {
+    return client.orderStatusHistory.create({
+      data: {
+        orderId: input.orderId,
+        fromStatus: input.fromStatus ?? null,
+        status: input.status,
+        reason: input.reason ?? null,
+        actionById: input.actor?.id ?? null,
+        actionByRole: toRole(input.actor?.role),
+      },
+    });
+  },
+
+  /**
+   * Get the full status history (audit trail) of an order, oldest first
+   */
+  async getOrderStatusHistory(orderId: string) {
+    return prisma.orderStatusHistory.findMany({
+      where: { orderId },
+      orderBy: { createdAt: "asc" },
+    });
+  },
+
+  /**
+   * Maps each status to the time the order most recently entered it
+   */
+  getStatusTimes(history: Array<{ status: OrderStatus; createdAt: Date }>) {
+    const times: Partial<Record<OrderStatus, Date>> = {};
+    for (const entry of history) {
+      times[entry.status] = entry.createdAt;
+    }
+    return times;
+  },
+};
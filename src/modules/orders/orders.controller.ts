@@ -120,7 +120,11 @@ export const ordersController = {
       if (error.message.includes("not found")) {
         return res.status(404).json({ message: error.message });
       }
-      if (error.message.includes("Unauthorized") || error.message.includes("cannot be cancelled")) {
+      if (
+        error.message.includes("Unauthorized") ||
+        error.message.includes("cannot be cancelled") ||
+        error.message.includes("Invalid status transition")
+      ) {
         return res.status(400).json({ message: error.message });
       }
       return res.status(500).json({ message: error.message });
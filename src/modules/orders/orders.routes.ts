@@ -28,6 +28,7 @@ const router = Router();
  *         schema:
  *           type: string
  *           enum:
+ *             - SCHEDULED
  *             - PENDING
  *             - ACCEPTED
  *             - PREPARING
@@ -119,7 +120,7 @@ router.get("/list", requireAuth, requireUserRole, ordersController.getUserOrders
  *     summary: Get active orders
  *     tags: [Orders]
  *     description: |
- *       Retrieve active orders that are still being processed (PENDING, ACCEPTED, PREPARING, READY, OUT_FOR_DELIVERY).
+ *       Retrieve active orders that are still being processed (SCHEDULED, PENDING, ACCEPTED, PREPARING, READY, OUT_FOR_DELIVERY).
  *       These are orders that haven't been delivered or cancelled yet.
  *     parameters:
  *       - in: query
@@ -333,6 +334,7 @@ router.post("/cancel", requireAuth, requireUserRole, ordersController.cancelOrde
  *       Add all items from a past order to the user's cart.
  *       Only works for orders in DELIVERED or CANCELLED state.
  *       Creates a new cart if needed.
+ *       Items are added at today's prices; `priceChanges` lists the items whose price differs from the original order.
  *     requestBody:
  *       required: true
  *       content:
@@ -382,6 +384,11 @@ router.post("/cancel", requireAuth, requireUserRole, ordersController.cancelOrde
  *                             type: string
  *                           quantity:
  *                             type: integer
+ *                           unitPrice:
+ *                             type: number
+ *                             description: Today's unit price, kept on the cart item
+ *                     priceChanges:
+ *                       $ref: '#/components/schemas/PriceChanges'
  *       400:
  *         description: Invalid request or order cannot be reordered
  *       404:
@@ -459,10 +466,11 @@ router.get("/cancellation-reasons", requireAuth, requireUserRole, ordersControll
  *                   type: string
  *                 orderNumber:
  *                   type: string
- *                   example: "#1234"
+ *                   example: "KFC-261019-0042"
  *                 status:
  *                   type: string
  *                   enum:
+ *                     - SCHEDULED
  *                     - PENDING
  *                     - ACCEPTED
  *                     - PREPARING
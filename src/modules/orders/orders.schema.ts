@@ -4,7 +4,7 @@ import { z } from "zod";
 export const getUserOrdersSchema = z.object({
   userId: z.string().min(1, "User ID is required"),
   status: z
-    .enum(["PENDING", "ACCEPTED", "PREPARING", "READY", "OUT_FOR_DELIVERY", "DELIVERED", "CANCELLED"])
+    .enum(["SCHEDULED", "PENDING", "ACCEPTED", "PREPARING", "READY", "OUT_FOR_DELIVERY", "DELIVERED", "CANCELLED"])
     .optional(),
   limit: z.number().int().positive().default(10),
   offset: z.number().int().nonnegative().default(0),
@@ -1,11 +1,7 @@
 import prisma from "../../config/prisma";
+import { cartPriceService } from "../cart/cart-price.service";
 import { CancelOrderInput, ReorderInput, GetAcceptedOrdersInput } from "./orders.schema";
-import { refundOrder } from "../payments/order-refund/orderrefund.service";
-import {
-  notifyUserOrderStatus,
-  notifyRestaurantAndAdminNewOrder,
-  notifyRestaurantAndAdminCancelled,
-} from "../notifications/notification.service";
+import { orderLifecycleService } from "./order-lifecycle.service";
 
 
 export const ordersService = {
@@ -83,10 +79,10 @@ export const ordersService = {
   },
 
   /**
-   * Get active orders (PENDING, ACCEPTED, PREPARING, READY, OUT_FOR_DELIVERY)
+   * Get active orders (SCHEDULED, PENDING, ACCEPTED, PREPARING, READY, OUT_FOR_DELIVERY)
    */
   async getActiveOrders(userId: string, limit: number = 10, offset: number = 0) {
-    const statuses: any[] = ["PENDING", "ACCEPTED", "PREPARING", "READY", "OUT_FOR_DELIVERY"];
+    const statuses: any[] = ["SCHEDULED", "PENDING", "ACCEPTED", "PREPARING", "READY", "OUT_FOR_DELIVERY"];
     const where = {
       userId,
       status: {
@@ -221,105 +217,20 @@ export const ordersService = {
 
   /**
    * Cancel an order with reason
+   * Users can only cancel orders the restaurant has not accepted yet (see order lifecycle)
    */
   async cancelOrder(input: CancelOrderInput) {
-    const order = await prisma.order.findUnique({
-      where: { id: input.orderId },
-      include: {
-        items: true,
-      },
-    });
-
-    if (!order) {
-      throw new Error("Order not found");
-    }
-
-    // Verify order belongs to the user
-    if (order.userId !== input.userId) {
-      throw new Error("Unauthorized: This order does not belong to you");
-    }
-
-    // Only allow cancellation if order is not already delivered or cancelled
-    if (order.status === "DELIVERED" || order.status === "CANCELLED") {
-      throw new Error(`Order cannot be cancelled. Current status: ${order.status}`);
-    }
-
-    // Prevent cancellation if order has been accepted by restaurant
-    if (order.status === "ACCEPTED" || order.status === "PREPARING" || order.status === "READY" || order.status === "OUT_FOR_DELIVERY") {
-      throw new Error(`Order cannot be cancelled after it has been accepted by the restaurant. Current status: ${order.status}`);
-    }
-
-    // Store original status and payment info before updating (for refund logic)
-    const originalStatus = order.status;
-    const shouldAutoRefund = 
-      originalStatus === "PENDING" &&
-      order.paymentMethod === "CARD" &&
-      order.paymentStatus === "PAID" &&
-      order.stripePaymentIntentId;
-
-    // Update order status to CANCELLED
-    const updatedOrder = await prisma.order.update({
-      where: { id: input.orderId },
+    const { order: updatedOrder, refundInitiated } = await orderLifecycleService.transition({
+      orderId: input.orderId,
+      toStatus: "CANCELLED",
+      userId: input.userId,
+      reason: input.reason,
+      actor: { id: input.userId, role: "USER" },
       data: {
-        status: "CANCELLED",
         specialInstructions: `Cancellation reason: ${input.reason}`,
       },
-      include: {
-        items: true,
-        user: {
-          select: {
-            id: true,
-            expoPushToken: true,
-          },
-        },
-        restaurant: {
-          include: {
-            user: {
-              select: {
-                id: true,
-                expoPushToken: true,
-              },
-            },
-          },
-        },
-      },
     });
 
-    // Automatically trigger refund if:
-    // 1. Order was in PENDING status (not accepted yet)
-    // 2. Payment method is CARD
-    // 3. Payment status is PAID
-    // 4. Stripe payment intent exists
-    let refundInitiated = false;
-    if (shouldAutoRefund) {
-      try {
-        console.log(`[CancelOrder] Initiating automatic refund for cancelled order ${order.id}`);
-        await refundOrder(order.id, undefined, input.userId, "USER");
-        refundInitiated = true;
-        console.log(`[CancelOrder] Automatic refund initiated successfully for order ${order.id}`);
-      } catch (error: any) {
-        // Log error but don't fail the cancellation
-        console.error(`[CancelOrder] Failed to initiate automatic refund for order ${order.id}:`, error.message);
-        // Note: Order is still cancelled, but refund failed - this should be handled manually
-      }
-    }
-
-    // Notify user about order cancellation
-    try {
-      await notifyUserOrderStatus(updatedOrder);
-    } catch (error: any) {
-      console.error("[Orders] Failed to send order cancellation notification to user:", error.message);
-      // Don't fail cancellation if notification fails
-    }
-
-    // Notify restaurant and admin about order cancellation
-    try {
-      await notifyRestaurantAndAdminCancelled(updatedOrder);
-    } catch (error: any) {
-      console.error("[Orders] Failed to send order cancellation notification to restaurant/admin:", error.message);
-      // Don't fail cancellation if notification fails
-    }
-
     return {
       id: updatedOrder.id,
       orderNumber: updatedOrder.orderNumber,
@@ -374,9 +285,12 @@ export const ordersService = {
     // Check if items are from the same restaurant
     const restaurantId = order.restaurantId;
 
+    // Differences between the prices of the original order and today's prices
+    const { prices, ...priceChanges } = await cartPriceService.compare(order.items);
+
     // Add items to cart
     const cartItems = await Promise.all(
-      order.items.map((item: any) =>
+      order.items.map((item: any, index: number) =>
         prisma.cartItem.create({
           data: {
             cartId: cart.id,
@@ -384,6 +298,7 @@ export const ordersService = {
             menuItemId: item.menuItemId,
             quantity: item.quantity,
             specialNotes: item.specialNotes,
+            unitPrice: prices[index]?.unitPrice ?? null,
             selectedVariations: item.selectedVariations,
             selectedAddOns: item.selectedAddOns,
           },
@@ -402,7 +317,9 @@ export const ordersService = {
         id: item.id,
         name: item.menuItem.name,
         quantity: item.quantity,
+        unitPrice: item.unitPrice ? item.unitPrice.toNumber() : null,
       })),
+      priceChanges,
     };
   },
 
@@ -567,11 +484,16 @@ export const ordersService = {
           name: order.restaurant.mall.name,
         },
       },
-      deliveryAddress: {
-        label: order.deliveryAddress.label,
-        address: order.deliveryAddress.address,
-        city: order.deliveryAddress.city,
-      },
+      fulfilmentType: order.fulfilmentType,
+      tableNumber: order.tableNumber,
+      // Only delivery orders have an address
+      deliveryAddress: order.deliveryAddress
+        ? {
+            label: order.deliveryAddress.label,
+            address: order.deliveryAddress.address,
+            city: order.deliveryAddress.city,
+          }
+        : null,
       items: order.items.map((item) => ({
         id: item.id,
         itemName: item.itemName,
@@ -715,6 +637,8 @@ export const ordersService = {
         deliveryFee: Number.parseFloat(order.deliveryFee.toString()),
         discount: Number.parseFloat(order.discount.toString()),
         paymentMethod: order.paymentMethod,
+        fulfilmentType: order.fulfilmentType,
+        tableNumber: order.tableNumber,
         deliveryAddress: order.deliveryAddress?.address || "N/A",
         deliveryCity: order.deliveryAddress?.city || "N/A",
         deliveryLabel: order.deliveryAddress?.label || "N/A",
@@ -0,0 +1,38 @@
+import { timingSafeEqual } from "node:crypto";
+import { Request, Response } from "express";
+import { scheduledOrderService } from "./scheduled-order.service";
+
+// Cron requests carry `Authorization: Bearer <CRON_SECRET>` (sent by Vercel Cron Jobs)
+function isCronRequest(req: Request): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    return false;
+  }
+
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const received = Buffer.from(req.headers.authorization ?? "");
+  return received.length === expected.length && timingSafeEqual(received, expected);
+}
+
+export const scheduledOrderController = {
+  /**
+   * GET /cron/release-scheduled-orders - Release due pre-orders to the restaurants (cron job)
+   */
+  async releaseDueOrders(req: Request, res: Response) {
+    if (!isCronRequest(req)) {
+      console.warn("[ScheduledOrders] Rejected cron request with a missing or invalid secret");
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const released = await scheduledOrderService.releaseDueOrders();
+      return res.json({
+        message: "Scheduled orders released successfully",
+        data: { released },
+      });
+    } catch (error: any) {
+      console.error("[ScheduledOrders] Cron run failed:", error.message);
+      return res.status(500).json({ message: error.message });
+    }
+  },
+};
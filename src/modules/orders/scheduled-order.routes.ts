@@ -0,0 +1,48 @@
+import { Router } from "express";
+import { scheduledOrderController } from "./scheduled-order.controller";
+
+const router = Router();
+
+/**
+ * @swagger
+ * /cron/release-scheduled-orders:
+ *   get:
+ *     summary: Release due scheduled orders (cron job)
+ *     tags: [Orders]
+ *     description: |
+ *       Moves scheduled pre-orders whose release time has come to PENDING and notifies their restaurants.
+ *       Called every minute by the Vercel cron job (see vercel.json): serverless instances don't run the
+ *       in-process scheduler between requests. Authenticated with `Authorization: Bearer <CRON_SECRET>`
+ *       instead of a session.
+ *     parameters:
+ *       - in: header
+ *         name: Authorization
+ *         required: true
+ *         schema:
+ *           type: string
+ *         example: "Bearer your-cron-secret"
+ *     responses:
+ *       200:
+ *         description: Due orders released
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                   example: "Scheduled orders released successfully"
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     released:
+ *                       type: integer
+ *                       example: 3
+ *       401:
+ *         description: Missing or invalid cron secret
+ *       500:
+ *         description: Internal server error
+ */
+router.get("/release-scheduled-orders", scheduledOrderController.releaseDueOrders);
+
+export default router;
@@ -0,0 +1,140 @@
+import prisma from "../../config/prisma";
+import { availabilityService } from "../availability/availability.service";
+import { notifyRestaurantAndAdminNewOrder } from "../notifications/notification.service";
+import { orderLifecycleService } from "./order-lifecycle.service";
+import { orderEventsService } from "./order-events.service";
+
+/**
+ * Scheduled Orders
+ *
+ * Pre-orders placed now for a later time (e.g. pickup after a movie). Checkout stores them as
+ * SCHEDULED with the requested `scheduledFor` and a `releaseAt` that is the mall's
+ * `preOrderLeadMinutes` earlier. `releaseDueOrders` moves due orders to PENDING, which puts
+ * them in the restaurant's incoming queue, and only then notifies the restaurant.
+ *
+ * Due orders are released by a cron job calling `GET /api/cron/release-scheduled-orders` every minute
+ * (see vercel.json), since serverless instances run nothing between requests. Long-running servers
+ * also poll with the in-process scheduler. Both can run at once: the SCHEDULED → PENDING transition
+ * is conditional, so each order is released once.
+ *
+ * @module orders/scheduled-order.service
+ */
+
+// Latest time a customer can schedule an order for
+export const MAX_SCHEDULE_AHEAD_DAYS = 7;
+
+const DEFAULT_POLL_INTERVAL_MS = 60_000;
+// Orders released per scheduler run
+const RELEASE_BATCH_SIZE = 50;
+
+let timer: NodeJS.Timeout | null = null;
+let running = false;
+
+export const scheduledOrderService = {
+  /**
+   * Validates a requested order time against the mall's lead time and the restaurant's
+   * business hours, and returns when the order should reach the restaurant
+   */
+  async resolveSchedule(restaurantId: string, mallId: string, scheduledFor: Date, now: Date = new Date()) {
+    const mall = await prisma.mall.findUnique({
+      where: { id: mallId },
+      select: { preOrderLeadMinutes: true },
+    });
+
+    if (!mall) {
+      throw new Error("Mall not found");
+    }
+
+    const leadMs = mall.preOrderLeadMinutes * 60_000;
+    if (scheduledFor.getTime() < now.getTime() + leadMs) {
+      throw new Error(`The scheduled time must be at least ${mall.preOrderLeadMinutes} minutes from now`);
+    }
+    if (scheduledFor.getTime() > now.getTime() + MAX_SCHEDULE_AHEAD_DAYS * 24 * 60 * 60_000) {
+      throw new Error(`The scheduled time cannot be more than ${MAX_SCHEDULE_AHEAD_DAYS} days ahead`);
+    }
+
+    await availabilityService.assertOpenAt(restaurantId, scheduledFor);
+
+    return {
+      scheduledFor,
+      releaseAt: new Date(Math.max(now.getTime(), scheduledFor.getTime() - leadMs)),
+    };
+  },
+
+  /**
+   * Releases scheduled orders whose release time has come to the restaurant's incoming queue
+   */
+  async releaseDueOrders(now: Date = new Date()) {
+    const dueOrders = await prisma.order.findMany({
+      where: { status: "SCHEDULED", releaseAt: { lte: now } },
+      select: { id: true },
+      orderBy: { releaseAt: "asc" },
+      take: RELEASE_BATCH_SIZE,
+    });
+
+    let released = 0;
+    for (const { id } of dueOrders) {
+      try {
+        const { order } = await orderLifecycleService.transition({
+          orderId: id,
+          toStatus: "PENDING",
+          reason: "Scheduled order released to the restaurant",
+        });
+        released++;
+
+        try {
+          await notifyRestaurantAndAdminNewOrder(order);
+        } catch (error: any) {
+          console.error(`[ScheduledOrders] Failed to send new order notification for ${id}:`, error.message);
+        }
+        orderEventsService.publishNewOrder(order);
+      } catch (error: any) {
+        // Cancelled or released elsewhere in the meantime
+        console.warn(`[ScheduledOrders] Could not release order ${id}:`, error.message);
+      }
+    }
+
+    if (released > 0) {
+      console.log(`[ScheduledOrders] Released ${released} scheduled order(s)`);
+    }
+    return released;
+  },
+
+  /**
+   * Starts the in-process scheduler of long-running servers (interval from SCHEDULED_ORDERS_POLL_INTERVAL_MS,
+   * default 1 minute); serverless deployments rely on the cron job
+   */
+  start(intervalMs: number = Number(process.env.SCHEDULED_ORDERS_POLL_INTERVAL_MS) || DEFAULT_POLL_INTERVAL_MS) {
+    if (timer) {
+      return;
+    }
+
+    const tick = async () => {
+      // Skip a tick while the previous run is still releasing orders
+      if (running) {
+        return;
+      }
+      running = true;
+      try {
+        await this.releaseDueOrders();
+      } catch (error: any) {
+        console.error("[ScheduledOrders] Scheduler run failed:", error.message);
+      } finally {
+        running = false;
+      }
+    };
+
+    timer = setInterval(tick, intervalMs);
+    // Don't keep the process alive just for the scheduler
+    timer.unref();
+    void tick();
+    console.log(`[ScheduledOrders] Scheduler started (every ${Math.round(intervalMs / 1000)}s)`);
+  },
+
+  stop() {
+    if (timer) {
+      clearInterval(timer);
+      timer = null;
+    }
+  },
+};
@@ -1,5 +1,5 @@
 import { Request, Response } from "express";
-import { createStripePaymentIntent } from "./orderpayment.service";
+import { createStripeGroupPaymentIntent, createStripePaymentIntent } from "./orderpayment.service";
 
 /**
  * Create payment intent controller
@@ -38,7 +38,53 @@ export async function createPaymentIntent(req: Request, res: Response) {
     const statusCode = err.message.includes("not found") ? 404 :
                       err.message.includes("Unauthorized") ? 403 :
                       err.message.includes("already paid") ? 400 :
-                      err.message.includes("not CARD") ? 400 : 500;
+                      err.message.includes("not CARD") ? 400 :
+                      err.message.includes("order group") ? 400 : 500;
+
+    return res.status(statusCode).json({
+      success: false,
+      message: err.message || "Failed to create payment intent",
+    });
+  }
+}
+
+/**
+ * Create group payment intent controller
+ * One payment for all orders of a multi-restaurant checkout
+ */
+export async function createGroupPaymentIntent(req: Request, res: Response) {
+  try {
+    const auth = (req as any).auth;
+    if (!auth || !auth.user) {
+      return res.status(401).json({
+        success: false,
+        message: "Unauthorized",
+      });
+    }
+
+    const { orderGroupId } = req.body;
+    if (!orderGroupId) {
+      return res.status(400).json({
+        success: false,
+        message: "Missing orderGroupId in request body",
+      });
+    }
+
+    const clientSecret = await createStripeGroupPaymentIntent(req, orderGroupId);
+
+    return res.status(200).json({
+      success: true,
+      message: "PaymentIntent created successfully",
+      data: {
+        clientSecret,
+      },
+    });
+  } catch (err: any) {
+    const statusCode = err.message.includes("not found") ? 404 :
+                      err.message.includes("not authorized") ? 403 :
+                      err.message.includes("already paid") ? 400 :
+                      err.message.includes("not CARD") ? 400 :
+                      err.message.includes("No orders left") ? 400 : 500;
 
     return res.status(statusCode).json({
       success: false,
@@ -1,5 +1,5 @@
 import { Router } from "express";
-import { createPaymentIntent } from "./orderpayment.controller";
+import { createGroupPaymentIntent, createPaymentIntent } from "./orderpayment.controller";
 import { stripeWebhookHandler } from "../stripe-webhooks/stripe.webhook";
 import express from "express";
 import { requireAuth, requireUserRole } from "../../../middlewares/role.middleware";
@@ -24,6 +24,7 @@ const router = Router();
  *       - User must be authenticated
  *       - Order must exist
  *       - Order payment method must be CARD
+ *       - Order must not belong to an order group (those are paid with `/payments/create-group-payment-intent`)
  *       
  *       **What happens:**
  *       - Creates a Stripe PaymentIntent with the order total amount
@@ -89,6 +90,10 @@ const router = Router();
  *                 summary: Order payment method is not CARD
  *                 value:
  *                   message: "Order payment method is not CARD"
+ *               orderGroup:
+ *                 summary: Order is paid with its order group
+ *                 value:
+ *                   message: "This order is paid with its order group. Create the payment intent for the order group instead."
  *       401:
  *         description: Unauthorized - User not authenticated
  *         content:
@@ -123,5 +128,74 @@ const router = Router();
 // Payment intent creation requires authenticated user
 router.post("/create-payment-intent", requireAuth, createPaymentIntent);
 
+/**
+ * @swagger
+ * /payments/create-group-payment-intent:
+ *   post:
+ *     summary: Create Stripe payment intent for an order group
+ *     tags: [Payments]
+ *     security:
+ *       - cookieAuth: []
+ *     description: |
+ *       Create one Stripe PaymentIntent for an order group, i.e. a checkout of a cart with items
+ *       from several restaurants (one order per restaurant). The customer pays the group total once.
+ *       
+ *       **Requirements:**
+ *       - User must be authenticated and own the order group
+ *       - Order group payment method must be CARD
+ *       
+ *       **What happens:**
+ *       - Creates a Stripe PaymentIntent for the group total (collected by the platform)
+ *       - Saves the PaymentIntent ID to the order group
+ *       - When the payment succeeds, the group and all of its orders are marked as paid and each
+ *         restaurant's share (its order total minus the platform commission) is transferred to its
+ *         Stripe Connect account
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - orderGroupId
+ *             properties:
+ *               orderGroupId:
+ *                 type: string
+ *                 format: uuid
+ *                 description: Order group ID to create payment intent for
+ *                 example: "8f14e45f-ceea-467f-a8a4-1d2f3c4b5a6e"
+ *     responses:
+ *       200:
+ *         description: PaymentIntent created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "PaymentIntent created successfully"
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     clientSecret:
+ *                       type: string
+ *                       example: "pi_3ABC123def456GHI_secret_xyz789"
+ *       400:
+ *         description: Missing orderGroupId, payment method is not CARD or group already paid
+ *       401:
+ *         description: Unauthorized - User not authenticated
+ *       403:
+ *         description: The order group belongs to another user
+ *       404:
+ *         description: Order group not found
+ *       500:
+ *         description: Internal server error or Stripe API error
+ */
+router.post("/create-group-payment-intent", requireAuth, createGroupPaymentIntent);
+
 
 export default router;
@@ -1,5 +1,6 @@
-import { stripe } from "../../../libs/stripe";
+import { paymentProvider } from "../../../libs/payments";
 import prisma from "../../../config/prisma";
+import { UNFULFILLED_ORDER_STATUSES } from "../../orders/order-lifecycle.service";
 import { auth } from "../../../libs/betterauth";
 import { Request } from "express";
 import dotenv from "dotenv";
@@ -19,6 +20,15 @@ export async function createStripePaymentIntent(req: Request, orderId: string) {
     console.error(`[Payment Intent] Order not found: ${orderId}`);
     throw new Error("Order not found");
   }
+
+  // Orders of a multi-restaurant checkout are paid together
+  if (order.orderGroupId) {
+    console.error(`[Payment Intent] Order belongs to an order group`, {
+      orderId,
+      orderGroupId: order.orderGroupId,
+    });
+    throw new Error("This order is paid with its order group. Create the payment intent for the order group instead.");
+  }
   
   if (!order.user.stripeCustomerId) {
     console.error(`[Payment Intent] User has no Stripe customer ID`, {
@@ -72,7 +82,7 @@ export async function createStripePaymentIntent(req: Request, orderId: string) {
 
   // BEFORE creating a new PaymentIntent, check if one already exists
   if (order.stripePaymentIntentId) {
-    const existingPI = await stripe.paymentIntents.retrieve(
+    const existingPI = await paymentProvider.retrievePaymentIntent(
       order.stripePaymentIntentId
     );
   
@@ -81,7 +91,7 @@ export async function createStripePaymentIntent(req: Request, orderId: string) {
       existingPI.status === "requires_payment_method" ||
       existingPI.status === "requires_confirmation"
     ) {
-      return existingPI.client_secret;
+      return existingPI.clientSecret;
     }
   }
   
@@ -97,44 +107,33 @@ export async function createStripePaymentIntent(req: Request, orderId: string) {
     const defaultCommissionRate = Number(process.env.DEFAULT_COMMISSION_RATE );
     const commission = Math.round(amountInCents * (order.restaurant.commissionRate ?? defaultCommissionRate));
 
-    paymentIntent = await stripe.paymentIntents.create({
+    paymentIntent = await paymentProvider.createPaymentIntent({
       amount: amountInCents,
       currency: currency,
-      customer: order.user.stripeCustomerId!,
-      automatic_payment_methods: {
-        enabled: true, // lets Stripe handle card types
-        allow_redirects: "never",
-      },
+      customerId: customerId,
       metadata: {
         orderId: order.id,
         userId: order.userId,
         restaurantId: order.restaurantId, // useful for Connect payments
       },
-      // Stripe Connect: transfer funds to restaurant's account
-      transfer_data: {
-        destination: order.restaurant.stripeConnectAccountId!,
+      // Stripe Connect: transfer funds to restaurant's account, minus the platform commission fee
+      destination: {
+        accountId: order.restaurant.stripeConnectAccountId!,
+        applicationFeeAmount: commission,
       },
-      // Platform commission fee
-      application_fee_amount: commission,
-    }, {
       idempotencyKey: `order_${order.id}`, // ensures no duplicate PaymentIntents
     });
   } else {
     // Regular PaymentIntent (no Connect - funds go to platform account)
-    paymentIntent = await stripe.paymentIntents.create({
+    paymentIntent = await paymentProvider.createPaymentIntent({
       amount: amountInCents,
       currency: currency,
-      customer: customerId,
-      automatic_payment_methods: {
-        enabled: true, // lets Stripe handle card types
-        allow_redirects: "never",
-      },
+      customerId: customerId,
       metadata: {
         orderId: order.id,
         userId: order.userId,
         restaurantId: order.restaurantId,
       },
-    }, {
       idempotencyKey: `order_${order.id}`, // ensures no duplicate PaymentIntents
     });
   }
@@ -155,5 +154,204 @@ export async function createStripePaymentIntent(req: Request, orderId: string) {
     isConnectPayment,
   });
 
-  return paymentIntent.client_secret;
+  return paymentIntent.clientSecret;
+}
+
+/**
+ * Create one PaymentIntent for an order group (multi-restaurant checkout).
+ * The platform collects the payment; each restaurant's share is transferred to its
+ * Stripe Connect account once the payment succeeds (see transferOrderGroupPayment).
+ * Orders cancelled or rejected before the payment are not charged: the amount is the total of
+ * the remaining orders, whose IDs are recorded in the PaymentIntent metadata (`orderIds`).
+ */
+export async function createStripeGroupPaymentIntent(req: Request, orderGroupId: string) {
+  const orderGroup = await prisma.orderGroup.findUnique({
+    where: { id: orderGroupId },
+    include: {
+      user: true,
+      orders: { select: { id: true, restaurantId: true, status: true, total: true } },
+    },
+  });
+
+  if (!orderGroup) {
+    console.error(`[Payment Intent] Order group not found: ${orderGroupId}`);
+    throw new Error("Order group not found");
+  }
+
+  if (!orderGroup.user.stripeCustomerId) {
+    console.error(`[Payment Intent] User has no Stripe customer ID`, {
+      orderGroupId,
+      userId: orderGroup.userId,
+    });
+    throw new Error("User does not have a Stripe customer ID. Please add a payment method first.");
+  }
+
+  if (orderGroup.paymentMethod !== "CARD") {
+    console.error(`[Payment Intent] Invalid payment method`, {
+      orderGroupId,
+      paymentMethod: orderGroup.paymentMethod,
+    });
+    throw new Error("Order payment method is not CARD");
+  }
+  if (orderGroup.userId !== (req as any).auth?.user?.id) {
+    console.error(`[Payment Intent] Unauthorized payment attempt`, {
+      orderGroupId,
+      orderUserId: orderGroup.userId,
+      requestUserId: (req as any).auth?.user?.id,
+    });
+    throw new Error("You are not authorized to pay for this order.");
+  }
+  if (orderGroup.paymentStatus === "PAID") {
+    console.error(`[Payment Intent] Order group already paid`, {
+      orderGroupId,
+      paymentStatus: orderGroup.paymentStatus,
+    });
+    throw new Error("Order already paid");
+  }
+
+  const payableOrders = orderGroup.orders.filter((order) => !UNFULFILLED_ORDER_STATUSES.includes(order.status));
+  if (payableOrders.length === 0) {
+    console.error(`[Payment Intent] No orders left to pay in order group`, {
+      orderGroupId,
+      orderStatuses: orderGroup.orders.map((order) => order.status),
+    });
+    throw new Error("No orders left to pay in this order group");
+  }
+
+  const currency = (process.env.STRIPE_CURRENCY || "usd").toLowerCase();
+  const amountInCents = payableOrders.reduce((sum, order) => sum + Math.round(Number(order.total) * 100), 0);
+  const orderIds = payableOrders.map((order) => order.id).join(",");
+
+  console.log(`[Payment Intent] Creating payment intent for order group ${orderGroupId}`, {
+    orderGroupId,
+    userId: orderGroup.userId,
+    orderIds: payableOrders.map((order) => order.id),
+    amount: amountInCents,
+    currency,
+  });
+
+  // Reuse the existing PaymentIntent while it can still be paid, repriced if orders were cancelled since
+  if (orderGroup.stripePaymentIntentId) {
+    const existingPI = await paymentProvider.retrievePaymentIntent(orderGroup.stripePaymentIntentId);
+    if (
+      existingPI.status === "requires_payment_method" ||
+      existingPI.status === "requires_confirmation"
+    ) {
+      if (existingPI.amount === amountInCents && existingPI.metadata.orderIds === orderIds) {
+        return existingPI.clientSecret;
+      }
+
+      const updatedPI = await paymentProvider.updatePaymentIntent(existingPI.id, {
+        amount: amountInCents,
+        metadata: { orderIds },
+      });
+      console.log(`[Payment Intent] Payment intent repriced`, {
+        orderGroupId,
+        paymentIntentId: updatedPI.id,
+        previousAmount: existingPI.amount,
+        amount: updatedPI.amount,
+      });
+      return updatedPI.clientSecret;
+    }
+  }
+
+  const paymentIntent = await paymentProvider.createPaymentIntent({
+    amount: amountInCents,
+    currency: currency,
+    customerId: orderGroup.user.stripeCustomerId,
+    metadata: {
+      orderGroupId: orderGroup.id,
+      userId: orderGroup.userId,
+      orderIds,
+    },
+    // Ties the restaurants' transfers to this payment
+    transferGroup: `order_group_${orderGroup.id}`,
+    // ensures no duplicate PaymentIntents for the same orders
+    idempotencyKey: `order_group_${orderGroup.id}_${amountInCents}`,
+  });
+
+  await prisma.orderGroup.update({
+    where: { id: orderGroup.id },
+    data: {
+      stripePaymentIntentId: paymentIntent.id,
+    },
+  });
+
+  console.log(`[Payment Intent] Payment intent created successfully`, {
+    orderGroupId,
+    paymentIntentId: paymentIntent.id,
+    amount: paymentIntent.amount,
+    currency: paymentIntent.currency,
+  });
+
+  return paymentIntent.clientSecret;
+}
+
+/**
+ * Transfer each restaurant's share of a paid order group to its Stripe Connect account:
+ * the order total minus the platform commission. Restaurants without a completed Connect
+ * account are paid out by the platform, like their single orders.
+ * Orders that already have a transfer are skipped, so this can be retried. Cancelled and
+ * rejected orders are refunded to the customer instead, so they are never paid out.
+ */
+export async function transferOrderGroupPayment(orderGroupId: string, chargeId: string) {
+  const orders = await prisma.order.findMany({
+    where: { orderGroupId, stripeTransferId: null, status: { notIn: UNFULFILLED_ORDER_STATUSES } },
+    include: { restaurant: true },
+  });
+
+  const currency = (process.env.STRIPE_CURRENCY || "usd").toLowerCase();
+  const defaultCommissionRate = Number(process.env.DEFAULT_COMMISSION_RATE);
+
+  for (const order of orders) {
+    const { restaurant } = order;
+    if (!restaurant.stripeConnectAccountId || restaurant.stripeAccountStatus !== "completed") {
+      console.log(`[Payment Transfer] Restaurant has no Connect account, skipping order ${order.id}`, {
+        orderGroupId,
+        orderId: order.id,
+        restaurantId: order.restaurantId,
+      });
+      continue;
+    }
+
+    const amountInCents = Math.round(Number(order.total) * 100);
+    const commission = Math.round(amountInCents * (restaurant.commissionRate ?? defaultCommissionRate));
+
+    try {
+      const transfer = await paymentProvider.createTransfer({
+        amount: amountInCents - commission,
+        currency,
+        destinationAccountId: restaurant.stripeConnectAccountId,
+        // Funds become available with the charge, even before the platform balance settles
+        sourceChargeId: chargeId,
+        transferGroup: `order_group_${orderGroupId}`,
+        metadata: {
+          orderId: order.id,
+          orderGroupId,
+          restaurantId: order.restaurantId,
+        },
+        idempotencyKey: `order_transfer_${order.id}`,
+      });
+
+      await prisma.order.update({
+        where: { id: order.id },
+        data: { stripeTransferId: transfer.id },
+      });
+
+      console.log(`[Payment Transfer] Transfer created`, {
+        orderGroupId,
+        orderId: order.id,
+        transferId: transfer.id,
+        amount: transfer.amount,
+        commission,
+      });
+    } catch (error: any) {
+      // The other restaurants are still paid; a failed transfer can be retried later
+      console.error(`[Payment Transfer] Failed to create transfer for order ${order.id}`, {
+        orderGroupId,
+        orderId: order.id,
+        error: error.message,
+      });
+    }
+  }
 }
@@ -1,6 +1,7 @@
 import { Request, Response } from "express";
-import { refundOrder } from "./orderrefund.service";
-import { refundOrderSchema } from "./orderrefund.schema";
+import { refundOrder, refundOrderItems } from "./orderrefund.service";
+import { refundLedgerService, toCents } from "./refund-ledger.service";
+import { orderRefundsSchema, refundItemsSchema, refundOrderSchema } from "./orderrefund.schema";
 
 /**
  * Refund payment controller
@@ -23,10 +24,10 @@ export async function refundPayment(req: Request, res: Response) {
       });
     }
 
-    const { orderId, amount } = parseResult.data;
+    const { orderId, amount, reason } = parseResult.data;
 
     // Process refund
-    const refund = await refundOrder(orderId, amount, userId, userRole);
+    const refund = await refundOrder(orderId, amount, userId, userRole, reason);
 
     // Return standardized success response
     return res.status(200).json({
@@ -34,8 +35,10 @@ export async function refundPayment(req: Request, res: Response) {
       message: "Refund initiated successfully",
       data: {
         refundId: refund.id,
-        amount: refund.amount,
+        stripeRefundId: refund.stripeRefundId,
+        amount: toCents(refund.amount),
         status: refund.status,
+        reason: refund.reason,
         orderId,
       },
     });
@@ -44,7 +47,8 @@ export async function refundPayment(req: Request, res: Response) {
     const statusCode = err.message.includes("not found") ? 404 :
                       err.message.includes("Unauthorized") ? 403 :
                       err.message.includes("cannot exceed") ? 400 :
-                      err.message.includes("not refundable") ? 400 : 500;
+                      err.message.includes("not refundable") ? 400 :
+                      err.message.includes("must be positive") ? 400 : 500;
 
     return res.status(statusCode).json({
       success: false,
@@ -52,3 +56,95 @@ export async function refundPayment(req: Request, res: Response) {
     });
   }
 }
+
+/**
+ * Refund items controller
+ * Refunds order items (missing or wrong items) for the amount paid for them
+ */
+export async function refundItems(req: Request, res: Response) {
+  try {
+    const auth = (req as any).auth;
+    const userId = auth?.user?.id;
+    const userRole = auth?.user?.role;
+
+    const parseResult = refundItemsSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      return res.status(400).json({
+        success: false,
+        message: "Validation error",
+        errors: parseResult.error.flatten(),
+      });
+    }
+
+    const refund = await refundOrderItems(parseResult.data, userId, userRole);
+
+    return res.status(200).json({
+      success: true,
+      message: "Refund initiated successfully",
+      data: {
+        refundId: refund.id,
+        stripeRefundId: refund.stripeRefundId,
+        amount: toCents(refund.amount),
+        deliveryFeeAmount: toCents(refund.deliveryFeeAmount),
+        taxAmount: toCents(refund.taxAmount),
+        items: refund.items.map((item) => ({
+          orderItemId: item.orderItemId,
+          itemName: item.orderItem.itemName,
+          quantity: item.quantity,
+          amount: toCents(item.amount),
+        })),
+        status: refund.status,
+        reason: refund.reason,
+        orderId: refund.orderId,
+      },
+    });
+  } catch (err: any) {
+    const statusCode = err.message.includes("not found") ? 404 :
+                      err.message.includes("Unauthorized") ? 403 :
+                      err.message.includes("cannot exceed") ? 400 :
+                      err.message.includes("not refundable") ? 400 :
+                      err.message.includes("Nothing to refund") ? 400 : 500;
+
+    return res.status(statusCode).json({
+      success: false,
+      message: err.message || "Failed to process refund",
+    });
+  }
+}
+
+/**
+ * List order refunds controller
+ * Refunds of an order with the refunded and refundable amounts
+ */
+export async function getOrderRefunds(req: Request, res: Response) {
+  try {
+    const auth = (req as any).auth;
+    const userId = auth?.user?.id;
+    const userRole = auth?.user?.role;
+
+    const parseResult = orderRefundsSchema.safeParse(req.params);
+    if (!parseResult.success) {
+      return res.status(400).json({
+        success: false,
+        message: "Validation error",
+        errors: parseResult.error.flatten(),
+      });
+    }
+
+    const refunds = await refundLedgerService.listOrderRefunds(parseResult.data.orderId, userId, userRole);
+
+    return res.status(200).json({
+      success: true,
+      message: "Refunds retrieved successfully",
+      data: refunds,
+    });
+  } catch (err: any) {
+    const statusCode = err.message.includes("not found") ? 404 :
+                      err.message.includes("Unauthorized") ? 403 : 500;
+
+    return res.status(statusCode).json({
+      success: false,
+      message: err.message || "Failed to retrieve refunds",
+    });
+  }
+}
@@ -1,5 +1,5 @@
 import { Router } from "express";
-import { refundPayment } from "./orderrefund.controller";
+import { getOrderRefunds, refundItems, refundPayment } from "./orderrefund.controller";
 import { requireAuth, requireRole } from "../../../middlewares/role.middleware";
 
 const router = Router();
@@ -14,16 +14,22 @@ const router = Router();
  *       - cookieAuth: []
  *     description: |
  *       Refund a payment for an order. Can be a full refund or partial refund.
+ *       Every refund is stored in the order's refund ledger (see `GET /payments/refunds/{orderId}`).
  *       
  *       **Requirements:**
  *       - User must be authenticated
- *       - Order must exist and be paid
- *       - Order must have a Stripe PaymentIntent
+ *       - Order must exist and be paid (PAID or PARTIALLY_REFUNDED)
+ *       - Card orders must have a Stripe PaymentIntent
+ *       - The amount can't exceed the refundable balance: the order total minus its pending and succeeded refunds
  *       
  *       **What happens:**
- *       - Creates a refund in Stripe
- *       - If amount is not provided, full refund is issued
+ *       - Records the refund as PENDING, then creates it in Stripe (COD refunds are recorded as SUCCEEDED;
+ *         the cash is returned manually)
+ *       - If amount is not provided, the remaining refundable balance is refunded
  *       - If amount is provided, partial refund is issued
+ *       - To refund missing or wrong items by quantity, use `POST /payments/refund-items`
+ *       - Once refunds succeed, the order payment status becomes PARTIALLY_REFUNDED, or REFUNDED when
+ *         the whole total is refunded
  *     requestBody:
  *       required: true
  *       content:
@@ -40,8 +46,13 @@ const router = Router();
  *                 example: "123e4567-e89b-12d3-a456-426614174000"
  *               amount:
  *                 type: number
- *                 description: Amount to refund in cents (optional, if not provided, full refund)
+ *                 description: Amount to refund in cents (optional, if not provided, the remaining refundable balance)
  *                 example: 5000
+ *               reason:
+ *                 type: string
+ *                 maxLength: 500
+ *                 description: Reason stored with the refund
+ *                 example: "Missing side dish"
  *           examples:
  *             fullRefund:
  *               summary: Full refund
@@ -52,6 +63,7 @@ const router = Router();
  *               value:
  *                 orderId: "123e4567-e89b-12d3-a456-426614174000"
  *                 amount: 5000
+ *                 reason: "Missing side dish"
  *     responses:
  *       200:
  *         description: Refund initiated successfully
@@ -60,15 +72,37 @@ const router = Router();
  *             schema:
  *               type: object
  *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
  *                 message:
  *                   type: string
- *                   example: "Refund initiated"
- *                 refundId:
- *                   type: string
- *                   description: Stripe refund ID
- *                   example: "re_3ABC123def456GHI"
+ *                   example: "Refund initiated successfully"
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     refundId:
+ *                       type: string
+ *                       description: Refund ledger ID
+ *                     stripeRefundId:
+ *                       type: string
+ *                       nullable: true
+ *                       description: Stripe refund ID (null for COD refunds)
+ *                       example: "re_3ABC123def456GHI"
+ *                     amount:
+ *                       type: integer
+ *                       description: Refunded amount in cents
+ *                       example: 5000
+ *                     status:
+ *                       type: string
+ *                       enum: [PENDING, SUCCEEDED, FAILED, CANCELED]
+ *                     reason:
+ *                       type: string
+ *                       nullable: true
+ *                     orderId:
+ *                       type: string
  *       400:
- *         description: Missing orderId or order not eligible for refund
+ *         description: Missing orderId, order not eligible for refund, or amount exceeds the refundable balance
  *         content:
  *           application/json:
  *             schema:
@@ -92,5 +126,203 @@ const router = Router();
 // Refund requires authentication and admin or restaurant role
 router.post("/refund", requireAuth, requireRole("ADMIN", "RESTAURANT"), refundPayment);
 
+/**
+ * @swagger
+ * /payments/refund-items:
+ *   post:
+ *     summary: Refund order items (missing or wrong items)
+ *     tags: [Payments]
+ *     security:
+ *       - cookieAuth: []
+ *     description: |
+ *       Refunds order items by quantity instead of a raw amount. The amount is computed from the prices stored
+ *       on the order:
+ *       - Each item is refunded for what the customer paid for it: its `totalPrice` less the promotion discount
+ *         and its share of the promo code discount
+ *       - `includeTax` adds the tax charged on the refunded items
+ *       - `includeDeliveryFee` adds the delivery fee (less a free-delivery promo code), if not refunded yet
+ *
+ *       **Rules:**
+ *       - Only ADMIN or the RESTAURANT of the order can refund
+ *       - An item can't be refunded for more units than were ordered, counting earlier item refunds
+ *       - The amount can't exceed the refundable balance of the order
+ *       - CARD orders are refunded through Stripe; COD orders record the adjustment as SUCCEEDED
+ *         (cash is returned manually)
+ *       - The refund and its items are stored in the order's refund ledger (see `GET /payments/refunds/{orderId}`)
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - orderId
+ *               - items
+ *             properties:
+ *               orderId:
+ *                 type: string
+ *                 format: uuid
+ *               items:
+ *                 type: array
+ *                 minItems: 1
+ *                 items:
+ *                   type: object
+ *                   required: [orderItemId, quantity]
+ *                   properties:
+ *                     orderItemId:
+ *                       type: string
+ *                       format: uuid
+ *                     quantity:
+ *                       type: integer
+ *                       minimum: 1
+ *                       example: 1
+ *               includeDeliveryFee:
+ *                 type: boolean
+ *                 default: false
+ *               includeTax:
+ *                 type: boolean
+ *                 default: false
+ *               reason:
+ *                 type: string
+ *                 maxLength: 500
+ *                 example: "Wrong drink delivered"
+ *     responses:
+ *       200:
+ *         description: Refund initiated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Refund initiated successfully"
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     refundId:
+ *                       type: string
+ *                     stripeRefundId:
+ *                       type: string
+ *                       nullable: true
+ *                       description: Stripe refund ID (null for COD refunds)
+ *                     amount:
+ *                       type: integer
+ *                       description: Refunded amount in cents
+ *                       example: 1190
+ *                     deliveryFeeAmount:
+ *                       type: integer
+ *                       description: Part of the amount refunding the delivery fee, in cents
+ *                       example: 0
+ *                     taxAmount:
+ *                       type: integer
+ *                       description: Part of the amount refunding tax, in cents
+ *                       example: 190
+ *                     items:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           orderItemId:
+ *                             type: string
+ *                           itemName:
+ *                             type: string
+ *                           quantity:
+ *                             type: integer
+ *                           amount:
+ *                             type: integer
+ *                             description: Refunded amount for the item in cents
+ *                     status:
+ *                       type: string
+ *                       enum: [PENDING, SUCCEEDED, FAILED, CANCELED]
+ *                     reason:
+ *                       type: string
+ *                       nullable: true
+ *                     orderId:
+ *                       type: string
+ *       400:
+ *         description: Invalid items, quantity above what is left to refund, nothing to refund, or order not refundable
+ *       403:
+ *         description: Not an admin or the restaurant of the order
+ *       404:
+ *         description: Order or order item not found
+ *       500:
+ *         description: Internal server error or Stripe API error
+ */
+router.post("/refund-items", requireAuth, requireRole("ADMIN", "RESTAURANT"), refundItems);
+
+/**
+ * @swagger
+ * /payments/refunds/{orderId}:
+ *   get:
+ *     summary: List the refunds of an order
+ *     tags: [Payments]
+ *     security:
+ *       - cookieAuth: []
+ *     description: |
+ *       Refund ledger of an order: every refund with its amount, reason, who issued it, Stripe refund ID
+ *       and status, plus the refunded, pending and still refundable amounts.
+ *       Available to the customer who placed the order, the order's restaurant and admins.
+ *       Refunds made from the Stripe dashboard appear once Stripe reports them.
+ *     parameters:
+ *       - in: path
+ *         name: orderId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Refunds retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     orderId:
+ *                       type: string
+ *                     total:
+ *                       type: number
+ *                       example: 25.5
+ *                     paymentStatus:
+ *                       type: string
+ *                       enum: [PENDING, PAID, FAILED, PARTIALLY_REFUNDED, REFUNDED]
+ *                     refundedAmount:
+ *                       type: number
+ *                       description: Sum of the succeeded refunds
+ *                       example: 5
+ *                     pendingAmount:
+ *                       type: number
+ *                       description: Sum of the refunds still processed by Stripe
+ *                       example: 0
+ *                     refundableAmount:
+ *                       type: number
+ *                       description: Amount that can still be refunded
+ *                       example: 20.5
+ *                     refunds:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/Refund'
+ *       400:
+ *         description: Invalid order ID
+ *       403:
+ *         description: Not the customer, the restaurant of the order or an admin
+ *       404:
+ *         description: Order not found
+ *       500:
+ *         description: Internal server error
+ */
+router.get("/refunds/:orderId", requireAuth, getOrderRefunds);
+
 export default router;
 
@@ -8,7 +8,35 @@ export const refundOrderSchema = z.object({
     .positive("Refund amount must be positive")
     .int("Refund amount must be an integer (cents)")
     .optional(),
+  reason: z.string().trim().min(1).max(500).optional(),
+});
+
+// Schema for item-level refunds (missing or wrong items)
+export const refundItemsSchema = z.object({
+  orderId: z.string().uuid("Invalid order ID format"),
+  items: z
+    .array(
+      z.object({
+        orderItemId: z.string().uuid("Invalid order item ID format"),
+        quantity: z.number().int("Quantity must be an integer").positive("Quantity must be positive"),
+      })
+    )
+    .min(1, "At least one item is required")
+    .refine(
+      (items) => new Set(items.map((item) => item.orderItemId)).size === items.length,
+      "Each order item can only be listed once"
+    ),
+  includeDeliveryFee: z.boolean().optional(),
+  includeTax: z.boolean().optional(),
+  reason: z.string().trim().min(1).max(500).optional(),
+});
+
+// Schema for listing the refunds of an order
+export const orderRefundsSchema = z.object({
+  orderId: z.string().uuid("Invalid order ID format"),
 });
 
 export type RefundOrderInput = z.infer<typeof refundOrderSchema>;
+export type RefundItemsInput = z.infer<typeof refundItemsSchema>;
+export type OrderRefundsInput = z.infer<typeof orderRefundsSchema>;
 
@@ -1,18 +1,26 @@
-import { stripe } from "../../../libs/stripe";
+import { paymentProvider } from "../../../libs/payments";
 import prisma from "../../../config/prisma";
+import { orderEventsService } from "../../orders/order-events.service";
+import { refundLedgerService, toCents, type RefundAdjustment } from "./refund-ledger.service";
+import type { RefundItemsInput } from "./orderrefund.schema";
 
 /**
  * Refund an order payment
  * @param orderId - Order ID to refund
- * @param amount - Optional refund amount in cents (if not provided, full refund)
+ * @param amount - Optional refund amount in cents (if not provided, the remaining refundable balance)
  * @param userId - User ID requesting the refund (for authorization)
  * @param userRole - User role (for authorization)
+ * @param reason - Optional reason stored with the refund
+ * @param adjustment - Optional order items (and fees) to refund; the amount is computed from them
+ * @returns The refund recorded in the refund ledger
  */
 export async function refundOrder(
   orderId: string,
   amount: number | undefined,
   userId?: string,
-  userRole?: string
+  userRole?: string,
+  reason?: string,
+  adjustment?: RefundAdjustment
 ) {
   // Log refund attempt
   console.log(`[Refund] Attempting refund for order ${orderId}`, {
@@ -20,6 +28,8 @@ export async function refundOrder(
     amount,
     userId,
     userRole,
+    reason,
+    items: adjustment?.items,
     timestamp: new Date().toISOString(),
   });
 
@@ -31,6 +41,11 @@ export async function refundOrder(
           userId: true,
         },
       },
+      orderGroup: {
+        select: {
+          stripePaymentIntentId: true,
+        },
+      },
     },
   });
 
@@ -41,16 +56,18 @@ export async function refundOrder(
 
   // Handle COD refunds differently
   if (order.paymentMethod === "CASH") {
-    return handleCODRefund(order, amount, userId, userRole);
+    return handleCODRefund(order, amount, userId, userRole, reason, adjustment);
   }
 
-  // For non-COD orders, require Stripe payment intent
-  if (!order.stripePaymentIntentId) {
+  // For non-COD orders, require Stripe payment intent (orders of a group share the group's payment)
+  const paymentIntentId = order.stripePaymentIntentId ?? order.orderGroup?.stripePaymentIntentId;
+  if (!paymentIntentId) {
     console.error(`[Refund] No payment intent found for order: ${orderId}`);
     throw new Error("No payment to refund");
   }
 
-  if (order.paymentStatus !== "PAID") {
+  // Partially refunded orders can be refunded up to their remaining balance
+  if (order.paymentStatus !== "PAID" && order.paymentStatus !== "PARTIALLY_REFUNDED") {
     console.error(`[Refund] Order not paid, status: ${order.paymentStatus}`, { orderId });
     throw new Error("Order is not refundable");
   }
@@ -73,67 +90,74 @@ export async function refundOrder(
     }
   }
 
-  // Validate refund amount doesn't exceed order total
-  const orderTotalInCents = Math.round(Number(order.total) * 100);
-  if (amount !== undefined) {
-    if (amount > orderTotalInCents) {
-      console.error(`[Refund] Refund amount exceeds order total`, {
-        orderId,
-        refundAmount: amount,
-        orderTotal: orderTotalInCents,
-      });
-      throw new Error("Refund amount cannot exceed order total");
-    }
-    if (amount <= 0) {
-      throw new Error("Refund amount must be positive");
-    }
+  // The refundable balance is enforced when the refund is recorded below
+  if (amount !== undefined && amount <= 0) {
+    throw new Error("Refund amount must be positive");
   }
 
   // Get PaymentIntent to verify it exists
   let paymentIntent;
   try {
-    paymentIntent = await stripe.paymentIntents.retrieve(order.stripePaymentIntentId);
+    paymentIntent = await paymentProvider.retrievePaymentIntent(paymentIntentId);
   } catch (error: any) {
     console.error(`[Refund] Failed to retrieve payment intent`, {
       orderId,
-      paymentIntentId: order.stripePaymentIntentId,
+      paymentIntentId,
       error: error.message,
     });
     throw new Error("Failed to retrieve payment information");
   }
 
-  if (!paymentIntent.latest_charge) {
+  if (!paymentIntent.chargeId) {
     console.error(`[Refund] No charge found for payment intent`, {
       orderId,
-      paymentIntentId: order.stripePaymentIntentId,
+      paymentIntentId,
     });
     throw new Error("No charge found");
   }
 
-  // Build refund parameters - only include amount if provided (for partial refunds)
-  const refundParams: any = {
-    payment_intent: order.stripePaymentIntentId,
+  // Record the refund first: it counts against the refundable balance while Stripe processes it
+  let ledgerRefund;
+  try {
+    ledgerRefund = await refundLedgerService.reserve({
+      orderId,
+      amountCents: amount === undefined ? undefined : Math.round(amount),
+      adjustment,
+      reason,
+      initiator: { id: userId, role: userRole },
+    });
+  } catch (error: any) {
+    console.error(`[Refund] Refund rejected by the refund ledger`, {
+      orderId,
+      refundAmount: amount,
+      error: error.message,
+    });
+    throw error;
+  }
+
+  // Always refund an explicit amount: a partially refunded (or group) payment is larger than what is left
+  const refundParams = {
+    paymentIntentId,
+    amount: toCents(ledgerRefund.amount),
     metadata: {
       orderId: order.id,
+      refundId: ledgerRefund.id,
       refundedBy: userId || "system",
+      ...(reason ? { reason } : {}),
     },
+    idempotencyKey: `refund_${ledgerRefund.id}`,
   };
 
-  // Only include amount if provided (for partial refunds)
-  if (amount !== undefined) {
-    refundParams.amount = Math.round(amount);
-  }
-
   // Create refund in Stripe
   let refund;
   try {
     console.log(`[Refund] Creating refund in Stripe`, {
       orderId,
-      amount: refundParams.amount || "full",
-      paymentIntentId: order.stripePaymentIntentId,
+      amount: refundParams.amount,
+      paymentIntentId,
     });
 
-    refund = await stripe.refunds.create(refundParams);
+    refund = await paymentProvider.createRefund(refundParams);
 
     console.log(`[Refund] Refund created successfully`, {
       orderId,
@@ -147,21 +171,77 @@ export async function refundOrder(
       error: error.message,
       stripeError: error.type,
     });
+    await prisma.refund.update({
+      where: { id: ledgerRefund.id },
+      data: { status: "FAILED" },
+    });
     throw new Error(`Failed to process refund: ${error.message}`);
   }
 
-  return refund;
+  // Store the Stripe refund; the payment status follows once it has succeeded
+  const { recordedRefund, updatedOrder } = await prisma.$transaction(async (tx) => {
+    const recordedRefund = await refundLedgerService.recordStripeRefund(tx, order.id, refund);
+    const updatedOrder = await refundLedgerService.syncPaymentStatus(tx, order.id);
+    return { recordedRefund, updatedOrder };
+  });
+
+  if (updatedOrder) {
+    orderEventsService.publishPaymentStatus(updatedOrder);
+  }
+
+  if (order.orderGroupId) {
+    await reverseGroupOrderTransfer(order, refund.amount);
+  }
+
+  return recordedRefund;
+}
+
+/**
+ * Reverse the restaurant's share of a refund of an order paid with its order group,
+ * in proportion to the refunded amount of the order.
+ */
+async function reverseGroupOrderTransfer(order: any, refundedCents: number) {
+  if (!order.stripeTransferId) {
+    return;
+  }
+
+  try {
+    const transfer = await paymentProvider.retrieveTransfer(order.stripeTransferId);
+    const reversalAmount = Math.min(
+      Math.round((transfer.amount * refundedCents) / toCents(order.total)),
+      transfer.amount - transfer.amountReversed
+    );
+
+    if (reversalAmount > 0) {
+      const reversal = await paymentProvider.reverseTransfer(transfer.id, reversalAmount, { orderId: order.id });
+      console.log(`[Refund] Transfer reversed`, {
+        orderId: order.id,
+        transferId: transfer.id,
+        reversalId: reversal.id,
+        amount: reversal.amount,
+      });
+    }
+  } catch (error: any) {
+    // The customer has been refunded; the restaurant's share is settled manually
+    console.error(`[Refund] Failed to reverse transfer`, {
+      orderId: order.id,
+      transferId: order.stripeTransferId,
+      error: error.message,
+    });
+  }
 }
 
 /**
  * Handle COD (Cash on Delivery) refunds
- * For COD orders, we only update the payment status - actual cash return is manual
+ * For COD orders, we only record the refund - actual cash return is manual
  */
 async function handleCODRefund(
   order: any,
   amount: number | undefined,
   userId?: string,
-  userRole?: string
+  userRole?: string,
+  reason?: string,
+  adjustment?: RefundAdjustment
 ) {
   console.log(`[Refund] Processing COD refund for order ${order.id}`, {
     orderId: order.id,
@@ -171,7 +251,7 @@ async function handleCODRefund(
   });
 
   // Validation
-  if (order.paymentStatus !== "PAID") {
+  if (order.paymentStatus !== "PAID" && order.paymentStatus !== "PARTIALLY_REFUNDED") {
     console.error(`[Refund] COD order not paid, status: ${order.paymentStatus}`, {
       orderId: order.id,
     });
@@ -195,40 +275,55 @@ async function handleCODRefund(
     }
   }
 
-  // Calculate refund amount
-  const refundAmount = amount ? amount / 100 : Number(order.total); // Convert cents to dollars if amount provided
-
-  // Validate amount
-  if (refundAmount > Number(order.total)) {
-    console.error(`[Refund] COD refund amount exceeds order total`, {
-      orderId: order.id,
-      refundAmount,
-      orderTotal: Number(order.total),
-    });
-    throw new Error("Refund amount cannot exceed order total");
+  if (amount !== undefined && amount <= 0) {
+    throw new Error("Refund amount must be positive");
   }
 
-  // Update order payment status to REFUNDED
-  await prisma.order.update({
-    where: { id: order.id },
-    data: {
-      paymentStatus: "REFUNDED",
-    },
+  // Cash refunds succeed once recorded (limited to the refundable balance)
+  const ledgerRefund = await refundLedgerService.reserve({
+    orderId: order.id,
+    amountCents: amount === undefined ? undefined : Math.round(amount),
+    adjustment,
+    reason,
+    initiator: { id: userId, role: userRole },
+    status: "SUCCEEDED",
   });
 
+  // Update the order payment status (releases the promo code redemption once fully refunded)
+  const refundedOrder = await prisma.$transaction((tx) => refundLedgerService.syncPaymentStatus(tx, order.id));
+  if (refundedOrder) {
+    orderEventsService.publishPaymentStatus(refundedOrder);
+  }
+
   console.log(`[Refund] COD refund processed successfully`, {
     orderId: order.id,
-    refundAmount,
+    refundId: ledgerRefund.id,
+    refundAmount: Number(ledgerRefund.amount),
     note: "Manual cash return required",
   });
 
-  // Return refund record (similar structure to Stripe refund for consistency)
-  return {
-    id: `cod_refund_${order.id}_${Date.now()}`,
-    amount: Math.round(refundAmount * 100), // Return in cents for consistency
-    status: "succeeded", // COD refunds are immediate (status update only)
-    orderId: order.id,
-    type: "COD",
-    note: "Manual cash return required - refund status updated in system",
-  };
+  return ledgerRefund;
+}
+
+/**
+ * Refund order items, e.g. missing or wrong items
+ * The amount is computed from the prices stored on the order items, optionally with
+ * their share of the tax and the delivery fee. COD adjustments are recorded without a payment.
+ * @returns The refund recorded in the refund ledger, with its items
+ */
+export async function refundOrderItems(input: RefundItemsInput, userId?: string, userRole?: string) {
+  const refund = await refundOrder(input.orderId, undefined, userId, userRole, input.reason, {
+    items: input.items,
+    includeDeliveryFee: input.includeDeliveryFee,
+    includeTax: input.includeTax,
+  });
+
+  return prisma.refund.findUniqueOrThrow({
+    where: { id: refund.id },
+    include: {
+      items: {
+        include: { orderItem: { select: { itemName: true } } },
+      },
+    },
+  });
 }
@@ -0,0 +1,449 @@
+import prisma from "../../../config/prisma";
+import type { Prisma, RefundStatus, Role } from "../../../generated/prisma/client";
+import type { Refund as ProviderRefund } from "../../../libs/payments";
+import { promoCodeService } from "../../promo-code/promo-code.service";
+
+/**
+ * Refund Ledger
+ *
+ * Every refund of an order is stored as a `Refund` (amount, reason, who issued it, Stripe refund
+ * ID and status), so partial refunds add up and can be reconciled with Stripe.
+ *
+ * - A refund is recorded as PENDING before it is sent to Stripe. PENDING and SUCCEEDED refunds
+ *   count against the order total, so concurrent refunds can't exceed it.
+ * - Stripe refund events update the status. Refunds made outside the app (e.g. from the Stripe
+ *   dashboard) are added to the ledger when their event arrives.
+ * - The order payment status follows the SUCCEEDED refunds: PARTIALLY_REFUNDED, then REFUNDED
+ *   once the whole total is refunded.
+ *
+ * Item-level refunds (missing or wrong items) name order items and quantities instead of an amount.
+ * The amount is computed from what the customer paid for those items: their `totalPrice` less the
+ * promotion and their share of the promo code discount, plus their share of the tax and the delivery
+ * fee when asked for. Refunded quantities are kept as `RefundItem`s, so an item can't be refunded
+ * more often than it was ordered.
+ *
+ * Amounts are stored in currency units like order totals; the refund API takes cents.
+ *
+ * @module payments/order-refund/refund-ledger.service
+ */
+
+export type RefundBalance = {
+  totalCents: number;
+  // SUCCEEDED refunds
+  refundedCents: number;
+  // SUCCEEDED and PENDING refunds
+  committedCents: number;
+  refundableCents: number;
+};
+
+export type RefundInitiator = {
+  id?: string | undefined;
+  role?: string | undefined;
+};
+
+// Order items (and optionally the delivery fee and tax) to refund
+export type RefundAdjustment = {
+  items: { orderItemId: string; quantity: number }[];
+  includeDeliveryFee?: boolean | undefined;
+  includeTax?: boolean | undefined;
+};
+
+export type PricedAdjustment = {
+  amountCents: number;
+  deliveryFeeCents: number;
+  taxCents: number;
+  items: { orderItemId: string; quantity: number; amountCents: number }[];
+};
+
+const ROLES: Role[] = ["USER", "ADMIN", "RESTAURANT"];
+
+// Refunds that count against the order (see getBalance)
+const COMMITTED: RefundStatus[] = ["PENDING", "SUCCEEDED"];
+
+export function toCents(amount: Prisma.Decimal | number) {
+  return Math.round(Number(amount) * 100);
+}
+
+function fromCents(cents: number) {
+  return (cents / 100).toFixed(2);
+}
+
+function toRefundStatus(status: string | null): RefundStatus {
+  switch (status) {
+    case "succeeded":
+      return "SUCCEEDED";
+    case "failed":
+      return "FAILED";
+    case "canceled":
+      return "CANCELED";
+    default:
+      return "PENDING";
+  }
+}
+
+export const refundLedgerService = {
+  /**
+   * Refunded and still refundable amount of an order
+   */
+  async getBalance(tx: Prisma.TransactionClient, orderId: string): Promise<RefundBalance> {
+    const [order, refunds] = await Promise.all([
+      tx.order.findUnique({ where: { id: orderId }, select: { total: true } }),
+      tx.refund.findMany({
+        where: { orderId, status: { in: COMMITTED } },
+        select: { amount: true, status: true },
+      }),
+    ]);
+
+    if (!order) {
+      throw new Error("Order not found");
+    }
+
+    const totalCents = toCents(order.total);
+    const refundedCents = refunds
+      .filter((refund) => refund.status === "SUCCEEDED")
+      .reduce((sum, refund) => sum + toCents(refund.amount), 0);
+    const committedCents = refunds.reduce((sum, refund) => sum + toCents(refund.amount), 0);
+
+    return {
+      totalCents,
+      refundedCents,
+      committedCents,
+      refundableCents: Math.max(totalCents - committedCents, 0),
+    };
+  },
+
+  /**
+   * Amount of an item-level refund, from the prices stored on the order.
+   * Throws when an item isn't part of the order or more units would be refunded than were ordered.
+   */
+  async priceAdjustment(
+    tx: Prisma.TransactionClient,
+    orderId: string,
+    adjustment: RefundAdjustment
+  ): Promise<PricedAdjustment> {
+    const order = await tx.order.findUnique({
+      where: { id: orderId },
+      select: {
+        subtotal: true,
+        promotionDiscount: true,
+        discount: true,
+        tax: true,
+        deliveryFee: true,
+        promoCode: { select: { discountType: true } },
+        items: {
+          select: { id: true, itemName: true, quantity: true, totalPrice: true, promotionDiscount: true },
+        },
+        refunds: {
+          where: { status: { in: COMMITTED } },
+          select: {
+            deliveryFeeAmount: true,
+            taxAmount: true,
+            items: { select: { orderItemId: true, quantity: true } },
+          },
+        },
+      },
+    });
+
+    if (!order) {
+      throw new Error("Order not found");
+    }
+
+    const refundedQuantities = new Map<string, number>();
+    let refundedDeliveryFeeCents = 0;
+    let refundedTaxCents = 0;
+    for (const refund of order.refunds) {
+      refundedDeliveryFeeCents += toCents(refund.deliveryFeeAmount);
+      refundedTaxCents += toCents(refund.taxAmount);
+      for (const item of refund.items) {
+        refundedQuantities.set(item.orderItemId, (refundedQuantities.get(item.orderItemId) ?? 0) + item.quantity);
+      }
+    }
+
+    // A free-delivery promo code discounts the delivery fee, other codes the items
+    const freeDelivery = order.promoCode?.discountType === "FREE_DELIVERY";
+    const itemsTotalCents = toCents(order.subtotal) - toCents(order.promotionDiscount);
+    const itemDiscountCents = freeDelivery ? 0 : toCents(order.discount);
+    const deliveryDiscountCents = freeDelivery ? toCents(order.discount) : 0;
+    // Share of the items total the customer paid after the promo code; tax was charged on that amount
+    const paidShare = itemsTotalCents > 0 ? Math.max(itemsTotalCents - itemDiscountCents, 0) / itemsTotalCents : 0;
+
+    const items = adjustment.items.map((requested) => {
+      const orderItem = order.items.find((item) => item.id === requested.orderItemId);
+      if (!orderItem) {
+        throw new Error(`Order item ${requested.orderItemId} not found in this order`);
+      }
+
+      const refunded = refundedQuantities.get(orderItem.id) ?? 0;
+      const remaining = orderItem.quantity - refunded;
+      if (requested.quantity > remaining) {
+        throw new Error(
+          `Refund quantity cannot exceed the ${remaining} unit${remaining === 1 ? "" : "s"} of "${orderItem.itemName}" left to refund`
+        );
+      }
+
+      // Priced cumulatively, so refunding every unit over several refunds adds up to the line total
+      const lineCents = toCents(orderItem.totalPrice) - toCents(orderItem.promotionDiscount);
+      const paidFor = (units: number) => Math.round((lineCents * paidShare * units) / orderItem.quantity);
+      return {
+        orderItemId: orderItem.id,
+        quantity: requested.quantity,
+        amountCents: paidFor(refunded + requested.quantity) - paidFor(refunded),
+      };
+    });
+
+    const itemsCents = items.reduce((sum, item) => sum + item.amountCents, 0);
+    const taxableCents = Math.max(itemsTotalCents - itemDiscountCents, 0);
+    const taxCents =
+      adjustment.includeTax && taxableCents > 0
+        ? Math.min(
+            Math.round((toCents(order.tax) * itemsCents) / taxableCents),
+            Math.max(toCents(order.tax) - refundedTaxCents, 0)
+          )
+        : 0;
+    const deliveryFeeCents = adjustment.includeDeliveryFee
+      ? Math.max(toCents(order.deliveryFee) - deliveryDiscountCents - refundedDeliveryFeeCents, 0)
+      : 0;
+
+    const amountCents = itemsCents + taxCents + deliveryFeeCents;
+    if (amountCents <= 0) {
+      throw new Error("Nothing to refund: the selected items and fees have no refundable amount");
+    }
+
+    return { amountCents, deliveryFeeCents, taxCents, items };
+  },
+
+  /**
+   * Records a refund against the refundable balance (the whole balance when no amount is given).
+   * With an adjustment the amount is computed from the refunded items and fees.
+   * Throws when the order is fully refunded or the amount exceeds the balance.
+   */
+  async reserve(input: {
+    orderId: string;
+    amountCents?: number | undefined;
+    adjustment?: RefundAdjustment | undefined;
+    reason?: string | undefined;
+    initiator?: RefundInitiator | undefined;
+    status?: RefundStatus | undefined;
+  }) {
+    return prisma.$transaction(async (tx) => {
+      // Serializes refunds of the same order, so their balance checks don't overlap
+      await tx.$queryRaw`SELECT "id" FROM "Order" WHERE "id" = ${input.orderId} FOR UPDATE`;
+
+      const balance = await this.getBalance(tx, input.orderId);
+      if (balance.refundableCents <= 0) {
+        throw new Error("Order is not refundable: it has already been fully refunded");
+      }
+
+      const priced = input.adjustment
+        ? await this.priceAdjustment(tx, input.orderId, input.adjustment)
+        : null;
+      const amountCents = priced?.amountCents ?? input.amountCents ?? balance.refundableCents;
+      if (amountCents > balance.refundableCents) {
+        throw new Error(
+          `Refund amount cannot exceed the refundable balance of ${balance.refundableCents} cents`
+        );
+      }
+
+      const role = input.initiator?.role as Role | undefined;
+      return tx.refund.create({
+        data: {
+          orderId: input.orderId,
+          amount: fromCents(amountCents),
+          reason: input.reason ?? null,
+          status: input.status ?? "PENDING",
+          initiatedById: input.initiator?.id ?? null,
+          initiatedByRole: role && ROLES.includes(role) ? role : null,
+          ...(priced && {
+            deliveryFeeAmount: fromCents(priced.deliveryFeeCents),
+            taxAmount: fromCents(priced.taxCents),
+            items: {
+              create: priced.items.map((item) => ({
+                orderItemId: item.orderItemId,
+                quantity: item.quantity,
+                amount: fromCents(item.amountCents),
+              })),
+            },
+          }),
+        },
+        include: { items: true },
+      });
+    });
+  },
+
+  /**
+   * Records the rest of the refundable balance as returned in cash (COD payment status set to REFUNDED)
+   */
+  async recordCashRefund(
+    tx: Prisma.TransactionClient,
+    orderId: string,
+    input: { reason?: string | undefined; initiator?: RefundInitiator | undefined }
+  ) {
+    const balance = await this.getBalance(tx, orderId);
+    if (balance.refundableCents <= 0) {
+      return null;
+    }
+
+    const role = input.initiator?.role as Role | undefined;
+    return tx.refund.create({
+      data: {
+        orderId,
+        amount: fromCents(balance.refundableCents),
+        reason: input.reason ?? null,
+        status: "SUCCEEDED",
+        initiatedById: input.initiator?.id ?? null,
+        initiatedByRole: role && ROLES.includes(role) ? role : null,
+      },
+    });
+  },
+
+  /**
+   * Adds a Stripe refund to the ledger or updates the status of the recorded one
+   */
+  async recordStripeRefund(tx: Prisma.TransactionClient, orderId: string, stripeRefund: ProviderRefund) {
+    const status = toRefundStatus(stripeRefund.status);
+    const ledgerRefundId = stripeRefund.metadata?.refundId;
+
+    const existing = await tx.refund.findFirst({
+      where: {
+        OR: [
+          { stripeRefundId: stripeRefund.id },
+          ...(ledgerRefundId ? [{ id: ledgerRefundId, orderId }] : []),
+        ],
+      },
+    });
+
+    if (existing) {
+      if (existing.status === status && existing.stripeRefundId === stripeRefund.id) {
+        return existing;
+      }
+      return tx.refund.update({
+        where: { id: existing.id },
+        data: { status, stripeRefundId: stripeRefund.id },
+      });
+    }
+
+    // Issued outside the app, e.g. from the Stripe dashboard
+    console.log(`[RefundLedger] Recording refund made outside the app`, {
+      orderId,
+      stripeRefundId: stripeRefund.id,
+      amount: stripeRefund.amount,
+    });
+    return tx.refund.create({
+      data: {
+        orderId,
+        amount: fromCents(stripeRefund.amount),
+        reason: stripeRefund.metadata?.reason || stripeRefund.reason || null,
+        status,
+        stripeRefundId: stripeRefund.id,
+      },
+    });
+  },
+
+  /**
+   * Sets the order payment status from its SUCCEEDED refunds.
+   * Returns the updated order, or null when the status didn't change.
+   */
+  async syncPaymentStatus(tx: Prisma.TransactionClient, orderId: string) {
+    const order = await tx.order.findUnique({
+      where: { id: orderId },
+      select: { paymentStatus: true },
+    });
+    if (!order) {
+      throw new Error("Order not found");
+    }
+
+    const balance = await this.getBalance(tx, orderId);
+    if (balance.refundedCents <= 0) {
+      return null;
+    }
+
+    const paymentStatus = balance.refundedCents >= balance.totalCents ? "REFUNDED" : "PARTIALLY_REFUNDED";
+    if (order.paymentStatus === paymentStatus) {
+      return null;
+    }
+
+    const updated = await tx.order.update({
+      where: { id: orderId },
+      data: { paymentStatus },
+    });
+
+    // Refunded orders no longer count towards promo code limits
+    if (paymentStatus === "REFUNDED") {
+      await promoCodeService.releaseOrderRedemptions(tx, orderId);
+    }
+
+    console.log(`[RefundLedger] Order ${orderId} payment status changed`, {
+      from: order.paymentStatus,
+      to: paymentStatus,
+      refundedCents: balance.refundedCents,
+      totalCents: balance.totalCents,
+    });
+
+    return updated;
+  },
+
+  /**
+   * Refunds of an order with its balance. Visible to the customer, the restaurant and admins.
+   */
+  async listOrderRefunds(orderId: string, userId?: string, userRole?: string) {
+    const order = await prisma.order.findUnique({
+      where: { id: orderId },
+      select: {
+        id: true,
+        userId: true,
+        restaurantId: true,
+        total: true,
+        paymentStatus: true,
+        refunds: {
+          select: {
+            id: true,
+            amount: true,
+            reason: true,
+            status: true,
+            stripeRefundId: true,
+            initiatedById: true,
+            initiatedByRole: true,
+            deliveryFeeAmount: true,
+            taxAmount: true,
+            items: {
+              select: {
+                orderItemId: true,
+                quantity: true,
+                amount: true,
+                orderItem: { select: { itemName: true } },
+              },
+            },
+            createdAt: true,
+            updatedAt: true,
+          },
+          orderBy: { createdAt: "desc" },
+        },
+      },
+    });
+
+    if (!order) {
+      throw new Error("Order not found");
+    }
+
+    const isAdmin = userRole === "ADMIN";
+    const isRestaurantOwner = userRole === "RESTAURANT" && order.restaurantId === userId;
+    const isOrderOwner = order.userId === userId;
+    if (!isAdmin && !isRestaurantOwner && !isOrderOwner) {
+      throw new Error("Unauthorized: You do not have permission to view the refunds of this order");
+    }
+
+    const balance = await this.getBalance(prisma, orderId);
+
+    return {
+      orderId: order.id,
+      total: order.total,
+      paymentStatus: order.paymentStatus,
+      refundedAmount: Number(fromCents(balance.refundedCents)),
+      pendingAmount: Number(fromCents(balance.committedCents - balance.refundedCents)),
+      refundableAmount: Number(fromCents(balance.refundableCents)),
+      refunds: order.refunds,
+    };
+  },
+};
+
+export default refundLedgerService;
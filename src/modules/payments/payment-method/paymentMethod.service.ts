@@ -1,4 +1,4 @@
-import { stripe } from "../../../libs/stripe";
+import { paymentProvider } from "../../../libs/payments";
 import prisma from "../../../config/prisma";
 
 /**
@@ -11,9 +11,9 @@ export async function attachPaymentMethodToUser(
   paymentMethodId: string
 ) {
   // 1️⃣ Attach payment method to Stripe customer
-  const paymentMethod = await stripe.paymentMethods.attach(
+  const paymentMethod = await paymentProvider.attachPaymentMethod(
     paymentMethodId,
-    { customer: stripeCustomerId }
+    stripeCustomerId
   );
 
   // 2️⃣ Check if user already has a default payment method
@@ -31,8 +31,8 @@ export async function attachPaymentMethodToUser(
       stripePmId: paymentMethod.id,
       brand: paymentMethod.card?.brand || null,
       last4: paymentMethod.card?.last4 || null,
-      expMonth: paymentMethod.card?.exp_month || null,
-      expYear: paymentMethod.card?.exp_year || null,
+      expMonth: paymentMethod.card?.expMonth || null,
+      expYear: paymentMethod.card?.expYear || null,
 
       // ✅ First card becomes default automatically
       isDefault: existingDefault ? false : true,
@@ -66,7 +66,7 @@ export async function deletePaymentMethod(
   });
 
   // 2️⃣ Detach from Stripe (safe operation)
-  await stripe.paymentMethods.detach(method.stripePmId);
+  await paymentProvider.detachPaymentMethod(method.stripePmId);
 
   // 3️⃣ Delete from DB
   const deleted = await prisma.userPaymentMethod.delete({
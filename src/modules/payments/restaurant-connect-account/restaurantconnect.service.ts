@@ -1,4 +1,4 @@
-import { stripe } from "../../../libs/stripe";
+import { paymentProvider } from "../../../libs/payments";
 import prisma from "../../../config/prisma";
 import dotenv from "dotenv";
 dotenv.config();
@@ -28,13 +28,10 @@ export async function getOrCreateRestaurantStripeAccount(restaurantId: string) {
   const country = process.env.STRIPE_DEFAULT_COUNTRY || "US";
   const accountType = (process.env.STRIPE_ACCOUNT_TYPE || "express") as "express" | "standard" | "custom";
 
-  const account = await stripe.accounts.create({
+  // Requests card payments and transfers
+  const account = await paymentProvider.createConnectAccount({
     type: accountType,
     country,
-    capabilities: {
-      card_payments: { requested: true },
-      transfers: { requested: true },
-    },
   });
 
   // ✅ Save account ID to database immediately after creation
@@ -81,14 +78,11 @@ export async function generateOnboardingLink(restaurantId: string) {
   const refreshPath = process.env.STRIPE_REFRESH_PATH || "/restaurants/stripe/refresh";
   const returnPath = process.env.STRIPE_RETURN_PATH || "/restaurants/stripe/return";
 
-  const accountLink = await stripe.accountLinks.create({
-    account: restaurant.stripeConnectAccountId,
-    refresh_url: `${frontendUrl}${refreshPath}`,
-    return_url: `${frontendUrl}${returnPath}`,
-    type: "account_onboarding",
+  return paymentProvider.createOnboardingLink({
+    accountId: restaurant.stripeConnectAccountId,
+    refreshUrl: `${frontendUrl}${refreshPath}`,
+    returnUrl: `${frontendUrl}${returnPath}`,
   });
-
-  return accountLink.url;
 }
 
 /**
@@ -118,7 +112,7 @@ export async function getRestaurantStripeAccountStatus(restaurantId: string) {
     // Retrieve account from Stripe - this is READ ONLY, never creates
     let account;
     try {
-      account = await stripe.accounts.retrieve(restaurant.stripeConnectAccountId);
+      account = await paymentProvider.retrieveConnectAccount(restaurant.stripeConnectAccountId);
     } catch (error: any) {
       console.error(`[Stripe Connect] Failed to retrieve account`, {
         restaurantId,
@@ -130,13 +124,13 @@ export async function getRestaurantStripeAccountStatus(restaurantId: string) {
   
     const status = {
       status:
-        account.charges_enabled && account.payouts_enabled
+        account.chargesEnabled && account.payoutsEnabled
           ? "completed"
-          : account.requirements?.disabled_reason
+          : account.disabledReason
           ? "rejected"
           : "pending",
-      charges_enabled: account.charges_enabled,
-      payouts_enabled: account.payouts_enabled,
+      charges_enabled: account.chargesEnabled,
+      payouts_enabled: account.payoutsEnabled,
     };
   
     console.log(`[Stripe Connect] Account status retrieved`, {
@@ -1,6 +1,7 @@
 import { Request, Response } from "express";
-import { stripe } from "../../../libs/stripe";
+import { paymentProvider } from "../../../libs/payments";
 import prisma from "../../../config/prisma";
+import { stripeEventLogService, StripeEventProcessor } from "./stripe-event-log.service";
 
 export const handleStripeAccountWebhook = async (req: Request, res: Response) => {
   const sig = req.headers["stripe-signature"];
@@ -12,7 +13,7 @@ export const handleStripeAccountWebhook = async (req: Request, res: Response) =>
 
   let event;
   try {
-    event = stripe.webhooks.constructEvent(
+    event = paymentProvider.constructWebhookEvent(
       req.body,
       sig,
       process.env.STRIPE_ACCOUNT_WEBHOOK_SECRET!
@@ -26,177 +27,9 @@ export const handleStripeAccountWebhook = async (req: Request, res: Response) =>
     return res.status(400).send(`Webhook Error: ${err.message}`);
   }
 
-  // Ignore events without a valid Stripe Account object
-  const account = event.data?.object as { id?: string } | undefined;
-  if (!account?.id || !account.id.startsWith("acct_")) {
-    console.log("[Account Webhook] Ignoring non-account event:", account?.id);
-    return res.json({ received: true });
-  }
-
+  // Stored and processed once; the event log records the outcome
   try {
-    // Handle both relevant events
-    if (["account.updated", "account.application.authorized"].includes(event.type)) {
-      const account = event.data.object as import("stripe").Stripe.Account;
-
-      console.log(`[Account Webhook] Processing account event`, {
-        eventId: event.id,
-        accountId: account.id,
-        chargesEnabled: account.charges_enabled,
-        payoutsEnabled: account.payouts_enabled,
-        detailsSubmitted: account.details_submitted,
-        currentlyDue: account.requirements?.currently_due?.length || 0,
-        disabledReason: account.requirements?.disabled_reason,
-      });
-
-      // ✅ IDEMPOTENCY CHECK: Prevent processing the same event twice
-      let existingEvent;
-      try {
-        existingEvent = await prisma.stripeEvent.findUnique({
-          where: { id: event.id },
-        });
-      } catch (dbError: any) {
-        // Handle database connection errors gracefully
-        console.error("[Account Webhook] Database connection error during idempotency check:", {
-          error: dbError.message,
-          eventId: event.id,
-        });
-        // If DB is down, we can't verify idempotency, but we should still respond to Stripe
-        // Stripe will retry if we return an error, so we'll log and continue
-        // In production, you might want to queue this for retry
-        console.warn("[Account Webhook] Continuing without idempotency check due to DB error");
-      }
-      
-      if (existingEvent) {
-        console.log(`[Account Webhook] Event already processed, skipping: ${event.id}`, {
-          eventId: event.id,
-          type: event.type,
-        });
-        return res.json({ received: true });
-      }
-
-      // Determine status with improved logic
-      let status: "pending" | "completed" | "rejected" = "pending";
-
-      if (account.charges_enabled && account.payouts_enabled) {
-        status = "completed";
-        console.log(`[Account Webhook] Account fully enabled - setting status to completed`);
-      } else if (account.requirements?.disabled_reason) {
-        status = "rejected";
-        console.log(`[Account Webhook] Account disabled - setting status to rejected`, {
-          reason: account.requirements.disabled_reason,
-        });
-      } else if (account.requirements?.currently_due && account.requirements.currently_due.length > 0) {
-        status = "pending";
-        console.log(`[Account Webhook] Account has pending requirements - setting status to pending`, {
-          currentlyDue: account.requirements.currently_due.length,
-        });
-      } else {
-        // If charges or payouts not enabled but no requirements due, still pending
-        status = "pending";
-        console.log(`[Account Webhook] Account not fully enabled - setting status to pending`, {
-          chargesEnabled: account.charges_enabled,
-          payoutsEnabled: account.payouts_enabled,
-        });
-      }
-
-      // Check if a bank account exists
-      const bankAccountAdded =
-        Array.isArray(account.external_accounts?.data) &&
-        account.external_accounts.data.length > 0;
-
-      // ✅ FIX: Use findUnique instead of findFirst (field is unique in schema)
-      const existingRestaurant = await prisma.restaurant.findUnique({
-        where: { stripeConnectAccountId: account.id },
-        select: { userId: true, stripeConnectAccountId: true },
-      });
-
-      if (!existingRestaurant) {
-        // ⚠️ ORPHAN ACCOUNT DETECTED: Account exists in Stripe but not in our database
-        // This is an orphan account - likely created manually in Stripe or from old code
-        // Webhook will NOT create accounts - it only updates existing ones
-        console.warn(`[Account Webhook] ⚠️ ORPHAN ACCOUNT IGNORED: Account ${account.id} exists in Stripe but not in database`, {
-          eventId: event.id,
-          accountId: account.id,
-          message: "Webhook only updates existing accounts. This orphan account will be ignored.",
-        });
-        // Record the event for idempotency (so we don't process it again)
-        try {
-          await prisma.stripeEvent.create({
-            data: {
-              id: event.id,
-              type: event.type,
-            },
-          });
-        } catch (dbError: any) {
-          console.error("[Account Webhook] Failed to record event (DB error):", {
-            error: dbError.message,
-            eventId: event.id,
-          });
-        }
-        // Return success to Stripe (we've handled the event, just ignored it)
-        return res.json({ received: true });
-      }
-
-      // ✅ Use transaction for atomicity and idempotency
-      try {
-        await prisma.$transaction(async (tx) => {
-          // Record event for idempotency (double-check inside transaction)
-          const eventExists = await tx.stripeEvent.findUnique({
-            where: { id: event.id },
-          });
-          if (!eventExists) {
-            await tx.stripeEvent.create({
-              data: {
-                id: event.id,
-                type: event.type,
-              },
-            });
-          }
-
-          // ✅ FIX: Use update instead of updateMany (more precise, field is unique)
-          await tx.restaurant.update({
-            where: { stripeConnectAccountId: account.id },
-            data: {
-              stripeAccountStatus: status,
-              bankAccountAdded,
-            },
-          });
-        });
-      } catch (dbError: any) {
-        // Handle database errors gracefully
-        console.error("[Account Webhook] Database error during transaction:", {
-          error: dbError.message,
-          eventId: event.id,
-          accountId: account.id,
-        });
-        // Re-throw to be caught by outer catch block
-        throw dbError;
-      }
-
-      console.log(`[Account Webhook] Webhook processed successfully`, {
-        eventId: event.id,
-        accountId: account.id,
-        restaurantId: existingRestaurant.userId,
-        status: status,
-        bankAccountAdded,
-      });
-    } else {
-      console.log(`[Account Webhook] Event type not handled: ${event.type}`);
-      // Record unhandled events for idempotency
-      try {
-        await prisma.stripeEvent.create({
-          data: {
-            id: event.id,
-            type: event.type,
-          },
-        });
-      } catch (dbError: any) {
-        console.error("[Account Webhook] Failed to record unhandled event (DB error):", {
-          error: dbError.message,
-          eventId: event.id,
-        });
-      }
-    }
+    await stripeEventLogService.process("ACCOUNTS", event, processAccountEvent);
   } catch (err: any) {
     console.error("[Account Webhook] Error processing webhook:", {
       error: err.message,
@@ -207,4 +40,99 @@ export const handleStripeAccountWebhook = async (req: Request, res: Response) =>
   }
 
   res.json({ received: true });
-};
\ No newline at end of file
+};
+
+/**
+ * Syncs a connected account's onboarding status and bank account to its restaurant.
+ * Also used to reprocess stored events.
+ */
+export const processAccountEvent: StripeEventProcessor = async (event) => {
+  // Ignore events without a valid Stripe Account object
+  const account = event.data?.object as { id?: string } | undefined;
+  if (!account?.id || !account.id.startsWith("acct_")) {
+    console.log("[Account Webhook] Ignoring non-account event:", account?.id);
+    return { status: "IGNORED", reason: "Event has no Stripe account object" };
+  }
+
+  if (!["account.updated", "account.application.authorized"].includes(event.type)) {
+    console.log(`[Account Webhook] Event type not handled: ${event.type}`);
+    return { status: "IGNORED", reason: `Event type ${event.type} is not handled` };
+  }
+
+  const stripeAccount = event.data.object as import("stripe").Stripe.Account;
+
+  console.log(`[Account Webhook] Processing account event`, {
+    eventId: event.id,
+    accountId: stripeAccount.id,
+    chargesEnabled: stripeAccount.charges_enabled,
+    payoutsEnabled: stripeAccount.payouts_enabled,
+    detailsSubmitted: stripeAccount.details_submitted,
+    currentlyDue: stripeAccount.requirements?.currently_due?.length || 0,
+    disabledReason: stripeAccount.requirements?.disabled_reason,
+  });
+
+  // Determine status with improved logic
+  let status: "pending" | "completed" | "rejected" = "pending";
+
+  if (stripeAccount.charges_enabled && stripeAccount.payouts_enabled) {
+    status = "completed";
+    console.log(`[Account Webhook] Account fully enabled - setting status to completed`);
+  } else if (stripeAccount.requirements?.disabled_reason) {
+    status = "rejected";
+    console.log(`[Account Webhook] Account disabled - setting status to rejected`, {
+      reason: stripeAccount.requirements.disabled_reason,
+    });
+  } else if (stripeAccount.requirements?.currently_due && stripeAccount.requirements.currently_due.length > 0) {
+    status = "pending";
+    console.log(`[Account Webhook] Account has pending requirements - setting status to pending`, {
+      currentlyDue: stripeAccount.requirements.currently_due.length,
+    });
+  } else {
+    // If charges or payouts not enabled but no requirements due, still pending
+    status = "pending";
+    console.log(`[Account Webhook] Account not fully enabled - setting status to pending`, {
+      chargesEnabled: stripeAccount.charges_enabled,
+      payoutsEnabled: stripeAccount.payouts_enabled,
+    });
+  }
+
+  // Check if a bank account exists
+  const bankAccountAdded =
+    Array.isArray(stripeAccount.external_accounts?.data) &&
+    stripeAccount.external_accounts.data.length > 0;
+
+  const existingRestaurant = await prisma.restaurant.findUnique({
+    where: { stripeConnectAccountId: stripeAccount.id },
+    select: { userId: true, stripeConnectAccountId: true },
+  });
+
+  if (!existingRestaurant) {
+    // ⚠️ ORPHAN ACCOUNT DETECTED: Account exists in Stripe but not in our database
+    // This is an orphan account - likely created manually in Stripe or from old code
+    // Webhook will NOT create accounts - it only updates existing ones
+    console.warn(`[Account Webhook] ⚠️ ORPHAN ACCOUNT: Account ${stripeAccount.id} exists in Stripe but not in database`, {
+      eventId: event.id,
+      accountId: stripeAccount.id,
+      message: "Webhook only updates existing accounts. The event is recorded as failed.",
+    });
+    return { status: "FAILED", reason: `No restaurant found for Stripe account ${stripeAccount.id}` };
+  }
+
+  await prisma.restaurant.update({
+    where: { stripeConnectAccountId: stripeAccount.id },
+    data: {
+      stripeAccountStatus: status,
+      bankAccountAdded,
+    },
+  });
+
+  console.log(`[Account Webhook] Webhook processed successfully`, {
+    eventId: event.id,
+    accountId: stripeAccount.id,
+    restaurantId: existingRestaurant.userId,
+    status: status,
+    bankAccountAdded,
+  });
+
+  return { status: "PROCESSED" };
+};
@@ -0,0 +1,169 @@
+/**
+ * Stripe Event Log
+ *
+ * Every event received by the Stripe webhooks (payments, connected accounts, subscriptions) is stored with its
+ * payload, processing status, last error and attempt count. The log doubles as the idempotency record: an event
+ * is processed once per endpoint, unless it failed, in which case Stripe's retries, an admin or the replay script
+ * can process it again from the stored payload.
+ *
+ * @module payments/stripe-webhooks/stripe-event-log
+ */
+
+import Stripe from "stripe";
+import prisma from "../../../config/prisma";
+import type { Prisma, StripeEvent, StripeEventSource, StripeEventStatus } from "../../../generated/prisma/client";
+
+// A PROCESSING event not finished after this long is considered abandoned (crash mid-processing) and can be retried
+const STALE_PROCESSING_MS = 5 * 60 * 1000;
+
+export type StripeEventOutcome =
+  | { status: "PROCESSED" }
+  // IGNORED: nothing to do (event type not handled, order already paid...)
+  // FAILED: the event could not be applied (unknown order, subscription...) and needs attention
+  | { status: "IGNORED" | "FAILED"; reason: string };
+
+export interface StripeEventContext {
+  // Replays run against a local database: processors must not call Stripe
+  replay: boolean;
+}
+
+export type StripeEventProcessor = (event: Stripe.Event, context: StripeEventContext) => Promise<StripeEventOutcome>;
+
+export interface ProcessStripeEventOptions {
+  replay?: boolean;
+  // Also reprocess events that were already PROCESSED or IGNORED (replay script only)
+  force?: boolean;
+}
+
+export interface ProcessStripeEventResult {
+  // false when the event was already processed (or is being processed) and was skipped
+  processed: boolean;
+  event: StripeEvent | null;
+}
+
+/**
+ * Claims an event for processing: stores it on first delivery, or moves a FAILED (or abandoned PROCESSING)
+ * event back to PROCESSING. Returns null when the event is already handled or in progress.
+ */
+async function claim(source: StripeEventSource, event: Stripe.Event, force: boolean) {
+  const now = new Date();
+  const payload = event as unknown as Prisma.InputJsonValue;
+
+  try {
+    return await prisma.stripeEvent.create({
+      data: {
+        id: event.id,
+        source,
+        type: event.type,
+        payload,
+        status: "PROCESSING",
+        attempts: 1,
+        lastAttemptAt: now,
+      },
+    });
+  } catch (error: any) {
+    if (error?.code !== "P2002") {
+      throw error;
+    }
+  }
+
+  // Already stored: only take it over if no other delivery owns it
+  const claimable: StripeEventStatus[] = force ? ["FAILED", "IGNORED", "PROCESSED"] : ["FAILED"];
+  const { count } = await prisma.stripeEvent.updateMany({
+    where: {
+      id: event.id,
+      source,
+      OR: [
+        { status: { in: claimable } },
+        { status: "PROCESSING", lastAttemptAt: { lt: new Date(now.getTime() - STALE_PROCESSING_MS) } },
+      ],
+    },
+    data: {
+      status: "PROCESSING",
+      type: event.type,
+      payload,
+      error: null,
+      attempts: { increment: 1 },
+      lastAttemptAt: now,
+    },
+  });
+  if (count === 0) {
+    return null;
+  }
+
+  return prisma.stripeEvent.findUnique({ where: { id_source: { id: event.id, source } } });
+}
+
+export const stripeEventLogService = {
+  /**
+   * Runs a processor on an event exactly once per endpoint and records the outcome.
+   * Errors thrown by the processor are recorded on the event (status FAILED) and rethrown.
+   */
+  async process(
+    source: StripeEventSource,
+    event: Stripe.Event,
+    processor: StripeEventProcessor,
+    options: ProcessStripeEventOptions = {}
+  ): Promise<ProcessStripeEventResult> {
+    const claimed = await claim(source, event, options.force ?? false);
+    if (!claimed) {
+      console.log(`[StripeEventLog] Event already processed, skipping: ${event.id}`, {
+        eventId: event.id,
+        type: event.type,
+        source,
+      });
+      return { processed: false, event: null };
+    }
+
+    let outcome: StripeEventOutcome;
+    try {
+      outcome = await processor(event, { replay: options.replay ?? false });
+    } catch (error: any) {
+      await prisma.stripeEvent.update({
+        where: { id_source: { id: event.id, source } },
+        data: { status: "FAILED", error: error?.message ?? String(error) },
+      });
+      console.error(`[StripeEventLog] Event processing failed: ${event.id}`, {
+        eventId: event.id,
+        type: event.type,
+        source,
+        attempt: claimed.attempts,
+        error: error?.message,
+      });
+      throw error;
+    }
+
+    if (outcome.status === "FAILED") {
+      console.warn(`[StripeEventLog] Event could not be applied: ${event.id}`, {
+        eventId: event.id,
+        type: event.type,
+        source,
+        reason: outcome.reason,
+      });
+    }
+
+    const updated = await prisma.stripeEvent.update({
+      where: { id_source: { id: event.id, source } },
+      data: {
+        status: outcome.status,
+        error: outcome.status === "PROCESSED" ? null : outcome.reason,
+        processedAt: outcome.status === "FAILED" ? null : new Date(),
+      },
+    });
+
+    return { processed: true, event: updated };
+  },
+
+  /**
+   * Stored payload of an event, as received from Stripe. Events recorded before payloads were
+   * stored have none and can't be reprocessed.
+   */
+  getPayload(record: Pick<StripeEvent, "id" | "payload">): Stripe.Event {
+    if (!record.payload) {
+      throw new Error(`Stripe event ${record.id} has no stored payload`);
+    }
+    return record.payload as unknown as Stripe.Event;
+  },
+};
+
+export default stripeEventLogService;
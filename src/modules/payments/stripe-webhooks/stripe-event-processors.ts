@@ -0,0 +1,28 @@
+import type { StripeEventSource } from "../../../generated/prisma/client";
+import { isFakePaymentProvider, paymentProvider } from "../../../libs/payments";
+import { stripeEventLogService, StripeEventProcessor } from "./stripe-event-log.service";
+import { processPaymentEvent } from "./stripe.webhook";
+import { processAccountEvent } from "./accountstatus.webhook";
+import { processSubscriptionEvent } from "../../restaurant/subscription/subscriptionWebhook";
+
+// Processor of each webhook endpoint, used to reprocess and replay stored events
+export const stripeEventProcessors: Record<StripeEventSource, StripeEventProcessor> = {
+  PAYMENTS: processPaymentEvent,
+  ACCOUNTS: processAccountEvent,
+  SUBSCRIPTIONS: processSubscriptionEvent,
+};
+
+/**
+ * Delivers the events of the fake payment provider to the webhook processors, through the event log,
+ * as Stripe delivers its events to the webhook endpoints. Does nothing with a real payment provider.
+ */
+export function connectFakeProviderWebhooks() {
+  if (!isFakePaymentProvider(paymentProvider)) {
+    return;
+  }
+
+  paymentProvider.onWebhookEvent((endpoint, event) =>
+    stripeEventLogService.process(endpoint, event, stripeEventProcessors[endpoint])
+  );
+  console.log("[Payments] Fake payment provider events are delivered to the webhook handlers");
+}
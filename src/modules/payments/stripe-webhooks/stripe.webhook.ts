@@ -1,7 +1,23 @@
 import { Request, Response } from "express";
 import Stripe from "stripe";
-import { stripe } from "../../../libs/stripe";
+import { paymentProvider } from "../../../libs/payments";
 import prisma from "../../../config/prisma";
+import { orderEventsService } from "../../orders/order-events.service";
+import { UNFULFILLED_ORDER_STATUSES } from "../../orders/order-lifecycle.service";
+import { transferOrderGroupPayment } from "../order-payment/orderpayment.service";
+import { refundOrder } from "../order-refund/orderrefund.service";
+import { refundLedgerService } from "../order-refund/refund-ledger.service";
+import { stripeEventLogService, StripeEventOutcome, StripeEventProcessor } from "./stripe-event-log.service";
+
+// ✅ Only handle relevant events
+const allowedEvents = [
+  "payment_intent.succeeded",
+  "payment_intent.payment_failed",
+  "charge.refunded",
+  "refund.created",
+  "refund.updated",
+  "refund.failed",
+];
 
 export async function stripeWebhookHandler(
   req: Request,
@@ -16,7 +32,7 @@ export async function stripeWebhookHandler(
   let event: Stripe.Event;
 
   try {
-    event = stripe.webhooks.constructEvent(
+    event = paymentProvider.constructWebhookEvent(
       req.body,
       sig,
       process.env.STRIPE_WEBHOOK_SECRET!
@@ -33,60 +49,76 @@ export async function stripeWebhookHandler(
     return res.status(400).send(`Webhook Error: ${err.message}`);
   }
 
-  // ✅ Only handle relevant events
-  const allowedEvents = [
-    "payment_intent.succeeded",
-    "payment_intent.payment_failed",
-    "charge.refunded",
-    "refund.updated",
-  ];
+  // Stored and processed once; the event log records the outcome
+  try {
+    await stripeEventLogService.process("PAYMENTS", event, processPaymentEvent);
+  } catch {
+    // Already logged and recorded on the event; Stripe retries failed deliveries
+    return res.status(500).send("Internal Server Error");
+  }
+
+  res.json({ received: true });
+}
+
+/**
+ * Applies a payment event (payment intent or refund) to its order or order group.
+ * Also used to reprocess stored events; replays don't pay out restaurants through Stripe.
+ */
+export const processPaymentEvent: StripeEventProcessor = async (event, context) => {
   if (!allowedEvents.includes(event.type)) {
     console.log(`[Webhook] Event type not handled, ignoring: ${event.type}`, {
       eventId: event.id,
     });
-    return res.json({ received: true });
+    return { status: "IGNORED", reason: `Event type ${event.type} is not handled` };
   }
 
-  // 1️⃣ Idempotency check
-  const existingEvent = await prisma.stripeEvent.findUnique({
-    where: { id: event.id },
-  });
-  if (existingEvent) {
-    console.log(`[Webhook] Event already processed, skipping: ${event.id}`, {
-      eventId: event.id,
-      type: event.type,
-    });
-    return res.json({ received: true });
-  }
+  // Orders whose payment status changed, published once the transaction has committed
+  const paymentUpdatedOrders: any[] = [];
+  // Paid order group whose restaurants are paid out once the transaction has committed
+  let paidOrderGroup = null as { id: string; chargeId: string } | null;
+  // Orders of the group that were charged but cancelled or rejected meanwhile, refunded once committed
+  const unfulfilledPaidOrderIds: string[] = [];
 
-  // 2️⃣ Transactional handling
-  await prisma.$transaction(async (tx) => {
-    // Record event for idempotency
-    await tx.stripeEvent.create({
-      data: {
-        id: event.id,
-        type: event.type,
-      },
-    });
-
-    // Extract orderId from event metadata (works for payment events)
+  // Transactional handling
+  const outcome = await prisma.$transaction(async (tx): Promise<StripeEventOutcome> => {
+    // Extract orderId (or orderGroupId for multi-restaurant checkouts) from event metadata (works for payment events)
     let orderId: string | undefined;
+    let orderGroupId: string | undefined;
     if (event.type.startsWith("payment_intent.")) {
       const intent = event.data.object as Stripe.PaymentIntent;
       orderId = intent.metadata?.orderId;
-    } else if (event.type === "charge.refunded" || event.type === "refund.updated") {
-      const charge = event.data.object as Stripe.Charge;
-      // For refund events, we need to find order by payment intent ID
+      orderGroupId = intent.metadata?.orderGroupId;
+    } else if (event.type === "charge.refunded" || event.type.startsWith("refund.")) {
+      const charge = event.data.object as Stripe.Charge | Stripe.Refund;
+      // Refunds issued by the app carry the orderId; otherwise find the order by payment intent ID
+      if (event.type.startsWith("refund.")) {
+        orderId = (charge as Stripe.Refund).metadata?.orderId || undefined;
+      }
       const paymentIntentId = typeof charge.payment_intent === "string" 
         ? charge.payment_intent 
         : (charge.payment_intent as Stripe.PaymentIntent)?.id;
       
-      if (paymentIntentId) {
+      if (!orderId && paymentIntentId) {
         const order = await tx.order.findUnique({
           where: { stripePaymentIntentId: paymentIntentId },
           select: { id: true },
         });
         orderId = order?.id;
+
+        // A group payment covers several orders; only refunds issued per order can be attributed
+        if (!order) {
+          const orderGroup = await tx.orderGroup.findUnique({
+            where: { stripePaymentIntentId: paymentIntentId },
+            select: { id: true },
+          });
+          if (orderGroup) {
+            console.log(`[Webhook] ${event.type}: Order group payment, refunds are recorded per order`, {
+              eventId: event.id,
+              orderGroupId: orderGroup.id,
+            });
+            return { status: "IGNORED", reason: `Refunds of order group ${orderGroup.id} are recorded per order` };
+          }
+        }
       }
     }
 
@@ -94,17 +126,84 @@ export async function stripeWebhookHandler(
     console.log(`[Webhook] Processing event ${event.type}`, {
       eventId: event.id,
       orderId,
+      orderGroupId,
       timestamp: new Date().toISOString(),
     });
 
     switch (event.type) {
       /* ---------------- PAYMENT ---------------- */
       case "payment_intent.succeeded": {
+        // One payment for all orders of the group
+        if (orderGroupId) {
+          const orderGroup = await tx.orderGroup.findUnique({
+            where: { id: orderGroupId },
+          });
+
+          if (!orderGroup) {
+            console.warn(`[Webhook] payment_intent.succeeded: Order group not found`, {
+              eventId: event.id,
+              orderGroupId,
+            });
+            return { status: "FAILED", reason: `Order group ${orderGroupId} not found` };
+          }
+
+          if (orderGroup.paymentStatus === "PAID") {
+            console.log(`[Webhook] payment_intent.succeeded: Order group already paid, skipping`, {
+              eventId: event.id,
+              orderGroupId,
+            });
+            return { status: "IGNORED", reason: `Order group ${orderGroupId} is already paid` };
+          }
+
+          const intent = event.data.object as Stripe.PaymentIntent;
+          // Orders priced into the payment (every order of the group for payments created before they were recorded)
+          const chargedOrderIds = intent.metadata?.orderIds?.split(",");
+          const chargedOrders = chargedOrderIds ? { id: { in: chargedOrderIds } } : {};
+
+          const paidAt = new Date();
+          await tx.orderGroup.update({
+            where: { id: orderGroupId },
+            data: { paymentStatus: "PAID", paidAt },
+          });
+          const fulfillableOrders = { orderGroupId, ...chargedOrders, status: { notIn: UNFULFILLED_ORDER_STATUSES } };
+          await tx.order.updateMany({
+            where: fulfillableOrders,
+            data: { paymentStatus: "PAID", paidAt },
+          });
+          paymentUpdatedOrders.push(...(await tx.order.findMany({ where: fulfillableOrders })));
+
+          // Orders cancelled or rejected after the payment was priced were still charged: marked paid so they can be refunded
+          const unfulfilledOrders = await tx.order.findMany({
+            where: { orderGroupId, ...chargedOrders, status: { in: UNFULFILLED_ORDER_STATUSES } },
+            select: { id: true },
+          });
+          if (unfulfilledOrders.length > 0) {
+            unfulfilledPaidOrderIds.push(...unfulfilledOrders.map((order) => order.id));
+            await tx.order.updateMany({
+              where: { id: { in: unfulfilledPaidOrderIds } },
+              data: { paymentStatus: "PAID", paidAt },
+            });
+          }
+
+          const chargeId = typeof intent.latest_charge === "string" ? intent.latest_charge : intent.latest_charge?.id;
+          if (chargeId) {
+            paidOrderGroup = { id: orderGroupId, chargeId };
+          }
+
+          console.log(`[Webhook] payment_intent.succeeded: Order group marked as paid`, {
+            eventId: event.id,
+            orderGroupId,
+            orderCount: paymentUpdatedOrders.length,
+            unfulfilledOrderIds: unfulfilledPaidOrderIds,
+          });
+          break;
+        }
+
         if (!orderId) {
           console.warn(`[Webhook] payment_intent.succeeded: No orderId in metadata`, {
             eventId: event.id,
           });
-          return;
+          return { status: "FAILED", reason: "No orderId in payment intent metadata" };
         }
 
         const order = await tx.order.findUnique({
@@ -116,7 +215,7 @@ export async function stripeWebhookHandler(
             eventId: event.id,
             orderId,
           });
-          return;
+          return { status: "FAILED", reason: `Order ${orderId} not found` };
         }
 
         // Prevent status overwrite for already PAID orders
@@ -125,16 +224,16 @@ export async function stripeWebhookHandler(
             eventId: event.id,
             orderId,
           });
-          return;
+          return { status: "IGNORED", reason: `Order ${orderId} is already paid` };
         }
 
-        await tx.order.update({
+        paymentUpdatedOrders.push(await tx.order.update({
           where: { id: orderId },
           data: {
             paymentStatus: "PAID",
             paidAt: new Date(),
           },
-        });
+        }));
 
         console.log(`[Webhook] payment_intent.succeeded: Order marked as paid`, {
           eventId: event.id,
@@ -144,11 +243,42 @@ export async function stripeWebhookHandler(
       }
 
       case "payment_intent.payment_failed": {
+        if (orderGroupId) {
+          const orderGroup = await tx.orderGroup.findUnique({
+            where: { id: orderGroupId },
+          });
+
+          if (!orderGroup) {
+            console.warn(`[Webhook] payment_intent.payment_failed: Order group not found`, {
+              eventId: event.id,
+              orderGroupId,
+            });
+            return { status: "FAILED", reason: `Order group ${orderGroupId} not found` };
+          }
+
+          await tx.orderGroup.update({
+            where: { id: orderGroupId },
+            data: { paymentStatus: "FAILED" },
+          });
+          const fulfillableOrders = { orderGroupId, status: { notIn: UNFULFILLED_ORDER_STATUSES } };
+          await tx.order.updateMany({
+            where: fulfillableOrders,
+            data: { paymentStatus: "FAILED" },
+          });
+          paymentUpdatedOrders.push(...(await tx.order.findMany({ where: fulfillableOrders })));
+
+          console.log(`[Webhook] payment_intent.payment_failed: Order group marked as failed`, {
+            eventId: event.id,
+            orderGroupId,
+          });
+          break;
+        }
+
         if (!orderId) {
           console.warn(`[Webhook] payment_intent.payment_failed: No orderId in metadata`, {
             eventId: event.id,
           });
-          return;
+          return { status: "FAILED", reason: "No orderId in payment intent metadata" };
         }
 
         const order = await tx.order.findUnique({
@@ -160,13 +290,13 @@ export async function stripeWebhookHandler(
             eventId: event.id,
             orderId,
           });
-          return;
+          return { status: "FAILED", reason: `Order ${orderId} not found` };
         }
 
-        await tx.order.update({
+        paymentUpdatedOrders.push(await tx.order.update({
           where: { id: orderId },
           data: { paymentStatus: "FAILED" },
-        });
+        }));
 
         console.log(`[Webhook] payment_intent.payment_failed: Order marked as failed`, {
           eventId: event.id,
@@ -176,42 +306,121 @@ export async function stripeWebhookHandler(
       }
 
       /* ---------------- REFUNDS ---------------- */
-      case "charge.refunded":
-      case "refund.updated": {
+      case "charge.refunded": {
         if (!orderId) {
           console.warn(`[Webhook] ${event.type}: No order found for payment intent`, {
             eventId: event.id,
           });
-          return;
+          return { status: "FAILED", reason: "No order found for the payment intent" };
         }
 
         const charge = event.data.object as Stripe.Charge;
+
+        // Record the refunds listed on the charge in the refund ledger
+        for (const refund of charge.refunds?.data ?? []) {
+          await refundLedgerService.recordStripeRefund(tx, orderId, refund);
+        }
+
+        const updatedOrder = await refundLedgerService.syncPaymentStatus(tx, orderId);
+        if (updatedOrder) {
+          paymentUpdatedOrders.push(updatedOrder);
+        }
+
+        // Reconciliation: Stripe's refunded amount should be covered by the ledger
+        const balance = await refundLedgerService.getBalance(tx, orderId);
         const refundAmount = charge.amount_refunded || 0;
-        const chargeAmount = charge.amount || 0;
-        const isFullRefund = refundAmount === chargeAmount;
+        if (refundAmount < balance.refundedCents || refundAmount > balance.committedCents) {
+          console.warn(`[Webhook] ${event.type}: Refund ledger does not match Stripe`, {
+            eventId: event.id,
+            orderId,
+            stripeRefunded: refundAmount,
+            ledgerRefunded: balance.refundedCents,
+            ledgerCommitted: balance.committedCents,
+          });
+        }
 
-        await tx.order.update({
-          where: { id: orderId },
-          data: {
-            paymentStatus: "REFUNDED",
-          },
+        console.log(`[Webhook] ${event.type}: Refunds recorded`, {
+          eventId: event.id,
+          orderId,
+          refundAmount,
+          chargeAmount: charge.amount || 0,
+          paymentStatus: updatedOrder?.paymentStatus,
         });
+        break;
+      }
+
+      case "refund.created":
+      case "refund.updated":
+      case "refund.failed": {
+        if (!orderId) {
+          console.warn(`[Webhook] ${event.type}: No order found for refund`, {
+            eventId: event.id,
+          });
+          return { status: "FAILED", reason: "No order found for the refund" };
+        }
+
+        const refund = event.data.object as Stripe.Refund;
+        const recorded = await refundLedgerService.recordStripeRefund(tx, orderId, refund);
+
+        const updatedOrder = await refundLedgerService.syncPaymentStatus(tx, orderId);
+        if (updatedOrder) {
+          paymentUpdatedOrders.push(updatedOrder);
+        }
 
-        console.log(`[Webhook] ${event.type}: Order marked as refunded`, {
+        console.log(`[Webhook] ${event.type}: Refund recorded`, {
           eventId: event.id,
           orderId,
-          refundAmount,
-          chargeAmount,
-          isFullRefund,
+          refundId: recorded.id,
+          stripeRefundId: refund.id,
+          status: recorded.status,
         });
         break;
       }
     }
-  });
 
-  console.log(`[Webhook] Event processed successfully: ${event.type}`, {
-    eventId: event.id,
+    return { status: "PROCESSED" };
   });
 
-  res.json({ received: true });
-}
+  if (outcome.status === "PROCESSED") {
+    console.log(`[Webhook] Event processed successfully: ${event.type}`, {
+      eventId: event.id,
+    });
+  }
+
+  for (const order of paymentUpdatedOrders) {
+    orderEventsService.publishPaymentStatus(order);
+  }
+
+  // Pay out each restaurant's share of the group payment
+  if (paidOrderGroup) {
+    if (context.replay) {
+      console.log(`[Webhook] Replay: skipping transfers of order group ${paidOrderGroup.id}`, {
+        eventId: event.id,
+      });
+    } else {
+      await transferOrderGroupPayment(paidOrderGroup.id, paidOrderGroup.chargeId);
+    }
+  }
+
+  // Refund what was charged for orders that won't be fulfilled
+  for (const orderId of unfulfilledPaidOrderIds) {
+    if (context.replay) {
+      console.log(`[Webhook] Replay: skipping refund of unfulfilled order ${orderId}`, {
+        eventId: event.id,
+      });
+      continue;
+    }
+
+    try {
+      await refundOrder(orderId, undefined, undefined, undefined, "Order cancelled before the payment completed");
+    } catch (error: any) {
+      // The payment is recorded either way; the refund has to be issued manually
+      console.error(`[Webhook] Failed to refund unfulfilled order ${orderId}`, {
+        eventId: event.id,
+        error: error.message,
+      });
+    }
+  }
+
+  return outcome;
+};
@@ -0,0 +1,201 @@
+import prisma from "../../config/prisma";
+import type { FulfilmentType } from "../../generated/prisma/client";
+
+/**
+ * Pricing Service
+ *
+ * Server-side source of truth for the tax and delivery fee charged on an order.
+ *
+ * - Tax: active `TaxRate`s of the restaurant's mall location. Rates configured for the
+ *   mall's city replace the country-wide rates; several rates at the same level add up.
+ *   Tax is charged on the subtotal after discounts.
+ * - Delivery fee: the mall's `DeliveryFeeRule` (flat fee or distance bands), waived when
+ *   the subtotal reaches `freeDeliveryMinSubtotal`. Pickup and dine-in orders have no delivery fee.
+ *
+ * The returned breakdown is stored on the order so the applied rules can be audited later.
+ *
+ * @module pricing/pricing.service
+ */
+
+export type PricingInput = {
+  mallId: string;
+  subtotal: number;
+  discount?: number | undefined;
+  fulfilmentType?: FulfilmentType | undefined;
+  deliveryAddress?: { latitude: number | null; longitude: number | null } | null | undefined;
+};
+
+export type AppliedTaxRate = {
+  id: string;
+  name: string;
+  ratePercentage: number;
+  scope: "CITY" | "COUNTRY";
+  amount: number;
+};
+
+export type PricingBreakdown = {
+  tax: {
+    taxableAmount: number;
+    totalRatePercentage: number;
+    amount: number;
+    countryId: string;
+    cityId: string;
+    rates: AppliedTaxRate[];
+  };
+  deliveryFee: {
+    ruleId: string | null;
+    type: "FLAT" | "DISTANCE" | "NONE";
+    amount: number;
+    distanceKm: number | null;
+    band: { id: string; maxDistanceKm: number; fee: number } | null;
+    freeDeliveryMinSubtotal: number | null;
+    freeDeliveryApplied: boolean;
+    note: string | null;
+  };
+  calculatedAt: string;
+};
+
+export type PricingResult = {
+  tax: number;
+  deliveryFee: number;
+  breakdown: PricingBreakdown;
+};
+
+const EARTH_RADIUS_KM = 6371;
+
+function roundMoney(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+// Great-circle distance between two coordinates (haversine formula)
+function distanceInKm(fromLat: number, fromLng: number, toLat: number, toLng: number) {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(toLat - fromLat);
+  const dLng = toRad(toLng - fromLng);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(fromLat)) * Math.cos(toRad(toLat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+export const pricingService = {
+  /**
+   * Calculates tax and delivery fee for an order placed at a mall
+   */
+  async calculate(input: PricingInput): Promise<PricingResult> {
+    const mall = await prisma.mall.findUnique({
+      where: { id: input.mallId },
+      include: {
+        city: { select: { id: true, countryId: true } },
+        deliveryFeeRule: {
+          include: { bands: { orderBy: { maxDistanceKm: "asc" } } },
+        },
+      },
+    });
+
+    if (!mall) {
+      throw new Error("Mall not found");
+    }
+
+    const subtotal = roundMoney(input.subtotal);
+    const discount = roundMoney(input.discount ?? 0);
+
+    /* ---------------- TAX ---------------- */
+    const taxRates = await prisma.taxRate.findMany({
+      where: {
+        isActive: true,
+        countryId: mall.city.countryId,
+        OR: [{ cityId: mall.cityId }, { cityId: null }],
+      },
+      orderBy: { createdAt: "asc" },
+    });
+
+    const cityRates = taxRates.filter((rate) => rate.cityId === mall.cityId);
+    const appliedRates = cityRates.length > 0 ? cityRates : taxRates.filter((rate) => rate.cityId === null);
+
+    const taxableAmount = Math.max(roundMoney(subtotal - discount), 0);
+    const rates: AppliedTaxRate[] = appliedRates.map((rate) => ({
+      id: rate.id,
+      name: rate.name,
+      ratePercentage: rate.ratePercentage.toNumber(),
+      scope: rate.cityId ? "CITY" : "COUNTRY",
+      amount: roundMoney((taxableAmount * rate.ratePercentage.toNumber()) / 100),
+    }));
+    const tax = roundMoney(rates.reduce((sum, rate) => sum + rate.amount, 0));
+
+    /* ---------------- DELIVERY FEE ---------------- */
+    const isDelivery = (input.fulfilmentType ?? "DELIVERY") === "DELIVERY";
+    const rule = isDelivery && mall.deliveryFeeRule?.isActive ? mall.deliveryFeeRule : null;
+    const deliveryFee: PricingBreakdown["deliveryFee"] = {
+      ruleId: rule?.id ?? null,
+      type: rule?.type ?? "NONE",
+      amount: 0,
+      distanceKm: null,
+      band: null,
+      freeDeliveryMinSubtotal: rule?.freeDeliveryMinSubtotal ? rule.freeDeliveryMinSubtotal.toNumber() : null,
+      freeDeliveryApplied: false,
+      note: null,
+    };
+
+    if (!isDelivery) {
+      deliveryFee.note =
+        input.fulfilmentType === "DINE_IN" ? "No delivery fee for dine-in orders" : "No delivery fee for pickup orders";
+    } else if (!rule) {
+      deliveryFee.note = "No delivery fee rule configured for this mall";
+    } else {
+      const address = input.deliveryAddress;
+      if (
+        mall.latitude != null &&
+        mall.longitude != null &&
+        address?.latitude != null &&
+        address?.longitude != null
+      ) {
+        deliveryFee.distanceKm = roundMoney(
+          distanceInKm(mall.latitude, mall.longitude, address.latitude, address.longitude)
+        );
+      }
+
+      if (rule.type === "DISTANCE") {
+        const distanceKm = deliveryFee.distanceKm;
+        if (distanceKm === null || rule.bands.length === 0) {
+          // Without coordinates (or bands) fall back to the mall's flat fee
+          deliveryFee.amount = rule.flatFee.toNumber();
+          deliveryFee.note = "Distance unavailable, flat fee applied";
+        } else {
+          const band = rule.bands.find((b) => distanceKm <= b.maxDistanceKm);
+          if (!band) {
+            throw new Error("Delivery address is outside the delivery area of this mall");
+          }
+          deliveryFee.amount = band.fee.toNumber();
+          deliveryFee.band = { id: band.id, maxDistanceKm: band.maxDistanceKm, fee: band.fee.toNumber() };
+        }
+      } else {
+        deliveryFee.amount = rule.flatFee.toNumber();
+      }
+
+      if (deliveryFee.freeDeliveryMinSubtotal !== null && subtotal >= deliveryFee.freeDeliveryMinSubtotal) {
+        deliveryFee.amount = 0;
+        deliveryFee.freeDeliveryApplied = true;
+      }
+
+      deliveryFee.amount = roundMoney(deliveryFee.amount);
+    }
+
+    return {
+      tax,
+      deliveryFee: deliveryFee.amount,
+      breakdown: {
+        tax: {
+          taxableAmount,
+          totalRatePercentage: rates.reduce((sum, rate) => sum + rate.ratePercentage, 0),
+          amount: tax,
+          countryId: mall.city.countryId,
+          cityId: mall.cityId,
+          rates,
+        },
+        deliveryFee,
+        calculatedAt: new Date().toISOString(),
+      },
+    };
+  },
+};
@@ -58,6 +58,28 @@ const router = Router();
  *                 preparationTime:
  *                   type: string
  *                   description: Estimated preparation time
+ *                isAvailable:
+ *                  type: boolean
+ *                  description: Sold-out toggle of the restaurant
+ *                isAvailableNow:
+ *                  type: boolean
+ *                  description: Whether the item can be ordered right now (toggle, daily stock and serving hours)
+ *                unavailableReason:
+ *                  type: string
+ *                  enum: [SOLD_OUT, OUTSIDE_HOURS]
+ *                  nullable: true
+ *                stockRemaining:
+ *                  type: integer
+ *                  nullable: true
+ *                  description: Units left today (null when the item has no daily stock)
+ *                availableFrom:
+ *                  type: string
+ *                  nullable: true
+ *                  description: Start of the serving hours (HH:mm, mall timezone)
+ *                availableUntil:
+ *                  type: string
+ *                  nullable: true
+ *                  description: End of the serving hours (HH:mm, mall timezone)
  *                 category:
  *                   type: object
  *                   description: Category details including restaurant
@@ -87,6 +109,9 @@ const router = Router();
  *                               type: string
  *                             priceModifier:
  *                               type: number
+ *                             isAvailable:
+ *                               type: boolean
+ *                               description: Whether the option can be ordered right now
  *                 addOns:
  *                   type: array
  *                   description: Array of add-ons available for this product
@@ -112,6 +137,9 @@ const router = Router();
  *                               type: string
  *                             price:
  *                               type: number
+ *                             isAvailable:
+ *                               type: boolean
+ *                               description: Whether the option can be ordered right now
  *       404:
  *         description: Product not found
  *       500:
@@ -387,6 +415,10 @@ router.delete("/variation/delete/:variationId", requireAuth, requireRestaurantRo
  *                 type: integer
  *                 default: 0
  *                 description: Display order
+ *               isAvailable:
+ *                 type: boolean
+ *                 description: Switch off to stop selling this option (e.g. no large size today)
+ *                 example: true
  *     responses:
  *       201:
  *         description: Option created successfully
@@ -435,6 +467,8 @@ router.post("/variation-option/create", requireAuth, requireRestaurantRole, prod
  *                     type: number
  *                   displayOrder:
  *                     type: integer
+ *                   isAvailable:
+ *                     type: boolean
  *       500:
  *         description: Server error
  */
@@ -474,6 +508,8 @@ router.get("/variation/:variationId/options/get-all", productDetailController.ge
  *                   type: number
  *                 displayOrder:
  *                   type: integer
+ *                 isAvailable:
+ *                   type: boolean
  *       404:
  *         description: Option not found
  *       500:
@@ -517,6 +553,10 @@ router.get("/variation-option/get/:optionId", productDetailController.getVariati
  *                 type: integer
  *                 description: Display order
  *                 example: 0
+ *               isAvailable:
+ *                 type: boolean
+ *                 description: Switch off to stop selling this option (e.g. no large size today)
+ *                 example: false
  *     responses:
  *       200:
  *         description: Option updated successfully
@@ -817,6 +857,10 @@ router.delete("/add-on/delete/:addOnId", requireAuth, requireRestaurantRole, pro
  *                 type: integer
  *                 default: 0
  *                 description: Display order
+ *               isAvailable:
+ *                 type: boolean
+ *                 description: Switch off to stop selling this option
+ *                 example: true
  *     responses:
  *       201:
  *         description: Option created successfully
@@ -865,6 +909,8 @@ router.post("/add-on-option/create", requireAuth, requireRestaurantRole, product
  *                     type: number
  *                   displayOrder:
  *                     type: integer
+ *                   isAvailable:
+ *                     type: boolean
  *       500:
  *         description: Server error
  */
@@ -904,6 +950,8 @@ router.get("/add-on/:addOnId/options/get-all", productDetailController.getAddOnO
  *                   type: number
  *                 displayOrder:
  *                   type: integer
+ *                 isAvailable:
+ *                   type: boolean
  *       404:
  *         description: Option not found
  *       500:
@@ -947,6 +995,10 @@ router.get("/add-on-option/get/:optionId", productDetailController.getAddOnOptio
  *                 type: integer
  *                 description: Display order
  *                 example: 0
+ *               isAvailable:
+ *                 type: boolean
+ *                 description: Switch off to stop selling this option
+ *                 example: false
  *     responses:
  *       200:
  *         description: Option updated successfully
@@ -38,6 +38,8 @@ export const createVariationOptionSchema = z.object({
     z.number().nonnegative("Price modifier cannot be negative")
   ),
   displayOrder: z.number().int().default(0),
+  // Switch off to stop selling this option (e.g. no large size today)
+  isAvailable: z.boolean().optional(),
 });
 
 /**
@@ -76,6 +78,8 @@ export const createAddOnOptionSchema = z.object({
     z.number().nonnegative("Price cannot be negative")
   ),
   displayOrder: z.number().int().default(0),
+  // Switch off to stop selling this option
+  isAvailable: z.boolean().optional(),
 });
 
 /**
@@ -1,4 +1,5 @@
 import prisma from "../../config/prisma";
+import { menuItemAvailabilityFields, menuItemAvailabilityService } from "../menu/menu-item-availability.service";
 import {
   CreateProductVariationInput,
   UpdateProductVariationInput,
@@ -49,7 +50,9 @@ export const productDetailService = {
       throw new Error("Product not found");
     }
 
-    return product;
+    // Sold-out toggle, remaining daily stock and serving hours of the product
+    const availability = await menuItemAvailabilityService.getAvailabilityMap([menuItemId]);
+    return { ...product, ...menuItemAvailabilityFields(availability.get(menuItemId)) };
   },
 
   // ============ PRODUCT VARIATION CRUD ============
@@ -209,7 +212,7 @@ export const productDetailService = {
     }
 
     return prisma.variationOption.create({
-      data,
+      data: { ...data, isAvailable: data.isAvailable ?? true },
       include: {
         variation: {
           include: {
@@ -306,6 +309,7 @@ export const productDetailService = {
         ...(data.name !== undefined && { name: data.name }),
         ...(data.displayOrder !== undefined && { displayOrder: data.displayOrder }),
         ...(data.priceModifier !== undefined && { priceModifier: data.priceModifier }),
+        ...(data.isAvailable !== undefined && { isAvailable: data.isAvailable }),
       },
       include: {
         variation: {
@@ -502,7 +506,7 @@ export const productDetailService = {
     }
 
     return prisma.addOnOption.create({
-      data,
+      data: { ...data, isAvailable: data.isAvailable ?? true },
       include: {
         addOn: {
           include: {
@@ -599,6 +603,7 @@ export const productDetailService = {
         ...(data.name !== undefined && { name: data.name }),
         ...(data.displayOrder !== undefined && { displayOrder: data.displayOrder }),
         ...(data.price !== undefined && { price: data.price }),
+        ...(data.isAvailable !== undefined && { isAvailable: data.isAvailable }),
       },
       include: {
         addOn: {
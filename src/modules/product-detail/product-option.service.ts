@@ -1 +1,194 @@
- 
\ No newline at end of file
+import { z } from "zod";
+import prisma from "../../config/prisma";
+
+/**
+ * Product Options
+ *
+ * Checks the variation options (e.g. "Large") and add-on options (e.g. "Extra cheese") chosen for
+ * a menu item, shared by cart, favourite carts and checkout.
+ *
+ * - Selections must match the item: every variation and add-on belongs to the menu item and every
+ *   option to its variation / add-on. Each variation takes one option and required variations
+ *   need one; add-ons take up to `maxSelection` options and required add-ons at least one.
+ *   Invalid selections are reported as a `ZodError` with one issue per field.
+ * - Restaurants switch an option off with `isAvailable` when they run out of it ("no large size
+ *   today"); the item itself and its other options can still be ordered.
+ *
+ * @module product-detail/product-option.service
+ */
+
+type SelectedVariation = { variationId: string; selectedOptionId: string };
+type SelectedAddOn = { addOnId: string; selectedOptionIds: string[] };
+
+// Selections as sent with add-to-cart or stored as JSON on cart and favourite cart items
+export type OptionSelection = {
+  selectedVariations?: unknown;
+  selectedAddOns?: unknown;
+};
+
+// A selection of one menu item; `path` prefixes the error paths (e.g. the cart item it came from)
+export type SelectionLine = OptionSelection & {
+  menuItemId: string;
+  path?: PropertyKey[];
+};
+
+const menuItemOptionsSelect = {
+  id: true,
+  name: true,
+  variations: { select: { id: true, name: true, isRequired: true, options: { select: { id: true } } } },
+  addOns: {
+    select: { id: true, name: true, isRequired: true, maxSelection: true, options: { select: { id: true } } },
+  },
+} as const;
+
+export const productOptionService = {
+  /**
+   * Throws a `ZodError` listing every selection that doesn't match the options of its menu item
+   */
+  async assertValidSelections(lines: SelectionLine[]) {
+    const menuItemIds = Array.from(new Set(lines.map((line) => line.menuItemId)));
+    const menuItems = await prisma.menuItem.findMany({
+      where: { id: { in: menuItemIds } },
+      select: menuItemOptionsSelect,
+    });
+    const menuItemMap = new Map(menuItems.map((item) => [item.id, item]));
+
+    const issues: z.core.$ZodIssue[] = [];
+    const addIssue = (path: PropertyKey[], message: string) => issues.push({ code: "custom", path, message });
+
+    for (const line of lines) {
+      const base = line.path ?? [];
+      const menuItem = menuItemMap.get(line.menuItemId);
+      if (!menuItem) {
+        addIssue([...base, "menuItemId"], "Menu item not found");
+        continue;
+      }
+
+      const variations = (line.selectedVariations ?? []) as SelectedVariation[];
+      const chosenVariations = new Set<string>();
+      variations.forEach((selected, index) => {
+        const path = [...base, "selectedVariations", index];
+        const variation = menuItem.variations.find((v) => v.id === selected.variationId);
+        if (!variation) {
+          addIssue([...path, "variationId"], `Variation does not belong to "${menuItem.name}"`);
+          return;
+        }
+        if (chosenVariations.has(variation.id)) {
+          addIssue([...path, "variationId"], `Only one option can be chosen for "${variation.name}"`);
+          return;
+        }
+        chosenVariations.add(variation.id);
+        if (!variation.options.some((option) => option.id === selected.selectedOptionId)) {
+          addIssue([...path, "selectedOptionId"], `Option does not belong to "${variation.name}"`);
+        }
+      });
+      for (const variation of menuItem.variations) {
+        if (variation.isRequired && !chosenVariations.has(variation.id)) {
+          addIssue([...base, "selectedVariations"], `Choose an option for "${variation.name}"`);
+        }
+      }
+
+      const addOns = (line.selectedAddOns ?? []) as SelectedAddOn[];
+      const chosenAddOns = new Set<string>();
+      addOns.forEach((selected, index) => {
+        const path = [...base, "selectedAddOns", index];
+        const addOn = menuItem.addOns.find((a) => a.id === selected.addOnId);
+        if (!addOn) {
+          addIssue([...path, "addOnId"], `Add-on does not belong to "${menuItem.name}"`);
+          return;
+        }
+        if (chosenAddOns.has(addOn.id)) {
+          addIssue([...path, "addOnId"], `"${addOn.name}" is selected more than once`);
+          return;
+        }
+        const optionIds = new Set(selected.selectedOptionIds);
+        if (optionIds.size > 0) {
+          chosenAddOns.add(addOn.id);
+        }
+        if (optionIds.size !== selected.selectedOptionIds.length) {
+          addIssue([...path, "selectedOptionIds"], `An option of "${addOn.name}" is selected more than once`);
+        }
+        if (optionIds.size > addOn.maxSelection) {
+          addIssue(
+            [...path, "selectedOptionIds"],
+            `Choose at most ${addOn.maxSelection} option${addOn.maxSelection === 1 ? "" : "s"} for "${addOn.name}"`
+          );
+        }
+        selected.selectedOptionIds.forEach((optionId, optionIndex) => {
+          if (!addOn.options.some((option) => option.id === optionId)) {
+            addIssue([...path, "selectedOptionIds", optionIndex], `Option does not belong to "${addOn.name}"`);
+          }
+        });
+      });
+      for (const addOn of menuItem.addOns) {
+        if (addOn.isRequired && !chosenAddOns.has(addOn.id)) {
+          addIssue([...base, "selectedAddOns"], `Choose at least one option for "${addOn.name}"`);
+        }
+      }
+    }
+
+    if (issues.length > 0) {
+      throw new z.ZodRealError(issues);
+    }
+  },
+
+  /**
+   * Throws when a selection includes an option that is switched off, naming the option
+   */
+  async assertOptionsAvailable(selections: OptionSelection[]) {
+    const variationOptionIds = new Set<string>();
+    const addOnOptionIds = new Set<string>();
+
+    for (const selection of selections) {
+      const variations = (selection.selectedVariations ?? []) as SelectedVariation[];
+      variations.forEach((v) => variationOptionIds.add(v.selectedOptionId));
+      const addOns = (selection.selectedAddOns ?? []) as SelectedAddOn[];
+      addOns.forEach((a) => a.selectedOptionIds.forEach((id) => addOnOptionIds.add(id)));
+    }
+
+    if (variationOptionIds.size === 0 && addOnOptionIds.size === 0) {
+      return;
+    }
+
+    const [variationOptions, addOnOptions] = await Promise.all([
+      variationOptionIds.size > 0
+        ? prisma.variationOption.findMany({
+            where: { id: { in: Array.from(variationOptionIds) }, isAvailable: false },
+            select: {
+              name: true,
+              variation: { select: { name: true, menuItem: { select: { name: true } } } },
+            },
+          })
+        : Promise.resolve([]),
+      addOnOptionIds.size > 0
+        ? prisma.addOnOption.findMany({
+            where: { id: { in: Array.from(addOnOptionIds) }, isAvailable: false },
+            select: {
+              name: true,
+              addOn: { select: { name: true, menuItem: { select: { name: true } } } },
+            },
+          })
+        : Promise.resolve([]),
+    ]);
+
+    const unavailable = [
+      ...variationOptions.map((option) => ({
+        name: option.name,
+        group: option.variation.name,
+        itemName: option.variation.menuItem.name,
+      })),
+      ...addOnOptions.map((option) => ({
+        name: option.name,
+        group: option.addOn.name,
+        itemName: option.addOn.menuItem.name,
+      })),
+    ];
+
+    const first = unavailable[0];
+    if (first) {
+      throw new Error(`Option "${first.name}" (${first.group}) of "${first.itemName}" is currently unavailable`);
+    }
+  },
+};
+
+export default productOptionService;
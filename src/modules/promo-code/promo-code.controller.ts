@@ -5,12 +5,13 @@ import { applyPromoCodeSchema } from "./promo-code.schema";
 export const promoCodeController = {
   /**
    * GET /promo-codes
-   * Get list of available promo codes
+   * Get list of available promo codes of the user's selected mall
    * Public endpoint - for checkout screen
    */
   async getAvailablePromoCodes(req: Request, res: Response) {
     try {
-      const promoCodes = await promoCodeService.getAvailablePromoCodes();
+      const userId = (req as any).auth?.user?.id as string | undefined;
+      const promoCodes = await promoCodeService.getAvailablePromoCodes(userId);
 
       return res.json({
         success: true,
@@ -75,7 +76,8 @@ export const promoCodeController = {
         });
       }
 
-      const result = await promoCodeService.applyPromoCode(validation.data);
+      const userId = (req as any).auth?.user?.id as string | undefined;
+      const result = await promoCodeService.applyPromoCode(validation.data, userId);
 
       if (!result.success) {
         return res.status(400).json({
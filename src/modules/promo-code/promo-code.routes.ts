@@ -13,7 +13,8 @@ const router = Router();
  *     description: |
  *       Get list of all currently active promo codes available for use.
  *       This endpoint is used on the checkout screen to display available codes.
- *       Returns codes that are currently within their validity period (between startDate and endDate).
+ *       Returns codes that are currently within their validity period (between startDate and endDate)
+ *       for the user's selected mall (all malls when no mall is selected).
  *       Public endpoint - anyone can view.
  *     responses:
  *       200:
@@ -40,9 +41,16 @@ const router = Router();
  *                       code:
  *                         type: string
  *                         example: "SAVE20"
+ *                       discountType:
+ *                         type: string
+ *                         enum: [PERCENTAGE, FIXED, FREE_DELIVERY]
+ *                         example: "PERCENTAGE"
  *                       discountPercentage:
  *                         type: integer
  *                         example: 20
+ *                       fixedDiscountAmount:
+ *                         type: number
+ *                         nullable: true
  *                       startDate:
  *                         type: string
  *                         format: date-time
@@ -58,10 +66,26 @@ const router = Router();
  *                             type: string
  *                           name:
  *                             type: string
- *                       restaurant:
+ *                       scope:
+ *                         type: string
+ *                         enum: [MALL, RESTAURANTS, CUISINE_CATEGORY]
+ *                       restaurants:
+ *                         type: array
+ *                         items:
+ *                           type: object
+ *                           properties:
+ *                             restaurant:
+ *                               type: object
+ *                               properties:
+ *                                 userId:
+ *                                   type: string
+ *                                 name:
+ *                                   type: string
+ *                       cuisineCategory:
  *                         type: object
+ *                         nullable: true
  *                         properties:
- *                           userId:
+ *                           id:
  *                             type: string
  *                           name:
  *                             type: string
@@ -79,6 +103,7 @@ router.get("/", promoCodeController.getAvailablePromoCodes);
  *     description: |
  *       Get all currently valid (non-expired) promo codes for a specific restaurant.
  *       Returns only promo codes that are active (between startDate and endDate).
+ *       Includes mall-wide codes and codes of the restaurant's cuisine category.
  *       Public endpoint - used to show restaurant-specific promos.
  *     parameters:
  *       - in: path
@@ -113,9 +138,16 @@ router.get("/", promoCodeController.getAvailablePromoCodes);
  *                       code:
  *                         type: string
  *                         example: "SAVE20"
+ *                       discountType:
+ *                         type: string
+ *                         enum: [PERCENTAGE, FIXED, FREE_DELIVERY]
+ *                         example: "PERCENTAGE"
  *                       discountPercentage:
  *                         type: integer
  *                         example: 20
+ *                       fixedDiscountAmount:
+ *                         type: number
+ *                         nullable: true
  *                       startDate:
  *                         type: string
  *                         format: date-time
@@ -131,10 +163,26 @@ router.get("/", promoCodeController.getAvailablePromoCodes);
  *                             type: string
  *                           name:
  *                             type: string
- *                       restaurant:
+ *                       scope:
+ *                         type: string
+ *                         enum: [MALL, RESTAURANTS, CUISINE_CATEGORY]
+ *                       restaurants:
+ *                         type: array
+ *                         items:
+ *                           type: object
+ *                           properties:
+ *                             restaurant:
+ *                               type: object
+ *                               properties:
+ *                                 userId:
+ *                                   type: string
+ *                                 name:
+ *                                   type: string
+ *                       cuisineCategory:
  *                         type: object
+ *                         nullable: true
  *                         properties:
- *                           userId:
+ *                           id:
  *                             type: string
  *                           name:
  *                             type: string
@@ -144,26 +192,34 @@ router.get("/", promoCodeController.getAvailablePromoCodes);
  *               data:
  *                 - id: "550e8400-e29b-41d4-a716-446655440000"
  *                   code: "SAVE20"
+ *                   discountType: "PERCENTAGE"
  *                   discountPercentage: 20
  *                   startDate: "2025-01-01T00:00:00Z"
  *                   endDate: "2025-12-31T23:59:59Z"
  *                   mall:
  *                     id: "mall-123"
  *                     name: "City Mall"
- *                   restaurant:
- *                     userId: "rest-456"
- *                     name: "Pizza Place"
+ *                   scope: "RESTAURANTS"
+ *                   restaurants:
+ *                     - restaurant:
+ *                         userId: "rest-456"
+ *                         name: "Pizza Place"
+ *                   cuisineCategory: null
  *                 - id: "660e8400-e29b-41d4-a716-446655440001"
  *                   code: "WELCOME15"
+ *                   discountType: "PERCENTAGE"
  *                   discountPercentage: 15
  *                   startDate: "2025-01-01T00:00:00Z"
  *                   endDate: "2025-06-30T23:59:59Z"
  *                   mall:
  *                     id: "mall-123"
  *                     name: "City Mall"
- *                   restaurant:
- *                     userId: "rest-456"
- *                     name: "Pizza Place"
+ *                   scope: "RESTAURANTS"
+ *                   restaurants:
+ *                     - restaurant:
+ *                         userId: "rest-456"
+ *                         name: "Pizza Place"
+ *                   cuisineCategory: null
  *       400:
  *         description: Restaurant ID is required
  *       500:
@@ -179,8 +235,10 @@ router.get("/restaurant/:restaurantId", promoCodeController.getValidPromoCodesBy
  *     tags: [Promo Codes]
  *     description: |
  *       Validate a promo code and return its discount percentage.
- *       Validates the code's existence, date range, and restaurant applicability.
- *       Does not require subtotal; checkout will calculate the amount.
+ *       Validates the code's existence, date range, restaurant applicability and redemption rules
+ *       (usage limits, per-user limit, first order only and, when a subtotal is sent, the minimum order value).
+ *       Send the cart subtotal to also get the discount amount (capped by the maximum discount);
+ *       checkout recalculates it and records the redemption.
  *       Public endpoint - used during checkout.
  *     requestBody:
  *       required: true
@@ -199,6 +257,10 @@ router.get("/restaurant/:restaurantId", promoCodeController.getValidPromoCodesBy
  *                 type: string
  *                 description: "Restaurant ID (optional, for checking applicability)"
  *                 example: "550e8400-e29b-41d4-a716-446655440000"
+ *               subtotal:
+ *                 type: number
+ *                 description: "Cart subtotal (optional, checks the minimum order value and calculates the discount)"
+ *                 example: 32.5
  *     responses:
  *       200:
  *         description: Promo code validated successfully
@@ -216,9 +278,32 @@ router.get("/restaurant/:restaurantId", promoCodeController.getValidPromoCodesBy
  *                 code:
  *                   type: string
  *                   example: "SAVE20"
+ *                 discountType:
+ *                   type: string
+ *                   enum: [PERCENTAGE, FIXED, FREE_DELIVERY]
+ *                   example: "PERCENTAGE"
  *                 discountPercentage:
  *                   type: integer
  *                   example: 20
+ *                 fixedDiscountAmount:
+ *                   type: number
+ *                   nullable: true
+ *                 discountAmount:
+ *                   type: number
+ *                   nullable: true
+ *                   description: Discount on the given subtotal (null when no subtotal was sent, and for FREE_DELIVERY codes, which are valued at checkout)
+ *                   example: 6.5
+ *                 scope:
+ *                   type: string
+ *                   enum: [MALL, RESTAURANTS, CUISINE_CATEGORY]
+ *                 minOrderSubtotal:
+ *                   type: number
+ *                   nullable: true
+ *                 maxDiscountAmount:
+ *                   type: number
+ *                   nullable: true
+ *                 firstOrderOnly:
+ *                   type: boolean
  *                 message:
  *                   type: string
  *                   example: "Promo code validated successfully"
@@ -4,6 +4,8 @@ import { z } from "zod";
 export const applyPromoCodeSchema = z.object({
   code: z.string().min(1, "Promo code is required").toUpperCase(),
   restaurantId: z.string().optional(),
+  // Cart subtotal, to check the minimum order value and calculate the discount
+  subtotal: z.number().min(0).optional(),
 });
 
 // Promo code response when applied
@@ -11,8 +13,15 @@ export const promoCodeResponseSchema = z.object({
   success: z.boolean(),
   promoCodeId: z.string().optional(),
   code: z.string().optional(),
+  discountType: z.enum(["PERCENTAGE", "FIXED", "FREE_DELIVERY"]).optional(),
   discountPercentage: z.number().optional(),
-  // No amounts calculated here; checkout calculates using discountPercentage
+  fixedDiscountAmount: z.number().nullable().optional(),
+  // Only calculated when a subtotal is sent (never for free delivery); checkout always recalculates it
+  discountAmount: z.number().nullable().optional(),
+  scope: z.enum(["MALL", "RESTAURANTS", "CUISINE_CATEGORY"]).optional(),
+  minOrderSubtotal: z.number().nullable().optional(),
+  maxDiscountAmount: z.number().nullable().optional(),
+  firstOrderOnly: z.boolean().optional(),
   message: z.string().optional(),
 });
 
@@ -1,41 +1,351 @@
 import prisma from "../../config/prisma";
+import type { Prisma, PromoCode } from "../../generated/prisma/client";
 import { ApplyPromoCodeRequest } from "./promo-code.schema";
 
+/**
+ * Context a promo code is redeemed in. Rules depending on a missing value are skipped
+ * (e.g. the minimum subtotal when no subtotal is known yet).
+ */
+export type PromoCodeRedemptionContext = {
+  userId?: string | undefined;
+  restaurantId?: string | undefined;
+  subtotal?: number | undefined;
+  // Needed to value free-delivery codes
+  deliveryFee?: number | undefined;
+};
+
+export type PromoCodeValidationResult =
+  | { success: true; discountAmount: number | null }
+  | { success: false; message: string };
+
+// Orders in these statuses don't count as a previous order for first-order-only codes
+const NON_COUNTING_ORDER_STATUSES = ["CANCELLED", "REJECTED"] as const;
+
+// Discount definition and usage rules exposed to clients
+const PROMO_CODE_RULES_SELECT = {
+  discountType: true,
+  discountPercentage: true,
+  fixedDiscountAmount: true,
+  maxRedemptions: true,
+  maxRedemptionsPerUser: true,
+  minOrderSubtotal: true,
+  maxDiscountAmount: true,
+  firstOrderOnly: true,
+  redemptionCount: true,
+} as const;
+
+// Where a code applies: the mall, the restaurant list or the cuisine category
+const PROMO_CODE_SCOPE_SELECT = {
+  scope: true,
+  mall: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+  restaurants: {
+    select: {
+      restaurant: {
+        select: {
+          userId: true,
+          name: true,
+        },
+      },
+    },
+  },
+  cuisineCategory: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+} as const;
+
+// Active (started, not expired) and not exhausted codes
+function activePromoCodeWhere(now: Date): Prisma.PromoCodeWhereInput {
+  return {
+    endDate: {
+      gte: now, // Not expired
+    },
+    startDate: {
+      lte: now, // Already started
+    },
+    // Not exhausted
+    OR: [{ maxRedemptions: null }, { redemptionCount: { lt: prisma.promoCode.fields.maxRedemptions } }],
+  };
+}
+
+// Codes of the restaurant's mall that cover the restaurant (whole mall, listed, or its cuisine category)
+export function restaurantScopeWhere(restaurant: {
+  userId: string;
+  mallId: string;
+  cuisineCategoryId: string | null;
+}): Prisma.PromoCodeWhereInput {
+  const scopes: Prisma.PromoCodeWhereInput[] = [
+    { scope: "MALL" },
+    { scope: "RESTAURANTS", restaurants: { some: { restaurantId: restaurant.userId } } },
+  ];
+  if (restaurant.cuisineCategoryId) {
+    scopes.push({ scope: "CUISINE_CATEGORY", cuisineCategoryId: restaurant.cuisineCategoryId });
+  }
+
+  return { mallId: restaurant.mallId, OR: scopes };
+}
+
 export const promoCodeService = {
+  /**
+   * Discount granted by a promo code, capped by the maximum discount amount:
+   * - PERCENTAGE: percentage of the subtotal
+   * - FIXED: fixed amount, never more than the subtotal
+   * - FREE_DELIVERY: the delivery fee
+   */
+  calculateDiscount(promoCode: PromoCode, subtotal: number, deliveryFee: number = 0): number {
+    let base = subtotal;
+    let discount: number;
+
+    switch (promoCode.discountType) {
+      case "FIXED":
+        discount = promoCode.fixedDiscountAmount?.toNumber() ?? 0;
+        break;
+      case "FREE_DELIVERY":
+        base = deliveryFee;
+        discount = deliveryFee;
+        break;
+      default:
+        discount = (subtotal * promoCode.discountPercentage) / 100;
+    }
+
+    if (promoCode.maxDiscountAmount !== null) {
+      discount = Math.min(discount, promoCode.maxDiscountAmount.toNumber());
+    }
+    return Math.round(Math.max(Math.min(discount, base), 0) * 100) / 100;
+  },
+
+  /**
+   * Checks that a restaurant is covered by the scope of a promo code.
+   * Codes never apply outside their mall.
+   */
+  async isApplicableToRestaurant(
+    promoCode: PromoCode,
+    restaurantId: string,
+    client: Prisma.TransactionClient = prisma
+  ): Promise<boolean> {
+    const restaurant = await client.restaurant.findUnique({
+      where: { userId: restaurantId },
+      select: {
+        mallId: true,
+        cuisineCategoryId: true,
+        promoCodes: { where: { promoCodeId: promoCode.id }, select: { promoCodeId: true } },
+      },
+    });
+
+    if (!restaurant || restaurant.mallId !== promoCode.mallId) {
+      return false;
+    }
+
+    switch (promoCode.scope) {
+      case "MALL":
+        return true;
+      case "CUISINE_CATEGORY":
+        return promoCode.cuisineCategoryId !== null && restaurant.cuisineCategoryId === promoCode.cuisineCategoryId;
+      default:
+        return restaurant.promoCodes.length > 0;
+    }
+  },
+
+  /**
+   * Checks every redemption rule of a promo code without reserving it.
+   * Checkout calls `redeem` afterwards, which enforces the limits atomically.
+   */
+  async validateRedemption(
+    promoCode: PromoCode,
+    context: PromoCodeRedemptionContext,
+    client: Prisma.TransactionClient = prisma
+  ): Promise<PromoCodeValidationResult> {
+    const now = new Date();
+
+    if (promoCode.startDate > now) {
+      return { success: false, message: "This promo code is not yet valid" };
+    }
+
+    if (promoCode.endDate < now) {
+      return { success: false, message: "This promo code has expired" };
+    }
+
+    // Personal codes (e.g. order issue credits) can only be redeemed by their customer
+    if (promoCode.userId && promoCode.userId !== context.userId) {
+      return { success: false, message: "This promo code is not valid for your account" };
+    }
+
+    if (context.restaurantId && !(await this.isApplicableToRestaurant(promoCode, context.restaurantId, client))) {
+      return { success: false, message: "This promo code is not applicable to this restaurant" };
+    }
+
+    if (promoCode.maxRedemptions !== null && promoCode.redemptionCount >= promoCode.maxRedemptions) {
+      return { success: false, message: "This promo code has reached its usage limit" };
+    }
+
+    if (
+      context.subtotal !== undefined &&
+      promoCode.minOrderSubtotal !== null &&
+      context.subtotal < promoCode.minOrderSubtotal.toNumber()
+    ) {
+      return {
+        success: false,
+        message: `This promo code requires a minimum order of ${promoCode.minOrderSubtotal.toNumber().toFixed(2)}`,
+      };
+    }
+
+    if (context.userId) {
+      if (promoCode.maxRedemptionsPerUser !== null) {
+        const userRedemptions = await client.promoCodeUse.count({
+          where: { promoCodeId: promoCode.id, userId: context.userId, releasedAt: null },
+        });
+        if (userRedemptions >= promoCode.maxRedemptionsPerUser) {
+          return { success: false, message: "You have already used this promo code the maximum number of times" };
+        }
+      }
+
+      if (promoCode.firstOrderOnly) {
+        const previousOrders = await client.order.count({
+          where: { userId: context.userId, status: { notIn: [...NON_COUNTING_ORDER_STATUSES] } },
+        });
+        if (previousOrders > 0) {
+          return { success: false, message: "This promo code is only valid on your first order" };
+        }
+      }
+    }
+
+    // Free delivery can only be valued once the delivery fee is known
+    const canCalculate =
+      context.subtotal !== undefined &&
+      (promoCode.discountType !== "FREE_DELIVERY" || context.deliveryFee !== undefined);
+
+    return {
+      success: true,
+      discountAmount: canCalculate
+        ? this.calculateDiscount(promoCode, context.subtotal ?? 0, context.deliveryFee)
+        : null,
+    };
+  },
+
+  /**
+   * Records a redemption inside the checkout transaction.
+   *
+   * The redemption counter is incremented only while below the total cap; the row lock this takes
+   * serializes concurrent redemptions of the same code, so the per-user and first-order checks
+   * that follow can't be raced either. Throws when a limit is reached.
+   */
+  async redeem(
+    tx: Prisma.TransactionClient,
+    input: { promoCode: PromoCode; userId: string; orderId: string; discountAmount: number }
+  ) {
+    const { promoCode, userId, orderId, discountAmount } = input;
+
+    const reserved = await tx.promoCode.updateMany({
+      where: {
+        id: promoCode.id,
+        OR: [{ maxRedemptions: null }, { redemptionCount: { lt: tx.promoCode.fields.maxRedemptions } }],
+      },
+      data: { redemptionCount: { increment: 1 } },
+    });
+
+    if (reserved.count === 0) {
+      throw new Error("This promo code has reached its usage limit");
+    }
+
+    if (promoCode.maxRedemptionsPerUser !== null) {
+      const userRedemptions = await tx.promoCodeUse.count({
+        where: { promoCodeId: promoCode.id, userId, releasedAt: null },
+      });
+      if (userRedemptions >= promoCode.maxRedemptionsPerUser) {
+        throw new Error("You have already used this promo code the maximum number of times");
+      }
+    }
+
+    if (promoCode.firstOrderOnly) {
+      const previousOrders = await tx.order.count({
+        where: { userId, id: { not: orderId }, status: { notIn: [...NON_COUNTING_ORDER_STATUSES] } },
+      });
+      if (previousOrders > 0) {
+        throw new Error("This promo code is only valid on your first order");
+      }
+    }
+
+    return tx.promoCodeUse.create({
+      data: {
+        promoCodeId: promoCode.id,
+        orderId,
+        userId,
+        discountAmount: discountAmount.toString(),
+      },
+    });
+  },
+
+  /**
+   * Releases the promo code redemptions of an order (cancelled, rejected or refunded),
+   * so they no longer count towards the usage limits. Safe to call more than once.
+   */
+  async releaseOrderRedemptions(tx: Prisma.TransactionClient, orderId: string) {
+    const uses = await tx.promoCodeUse.findMany({
+      where: { orderId, releasedAt: null },
+      select: { id: true, promoCodeId: true },
+    });
+
+    for (const use of uses) {
+      const released = await tx.promoCodeUse.updateMany({
+        where: { id: use.id, releasedAt: null },
+        data: { releasedAt: new Date() },
+      });
+      if (released.count > 0) {
+        await tx.promoCode.updateMany({
+          where: { id: use.promoCodeId, redemptionCount: { gt: 0 } },
+          data: { redemptionCount: { decrement: 1 } },
+        });
+      }
+    }
+
+    if (uses.length > 0) {
+      console.log(`[PromoCode] Released ${uses.length} promo code redemption(s) for order ${orderId}`);
+    }
+
+    return uses.length;
+  },
+
   /**
    * Get available promo codes (public list)
-   * Shows currently active promo codes that users can use
+   * Shows currently active promo codes of the user's selected mall
+   * (all malls when the user has not selected one)
    */
-  async getAvailablePromoCodes() {
+  async getAvailablePromoCodes(userId?: string) {
     try {
       const now = new Date();
+
+      let mallId: string | null = null;
+      if (userId) {
+        const user = await prisma.user.findUnique({
+          where: { id: userId },
+          select: { selectedMallId: true },
+        });
+        mallId = user?.selectedMallId ?? null;
+      }
+
       const promoCodes = await prisma.promoCode.findMany({
         where: {
-          endDate: {
-            gte: now, // Not expired
-          },
-          startDate: {
-            lte: now, // Already started
-          },
+          AND: [
+            activePromoCodeWhere(now),
+            // Public codes and the user's personal codes
+            { OR: [{ userId: null }, ...(userId ? [{ userId }] : [])] },
+          ],
+          ...(mallId ? { mallId } : {}),
         },
         select: {
           id: true,
           code: true,
-          discountPercentage: true,
           startDate: true,
           endDate: true,
-          mall: {
-            select: {
-              id: true,
-              name: true,
-            },
-          },
-          Restaurant: {
-            select: {
-              userId: true,
-              name: true,
-            },
-          },
+          ...PROMO_CODE_RULES_SELECT,
+          ...PROMO_CODE_SCOPE_SELECT,
         },
         orderBy: {
           endDate: "desc",
@@ -51,39 +361,31 @@ export const promoCodeService = {
 
   /**
    * Get all valid (non-expired) promo codes for a specific restaurant
-   * Returns promo codes that are currently active and not expired
+   * Includes mall-wide and cuisine category codes covering the restaurant
    */
   async getValidPromoCodesByRestaurant(restaurantId: string) {
     try {
+      const restaurant = await prisma.restaurant.findUnique({
+        where: { userId: restaurantId },
+        select: { userId: true, mallId: true, cuisineCategoryId: true },
+      });
+
+      if (!restaurant) {
+        return [];
+      }
+
       const now = new Date();
       const promoCodes = await prisma.promoCode.findMany({
         where: {
-          restaurantId: restaurantId,
-          endDate: {
-            gte: now, // Not expired
-          },
-          startDate: {
-            lte: now, // Already started
-          },
+          AND: [activePromoCodeWhere(now), restaurantScopeWhere(restaurant), { userId: null }],
         },
         select: {
           id: true,
           code: true,
-          discountPercentage: true,
           startDate: true,
           endDate: true,
-          mall: {
-            select: {
-              id: true,
-              name: true,
-            },
-          },
-          Restaurant: {
-            select: {
-              userId: true,
-              name: true,
-            },
-          },
+          ...PROMO_CODE_RULES_SELECT,
+          ...PROMO_CODE_SCOPE_SELECT,
         },
         orderBy: {
           endDate: "desc",
@@ -99,11 +401,11 @@ export const promoCodeService = {
 
   /**
    * Validate and apply a promo code
-   * Returns discount amount and validation result
+   * Returns the discount (when a subtotal is given) and validation result
    */
-  async applyPromoCode(request: ApplyPromoCodeRequest) {
+  async applyPromoCode(request: ApplyPromoCodeRequest, userId?: string) {
     try {
-      const { code, restaurantId } = request;
+      const { code, restaurantId, subtotal } = request;
 
       // Find promo code by exact code (uppercased for consistency)
       const promoCode = await prisma.promoCode.findUnique({
@@ -118,36 +420,24 @@ export const promoCodeService = {
         };
       }
 
-      const now = new Date();
-
-      // 2) Date window validation
-      if (promoCode.startDate > now) {
-        return {
-          success: false,
-          message: "This promo code is not yet valid",
-        };
-      }
-
-      if (promoCode.endDate < now) {
-        return {
-          success: false,
-          message: "This promo code has expired",
-        };
-      }
-
-      // 3) Restaurant applicability (if provided)
-      if (restaurantId && promoCode.restaurantId && promoCode.restaurantId !== restaurantId) {
-        return {
-          success: false,
-          message: "This promo code is not applicable to this restaurant",
-        };
+      // 2) Date window, restaurant and redemption rules
+      const validation = await this.validateRedemption(promoCode, { userId, restaurantId, subtotal });
+      if (!validation.success) {
+        return validation;
       }
 
       return {
         success: true,
         promoCodeId: promoCode.id,
         code: promoCode.code,
+        discountType: promoCode.discountType,
         discountPercentage: promoCode.discountPercentage,
+        fixedDiscountAmount: promoCode.fixedDiscountAmount?.toNumber() ?? null,
+        discountAmount: validation.discountAmount,
+        scope: promoCode.scope,
+        minOrderSubtotal: promoCode.minOrderSubtotal?.toNumber() ?? null,
+        maxDiscountAmount: promoCode.maxDiscountAmount?.toNumber() ?? null,
+        firstOrderOnly: promoCode.firstOrderOnly,
         message: "Promo code validated successfully",
       };
     } catch (err) {
@@ -155,29 +445,6 @@ export const promoCodeService = {
       throw err;
     }
   },
-
-  /**
-   * Track promo code usage when order is placed
-   * Note: With the new simplified schema, we just link the order to the promo code
-   * The Order model already has promoCodeId field
-   */
-  async recordPromoCodeUsage(promoCodeId: string) {
-    try {
-      // Verify promo code exists
-      const promoCode = await prisma.promoCode.findUnique({
-        where: { id: promoCodeId },
-      });
-
-      if (!promoCode) {
-        throw new Error("Promo code not found");
-      }
-
-      return { success: true };
-    } catch (err) {
-      console.error('[promoCodeService] recordPromoCodeUsage error:', (err as any)?.stack || err);
-      throw err;
-    }
-  },
 };
 
 export default promoCodeService;
\ No newline at end of file
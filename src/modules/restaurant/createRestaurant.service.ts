@@ -131,7 +131,6 @@ export const createRestaurantService = {
             banner: data.banner || null,
             story: data.story || null,
             onboardingCompleted: false, // Start with onboarding incomplete
-            ...(data.isFavorite !== undefined && { isFavorite: data.isFavorite }),
           },
         });
 
@@ -43,6 +43,9 @@ export const promotionController = {
       if (error.message === "Restaurant not found") {
         return res.status(404).json({ message: error.message });
       }
+      if (error.message?.includes("not found for this restaurant")) {
+        return res.status(400).json({ message: error.message });
+      }
       return res.status(500).json({ message: error.message || "Failed to create promotion" });
     }
   },
@@ -136,6 +139,9 @@ export const promotionController = {
       if (error.message === "Promotion not found") {
         return res.status(404).json({ message: error.message });
       }
+      if (error.message?.includes("not found for this restaurant")) {
+        return res.status(400).json({ message: error.message });
+      }
       return res.status(500).json({ message: error.message || "Failed to update promotion" });
     }
   },
@@ -24,6 +24,11 @@ const router = Router();
  *       - Title: minimum 6 characters
  *       - Discount percentage: 0-100
  *       - Dates: DD/MM/YYYY format
+ *
+ *       **Applying:** active promotions discount eligible items in the cart, checkout and order.
+ *       Without `menuCategoryIds`/`menuItemIds` the whole menu is eligible. Only the promotion with
+ *       the largest discount applies to an order, and promo codes are only accepted on top of it
+ *       when `stacksWithPromoCodes` is true.
  *     parameters:
  *       - in: path
  *         name: restaurantId
@@ -71,6 +76,17 @@ const router = Router();
  *                 type: string
  *                 format: binary
  *                 description: Banner image (PNG or JPEG, max 2MB)
+ *               menuCategoryIds:
+ *                 type: string
+ *                 description: Targeted menu category IDs (JSON array or comma-separated)
+ *                 example: "cat-1,cat-2"
+ *               menuItemIds:
+ *                 type: string
+ *                 description: Targeted menu item IDs (JSON array or comma-separated)
+ *               stacksWithPromoCodes:
+ *                 type: boolean
+ *                 default: false
+ *                 description: Whether promo codes can be combined with this promotion
  *     responses:
  *       201:
  *         description: Promotion created successfully
@@ -335,6 +351,14 @@ router.get("/promotions/:id", promotionController.getPromotionById);
  *                 format: binary
  *               isActive:
  *                 type: boolean
+ *               menuCategoryIds:
+ *                 type: string
+ *                 description: Targeted menu category IDs (JSON array or comma-separated, empty = whole menu)
+ *               menuItemIds:
+ *                 type: string
+ *                 description: Targeted menu item IDs (JSON array or comma-separated, empty = whole menu)
+ *               stacksWithPromoCodes:
+ *                 type: boolean
  *     responses:
  *       200:
  *         description: Promotion updated successfully
@@ -13,6 +13,33 @@ const parseDateString = (dateStr: string): Date => {
   return date;
 };
 
+// Menu category / item IDs, sent as an array, a JSON array or a comma-separated string (multipart forms)
+const idListSchema = z.preprocess(
+  (val) => {
+    if (typeof val !== "string") return val;
+    const trimmed = val.trim();
+    if (trimmed === "") return [];
+    if (trimmed.startsWith("[")) {
+      try {
+        return JSON.parse(trimmed);
+      } catch {
+        return val;
+      }
+    }
+    return trimmed.split(",").map((id) => id.trim()).filter(Boolean);
+  },
+  z.array(z.string().min(1))
+);
+
+const booleanSchema = z.preprocess(
+  (val) => {
+    if (val === "true" || val === true) return true;
+    if (val === "false" || val === false) return false;
+    return val;
+  },
+  z.boolean()
+);
+
 // Schema for creating a promotion
 export const createPromotionSchema = z.object({
   restaurantId: z.string().min(1, "Restaurant ID is required"),
@@ -33,6 +60,11 @@ export const createPromotionSchema = z.object({
     .regex(/^\d{2}\/\d{2}\/\d{4}$/, "End date must be in DD/MM/YYYY format")
     .transform((val) => parseDateString(val)),
   banner: z.string().optional(), // Will be set from file upload
+  // Targets; both empty = the whole menu
+  menuCategoryIds: idListSchema.optional(),
+  menuItemIds: idListSchema.optional(),
+  // Whether promo codes can be used on top of this promotion
+  stacksWithPromoCodes: booleanSchema.optional(),
 }).refine(
   (data) => data.endDate >= data.startDate,
   {
@@ -63,14 +95,10 @@ export const updatePromotionSchema = z.object({
     .transform((val) => parseDateString(val))
     .optional(),
   banner: z.string().optional(),
-  isActive: z.preprocess(
-    (val) => {
-      if (val === "true" || val === true) return true;
-      if (val === "false" || val === false) return false;
-      return val;
-    },
-    z.boolean()
-  ).optional(),
+  isActive: booleanSchema.optional(),
+  menuCategoryIds: idListSchema.optional(),
+  menuItemIds: idListSchema.optional(),
+  stacksWithPromoCodes: booleanSchema.optional(),
 }).refine(
   (data) => {
     // Only validate if both dates are provided
@@ -1,10 +1,79 @@
 import prisma from "../../../config/prisma";
+import type { Promotion } from "../../../generated/prisma/client";
 import {
   CreatePromotionInput,
   UpdatePromotionInput,
 } from "./promotion.schema";
 import { deleteImageFile } from "../../../config/upload";
 
+/**
+ * Applying promotions
+ *
+ * Active promotions discount the eligible items of their restaurant by `discountPercentage`.
+ * A promotion without target categories/items covers the whole menu; otherwise an item is
+ * eligible when it, or its menu category, is targeted.
+ *
+ * Stacking rules:
+ * - Only one promotion applies per order: the one giving the largest discount on the cart.
+ * - A promo code is calculated on the subtotal after the promotion discount, and only when
+ *   the applied promotion allows it (`stacksWithPromoCodes`).
+ */
+
+// Cart line a promotion can discount
+export type PromotionLine = {
+  menuItemId: string;
+  categoryId: string;
+  lineTotal: number;
+};
+
+export type AppliedPromotion = {
+  promotion: {
+    id: string;
+    title: string;
+    discountPercentage: number;
+    stacksWithPromoCodes: boolean;
+  } | null;
+  discount: number;
+  // Discount of every line, in the order of the lines
+  lineDiscounts: number[];
+};
+
+function roundMoney(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+function isEligible(promotion: Promotion, line: Pick<PromotionLine, "menuItemId" | "categoryId">) {
+  if (promotion.menuCategoryIds.length === 0 && promotion.menuItemIds.length === 0) {
+    return true;
+  }
+  return promotion.menuItemIds.includes(line.menuItemId) || promotion.menuCategoryIds.includes(line.categoryId);
+}
+
+// Targets must be menu categories / items of the promotion's restaurant
+async function assertTargetsBelongToRestaurant(
+  restaurantId: string,
+  menuCategoryIds: string[] | undefined,
+  menuItemIds: string[] | undefined
+) {
+  if (menuCategoryIds && menuCategoryIds.length > 0) {
+    const count = await prisma.menuCategory.count({
+      where: { id: { in: menuCategoryIds }, restaurantId },
+    });
+    if (count !== new Set(menuCategoryIds).size) {
+      throw new Error("Menu category not found for this restaurant");
+    }
+  }
+
+  if (menuItemIds && menuItemIds.length > 0) {
+    const count = await prisma.menuItem.count({
+      where: { id: { in: menuItemIds }, category: { restaurantId } },
+    });
+    if (count !== new Set(menuItemIds).size) {
+      throw new Error("Menu item not found for this restaurant");
+    }
+  }
+}
+
 export const promotionService = {
   /**
    * Create a new promotion for a restaurant
@@ -19,6 +88,8 @@ export const promotionService = {
       throw new Error("Restaurant not found");
     }
 
+    await assertTargetsBelongToRestaurant(data.restaurantId, data.menuCategoryIds, data.menuItemIds);
+
     return prisma.promotion.create({
       data: {
         restaurantId: data.restaurantId,
@@ -28,6 +99,9 @@ export const promotionService = {
         startDate: data.startDate,
         endDate: data.endDate,
         isActive: true,
+        menuCategoryIds: data.menuCategoryIds ?? [],
+        menuItemIds: data.menuItemIds ?? [],
+        stacksWithPromoCodes: data.stacksWithPromoCodes ?? false,
       },
     });
   },
@@ -67,7 +141,7 @@ export const promotionService = {
     // Get current promotion to check for existing banner
     const currentPromotion = await prisma.promotion.findUnique({
       where: { id },
-      select: { banner: true },
+      select: { banner: true, restaurantId: true },
     });
 
     if (!currentPromotion) {
@@ -92,6 +166,14 @@ export const promotionService = {
     if (data.isActive !== undefined && data.isActive !== null) {
       updateData.isActive = data.isActive;
     }
+    if (data.stacksWithPromoCodes !== undefined) {
+      updateData.stacksWithPromoCodes = data.stacksWithPromoCodes;
+    }
+    if (data.menuCategoryIds !== undefined || data.menuItemIds !== undefined) {
+      await assertTargetsBelongToRestaurant(currentPromotion.restaurantId, data.menuCategoryIds, data.menuItemIds);
+      if (data.menuCategoryIds !== undefined) updateData.menuCategoryIds = data.menuCategoryIds;
+      if (data.menuItemIds !== undefined) updateData.menuItemIds = data.menuItemIds;
+    }
     
     if (data.banner !== undefined && data.banner !== null && data.banner.trim() !== "") {
       // Delete old banner if it exists and is a local file
@@ -157,5 +239,41 @@ export const promotionService = {
     
     return promotions;
   },
-};
 
+  /**
+   * Picks the active promotion giving the largest discount on the given cart lines
+   * of a restaurant, and the discount of every line
+   */
+  async applyToLines(restaurantId: string, lines: PromotionLine[]): Promise<AppliedPromotion> {
+    const noPromotion: AppliedPromotion = { promotion: null, discount: 0, lineDiscounts: lines.map(() => 0) };
+    if (lines.length === 0) {
+      return noPromotion;
+    }
+
+    const promotions = await this.getActivePromotions(restaurantId);
+
+    let best = noPromotion;
+    for (const promotion of promotions) {
+      const percentage = promotion.discountPercentage.toNumber();
+      const lineDiscounts = lines.map((line) =>
+        isEligible(promotion, line) ? roundMoney((line.lineTotal * percentage) / 100) : 0
+      );
+      const discount = roundMoney(lineDiscounts.reduce((sum, value) => sum + value, 0));
+
+      if (discount > best.discount) {
+        best = {
+          promotion: {
+            id: promotion.id,
+            title: promotion.title,
+            discountPercentage: percentage,
+            stacksWithPromoCodes: promotion.stacksWithPromoCodes,
+          },
+          discount,
+          lineDiscounts,
+        };
+      }
+    }
+
+    return best;
+  },
+};
@@ -4,6 +4,10 @@ import {
   restaurantInfoSchema,
   createBusinessHoursSchema,
   updateBusinessHoursSchema,
+  dateSchema,
+  upsertSpecialDaySchema,
+  dateRangeQuerySchema,
+  createMallClosureSchema,
 } from "./restaurant-info.schema";
 
 export const restaurantInfoController = {
@@ -212,6 +216,179 @@ export const restaurantInfoController = {
       return res.status(500).json({ success: false, message: "Failed to delete business hours" });
     }
   },
+
+  /**
+   * GET /restaurant/:restaurantId/special-days
+   * Get special days (holidays, events) of a restaurant
+   * Public endpoint
+   */
+  async getSpecialDays(req: Request, res: Response) {
+    const { restaurantId } = req.params;
+
+    if (!restaurantId) {
+      return res.status(400).json({ success: false, message: "Restaurant ID is required" });
+    }
+
+    const parseResult = dateRangeQuerySchema.safeParse(req.query);
+
+    if (!parseResult.success) {
+      return res.status(400).json({ success: false, message: "Invalid query parameters", errors: parseResult.error.flatten() });
+    }
+
+    try {
+      const days = await restaurantInfoService.getSpecialDays(restaurantId, parseResult.data);
+      return res.json({ success: true, data: days });
+    } catch (error: any) {
+      console.error('[restaurantInfoController] getSpecialDays error:', error?.stack || error);
+      return res.status(500).json({ success: false, message: "Failed to fetch special days" });
+    }
+  },
+
+  /**
+   * PUT /restaurant/:restaurantId/special-days/:date
+   * Create or replace the special hours for one date
+   * Only restaurant owner (or admin) can update
+   */
+  async upsertSpecialDay(req: Request, res: Response) {
+    const { restaurantId, date } = req.params;
+
+    if (!restaurantId || !date) {
+      return res.status(400).json({ success: false, message: "Restaurant ID and date are required" });
+    }
+
+    const dateResult = dateSchema.safeParse(date);
+    const parseResult = upsertSpecialDaySchema.safeParse(req.body);
+
+    if (!dateResult.success) {
+      return res.status(400).json({ success: false, message: "Invalid date", errors: dateResult.error.flatten() });
+    }
+    if (!parseResult.success) {
+      return res.status(400).json({ success: false, message: "Invalid request body", errors: parseResult.error.flatten() });
+    }
+
+    try {
+      const day = await restaurantInfoService.upsertSpecialDay(restaurantId, dateResult.data, parseResult.data);
+      return res.json({ success: true, data: day });
+    } catch (error: any) {
+      console.error('[restaurantInfoController] upsertSpecialDay error:', error?.stack || error);
+      if (error.message === "Restaurant not found") {
+        return res.status(404).json({ success: false, message: error.message });
+      }
+      return res.status(500).json({ success: false, message: "Failed to save special day" });
+    }
+  },
+
+  /**
+   * DELETE /restaurant/:restaurantId/special-days/:date
+   * Delete the special hours for one date
+   * Only restaurant owner (or admin) can delete
+   */
+  async deleteSpecialDay(req: Request, res: Response) {
+    const { restaurantId, date } = req.params;
+
+    if (!restaurantId || !date) {
+      return res.status(400).json({ success: false, message: "Restaurant ID and date are required" });
+    }
+
+    const dateResult = dateSchema.safeParse(date);
+
+    if (!dateResult.success) {
+      return res.status(400).json({ success: false, message: "Invalid date", errors: dateResult.error.flatten() });
+    }
+
+    try {
+      const result = await restaurantInfoService.deleteSpecialDay(restaurantId, dateResult.data);
+      return res.json({ success: true, data: result });
+    } catch (error: any) {
+      console.error('[restaurantInfoController] deleteSpecialDay error:', error?.stack || error);
+      if (error.message === "Special day not found") {
+        return res.status(404).json({ success: false, message: error.message });
+      }
+      return res.status(500).json({ success: false, message: "Failed to delete special day" });
+    }
+  },
+
+  /**
+   * GET /mall/:mallId/closures
+   * Get mall-wide closures
+   * Public endpoint
+   */
+  async getMallClosures(req: Request, res: Response) {
+    const { mallId } = req.params;
+
+    if (!mallId) {
+      return res.status(400).json({ success: false, message: "Mall ID is required" });
+    }
+
+    const parseResult = dateRangeQuerySchema.safeParse(req.query);
+
+    if (!parseResult.success) {
+      return res.status(400).json({ success: false, message: "Invalid query parameters", errors: parseResult.error.flatten() });
+    }
+
+    try {
+      const closures = await restaurantInfoService.getMallClosures(mallId, parseResult.data);
+      return res.json({ success: true, data: closures });
+    } catch (error: any) {
+      console.error('[restaurantInfoController] getMallClosures error:', error?.stack || error);
+      return res.status(500).json({ success: false, message: "Failed to fetch mall closures" });
+    }
+  },
+
+  /**
+   * POST /mall/:mallId/closures
+   * Close every restaurant of the mall for a date range
+   * Admin only
+   */
+  async createMallClosure(req: Request, res: Response) {
+    const { mallId } = req.params;
+    const adminId = (req as any).auth?.user?.id as string | undefined;
+
+    if (!mallId) {
+      return res.status(400).json({ success: false, message: "Mall ID is required" });
+    }
+
+    const parseResult = createMallClosureSchema.safeParse(req.body);
+
+    if (!parseResult.success) {
+      return res.status(400).json({ success: false, message: "Invalid request body", errors: parseResult.error.flatten() });
+    }
+
+    try {
+      const closure = await restaurantInfoService.createMallClosure(mallId, parseResult.data, adminId);
+      return res.status(201).json({ success: true, data: closure });
+    } catch (error: any) {
+      console.error('[restaurantInfoController] createMallClosure error:', error?.stack || error);
+      if (error.message === "Mall not found") {
+        return res.status(404).json({ success: false, message: error.message });
+      }
+      return res.status(500).json({ success: false, message: "Failed to create mall closure" });
+    }
+  },
+
+  /**
+   * DELETE /mall/:mallId/closures/:closureId
+   * Delete a mall-wide closure
+   * Admin only
+   */
+  async deleteMallClosure(req: Request, res: Response) {
+    const { mallId, closureId } = req.params;
+
+    if (!mallId || !closureId) {
+      return res.status(400).json({ success: false, message: "Mall ID and closure ID are required" });
+    }
+
+    try {
+      const result = await restaurantInfoService.deleteMallClosure(mallId, closureId);
+      return res.json({ success: true, data: result });
+    } catch (error: any) {
+      console.error('[restaurantInfoController] deleteMallClosure error:', error?.stack || error);
+      if (error.message === "Mall closure not found") {
+        return res.status(404).json({ success: false, message: error.message });
+      }
+      return res.status(500).json({ success: false, message: "Failed to delete mall closure" });
+    }
+  },
 };
 
 export default restaurantInfoController;
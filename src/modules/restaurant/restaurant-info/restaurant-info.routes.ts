@@ -1,6 +1,6 @@
 import { Router } from "express";
 import restaurantInfoController from "./restaurant-info.controller";
-import { requireAuth, requireRestaurantRole, requireRestaurantOwnership } from "../../../middlewares/role.middleware";
+import { requireAuth, requireRestaurantRole, requireRestaurantOwnership, requireAdminRole } from "../../../middlewares/role.middleware";
 
 const router = Router();
 
@@ -353,4 +353,295 @@ router.delete("/restaurant/:restaurantId/business-hours/:dayOfWeek", requireAuth
  */
 router.delete("/restaurant/:restaurantId/business-hours", requireAuth, requireRestaurantRole, requireRestaurantOwnership, restaurantInfoController.deleteAllBusinessHours);
 
+/**
+ * @swagger
+ * /restaurant/{restaurantId}/special-days:
+ *   get:
+ *     summary: Get special days
+ *     tags: [Restaurant Info]
+ *     description: |
+ *       Date-specific hours (holidays, events) of a restaurant. They replace the weekly business hours
+ *       on their date. Returns upcoming special days unless `from` is given. Public endpoint.
+ *     parameters:
+ *       - in: path
+ *         name: restaurantId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: First date (YYYY-MM-DD), defaults to today
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Last date (YYYY-MM-DD)
+ *     responses:
+ *       200:
+ *         description: Special days retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/SpecialBusinessDay'
+ *       400:
+ *         description: Invalid query parameters
+ */
+router.get("/restaurant/:restaurantId/special-days", restaurantInfoController.getSpecialDays);
+
+/**
+ * @swagger
+ * /restaurant/{restaurantId}/special-days/{date}:
+ *   put:
+ *     summary: Set special hours for a date
+ *     tags: [Restaurant Info]
+ *     description: |
+ *       Create or replace the hours of a restaurant for one date (e.g. closed on a holiday, open late on
+ *       New Year's Eve). They take precedence over the weekly business hours; mall closures still apply.
+ *       Only restaurant owner (or admin) can update.
+ *     parameters:
+ *       - in: path
+ *         name: restaurantId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: date
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Date in the mall's timezone (YYYY-MM-DD)
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               isClosed:
+ *                 type: boolean
+ *                 default: false
+ *               note:
+ *                 type: string
+ *                 nullable: true
+ *                 example: "New Year's Eve"
+ *               timeSlots:
+ *                 type: array
+ *                 description: Required (at least one OPEN slot) unless isClosed is true
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     slotType:
+ *                       type: string
+ *                       enum: [OPEN, BREAK]
+ *                     openTime:
+ *                       type: string
+ *                     closeTime:
+ *                       type: string
+ *           examples:
+ *             closed:
+ *               summary: Closed for a holiday
+ *               value:
+ *                 isClosed: true
+ *                 note: "Eid al-Fitr"
+ *             extended:
+ *               summary: Open until midnight
+ *               value:
+ *                 note: "New Year's Eve"
+ *                 timeSlots:
+ *                   - slotType: OPEN
+ *                     openTime: "10:00"
+ *                     closeTime: "00:00"
+ *     responses:
+ *       200:
+ *         description: Special day saved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/SpecialBusinessDay'
+ *       400:
+ *         description: Invalid date or request body
+ *       403:
+ *         description: You can only update your own restaurant
+ *       404:
+ *         description: Restaurant not found
+ *     security:
+ *       - cookieAuth: []
+ *   delete:
+ *     summary: Delete special hours for a date
+ *     tags: [Restaurant Info]
+ *     description: The weekly business hours apply again on that date. Only restaurant owner (or admin) can delete.
+ *     parameters:
+ *       - in: path
+ *         name: restaurantId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: date
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date
+ *     responses:
+ *       200:
+ *         description: Special day deleted successfully
+ *       400:
+ *         description: Invalid date
+ *       403:
+ *         description: You can only delete your own restaurant data
+ *       404:
+ *         description: Special day not found
+ *     security:
+ *       - cookieAuth: []
+ */
+router.put("/restaurant/:restaurantId/special-days/:date", requireAuth, requireRestaurantRole, requireRestaurantOwnership, restaurantInfoController.upsertSpecialDay);
+router.delete("/restaurant/:restaurantId/special-days/:date", requireAuth, requireRestaurantRole, requireRestaurantOwnership, restaurantInfoController.deleteSpecialDay);
+
+/**
+ * @swagger
+ * /mall/{mallId}/closures:
+ *   get:
+ *     summary: Get mall closures
+ *     tags: [Restaurant Info]
+ *     description: |
+ *       Mall-wide closures overlapping the given range (upcoming ones by default).
+ *       No restaurant of the mall takes orders on these dates. Public endpoint.
+ *     parameters:
+ *       - in: path
+ *         name: mallId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: First date (YYYY-MM-DD), defaults to today
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Last date (YYYY-MM-DD)
+ *     responses:
+ *       200:
+ *         description: Mall closures retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/MallClosure'
+ *       400:
+ *         description: Invalid query parameters
+ *   post:
+ *     summary: Create a mall closure
+ *     tags: [Restaurant Info]
+ *     description: |
+ *       Closes every restaurant of the mall from `startDate` to `endDate` (inclusive, in the mall's timezone).
+ *       Takes precedence over weekly hours and special days. Admin only.
+ *     parameters:
+ *       - in: path
+ *         name: mallId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [startDate]
+ *             properties:
+ *               startDate:
+ *                 type: string
+ *                 format: date
+ *                 example: "2026-12-25"
+ *               endDate:
+ *                 type: string
+ *                 format: date
+ *                 description: Defaults to startDate
+ *                 example: "2026-12-26"
+ *               reason:
+ *                 type: string
+ *                 nullable: true
+ *                 example: "Christmas"
+ *     responses:
+ *       201:
+ *         description: Mall closure created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/MallClosure'
+ *       400:
+ *         description: Invalid request body
+ *       403:
+ *         description: Admin only
+ *       404:
+ *         description: Mall not found
+ *     security:
+ *       - cookieAuth: []
+ */
+router.get("/mall/:mallId/closures", restaurantInfoController.getMallClosures);
+router.post("/mall/:mallId/closures", requireAuth, requireAdminRole, restaurantInfoController.createMallClosure);
+
+/**
+ * @swagger
+ * /mall/{mallId}/closures/{closureId}:
+ *   delete:
+ *     summary: Delete a mall closure
+ *     tags: [Restaurant Info]
+ *     description: Admin only.
+ *     parameters:
+ *       - in: path
+ *         name: mallId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: closureId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Mall closure deleted successfully
+ *       403:
+ *         description: Admin only
+ *       404:
+ *         description: Mall closure not found
+ *     security:
+ *       - cookieAuth: []
+ */
+router.delete("/mall/:mallId/closures/:closureId", requireAuth, requireAdminRole, restaurantInfoController.deleteMallClosure);
+
 export default router;
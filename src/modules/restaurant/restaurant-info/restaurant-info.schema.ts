@@ -29,6 +29,54 @@ export const updateBusinessHoursSchema = z.object({
   timeSlots: z.array(timeSlotSchema).optional(),
 }).partial();
 
+// Calendar date, e.g. "2026-12-31"
+export const dateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Format: YYYY-MM-DD (e.g., 2026-12-31)")
+  .refine(
+    (value) => {
+      // Rejects impossible dates such as 2026-02-30
+      const date = new Date(`${value}T00:00:00.000Z`);
+      return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value);
+    },
+    { message: "Invalid date" }
+  );
+
+// Special day (holiday/event): replaces the weekly hours for one date
+export const upsertSpecialDaySchema = z
+  .object({
+    isClosed: z.boolean().default(false),
+    note: z.string().max(255, "Note must be at most 255 characters").optional().nullable(),
+    timeSlots: z.array(timeSlotSchema).optional(),
+  })
+  .refine((data) => data.isClosed || (data.timeSlots ?? []).some((slot) => slot.slotType === "OPEN"), {
+    message: "Add at least one OPEN time slot or mark the day as closed",
+    path: ["timeSlots"],
+  });
+
+// Date range filter for special days and mall closures (defaults to upcoming)
+export const dateRangeQuerySchema = z
+  .object({
+    from: dateSchema.optional(),
+    to: dateSchema.optional(),
+  })
+  .refine((data) => !data.from || !data.to || data.from <= data.to, {
+    message: "from must be on or before to",
+    path: ["to"],
+  });
+
+// Mall-wide closure; a single day when endDate is omitted
+export const createMallClosureSchema = z
+  .object({
+    startDate: dateSchema,
+    endDate: dateSchema.optional(),
+    reason: z.string().max(255, "Reason must be at most 255 characters").optional().nullable(),
+  })
+  .refine((data) => !data.endDate || data.startDate <= data.endDate, {
+    message: "endDate must be on or after startDate",
+    path: ["endDate"],
+  });
+
 // Response Schemas
 export const restaurantInfoResponseSchema = z.object({
   id: z.string(),
@@ -48,3 +96,6 @@ export type RestaurantInfoInput = z.infer<typeof restaurantInfoSchema>;
 export type CreateBusinessHoursInput = z.infer<typeof createBusinessHoursSchema>;
 export type UpdateBusinessHoursInput = z.infer<typeof updateBusinessHoursSchema>;
 export type RestaurantInfoResponse = z.infer<typeof restaurantInfoResponseSchema>;
+export type UpsertSpecialDayInput = z.infer<typeof upsertSpecialDaySchema>;
+export type DateRangeQuery = z.infer<typeof dateRangeQuerySchema>;
+export type CreateMallClosureInput = z.infer<typeof createMallClosureSchema>;
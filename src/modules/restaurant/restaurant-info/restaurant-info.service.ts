@@ -1,5 +1,39 @@
 import prisma from "../../../config/prisma";
-import { RestaurantInfoInput, CreateBusinessHoursInput, UpdateBusinessHoursInput, BusinessDayInput, TimeSlotInput } from "./restaurant-info.schema";
+import {
+  RestaurantInfoInput,
+  CreateBusinessHoursInput,
+  UpdateBusinessHoursInput,
+  BusinessDayInput,
+  TimeSlotInput,
+  UpsertSpecialDayInput,
+  DateRangeQuery,
+  CreateMallClosureInput,
+} from "./restaurant-info.schema";
+import { fromDateKey, toDateKey } from "../../availability/availability.service";
+
+function mapSpecialDay(d: any) {
+  return {
+    date: toDateKey(d.date),
+    isClosed: d.isClosed,
+    note: d.note ?? null,
+    timeSlots: (d.timeSlots || []).map((s: any) => ({
+      slotType: s.slotType,
+      openTime: s.openTime,
+      closeTime: s.closeTime,
+    })),
+  };
+}
+
+function mapMallClosure(c: any) {
+  return {
+    id: c.id,
+    mallId: c.mallId,
+    startDate: toDateKey(c.startDate),
+    endDate: toDateKey(c.endDate),
+    reason: c.reason ?? null,
+    createdAt: c.createdAt,
+  };
+}
 
 export const restaurantInfoService = {
   /**
@@ -259,6 +293,153 @@ export const restaurantInfoService = {
       throw err;
     }
   },
+
+  /**
+   * Get special days (holidays, events) of a restaurant, upcoming ones by default
+   */
+  async getSpecialDays(restaurantId: string, range: DateRangeQuery = {}) {
+    try {
+      const days = await prisma.specialBusinessDay.findMany({
+        where: {
+          restaurantId,
+          date: {
+            gte: fromDateKey(range.from ?? toDateKey(new Date())),
+            ...(range.to && { lte: fromDateKey(range.to) }),
+          },
+        },
+        include: { timeSlots: true },
+        orderBy: { date: "asc" },
+      });
+
+      return days.map(mapSpecialDay);
+    } catch (err) {
+      console.error('[restaurantInfoService] getSpecialDays error:', (err as any)?.stack || err, { restaurantId });
+      throw err;
+    }
+  },
+
+  /**
+   * Create or replace the special hours of a restaurant for one date.
+   * They take precedence over the weekly business hours of that date.
+   */
+  async upsertSpecialDay(restaurantId: string, date: string, data: UpsertSpecialDayInput) {
+    try {
+      const restaurant = await prisma.restaurant.findUnique({ where: { userId: restaurantId }, select: { userId: true } });
+      if (!restaurant) {
+        throw new Error("Restaurant not found");
+      }
+
+      // Slots of a closed day are ignored, so they are not stored
+      const timeSlots = data.isClosed ? [] : data.timeSlots || [];
+
+      const specialDay = await prisma.$transaction(async (tx) => {
+        const day = await tx.specialBusinessDay.upsert({
+          where: { restaurantId_date: { restaurantId, date: fromDateKey(date) } },
+          create: { restaurantId, date: fromDateKey(date), isClosed: data.isClosed, note: data.note ?? null },
+          update: { isClosed: data.isClosed, note: data.note ?? null },
+        });
+
+        await tx.specialBusinessTimeSlot.deleteMany({ where: { specialDayId: day.id } });
+        if (timeSlots.length > 0) {
+          await tx.specialBusinessTimeSlot.createMany({
+            data: timeSlots.map((s) => ({ specialDayId: day.id, slotType: s.slotType, openTime: s.openTime, closeTime: s.closeTime })),
+          });
+        }
+
+        return tx.specialBusinessDay.findUnique({ where: { id: day.id }, include: { timeSlots: true } });
+      });
+
+      return mapSpecialDay(specialDay);
+    } catch (err) {
+      console.error('[restaurantInfoService] upsertSpecialDay error:', (err as any)?.stack || err, { restaurantId, date });
+      throw err;
+    }
+  },
+
+  /**
+   * Delete the special hours of a restaurant for one date (the weekly hours apply again)
+   */
+  async deleteSpecialDay(restaurantId: string, date: string) {
+    try {
+      const result = await prisma.specialBusinessDay.deleteMany({ where: { restaurantId, date: fromDateKey(date) } });
+
+      if (result.count === 0) {
+        throw new Error("Special day not found");
+      }
+
+      return { success: true, message: `Special hours for ${date} deleted` };
+    } catch (err) {
+      console.error('[restaurantInfoService] deleteSpecialDay error:', (err as any)?.stack || err, { restaurantId, date });
+      throw err;
+    }
+  },
+
+  /**
+   * Get mall-wide closures overlapping the range, upcoming ones by default
+   */
+  async getMallClosures(mallId: string, range: DateRangeQuery = {}) {
+    try {
+      const closures = await prisma.mallClosure.findMany({
+        where: {
+          mallId,
+          endDate: { gte: fromDateKey(range.from ?? toDateKey(new Date())) },
+          ...(range.to && { startDate: { lte: fromDateKey(range.to) } }),
+        },
+        orderBy: { startDate: "asc" },
+      });
+
+      return closures.map(mapMallClosure);
+    } catch (err) {
+      console.error('[restaurantInfoService] getMallClosures error:', (err as any)?.stack || err, { mallId });
+      throw err;
+    }
+  },
+
+  /**
+   * Close every restaurant of a mall for a date range (inclusive)
+   */
+  async createMallClosure(mallId: string, data: CreateMallClosureInput, createdById?: string) {
+    try {
+      const mall = await prisma.mall.findUnique({ where: { id: mallId }, select: { id: true } });
+      if (!mall) {
+        throw new Error("Mall not found");
+      }
+
+      const closure = await prisma.mallClosure.create({
+        data: {
+          mallId,
+          startDate: fromDateKey(data.startDate),
+          endDate: fromDateKey(data.endDate ?? data.startDate),
+          reason: data.reason ?? null,
+          createdById: createdById ?? null,
+        },
+      });
+
+      console.log(`[RestaurantInfo] Mall ${mallId} closed from ${data.startDate} to ${data.endDate ?? data.startDate}`);
+      return mapMallClosure(closure);
+    } catch (err) {
+      console.error('[restaurantInfoService] createMallClosure error:', (err as any)?.stack || err, { mallId });
+      throw err;
+    }
+  },
+
+  /**
+   * Delete a mall-wide closure
+   */
+  async deleteMallClosure(mallId: string, closureId: string) {
+    try {
+      const result = await prisma.mallClosure.deleteMany({ where: { id: closureId, mallId } });
+
+      if (result.count === 0) {
+        throw new Error("Mall closure not found");
+      }
+
+      return { success: true, message: "Mall closure deleted" };
+    } catch (err) {
+      console.error('[restaurantInfoService] deleteMallClosure error:', (err as any)?.stack || err, { mallId, closureId });
+      throw err;
+    }
+  },
 };
 
 export default restaurantInfoService;
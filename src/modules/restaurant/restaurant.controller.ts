@@ -1,6 +1,7 @@
 import { Request, Response } from "express";
 import { restaurantService } from "./restaurant.service";
 import { createRestaurantService } from "./createRestaurant.service";
+import { orderEventsService } from "../orders/order-events.service";
 import {
   updateRestaurantSchema,
   getRestaurantOrdersSchema,
@@ -75,7 +76,8 @@ export const restaurantController = {
       mallId,
       category as string,
       Number(page) || 1,
-      Number(limit) || 10
+      Number(limit) || 10,
+      (req as any).auth?.user?.id
     );
 
     return res.json(data);
@@ -107,7 +109,8 @@ export const restaurantController = {
         parseResult.data.page || 1,
         parseResult.data.limit || 10,
         parseResult.data.mallId,
-        parseResult.data.category
+        parseResult.data.category,
+        (req as any).auth?.user?.id
       );
 
       return res.json({
@@ -125,7 +128,7 @@ export const restaurantController = {
 
     if (!restaurantId) return res.status(400).json({ message: "Restaurant ID is required" });
 
-    const restaurant = await restaurantService.getRestaurantDetails(restaurantId);
+    const restaurant = await restaurantService.getRestaurantDetails(restaurantId, (req as any).auth?.user?.id);
 
     if (!restaurant) return res.status(404).json({ message: "Restaurant not found" });
 
@@ -183,7 +186,7 @@ export const restaurantController = {
 
     if (!restaurantId) return res.status(400).json({ message: "Restaurant ID is required" });
 
-    const restaurant = await restaurantService.getRestaurantDetails(restaurantId);
+    const restaurant = await restaurantService.getRestaurantDetails(restaurantId, (req as any).auth?.user?.id);
 
     if (!restaurant) return res.status(404).json({ message: "Restaurant not found" });
 
@@ -197,6 +200,11 @@ export const restaurantController = {
         description: restaurant.description,
         location: restaurant.location,
         mainCategory: restaurant.mainCategory,
+        isFavorite: restaurant.isFavorite,
+        isOpenNow: restaurant.isOpenNow,
+        availabilityStatus: restaurant.availabilityStatus,
+        opensAt: restaurant.opensAt,
+        closesAt: restaurant.closesAt,
       },
       menu: restaurant.menuCategories.map(category => ({
         id: category.id,
@@ -208,6 +216,12 @@ export const restaurantController = {
           price: item.price,
           preparationTime: item.preparationTime,
           image: item.image,
+          isAvailable: item.isAvailable,
+          isAvailableNow: item.isAvailableNow,
+          unavailableReason: item.unavailableReason,
+          stockRemaining: item.stockRemaining,
+          availableFrom: item.availableFrom,
+          availableUntil: item.availableUntil,
         })),
       })),
     });
@@ -251,6 +265,21 @@ export const restaurantController = {
     }
   },
 
+  /**
+   * GET /restaurants/:restaurantId/orders/stream - Stream new orders and cancellations (SSE)
+   */
+  async streamRestaurantOrders(req: Request, res: Response) {
+    const { restaurantId } = req.params;
+
+    if (!restaurantId) {
+      return res.status(400).json({ message: "Restaurant ID is required" });
+    }
+
+    orderEventsService.openStream(req, res, (listener) =>
+      orderEventsService.subscribeToRestaurant(restaurantId, listener)
+    );
+  },
+
   /**
    * GET /restaurants/:restaurantId/orders/:orderId - Get order details
    */
@@ -306,7 +335,11 @@ export const restaurantController = {
         });
       }
 
-      const result = await restaurantService.acceptOrder(parseResult.data);
+      const auth = (req as any).auth;
+      const result = await restaurantService.acceptOrder(parseResult.data, {
+        id: auth?.user?.id,
+        role: auth?.user?.role,
+      });
 
       return res.json({
         message: result.message,
@@ -316,7 +349,11 @@ export const restaurantController = {
       if (error.message.includes("not found")) {
         return res.status(404).json({ message: error.message });
       }
-      if (error.message.includes("Unauthorized") || error.message.includes("cannot be accepted")) {
+      if (
+        error.message.includes("Unauthorized") ||
+        error.message.includes("cannot be accepted") ||
+        error.message.includes("Invalid status transition")
+      ) {
         return res.status(400).json({ message: error.message });
       }
       return res.status(500).json({ message: error.message });
@@ -344,7 +381,11 @@ export const restaurantController = {
         });
       }
 
-      const result = await restaurantService.declineOrder(parseResult.data);
+      const auth = (req as any).auth;
+      const result = await restaurantService.declineOrder(parseResult.data, {
+        id: auth?.user?.id,
+        role: auth?.user?.role,
+      });
 
       return res.json({
         message: result.message,
@@ -354,7 +395,11 @@ export const restaurantController = {
       if (error.message.includes("not found")) {
         return res.status(404).json({ message: error.message });
       }
-      if (error.message.includes("Unauthorized") || error.message.includes("cannot be declined")) {
+      if (
+        error.message.includes("Unauthorized") ||
+        error.message.includes("cannot be declined") ||
+        error.message.includes("Invalid status transition")
+      ) {
         return res.status(400).json({ message: error.message });
       }
       return res.status(500).json({ message: error.message });
@@ -382,7 +427,11 @@ export const restaurantController = {
         });
       }
 
-      const result = await restaurantService.updateOrderStatus(parseResult.data);
+      const auth = (req as any).auth;
+      const result = await restaurantService.updateOrderStatus(parseResult.data, {
+        id: auth?.user?.id,
+        role: auth?.user?.role,
+      });
 
       return res.json({
         message: result.message,
@@ -392,7 +441,11 @@ export const restaurantController = {
       if (error.message.includes("not found")) {
         return res.status(404).json({ message: error.message });
       }
-      if (error.message.includes("Unauthorized") || error.message.includes("Invalid status transition")) {
+      if (
+        error.message.includes("Unauthorized") ||
+        error.message.includes("Invalid status transition") ||
+        error.message.includes("cannot be")
+      ) {
         return res.status(400).json({ message: error.message });
       }
       return res.status(500).json({ message: error.message });
@@ -16,7 +16,7 @@ const router = Router();
  *       Admin creates a restaurant account. Creates a new User with role RESTAURANT and a Restaurant profile atomically.
  *       You can either upload a banner image file or provide a banner URL.
  *       **Required fields:** email, password, name, location, description, phoneNumber
- *       **Optional fields:** firstName, lastName, mallId, mainCategory, banner (URL or file upload), story, cuisineCategoryId, isFavorite
+ *       **Optional fields:** firstName, lastName, mallId, mainCategory, banner (URL or file upload), story, cuisineCategoryId
  *       **Banner upload:** Use multipart/form-data with field name "banner" to upload a file.
  *       If both file and URL are provided, the uploaded file takes priority.
  *       **Accepted image formats:** JPEG, PNG, GIF, WebP
@@ -76,9 +76,6 @@ const router = Router();
  *               cuisineCategoryId:
  *                 type: string
  *                 description: Cuisine category ID (optional)
- *               isFavorite:
- *                 type: boolean
- *                 description: Mark as featured/favorite (optional)
  *           examples:
  *             withFileUpload:
  *               summary: Create with banner file upload
@@ -241,7 +238,7 @@ router.post("/admin/restaurants/create", requireAuth, requireAdminRole, uploadRe
  *                         nullable: true
  *                       isFavorite:
  *                         type: boolean
- *                         description: "Whether the restaurant is featured/favorite"
+ *                         description: "Whether the requesting user marked the restaurant as favourite"
  *                       user:
  *                         type: object
  *                         properties:
@@ -374,6 +371,7 @@ router.get("/restaurant/get-all/:mallId", restaurantController.getAll);
  *                                 type: string
  *                           isFavorite:
  *                             type: boolean
+ *                             description: "Whether the requesting user marked the restaurant as favourite"
  *                           user:
  *                             type: object
  *                             properties:
@@ -468,7 +466,23 @@ router.get("/restaurants/all", restaurantController.getAllSystemWide);
  *                   nullable: true
  *                 isFavorite:
  *                   type: boolean
- *                   description: "Whether the restaurant is featured/favorite"
+ *                   description: "Whether the requesting user marked the restaurant as favourite"
+ *                 isOpenNow:
+ *                   type: boolean
+ *                   description: "Whether the restaurant takes orders right now (opening hours in the mall's timezone)"
+ *                 availabilityStatus:
+ *                   type: string
+ *                   enum: [OPEN, BREAK, CLOSED]
+ *                 opensAt:
+ *                   type: string
+ *                   format: date-time
+ *                   nullable: true
+ *                   description: Next opening time when currently closed
+ *                 closesAt:
+ *                   type: string
+ *                   format: date-time
+ *                   nullable: true
+ *                   description: End of the current opening when open
  *                 user:
  *                   type: object
  *                   properties:
@@ -508,6 +522,28 @@ router.get("/restaurants/all", restaurantController.getAllSystemWide);
  *                             image:
  *                               type: string
  *                               nullable: true
+ *                            isAvailable:
+ *                              type: boolean
+ *                              description: Sold-out toggle of the restaurant
+ *                            isAvailableNow:
+ *                              type: boolean
+ *                              description: Whether the item can be ordered right now (toggle, daily stock and serving hours)
+ *                            unavailableReason:
+ *                              type: string
+ *                              enum: [SOLD_OUT, OUTSIDE_HOURS]
+ *                              nullable: true
+ *                            stockRemaining:
+ *                              type: integer
+ *                              nullable: true
+ *                              description: Units left today (null when the item has no daily stock)
+ *                            availableFrom:
+ *                              type: string
+ *                              nullable: true
+ *                              description: Start of the serving hours (HH:mm, mall timezone)
+ *                            availableUntil:
+ *                              type: string
+ *                              nullable: true
+ *                              description: End of the serving hours (HH:mm, mall timezone)
  *       400:
  *         description: Invalid restaurant ID
  *         content:
@@ -584,10 +620,10 @@ router.get("/restaurant/get-details/:restaurantId", restaurantController.getDeta
  *                 type: string
  *                 description: "Cuisine category ID (optional)"
  *                 example: "123e4567-e89b-12d3-a456-426614174999"
- *               isFavorite:
- *                 type: boolean
- *                 description: "Mark as featured/favorite (optional)"
- *                 example: false
+ *               orderNumberPrefix:
+ *                 type: string
+ *                 description: "Short code used in order numbers, 2-6 letters or digits (optional). Defaults to the first letters of the name."
+ *                 example: "KFC"
  *           examples:
  *             updateDescription:
  *               summary: Update only description
@@ -638,9 +674,6 @@ router.get("/restaurant/get-details/:restaurantId", restaurantController.getDeta
  *                 cuisineCategoryId:
  *                   type: string
  *                   nullable: true
- *                 isFavorite:
- *                   type: boolean
- *                   description: "Whether the restaurant is featured/favorite"
  *       400:
  *         description: Validation error
  *         content:
@@ -749,7 +782,23 @@ router.delete("/restaurant/delete/:restaurantId", requireAuth, requireRestaurant
  *                       nullable: true
  *                     isFavorite:
  *                       type: boolean
- *                       description: "Whether the restaurant is featured/favorite"
+ *                       description: "Whether the requesting user marked the restaurant as favourite"
+ *                     isOpenNow:
+ *                       type: boolean
+ *                       description: "Whether the restaurant takes orders right now (opening hours in the mall's timezone)"
+ *                     availabilityStatus:
+ *                       type: string
+ *                       enum: [OPEN, BREAK, CLOSED]
+ *                     opensAt:
+ *                       type: string
+ *                       format: date-time
+ *                       nullable: true
+ *                       description: Next opening time when currently closed
+ *                     closesAt:
+ *                       type: string
+ *                       format: date-time
+ *                       nullable: true
+ *                       description: End of the current opening when open
  *                 menu:
  *                   type: array
  *                   description: Menu categories with items
@@ -780,6 +829,28 @@ router.delete("/restaurant/delete/:restaurantId", requireAuth, requireRestaurant
  *                             image:
  *                               type: string
  *                               nullable: true
+ *                            isAvailable:
+ *                              type: boolean
+ *                              description: Sold-out toggle of the restaurant
+ *                            isAvailableNow:
+ *                              type: boolean
+ *                              description: Whether the item can be ordered right now (toggle, daily stock and serving hours)
+ *                            unavailableReason:
+ *                              type: string
+ *                              enum: [SOLD_OUT, OUTSIDE_HOURS]
+ *                              nullable: true
+ *                            stockRemaining:
+ *                              type: integer
+ *                              nullable: true
+ *                              description: Units left today (null when the item has no daily stock)
+ *                            availableFrom:
+ *                              type: string
+ *                              nullable: true
+ *                              description: Start of the serving hours (HH:mm, mall timezone)
+ *                            availableUntil:
+ *                              type: string
+ *                              nullable: true
+ *                              description: End of the serving hours (HH:mm, mall timezone)
  *       400:
  *         description: Invalid restaurant ID
  *         content:
@@ -804,6 +875,8 @@ router.get("/restaurant/get-menu/:restaurantId", restaurantController.getFullMen
  *     description: |
  *       Get all orders for a restaurant with optional status filtering and pagination.
  *       Shows order summaries with customer info, items, and total amount.
+ *       Scheduled pre-orders are not part of the paginated list (unless filtered with `status=SCHEDULED`);
+ *       they are returned in `scheduledOrders`, soonest first.
  *     parameters:
  *       - in: path
  *         name: restaurantId
@@ -818,6 +891,7 @@ router.get("/restaurant/get-menu/:restaurantId", restaurantController.getFullMen
  *         schema:
  *           type: string
  *           enum:
+ *             - SCHEDULED
  *             - PENDING
  *             - ACCEPTED
  *             - PREPARING
@@ -869,7 +943,12 @@ router.get("/restaurant/get-menu/:restaurantId", restaurantController.getFullMen
  *                             nullable: true
  *                           status:
  *                             type: string
- *                             enum: [PENDING, ACCEPTED, PREPARING, READY, OUT_FOR_DELIVERY, DELIVERED, CANCELLED]
+ *                             enum: [SCHEDULED, PENDING, ACCEPTED, PREPARING, READY, OUT_FOR_DELIVERY, DELIVERED, CANCELLED]
+ *                           scheduledFor:
+ *                             type: string
+ *                             format: date-time
+ *                             nullable: true
+ *                             description: Time of a scheduled pre-order
  *                           totalAmount:
  *                             type: number
  *                           paymentMethod:
@@ -914,6 +993,16 @@ router.get("/restaurant/get-menu/:restaurantId", restaurantController.getFullMen
  *                       type: integer
  *                     offset:
  *                       type: integer
+ *                     scheduledOrders:
+ *                       type: object
+ *                       description: Upcoming scheduled pre-orders, ordered by scheduledFor (same fields as data)
+ *                       properties:
+ *                         data:
+ *                           type: array
+ *                           items:
+ *                             type: object
+ *                         total:
+ *                           type: integer
  *       400:
  *         description: Invalid request parameters
  *       404:
@@ -922,6 +1011,45 @@ router.get("/restaurant/get-menu/:restaurantId", restaurantController.getFullMen
 // Restaurant order routes - require restaurant role and ownership
 router.get("/restaurants/:restaurantId/orders", requireAuth, requireRestaurantRole, requireRestaurantOwnership, restaurantController.getRestaurantOrders);
 
+/**
+ * @swagger
+ * /restaurants/{restaurantId}/orders/stream:
+ *   get:
+ *     summary: Stream new orders and cancellations (Server-Sent Events)
+ *     tags: [Orders - Restaurant Screen]
+ *     description: |
+ *       Opens a `text/event-stream` connection for the authenticated restaurant.
+ *       Authenticated with the Better Auth session cookie, so a plain `EventSource` works.
+ *
+ *       **Events:**
+ *       - `order.created` - a new order was placed
+ *       - `order.cancelled` - an order was cancelled or rejected
+ *
+ *       A `: ping` comment is sent every 25 seconds to keep the connection alive.
+ *       After reconnecting, clients should re-fetch the orders list.
+ *     parameters:
+ *       - in: path
+ *         name: restaurantId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Restaurant ID (user ID of restaurant owner)
+ *     responses:
+ *       200:
+ *         description: Event stream opened
+ *         content:
+ *           text/event-stream:
+ *             schema:
+ *               type: string
+ *               example: |
+ *                 event: order.created
+ *                 data: {"type":"order.created","orderId":"123e4567-e89b-12d3-a456-426614174000","orderNumber":"KFC-261019-0042","restaurantId":"abc123","status":"PENDING","paymentStatus":"PENDING","total":"25.5","at":"2026-10-19T12:00:00.000Z"}
+ *       403:
+ *         description: Not the owner of this restaurant
+ */
+// Must be registered before /orders/:orderId so "stream" is not treated as an order ID
+router.get("/restaurants/:restaurantId/orders/stream", requireAuth, requireRestaurantRole, requireRestaurantOwnership, restaurantController.streamRestaurantOrders);
+
 /**
  * @swagger
  * /restaurants/{restaurantId}/orders/{orderId}:
@@ -1162,7 +1290,7 @@ router.post("/restaurants/:restaurantId/orders/:orderId/decline", requireAuth, r
  *       - **PENDING** → ACCEPTED or REJECTED
  *       - **ACCEPTED** → PREPARING or CANCELLED
  *       - **PREPARING** → READY
- *       - **READY** → OUT_FOR_DELIVERY
+ *       - **READY** → OUT_FOR_DELIVERY (delivery orders) or DELIVERED (pickup and dine-in orders)
  *       - **OUT_FOR_DELIVERY** → DELIVERED
  *       
  *       **Note:** Use REJECTED status to reject a pending order. This is an alternative
@@ -1201,8 +1329,8 @@ router.post("/restaurants/:restaurantId/orders/:orderId/decline", requireAuth, r
  *                   - **REJECTED**: Order rejected by restaurant (from PENDING)
  *                   - **PREPARING**: Food is being prepared (from ACCEPTED)
  *                   - **READY**: Order is ready for pickup/delivery (from PREPARING)
- *                   - **OUT_FOR_DELIVERY**: Order is out for delivery (from READY)
- *                   - **DELIVERED**: Order has been delivered (from OUT_FOR_DELIVERY)
+ *                   - **OUT_FOR_DELIVERY**: Order is out for delivery (from READY, delivery orders only)
+ *                   - **DELIVERED**: Order has been delivered (from OUT_FOR_DELIVERY), picked up or served (from READY)
  *                 example: "READY"
  *               estimatedDeliveryTime:
  *                 type: string
@@ -1269,7 +1397,8 @@ router.patch("/restaurants/:restaurantId/orders/:orderId/status", requireAuth, r
  *       Update payment status for Cash on Delivery (COD) orders. Used for:
  *       - Marking payment as not collected (PENDING)
  *       - Marking payment as collected (PAID) - if missed during delivery
- *       - Processing refunds (REFUNDED) - for disputes or issues
+ *       - Processing refunds (REFUNDED) - for disputes or issues; the remaining refundable amount is recorded
+ *         in the order's refund ledger
  *       - Marking payment as failed (FAILED)
  *       
  *       **Note:** This endpoint is only for COD orders. Card payments are handled automatically via Stripe.
@@ -1277,6 +1406,7 @@ router.patch("/restaurants/:restaurantId/orders/:orderId/status", requireAuth, r
  *       **Valid Status Transitions:**
  *       - PENDING → PAID, FAILED
  *       - PAID → REFUNDED, PENDING
+ *       - PARTIALLY_REFUNDED → REFUNDED
  *       - FAILED → PAID, PENDING
  *       - REFUNDED → (final state, cannot change)
  *     parameters:
@@ -1354,7 +1484,7 @@ router.patch("/restaurants/:restaurantId/orders/:orderId/status", requireAuth, r
  *                       type: string
  *                     paymentStatus:
  *                       type: string
- *                       enum: [PENDING, PAID, FAILED, REFUNDED]
+ *                       enum: [PENDING, PAID, FAILED, PARTIALLY_REFUNDED, REFUNDED]
  *                     paidAt:
  *                       type: string
  *                       format: date-time
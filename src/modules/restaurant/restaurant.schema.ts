@@ -18,14 +18,14 @@ const restaurantFieldsSchema = z.object({
   story: optionalString(),
   location: optionalString(),
   cuisineCategoryId: optionalString(),
-  // Coerce boolean coming from multipart/form-data ("true"/"false")
-  isFavorite: z
-    .preprocess((val) => {
-      if (val === "true" || val === true) return true;
-      if (val === "false" || val === false) return false;
-      return val;
-    }, z.boolean())
-    .optional(),
+  // Short code used in order numbers, e.g. "KFC" in KFC-261019-0042
+  orderNumberPrefix: z.preprocess(
+    (val) => (val === "" ? undefined : typeof val === "string" ? val.toUpperCase() : val),
+    z
+      .string()
+      .regex(/^[A-Z0-9]{2,6}$/, "Order number prefix must be 2-6 letters or digits")
+      .optional()
+  ),
 });
 
 // Schema to update an existing restaurant
@@ -73,7 +73,7 @@ export const updatePaymentStatusSchema = z.object({
 export const getRestaurantOrdersSchema = z.object({
   restaurantId: z.string().min(1, "Restaurant ID is required"),
   status: z
-    .enum(["PENDING", "ACCEPTED", "PREPARING", "READY", "OUT_FOR_DELIVERY", "DELIVERED", "CANCELLED"])
+    .enum(["SCHEDULED", "PENDING", "ACCEPTED", "PREPARING", "READY", "OUT_FOR_DELIVERY", "DELIVERED", "CANCELLED"])
     .optional(),
   limit: z.number().int().positive().default(10),
   offset: z.number().int().nonnegative().default(0),
@@ -137,13 +137,6 @@ export const adminCreateRestaurantSchema = z.object({
   cuisineCategoryId: optionalString(),
   banner: optionalString(),
   story: optionalString(),
-  isFavorite: z
-    .preprocess((val) => {
-      if (val === "true" || val === true) return true;
-      if (val === "false" || val === false) return false;
-      return val;
-    }, z.boolean())
-    .optional(),
 });
 
 // TypeScript types inferred from schemas
@@ -1,4 +1,5 @@
 import prisma from "../../config/prisma";
+import type { Prisma } from "../../generated/prisma/client";
 import { deleteImageFile } from "../../config/upload";
 import {
   UpdateRestaurantInput,
@@ -11,11 +12,14 @@ import {
 } from "./restaurant.schema";
 import { exploreService } from "../explore/explore.service";
 import { galleryService } from "../gallery/gallery.service";
-import { refundOrder } from "../payments/order-refund/orderrefund.service";
-import {
-  notifyUserOrderStatus,
-  notifyRestaurantAndAdminCancelled,
-} from "../notifications/notification.service";
+import { OrderStatusActor } from "../orders/order-status-history.service";
+import { orderLifecycleService } from "../orders/order-lifecycle.service";
+import { orderEventsService } from "../orders/order-events.service";
+import { promoCodeService } from "../promo-code/promo-code.service";
+import { refundLedgerService } from "../payments/order-refund/refund-ledger.service";
+import { favouriteRestaurantService } from "../favourite-restaurant/favourite-restaurant.service";
+import { availabilityService } from "../availability/availability.service";
+import { menuItemAvailabilityFields, menuItemAvailabilityService } from "../menu/menu-item-availability.service";
 
 function hasGalleryModel() {
   try {
@@ -36,7 +40,8 @@ export const restaurantService = {
     mallId: string,
     category?: string,
     page: number = 1,
-    limit: number = 10
+    limit: number = 10,
+    userId?: string
   ) {
     const where: any = { mallId };
     if (category) where.mainCategory = category;
@@ -73,10 +78,16 @@ export const restaurantService = {
       },
     });
 
-    // Transform data to include restaurantId, membershipPlan, and mallName
+    const favouriteIds = await favouriteRestaurantService.getFavouriteRestaurantIds(
+      userId,
+      data.map((restaurant) => restaurant.userId)
+    );
+
+    // Transform data to include restaurantId, membershipPlan, mallName and the user's favourite flag
     const transformedData = data.map(restaurant => ({
       ...restaurant,
       restaurantId: restaurant.userId,
+      isFavorite: favouriteIds.has(restaurant.userId),
       membershipPlan: restaurant.subscriptions[0]?.plan?.name || null,
       mallName: restaurant.mall?.name || null
     }));
@@ -89,7 +100,8 @@ export const restaurantService = {
     page: number = 1,
     limit: number = 10,
     mallId?: string,
-    category?: string
+    category?: string,
+    userId?: string
   ) {
     const where: any = {};
     if (mallId) where.mallId = mallId;
@@ -150,6 +162,11 @@ export const restaurantService = {
       orderBy: { createdAt: "desc" },
     });
 
+    const favouriteIds = await favouriteRestaurantService.getFavouriteRestaurantIds(
+      userId,
+      restaurants.map((restaurant) => restaurant.userId)
+    );
+
     // Transform to public format (no sensitive info like revenue)
     const publicRestaurants = restaurants.map((restaurant) => ({
       restaurantId: restaurant.userId,
@@ -170,7 +187,7 @@ export const restaurantService = {
             name: restaurant.cuisineCategory.name,
           }
         : null,
-      isFavorite: restaurant.isFavorite,
+      isFavorite: favouriteIds.has(restaurant.userId),
       user: {
         id: restaurant.user.id,
         name: restaurant.user.name,
@@ -203,7 +220,7 @@ export const restaurantService = {
     };
   },
 
-  async getRestaurantDetails(restaurantId: string) {
+  async getRestaurantDetails(restaurantId: string, userId?: string) {
     const restaurant = await prisma.restaurant.findUnique({
       where: { userId: restaurantId },
       include: {
@@ -234,9 +251,30 @@ export const restaurantService = {
 
       const gallery = galleryRows.map((g) => ({ id: g.id, imageUrl: g.imageUrl }));
 
-    // return restaurant object with gallery property appended
+    const [favouriteIds, availability, itemAvailability] = await Promise.all([
+      favouriteRestaurantService.getFavouriteRestaurantIds(userId, [restaurantId]),
+      availabilityService.getAvailability(restaurantId),
+      menuItemAvailabilityService.getAvailabilityMap(
+        restaurant.menuCategories.flatMap((category) => category.items.map((item) => item.id))
+      ),
+    ]);
+
+    // return restaurant object with gallery, the user's favourite flag and opening hours status appended
     return {
       ...restaurant,
+      // Sold-out items and items outside their serving hours are flagged, not hidden
+      menuCategories: restaurant.menuCategories.map((category) => ({
+        ...category,
+        items: category.items.map((item) => ({
+          ...item,
+          ...menuItemAvailabilityFields(itemAvailability.get(item.id)),
+        })),
+      })),
+      isFavorite: favouriteIds.has(restaurantId),
+      isOpenNow: availability.isOpenNow,
+      availabilityStatus: availability.availabilityStatus,
+      opensAt: availability.opensAt,
+      closesAt: availability.closesAt,
       gallery,
     };
   },
@@ -282,8 +320,8 @@ export const restaurantService = {
     if (data.cuisineCategoryId !== undefined && data.cuisineCategoryId !== null && data.cuisineCategoryId.trim() !== "") {
       updateData.cuisineCategoryId = data.cuisineCategoryId;
     }
-    if ((data as any).isFavorite !== undefined && (data as any).isFavorite !== null) {
-      updateData.isFavorite = (data as any).isFavorite;
+    if (data.orderNumberPrefix !== undefined) {
+      updateData.orderNumberPrefix = data.orderNumberPrefix;
     }
     return prisma.restaurant.update({
       where: { userId: id },
@@ -331,37 +369,42 @@ export const restaurantService = {
 
     if (input.status) {
       where.status = input.status;
+    } else {
+      // Scheduled pre-orders are listed separately until they are released
+      where.status = { not: "SCHEDULED" };
     }
 
-    const orders = await prisma.order.findMany({
-      where,
-      include: {
-        user: {
-          select: {
-            id: true,
-            name: true,
-            phoneNumber: true,
-          },
+    const include = {
+      user: {
+        select: {
+          id: true,
+          name: true,
+          phoneNumber: true,
         },
-        items: {
-          include: {
-            menuItem: {
-              select: {
-                id: true,
-                name: true,
-                image: true,
-              },
+      },
+      items: {
+        include: {
+          menuItem: {
+            select: {
+              id: true,
+              name: true,
+              image: true,
             },
           },
         },
-        deliveryAddress: {
-          select: {
-            label: true,
-            address: true,
-            city: true,
-          },
+      },
+      deliveryAddress: {
+        select: {
+          label: true,
+          address: true,
+          city: true,
         },
       },
+    } satisfies Prisma.OrderInclude;
+
+    const orders = await prisma.order.findMany({
+      where,
+      include,
       orderBy: { createdAt: "desc" },
       take: input.limit,
       skip: input.offset,
@@ -369,33 +412,53 @@ export const restaurantService = {
 
     const total = await prisma.order.count({ where });
 
-    return {
-      data: orders.map((order) => ({
-        id: order.id,
-        orderNumber: order.orderNumber,
-        customerName: order.user.name,
-        customerPhone: order.user.phoneNumber,
-        status: order.status,
-        totalAmount: Number.parseFloat(order.total.toString()),
-        paymentMethod: order.paymentMethod,
-        deliveryAddress: order.deliveryAddress?.address || "N/A",
-        deliveryCity: order.deliveryAddress?.city || "N/A",
-        estimatedDeliveryTime: order.estimatedDeliveryTime,
-        specialInstructions: order.specialInstructions,
-        createdAt: order.createdAt,
-        items: order.items.map((item) => ({
-          id: item.id,
-          name: item.itemName,
-          quantity: item.quantity,
-          unitPrice: Number.parseFloat(item.unitPrice.toString()),
-          totalPrice: Number.parseFloat(item.totalPrice.toString()),
-          image: item.menuItem.image,
-        })),
-        itemCount: order.items.length,
+    // Upcoming pre-orders, soonest first
+    const scheduledWhere = { restaurantId: input.restaurantId, status: "SCHEDULED" as const };
+    const [scheduledOrders, scheduledTotal] = await Promise.all([
+      prisma.order.findMany({
+        where: scheduledWhere,
+        include,
+        orderBy: { scheduledFor: "asc" },
+      }),
+      prisma.order.count({ where: scheduledWhere }),
+    ]);
+
+    const toOrderSummary = (order: Prisma.OrderGetPayload<{ include: typeof include }>) => ({
+      id: order.id,
+      orderNumber: order.orderNumber,
+      customerName: order.user.name,
+      customerPhone: order.user.phoneNumber,
+      status: order.status,
+      scheduledFor: order.scheduledFor,
+      totalAmount: Number.parseFloat(order.total.toString()),
+      paymentMethod: order.paymentMethod,
+      fulfilmentType: order.fulfilmentType,
+      tableNumber: order.tableNumber,
+      deliveryAddress: order.deliveryAddress?.address || "N/A",
+      deliveryCity: order.deliveryAddress?.city || "N/A",
+      estimatedDeliveryTime: order.estimatedDeliveryTime,
+      specialInstructions: order.specialInstructions,
+      createdAt: order.createdAt,
+      items: order.items.map((item) => ({
+        id: item.id,
+        name: item.itemName,
+        quantity: item.quantity,
+        unitPrice: Number.parseFloat(item.unitPrice.toString()),
+        totalPrice: Number.parseFloat(item.totalPrice.toString()),
+        image: item.menuItem.image,
       })),
+      itemCount: order.items.length,
+    });
+
+    return {
+      data: orders.map(toOrderSummary),
       total,
       limit: input.limit,
       offset: input.offset,
+      scheduledOrders: {
+        data: scheduledOrders.map(toOrderSummary),
+        total: scheduledTotal,
+      },
     };
   },
 
@@ -431,6 +494,9 @@ export const restaurantService = {
             postalCode: true,
           },
         },
+        statusHistory: {
+          orderBy: { createdAt: "asc" },
+        },
       },
     });
 
@@ -453,6 +519,8 @@ export const restaurantService = {
       deliveryFee: Number.parseFloat(order.deliveryFee.toString()),
       discount: Number.parseFloat(order.discount.toString()),
       paymentMethod: order.paymentMethod,
+      fulfilmentType: order.fulfilmentType,
+      tableNumber: order.tableNumber,
       estimatedDeliveryTime: order.estimatedDeliveryTime,
       specialInstructions: order.specialInstructions,
       createdAt: order.createdAt,
@@ -479,63 +547,25 @@ export const restaurantService = {
         selectedVariations: item.selectedVariations,
         selectedAddOns: item.selectedAddOns,
       })),
+      statusHistory: order.statusHistory.map((entry) => ({
+        fromStatus: entry.fromStatus,
+        status: entry.status,
+        reason: entry.reason,
+        actionByRole: entry.actionByRole,
+        time: entry.createdAt,
+      })),
     };
   },
 
   // Accept an order
-  async acceptOrder(input: AcceptOrderInput) {
-    const order = await prisma.order.findUnique({
-      where: { id: input.orderId },
-      include: { items: true },
-    });
-
-    if (!order) {
-      throw new Error("Order not found");
-    }
-
-    // Verify order belongs to the restaurant
-    if (order.restaurantId !== input.restaurantId) {
-      throw new Error("Unauthorized: This order does not belong to your restaurant");
-    }
-
-    // Order must be in PENDING status to accept
-    if (order.status !== "PENDING") {
-      throw new Error(`Order cannot be accepted. Current status: ${order.status}`);
-    }
-
-    const updatedOrder = await prisma.order.update({
-      where: { id: input.orderId },
-      data: { status: "ACCEPTED" },
-      include: {
-        user: {
-          select: {
-            id: true,
-            name: true,
-            phoneNumber: true,
-            expoPushToken: true,
-          },
-        },
-        restaurant: {
-          include: {
-            user: {
-              select: {
-                id: true,
-                expoPushToken: true,
-              },
-            },
-          },
-        },
-      },
+  async acceptOrder(input: AcceptOrderInput, actor?: OrderStatusActor) {
+    const { order: updatedOrder } = await orderLifecycleService.transition({
+      orderId: input.orderId,
+      toStatus: "ACCEPTED",
+      restaurantId: input.restaurantId,
+      actor: actor ?? { id: input.restaurantId, role: "RESTAURANT" },
     });
 
-    // Notify user about order acceptance
-    try {
-      await notifyUserOrderStatus(updatedOrder);
-    } catch (error: any) {
-      console.error("[Restaurant] Failed to send order acceptance notification:", error.message);
-      // Don't fail order acceptance if notification fails
-    }
-
     return {
       id: updatedOrder.id,
       orderNumber: updatedOrder.orderNumber,
@@ -546,84 +576,18 @@ export const restaurantService = {
   },
 
   // Decline an order with reason
-  async declineOrder(input: DeclineOrderInput) {
-    const order = await prisma.order.findUnique({
-      where: { id: input.orderId },
-      include: { items: true },
-    });
-
-    if (!order) {
-      throw new Error("Order not found");
-    }
-
-    // Verify order belongs to the restaurant
-    if (order.restaurantId !== input.restaurantId) {
-      throw new Error("Unauthorized: This order does not belong to your restaurant");
-    }
-
-    // Order must be in PENDING or ACCEPTED status to decline
-    if (order.status !== "PENDING" && order.status !== "ACCEPTED") {
-      throw new Error(`Order cannot be declined. Current status: ${order.status}`);
-    }
-
-    const updatedOrder = await prisma.order.update({
-      where: { id: input.orderId },
+  async declineOrder(input: DeclineOrderInput, actor?: OrderStatusActor) {
+    const { order: updatedOrder, refundInitiated } = await orderLifecycleService.transition({
+      orderId: input.orderId,
+      toStatus: "REJECTED",
+      restaurantId: input.restaurantId,
+      reason: input.reason,
+      actor: actor ?? { id: input.restaurantId, role: "RESTAURANT" },
       data: {
-        status: "REJECTED",
         specialInstructions: `Restaurant decline reason: ${input.reason}`,
       },
-      include: {
-        user: {
-          select: {
-            id: true,
-            name: true,
-            phoneNumber: true,
-            expoPushToken: true,
-          },
-        },
-        restaurant: {
-          include: {
-            user: {
-              select: {
-                id: true,
-                expoPushToken: true,
-              },
-            },
-          },
-        },
-      },
     });
 
-    // Automatically trigger refund if:
-    // 1. Payment method is CARD
-    // 2. Payment status is PAID
-    // 3. Stripe payment intent exists
-    let refundInitiated = false;
-    if (
-      order.paymentMethod === "CARD" &&
-      order.paymentStatus === "PAID" &&
-      order.stripePaymentIntentId
-    ) {
-      try {
-        console.log(`[DeclineOrder] Initiating automatic refund for rejected order ${order.id}`);
-        await refundOrder(order.id, undefined, input.restaurantId, "RESTAURANT");
-        refundInitiated = true;
-        console.log(`[DeclineOrder] Automatic refund initiated successfully for order ${order.id}`);
-      } catch (error: any) {
-        // Log error but don't fail the rejection
-        console.error(`[DeclineOrder] Failed to initiate automatic refund for order ${order.id}:`, error.message);
-        // Note: Order is still rejected, but refund failed - this should be handled manually
-      }
-    }
-
-    // Notify restaurant and admin about order cancellation/rejection
-    try {
-      await notifyRestaurantAndAdminCancelled(updatedOrder);
-    } catch (error: any) {
-      console.error("[Restaurant] Failed to send order rejection notification:", error.message);
-      // Don't fail order rejection if notification fails
-    }
-
     return {
       id: updatedOrder.id,
       orderNumber: updatedOrder.orderNumber,
@@ -638,84 +602,14 @@ export const restaurantService = {
   },
 
   // Update order status (mark as ready, out for delivery, delivered)
-  async updateOrderStatus(input: UpdateOrderStatusInput) {
-    const order = await prisma.order.findUnique({
-      where: { id: input.orderId },
+  async updateOrderStatus(input: UpdateOrderStatusInput, actor?: OrderStatusActor) {
+    const { order: updatedOrder } = await orderLifecycleService.transition({
+      orderId: input.orderId,
+      toStatus: input.status,
+      restaurantId: input.restaurantId,
+      actor: actor ?? { id: input.restaurantId, role: "RESTAURANT" },
     });
 
-    if (!order) {
-      throw new Error("Order not found");
-    }
-
-    // Verify order belongs to the restaurant
-    if (order.restaurantId !== input.restaurantId) {
-      throw new Error("Unauthorized: This order does not belong to your restaurant");
-    }
-
-    // Validate status transition
-    const validTransitions: { [key: string]: string[] } = {
-      PENDING: ["ACCEPTED", "REJECTED"],
-      ACCEPTED: ["PREPARING", "CANCELLED"],
-      PREPARING: ["READY"],
-      REJECTED: ["REJECTED"],
-      READY: ["OUT_FOR_DELIVERY"],
-      OUT_FOR_DELIVERY: ["DELIVERED"],
-      DELIVERED: [],
-    };
-
-    if (!validTransitions[order.status]?.includes(input.status)) {
-      throw new Error(
-        `Invalid status transition from ${order.status} to ${input.status}`
-      );
-    }
-
-    const updateData: any = { status: input.status };
-
-    // Set delivery time if marking as delivered
-    if (input.status === "DELIVERED") {
-      updateData.actualDeliveryTime = new Date();
-      
-      // Auto-mark COD orders as paid when delivered
-      if (order.paymentMethod === "CASH" && order.paymentStatus === "PENDING") {
-        updateData.paymentStatus = "PAID";
-        updateData.paidAt = new Date();
-      }
-    }
-
-    const updatedOrder = await prisma.order.update({
-      where: { id: input.orderId },
-      data: updateData,
-      include: {
-        user: {
-          select: {
-            id: true,
-            name: true,
-            phoneNumber: true,
-            expoPushToken: true,
-          },
-        },
-        restaurant: {
-          include: {
-            user: {
-              select: {
-                id: true,
-                expoPushToken: true,
-              },
-            },
-          },
-        },
-      },
-    });
-
-    // Notify user about order status updates (ACCEPTED → PREPARING → READY → CANCELLED)
-    // Only notify for statuses that have messages defined
-    try {
-      await notifyUserOrderStatus(updatedOrder);
-    } catch (error: any) {
-      console.error("[Restaurant] Failed to send order status notification:", error.message);
-      // Don't fail status update if notification fails
-    }
-
     return {
       id: updatedOrder.id,
       orderNumber: updatedOrder.orderNumber,
@@ -759,6 +653,7 @@ export const restaurantService = {
       PENDING: ["PAID", "FAILED"], // Can mark as paid or failed
       PAID: ["REFUNDED", "PENDING"], // Can refund or revert to pending
       FAILED: ["PAID", "PENDING"], // Can mark as paid later or keep pending
+      PARTIALLY_REFUNDED: ["REFUNDED"], // Can refund the rest
       REFUNDED: [], // Final state - cannot change
     };
 
@@ -769,7 +664,7 @@ export const restaurantService = {
     }
 
     // Special validations
-    if (paymentStatus === "REFUNDED" && order.paymentStatus !== "PAID") {
+    if (paymentStatus === "REFUNDED" && order.paymentStatus !== "PAID" && order.paymentStatus !== "PARTIALLY_REFUNDED") {
       throw new Error("Can only refund orders that are marked as PAID");
     }
 
@@ -794,29 +689,43 @@ export const restaurantService = {
       updateData.specialInstructions = `${existingReason}\n[Payment Status Update: ${paymentStatus}] ${reason}`.trim();
     }
 
-    const updatedOrder = await prisma.order.update({
-      where: { id: orderId },
-      data: updateData,
-      include: {
-        user: {
-          select: {
-            id: true,
-            name: true,
-            phoneNumber: true,
-            expoPushToken: true,
+    const updatedOrder = await prisma.$transaction(async (tx) => {
+      const updated = await tx.order.update({
+        where: { id: orderId },
+        data: updateData,
+        include: {
+          user: {
+            select: {
+              id: true,
+              name: true,
+              phoneNumber: true,
+              expoPushToken: true,
+            },
           },
-        },
-        restaurant: {
-          include: {
-            user: {
-              select: {
-                id: true,
-                expoPushToken: true,
+          restaurant: {
+            include: {
+              user: {
+                select: {
+                  id: true,
+                  expoPushToken: true,
+                },
               },
             },
           },
         },
-      },
+      });
+
+      // Refunded orders no longer count towards promo code limits
+      if (paymentStatus === "REFUNDED") {
+        // The cash returned is recorded in the refund ledger like refunds made through the refund endpoint
+        await refundLedgerService.recordCashRefund(tx, orderId, {
+          reason,
+          initiator: { id: restaurantId, role: "RESTAURANT" },
+        });
+        await promoCodeService.releaseOrderRedemptions(tx, orderId);
+      }
+
+      return updated;
     });
 
     // Log payment status change
@@ -827,6 +736,8 @@ export const restaurantService = {
       restaurantId,
     });
 
+    orderEventsService.publishPaymentStatus(updatedOrder);
+
     return {
       id: updatedOrder.id,
       orderNumber: updatedOrder.orderNumber,
@@ -952,6 +863,8 @@ export const restaurantService = {
         status: order.status,
         totalAmount: Number.parseFloat(order.total.toString()),
         paymentMethod: order.paymentMethod,
+        fulfilmentType: order.fulfilmentType,
+        tableNumber: order.tableNumber,
         deliveryAddress: order.deliveryAddress?.address || "N/A",
         deliveryCity: order.deliveryAddress?.city || "N/A",
         estimatedDeliveryTime: order.estimatedDeliveryTime,
@@ -1,6 +1,5 @@
-import { stripe } from "../../../libs/stripe";
+import { paymentProvider } from "../../../libs/payments";
 import prisma from "../../../config/prisma";
-import Stripe from "stripe";
 
 /**
  * Create subscription
@@ -18,8 +17,8 @@ export async function createRestaurantSubscription(restaurantId: string, planId:
 
   // Verify Connect account is active
   try {
-    const connectAccount = await stripe.accounts.retrieve(restaurant.stripeConnectAccountId);
-    if (!connectAccount.charges_enabled) {
+    const connectAccount = await paymentProvider.retrieveConnectAccount(restaurant.stripeConnectAccountId);
+    if (!connectAccount.chargesEnabled) {
       throw new Error("Restaurant Connect account is not fully activated. Please complete onboarding.");
     }
   } catch (error: any) {
@@ -34,7 +33,7 @@ export async function createRestaurantSubscription(restaurantId: string, planId:
   // The subscription will be on the main account, but we'll set up payment from Connect account
   let customerId = restaurant.stripeCustomerId;
   if (!customerId) {
-    const customer = await stripe.customers.create({ 
+    const customer = await paymentProvider.createCustomer({ 
       metadata: { 
         restaurantId,
         connectAccountId: restaurant.stripeConnectAccountId,
@@ -47,17 +46,11 @@ export async function createRestaurantSubscription(restaurantId: string, planId:
     });
   }
 
-  // Create Stripe subscription on MAIN account
+  // Create Stripe subscription on MAIN account, incomplete until its first invoice is paid
   // The subscription will charge the Connect account via payment method setup
-  const subscription = await stripe.subscriptions.create({
-    customer: customerId,
-    items: [{ price: plan.stripePriceId }],
-    payment_behavior: "default_incomplete",
-    payment_settings: {
-      payment_method_types: ["card"],
-      save_default_payment_method: "on_subscription",
-    },
-    expand: ["latest_invoice.payment_intent"],
+  const subscription = await paymentProvider.createSubscription({
+    customerId,
+    priceId: plan.stripePriceId,
     metadata: {
       restaurantId,
       planId,
@@ -82,10 +75,8 @@ export async function createRestaurantSubscription(restaurantId: string, planId:
     endDate.setMonth(endDate.getMonth() + 1);
   }
 
-  // Extract payment intent client secret for frontend payment completion
-  const invoice = subscription.latest_invoice as Stripe.Invoice;
-  const paymentIntent = (invoice as any)?.payment_intent as Stripe.PaymentIntent | undefined;
-  const clientSecret = paymentIntent?.client_secret || null;
+  // Payment intent client secret for frontend payment completion
+  const clientSecret = subscription.clientSecret;
 
   // Save in DB with calculated end date
   // Status starts as INCOMPLETE until payment is confirmed
@@ -129,16 +120,10 @@ export async function attachPaymentMethodToSubscription(
   if (!restaurant.stripeCustomerId) throw new Error("Restaurant has no Stripe customer");
 
   // Attach payment method to customer
-  await stripe.paymentMethods.attach(paymentMethodId, {
-    customer: restaurant.stripeCustomerId,
-  });
+  await paymentProvider.attachPaymentMethod(paymentMethodId, restaurant.stripeCustomerId);
 
   // Set as default payment method
-  await stripe.customers.update(restaurant.stripeCustomerId, {
-    invoice_settings: {
-      default_payment_method: paymentMethodId,
-    },
-  });
+  await paymentProvider.setDefaultPaymentMethod(restaurant.stripeCustomerId, paymentMethodId);
 
   // Get active subscription for this restaurant
   const activeSubscription = await prisma.restaurantSubscription.findFirst({
@@ -151,30 +136,11 @@ export async function attachPaymentMethodToSubscription(
 
   if (activeSubscription?.stripeSubscriptionId) {
     // Update subscription to use this payment method
-    await stripe.subscriptions.update(activeSubscription.stripeSubscriptionId, {
-      default_payment_method: paymentMethodId,
-    });
+    await paymentProvider.setSubscriptionPaymentMethod(activeSubscription.stripeSubscriptionId, paymentMethodId);
 
     // Try to pay the latest invoice if it exists
     try {
-      const subscription = await stripe.subscriptions.retrieve(
-        activeSubscription.stripeSubscriptionId,
-        { expand: ["latest_invoice"] }
-      );
-      
-      const invoice = subscription.latest_invoice as Stripe.Invoice;
-      const paymentIntentId = (invoice as any)?.payment_intent;
-      if (invoice && invoice.status === "open" && paymentIntentId) {
-        const paymentIntent = typeof paymentIntentId === "string" 
-          ? await stripe.paymentIntents.retrieve(paymentIntentId)
-          : paymentIntentId as Stripe.PaymentIntent;
-        if (paymentIntent.status === "requires_payment_method") {
-          // Confirm the payment intent with the new payment method
-          await stripe.paymentIntents.confirm(paymentIntent.id, {
-            payment_method: paymentMethodId,
-          });
-        }
-      }
+      await paymentProvider.payOpenInvoice(activeSubscription.stripeSubscriptionId, paymentMethodId);
     } catch (error: any) {
       console.warn(`[Subscription] Could not auto-pay invoice: ${error.message}`);
       // Not critical - webhook will handle it
@@ -194,18 +160,8 @@ export async function updateRestaurantSubscription(subscriptionId: string, newPl
   const plan = await prisma.subscriptionPlan.findUnique({ where: { id: newPlanId } });
   if (!plan || !plan.stripePriceId) throw new Error("New plan invalid");
 
-  // Update Stripe subscription - get current subscription item first
-  const currentSub = await stripe.subscriptions.retrieve(sub.stripeSubscriptionId!);
-  const subscriptionItemId = currentSub.items.data[0]?.id;
-  
-  if (!subscriptionItemId) {
-    throw new Error("No subscription item found to update");
-  }
-  
-  // Update Stripe subscription
-  const stripeSub = await stripe.subscriptions.update(sub.stripeSubscriptionId!, {
-    items: [{ id: subscriptionItemId, price: plan.stripePriceId }],
-  });
+  // Update Stripe subscription item to the new price
+  const stripeSub = await paymentProvider.changeSubscriptionPrice(sub.stripeSubscriptionId!, plan.stripePriceId);
 
   // Update DB
   const dbSub = await prisma.restaurantSubscription.update({
@@ -224,7 +180,7 @@ export async function cancelRestaurantSubscription(subscriptionId: string) {
   if (!sub) throw new Error("Subscription not found");
 
   // Cancel Stripe subscription (immediately)
-  const stripeSub = await stripe.subscriptions.cancel(sub.stripeSubscriptionId!);
+  const stripeSub = await paymentProvider.cancelSubscription(sub.stripeSubscriptionId!);
 
   // Update DB
   const dbSub = await prisma.restaurantSubscription.update({
@@ -1,31 +1,24 @@
 import prisma from "../../../../config/prisma";
-import { stripe } from "../../../../libs/stripe";
+import { paymentProvider } from "../../../../libs/payments";
 import { CreateSubscriptionPlanInput, UpdateSubscriptionPlanInput } from "./subscriptionplan.schema";
 
 export async function createPlan(data: CreateSubscriptionPlanInput) {
-  // 1. Create Stripe Product
-  const product = await stripe.products.create({
-    name: data.name,
-  });
-
-  // 2. Create Stripe Price
-  const price = await stripe.prices.create({
-    product: product.id,
-    unit_amount: Math.round(data.price * 100),
+  // 1. Create the product and its recurring price in Stripe
+  const priceId = await paymentProvider.createRecurringPrice({
+    productName: data.name,
+    unitAmount: Math.round(data.price * 100),
     currency: "usd",
-    recurring: {
-      interval: data.interval === "MONTHLY" ? "month" : "year",
-    },
+    interval: data.interval === "MONTHLY" ? "month" : "year",
   });
 
-  // 3. Save in DB
+  // 2. Save in DB
   return prisma.subscriptionPlan.create({
     data: {
       name: data.name,
       price: data.price,
       interval: data.interval,
       features: data.features,
-      stripePriceId: price.id,
+      stripePriceId: priceId,
     },
   });
 }
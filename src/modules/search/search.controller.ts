@@ -13,7 +13,8 @@ export const searchController = {
     const { q } = parse.data;
 
     try {
-      const result = await searchService.search(q);
+      const userId = (req as any).auth?.user?.id as string | undefined;
+      const result = await searchService.search(q, userId);
       if (!result || !result.restaurants || result.restaurants.length === 0) {
         return res.status(404).json({ success: false, message: 'Sorry Not found' });
       }
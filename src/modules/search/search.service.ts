@@ -1,13 +1,17 @@
 import prisma from "../../config/prisma";
+import { favouriteRestaurantService } from "../favourite-restaurant/favourite-restaurant.service";
+import { availabilityFields, availabilityService } from "../availability/availability.service";
 
 /**
  * Search service behavior:
  * - If `q` matches restaurant.name (case-insensitive contains) -> return restaurant cards and totalResults (matching restaurants count)
  * - Otherwise, try to match menu items by name; return unique restaurants that offer those menu items and totalResults (number of restaurants)
  * - If nothing found, caller should return 404 with message 'Sorry Not found'
+ * - `isFavorite` is computed for the requesting user (false when no user is given)
+ * - `isOpenNow`, `opensAt` and `closesAt` come from the restaurant's opening hours
  */
 export const searchService = {
-  async search(q: string) {
+  async search(q: string, userId?: string) {
     const query = q.trim();
     if (!query) return { restaurants: [], totalResults: 0 };
 
@@ -20,7 +24,6 @@ export const searchService = {
           name: true,
           banner: true,
           location: true,
-          isFavorite: true,
           cuisineCategoryId: true,
           estimatedDeliveryTime: true,
         },
@@ -36,14 +39,20 @@ export const searchService = {
       }
 
       if (restaurantMatches.length > 0) {
+        const matchIds = restaurantMatches.map((r) => r.userId);
+        const [favouriteIds, availability] = await Promise.all([
+          favouriteRestaurantService.getFavouriteRestaurantIds(userId, matchIds),
+          availabilityService.getAvailabilityMap(matchIds),
+        ]);
         const restaurants = restaurantMatches.map((r) => ({
           id: r.userId,
           name: r.name,
           image: r.banner,
           location: r.location,
-          isFavorite: !!r.isFavorite,
+          isFavorite: favouriteIds.has(r.userId),
           cuisine: r.cuisineCategoryId ? cuisineMap.get(r.cuisineCategoryId)?.name ?? null : null,
           estimatedDeliveryTime: r.estimatedDeliveryTime || null,
+          ...availabilityFields(availability.get(r.userId)),
         }));
 
         return { restaurants, totalResults: restaurants.length };
@@ -67,7 +76,7 @@ export const searchService = {
 
       const restRows = await prisma.restaurant.findMany({
         where: { userId: { in: restaurantIds } },
-        select: { userId: true, name: true, banner: true, location: true, isFavorite: true, cuisineCategoryId: true, estimatedDeliveryTime: true },
+        select: { userId: true, name: true, banner: true, location: true, cuisineCategoryId: true, estimatedDeliveryTime: true },
       });
 
       const cuisineIds2 = Array.from(new Set(restRows.map((r) => r.cuisineCategoryId).filter(Boolean))) as string[];
@@ -77,14 +86,20 @@ export const searchService = {
         cuisines.forEach((c) => cuisineMap2.set(c.id, { id: c.id, name: c.name }));
       }
 
+      const [favouriteIds, availability] = await Promise.all([
+        favouriteRestaurantService.getFavouriteRestaurantIds(userId, restaurantIds),
+        availabilityService.getAvailabilityMap(restaurantIds),
+      ]);
+
       const restaurants = restRows.map((r) => ({
         id: r.userId,
         name: r.name,
         image: r.banner,
         location: r.location,
-        isFavorite: !!r.isFavorite,
+        isFavorite: favouriteIds.has(r.userId),
         cuisine: r.cuisineCategoryId ? cuisineMap2.get(r.cuisineCategoryId)?.name ?? null : null,
         estimatedDeliveryTime: r.estimatedDeliveryTime || null,
+        ...availabilityFields(availability.get(r.userId)),
       }));
 
       return { restaurants, totalResults: restaurants.length };
@@ -1,6 +1,8 @@
 import { Request, Response } from "express";
 import { trackOrderService } from "./track-order.service";
-import { trackOrderSchema } from "./track-order.schema";
+import { trackOrderGroupSchema, trackOrderSchema } from "./track-order.schema";
+import { orderEventsService } from "../orders/order-events.service";
+import { getActorRole } from "../orders/order-lifecycle.service";
 
 export const trackOrderController = {
   // GET /track-order/:orderId - Get full tracking information
@@ -26,6 +28,38 @@ export const trackOrderController = {
     }
   },
 
+  // GET /track-order/group/:orderGroupId - Get combined tracking of a multi-restaurant checkout
+  async getOrderGroupTracking(req: Request, res: Response) {
+    try {
+      const { orderGroupId } = req.params;
+
+      const parseResult = trackOrderGroupSchema.safeParse({ orderGroupId });
+      if (!parseResult.success) {
+        return res.status(400).json({
+          message: "Invalid order group ID",
+          errors: parseResult.error.flatten(),
+        });
+      }
+
+      const authUser = (req as any).auth?.user;
+      const { userId, ...trackingInfo } = await trackOrderService.getOrderGroupTrackingInfo(
+        parseResult.data.orderGroupId
+      );
+
+      // Customers can only follow their own orders
+      if (getActorRole(authUser) !== "ADMIN" && authUser?.id !== userId) {
+        return res.status(403).json({ message: "Forbidden: This order does not belong to you" });
+      }
+
+      return res.json(trackingInfo);
+    } catch (error: any) {
+      if (error.message.includes("not found")) {
+        return res.status(404).json({ message: error.message });
+      }
+      return res.status(500).json({ message: error.message });
+    }
+  },
+
   // GET /track-order/status/:orderId - Get current order status
   async getOrderStatus(req: Request, res: Response) {
     try {
@@ -48,4 +82,42 @@ export const trackOrderController = {
       return res.status(500).json({ message: error.message });
     }
   },
+
+  // GET /track-order/:orderId/stream - Stream live order updates (SSE)
+  async streamOrderUpdates(req: Request, res: Response) {
+    try {
+      const { orderId } = req.params;
+
+      const parseResult = trackOrderSchema.safeParse({ orderId });
+      if (!parseResult.success) {
+        return res.status(400).json({
+          message: "Invalid order ID",
+          errors: parseResult.error.flatten(),
+        });
+      }
+
+      const authUser = (req as any).auth?.user;
+      const { userId, ...snapshot } = await trackOrderService.getOrderStreamSnapshot(parseResult.data.orderId);
+
+      // Customers can only follow their own orders
+      if (getActorRole(authUser) !== "ADMIN" && authUser?.id !== userId) {
+        return res.status(403).json({ message: "Forbidden: This order does not belong to you" });
+      }
+
+      orderEventsService.openStream(
+        req,
+        res,
+        (listener) => orderEventsService.subscribeToOrder(snapshot.id, listener),
+        snapshot
+      );
+    } catch (error: any) {
+      if (res.headersSent) {
+        return res.end();
+      }
+      if (error.message.includes("not found")) {
+        return res.status(404).json({ message: error.message });
+      }
+      return res.status(500).json({ message: error.message });
+    }
+  },
 };
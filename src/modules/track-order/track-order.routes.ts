@@ -38,7 +38,7 @@ const router = Router();
  *                   type: string
  *                 orderNumber:
  *                   type: string
- *                   example: "#1234"
+ *                   example: "KFC-261019-0042"
  *                 currentStatus:
  *                   type: string
  *                   enum:
@@ -172,4 +172,106 @@ router.get("/:orderId", requireAuth, requireUserRole, trackOrderController.getOr
  */
 router.get("/status/:orderId", requireAuth, requireUserRole, trackOrderController.getOrderStatus);
 
+/**
+ * @swagger
+ * /track-order/group/{orderGroupId}:
+ *   get:
+ *     summary: Get combined tracking of an order group
+ *     tags: [Track Order]
+ *     description: |
+ *       Track a checkout of a cart with items from several restaurants. Each restaurant prepares
+ *       its own order, so the response holds the full tracking information (as returned by
+ *       `/track-order/{orderId}`) of every order in the group.
+ *       Only the customer who placed the orders (or an admin) can track them.
+ *     parameters:
+ *       - in: path
+ *         name: orderGroupId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Order group ID returned by checkout
+ *     responses:
+ *       200:
+ *         description: Order group tracking retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 id:
+ *                   type: string
+ *                 total:
+ *                   type: number
+ *                 paymentStatus:
+ *                   type: string
+ *                   enum: [PENDING, PAID, FAILED, PARTIALLY_REFUNDED, REFUNDED]
+ *                 createdAt:
+ *                   type: string
+ *                   format: date-time
+ *                 isCompleted:
+ *                   type: boolean
+ *                   description: True once every order of the group is delivered (or picked up / served)
+ *                 orders:
+ *                   type: array
+ *                   description: Tracking information of each restaurant's order
+ *                   items:
+ *                     type: object
+ *       400:
+ *         description: Invalid order group ID
+ *       403:
+ *         description: The order group belongs to another user
+ *       404:
+ *         description: Order group not found
+ *       500:
+ *         description: Internal server error
+ */
+router.get("/group/:orderGroupId", requireAuth, requireUserRole, trackOrderController.getOrderGroupTracking);
+
+/**
+ * @swagger
+ * /track-order/{orderId}/stream:
+ *   get:
+ *     summary: Stream live order updates (Server-Sent Events)
+ *     tags: [Track Order]
+ *     description: |
+ *       Opens a `text/event-stream` connection that pushes order updates as they happen,
+ *       replacing polling of `/track-order/{orderId}`.
+ *       Authenticated with the Better Auth session cookie, so a plain `EventSource` works.
+ *
+ *       **Events:**
+ *       - `snapshot` - current state, sent once when the stream opens
+ *       - `order.status` - status changed (includes reason when cancelled/rejected)
+ *       - `order.eta` - estimated delivery time changed
+ *       - `order.payment` - payment status changed
+ *
+ *       A `: ping` comment is sent every 25 seconds to keep the connection alive.
+ *       After reconnecting, clients should re-fetch the tracking information.
+ *     parameters:
+ *       - in: path
+ *         name: orderId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Order ID to follow
+ *     responses:
+ *       200:
+ *         description: Event stream opened
+ *         content:
+ *           text/event-stream:
+ *             schema:
+ *               type: string
+ *               example: |
+ *                 event: order.status
+ *                 data: {"type":"order.status","orderId":"123e4567-e89b-12d3-a456-426614174000","orderNumber":"KFC-261019-0042","status":"PREPARING","paymentStatus":"PAID","estimatedDeliveryTime":"05:00 PM","at":"2026-10-19T12:00:00.000Z"}
+ *       400:
+ *         description: Invalid order ID
+ *       403:
+ *         description: Order does not belong to the authenticated user
+ *       404:
+ *         description: Order not found
+ */
+router.get("/:orderId/stream", requireAuth, requireUserRole, trackOrderController.streamOrderUpdates);
+
 export default router;
@@ -5,5 +5,11 @@ export const trackOrderSchema = z.object({
   orderId: z.string().min(1, "Order ID is required").uuid("Invalid order ID"),
 });
 
+// Schema for tracking an order group (multi-restaurant checkout)
+export const trackOrderGroupSchema = z.object({
+  orderGroupId: z.string().min(1, "Order group ID is required").uuid("Invalid order group ID"),
+});
+
 // TypeScript types
 export type TrackOrderInput = z.infer<typeof trackOrderSchema>;
+export type TrackOrderGroupInput = z.infer<typeof trackOrderGroupSchema>;
@@ -1,4 +1,23 @@
 import prisma from "../../config/prisma";
+import type { FulfilmentType, OrderStatus } from "../../generated/prisma/client";
+import { orderStatusHistoryService } from "../orders/order-status-history.service";
+
+// Last steps of the timeline, which depend on how the customer gets the order
+const FULFILMENT_STEPS: Record<FulfilmentType, { status: OrderStatus; label: string }[]> = {
+  DELIVERY: [
+    { status: "READY", label: "Ready" },
+    { status: "OUT_FOR_DELIVERY", label: "Out for delivery" },
+    { status: "DELIVERED", label: "Delivered" },
+  ],
+  PICKUP: [
+    { status: "READY", label: "Ready for pickup" },
+    { status: "DELIVERED", label: "Picked up" },
+  ],
+  DINE_IN: [
+    { status: "READY", label: "Ready to serve" },
+    { status: "DELIVERED", label: "Served" },
+  ],
+};
 
 export const trackOrderService = {
   // Get order tracking information
@@ -9,6 +28,9 @@ export const trackOrderService = {
         id: true,
         orderNumber: true,
         status: true,
+        scheduledFor: true,
+        fulfilmentType: true,
+        tableNumber: true,
         estimatedDeliveryTime: true,
         actualDeliveryTime: true,
         specialInstructions: true,
@@ -38,6 +60,13 @@ export const trackOrderService = {
             city: true,
           },
         },
+        statusHistory: {
+          select: {
+            status: true,
+            createdAt: true,
+          },
+          orderBy: { createdAt: "asc" },
+        },
       },
     });
 
@@ -45,14 +74,18 @@ export const trackOrderService = {
       throw new Error("Order not found");
     }
 
+    // Times each status was reached, taken from the persisted status history
+    const statusTimes = orderStatusHistoryService.getStatusTimes(order.statusHistory);
+
     // Define status progression steps
     const statusSteps = [
-      { status: "PENDING", label: "Order placed", time: order.createdAt },
-      { status: "ACCEPTED", label: "Accepted", time: null },
-      { status: "PREPARING", label: "Preparing", time: null },
-      { status: "READY", label: "Ready", time: null },
-      { status: "OUT_FOR_DELIVERY", label: "Out for delivery", time: null },
-      { status: "DELIVERED", label: "Delivered", time: order.actualDeliveryTime },
+      { status: "PENDING", label: "Order placed", time: statusTimes.PENDING ?? order.createdAt },
+      { status: "ACCEPTED", label: "Accepted", time: statusTimes.ACCEPTED ?? null },
+      { status: "PREPARING", label: "Preparing", time: statusTimes.PREPARING ?? null },
+      ...FULFILMENT_STEPS[order.fulfilmentType].map((step) => ({
+        ...step,
+        time: statusTimes[step.status] ?? (step.status === "DELIVERED" ? order.actualDeliveryTime : null),
+      })),
     ];
 
     // Mark which steps are completed
@@ -66,6 +99,9 @@ export const trackOrderService = {
       id: order.id,
       orderNumber: order.orderNumber,
       currentStatus: order.status,
+      scheduledFor: order.scheduledFor,
+      fulfilmentType: order.fulfilmentType,
+      tableNumber: order.tableNumber,
       estimatedDeliveryTime: order.estimatedDeliveryTime,
       actualDeliveryTime: order.actualDeliveryTime,
       specialInstructions: order.specialInstructions,
@@ -74,10 +110,12 @@ export const trackOrderService = {
         name: order.restaurant.name,
         location: order.restaurant.location,
       },
-      deliveryAddress: {
-        address: order.deliveryAddress.address,
-        city: order.deliveryAddress.city,
-      },
+      deliveryAddress: order.deliveryAddress
+        ? {
+            address: order.deliveryAddress.address,
+            city: order.deliveryAddress.city,
+          }
+        : null,
       items: order.items.map((item) => ({
         id: item.id,
         name: item.itemName,
@@ -88,6 +126,44 @@ export const trackOrderService = {
     };
   },
 
+  // Get combined tracking information of an order group: one timeline per restaurant's order
+  async getOrderGroupTrackingInfo(orderGroupId: string) {
+    const orderGroup = await prisma.orderGroup.findUnique({
+      where: { id: orderGroupId },
+      select: {
+        id: true,
+        userId: true,
+        total: true,
+        paymentStatus: true,
+        createdAt: true,
+        orders: {
+          select: { id: true },
+          orderBy: { createdAt: "asc" },
+        },
+      },
+    });
+
+    if (!orderGroup) {
+      throw new Error("Order group not found");
+    }
+
+    const orders = [];
+    for (const order of orderGroup.orders) {
+      orders.push(await this.getOrderTrackingInfo(order.id));
+    }
+
+    return {
+      id: orderGroup.id,
+      userId: orderGroup.userId,
+      total: orderGroup.total,
+      paymentStatus: orderGroup.paymentStatus,
+      createdAt: orderGroup.createdAt,
+      // Whole group delivered / served once every order is
+      isCompleted: orders.every((order) => order.currentStatus === "DELIVERED"),
+      orders,
+    };
+  },
+
   // Get simplified tracking status
   async getOrderStatus(orderId: string) {
     const order = await prisma.order.findUnique({
@@ -96,6 +172,7 @@ export const trackOrderService = {
         id: true,
         orderNumber: true,
         status: true,
+        scheduledFor: true,
         estimatedDeliveryTime: true,
         actualDeliveryTime: true,
         createdAt: true,
@@ -111,12 +188,36 @@ export const trackOrderService = {
       id: order.id,
       orderNumber: order.orderNumber,
       status: order.status,
+      scheduledFor: order.scheduledFor,
       estimatedDeliveryTime: order.estimatedDeliveryTime,
       actualDeliveryTime: order.actualDeliveryTime,
       createdAt: order.createdAt,
       updatedAt: order.updatedAt,
     };
   },
+
+  // Get the current state pushed as the first event of a tracking stream
+  async getOrderStreamSnapshot(orderId: string) {
+    const order = await prisma.order.findUnique({
+      where: { id: orderId },
+      select: {
+        id: true,
+        userId: true,
+        orderNumber: true,
+        status: true,
+        paymentStatus: true,
+        estimatedDeliveryTime: true,
+        actualDeliveryTime: true,
+        updatedAt: true,
+      },
+    });
+
+    if (!order) {
+      throw new Error("Order not found");
+    }
+
+    return order;
+  },
 };
 
 // Helper function to determine if status is completed
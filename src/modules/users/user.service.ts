@@ -13,7 +13,7 @@ import { hashPassword } from "better-auth/crypto";
 import { getProfilePictureUrl, deleteImageFile } from "../../config/upload";
 import path from "path";
 import fs from "fs";
-import { stripe } from "../../libs/stripe";
+import { paymentProvider } from "../../libs/payments";
 
 export const userService = {
 
@@ -317,7 +317,7 @@ export const userService = {
       customerData.name = user.name;
     }
     
-    const customer = await stripe.customers.create(customerData);
+    const customer = await paymentProvider.createCustomer(customerData);
 
     // 4️⃣ Save Stripe customer ID in DB
     return prisma.user.update({
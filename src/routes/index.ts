@@ -15,6 +15,7 @@ import menuRoutes from "../modules/menu/menu.routes";
 import menuSearchRoutes from "../modules/menu-search/menu-search.routes";
 import cartRoutes from "../modules/cart/cart.routes";
 import favouriteCartRoutes from "../modules/favourite-cart/favourite-cart.routes";
+import favouriteRestaurantRoutes from "../modules/favourite-restaurant/favourite-restaurant.routes";
 import productDetailRoutes from "../modules/product-detail/product-detail.routes";
 import checkoutRoutes from "../modules/checkout/checkout.routes";
 import deliveryAddressRoutes from "../modules/delivery-address/delivery-address.routes";
@@ -25,6 +26,9 @@ import adminRestaurantRoutes from "../modules/admin/block_activate-restaurant/re
 import adminUserRoutes from "../modules/admin/block_activate-users/user.routes";
 import adminSearchRoutes from "../modules/admin/search/search.routes";
 import adminPromoCodeRoutes from "../modules/admin/promo-code/promo-code.routes";
+import adminOrderRoutes from "../modules/admin/order/order.routes";
+import adminPricingRoutes from "../modules/admin/pricing/pricing.routes";
+import adminStripeEventRoutes from "../modules/admin/stripe-events/stripe-event.routes";
 import paymentMethodRoutes from "../modules/payments/payment-method/paymentMethod.routes";
 import analyticsRoutes from "../modules/analytics/analytics.routes";
 import orderPaymentRoutes from "../modules/payments/order-payment/orderpayment.routes";
@@ -33,6 +37,7 @@ import promotionRoutes from "../modules/restaurant/promotion/promotion.routes";
 import subscriptionRoutes from "../modules/restaurant/subscription/subscription.routes";
 import subscriptionPlanRoutes from "../modules/restaurant/subscription/subscriptionplan-admin/subscriptionplan.routes";
 import notificationRoutes from "../modules/notifications/notification.routes";
+import orderIssueRoutes from "../modules/order-issue/order-issue.routes";
 import { requireAuth } from "../middlewares/role.middleware";
 
 const router = Router();
@@ -95,6 +100,9 @@ router.use("/admin/restaurants", adminRestaurantRoutes);
 router.use("/admin/users", adminUserRoutes);
 router.use("/admin/search", adminSearchRoutes);
 router.use("/admin/promo-codes", adminPromoCodeRoutes);
+router.use("/admin/orders", adminOrderRoutes);
+router.use("/admin/pricing", adminPricingRoutes);
+router.use("/admin/stripe-events", adminStripeEventRoutes);
 
 // Restaurant Info routes (personal info and business hours)
 router.use("/", restaurantInfoRoutes);
@@ -148,6 +156,9 @@ router.use("/", paymentMethodRoutes);
 // Favourite Cart routes (last)
 router.use("/favourite-carts", favouriteCartRoutes);
 
+// Favourite Restaurant routes
+router.use("/favourite-restaurants", favouriteRestaurantRoutes);
+
 // Order Payment routes
 router.use("/payments", orderPaymentRoutes);
 
@@ -163,6 +174,9 @@ router.use("/subscription-plans", subscriptionPlanRoutes);
 // Notification routes
 router.use("/notifications", notificationRoutes);
 
+// Order Issue routes (complaints about delivered orders)
+router.use("/order-issues", orderIssueRoutes);
+
 /**
  * @swagger
  * /:
@@ -0,0 +1,185 @@
+/**
+ * Fake Payments Check
+ *
+ * Runs a card order through checkout and the fake payment provider against the database of DATABASE_URL:
+ * adds an item to the cart, checks out, pays the order, delivers the webhook events through the event log
+ * and refunds it, then checks the order's payment status and refund balance at each step. The records it
+ * creates are deleted at the end. This is the repo's `npm test`.
+ *
+ * Usage:
+ *   npm test
+ *
+ * Exits with code 1 when a check fails.
+ *
+ * @module scripts/check-fake-payments
+ */
+
+import assert from "node:assert/strict";
+import dotenv from "dotenv";
+import type { Request } from "express";
+
+dotenv.config();
+// The payment provider is selected when libs/payments is loaded, so the app modules are imported after this
+process.env.PAYMENT_PROVIDER = "fake";
+
+const { default: prisma } = await import("../config/prisma");
+const { getFakePaymentProvider } = await import("../libs/payments");
+const { cartService } = await import("../modules/cart/cart.service");
+const { checkoutService } = await import("../modules/checkout/checkout.service");
+const { createStripePaymentIntent } = await import("../modules/payments/order-payment/orderpayment.service");
+const { refundOrder } = await import("../modules/payments/order-refund/orderrefund.service");
+const { refundLedgerService, toCents } = await import("../modules/payments/order-refund/refund-ledger.service");
+const { connectFakeProviderWebhooks } = await import("../modules/payments/stripe-webhooks/stripe-event-processors");
+
+const ITEM_PRICE = 12.25;
+const ITEM_QUANTITY = 2;
+
+interface Fixture {
+  countryId: string;
+  cityId: string;
+  mallId: string;
+  restaurantUserId: string;
+  categoryId: string;
+  menuItemId: string;
+  customerId: string;
+}
+
+// A mall with one restaurant (no business hours: always open) serving one item, and a customer
+async function createFixture(stripeCustomerId: string): Promise<Fixture> {
+  const suffix = `${Date.now()}`;
+  const country = await prisma.country.create({ data: { name: `Payments check ${suffix}` } });
+  const city = await prisma.city.create({ data: { name: "Payments check", countryId: country.id } });
+  const mall = await prisma.mall.create({ data: { name: "Payments check", cityId: city.id } });
+
+  const restaurantUser = await prisma.user.create({
+    data: { email: `payments-check-restaurant-${suffix}@example.com`, role: "RESTAURANT" },
+  });
+  await prisma.restaurant.create({
+    data: { userId: restaurantUser.id, mallId: mall.id, name: "Payments check", approvalStatus: "APPROVED" },
+  });
+  const category = await prisma.menuCategory.create({
+    data: { name: "Payments check", restaurantId: restaurantUser.id },
+  });
+  const menuItem = await prisma.menuItem.create({
+    data: { name: "Payments check burger", price: ITEM_PRICE, categoryId: category.id },
+  });
+
+  const customer = await prisma.user.create({
+    data: { email: `payments-check-customer-${suffix}@example.com`, stripeCustomerId },
+  });
+
+  return {
+    countryId: country.id,
+    cityId: city.id,
+    mallId: mall.id,
+    restaurantUserId: restaurantUser.id,
+    categoryId: category.id,
+    menuItemId: menuItem.id,
+    customerId: customer.id,
+  };
+}
+
+async function deleteFixture(fixture: Fixture, eventIds: string[]) {
+  await prisma.stripeEvent.deleteMany({ where: { id: { in: eventIds } } });
+  // Cascades to the order items, status history, refunds and cart
+  await prisma.order.deleteMany({ where: { restaurantId: fixture.restaurantUserId } });
+  await prisma.user.deleteMany({ where: { id: fixture.customerId } });
+  await prisma.menuItem.deleteMany({ where: { id: fixture.menuItemId } });
+  await prisma.menuCategory.deleteMany({ where: { id: fixture.categoryId } });
+  await prisma.restaurant.deleteMany({ where: { userId: fixture.restaurantUserId } });
+  await prisma.user.deleteMany({ where: { id: fixture.restaurantUserId } });
+  await prisma.mall.deleteMany({ where: { id: fixture.mallId } });
+  await prisma.city.deleteMany({ where: { id: fixture.cityId } });
+  await prisma.country.deleteMany({ where: { id: fixture.countryId } });
+}
+
+// Every event the fake emitted was delivered and processed by its webhook processor
+async function expectEventsProcessed(eventIds: string[]) {
+  const events = await prisma.stripeEvent.findMany({ where: { id: { in: eventIds } } });
+  for (const id of eventIds) {
+    const event = events.find((record) => record.id === id);
+    assert.ok(event, `Event ${id} was not delivered to the webhook`);
+    assert.notEqual(event.status, "FAILED", `Event ${id} (${event.type}) failed: ${event.error}`);
+  }
+}
+
+async function main() {
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("The payments check writes to the database, refusing to run with NODE_ENV=production");
+  }
+
+  const fake = getFakePaymentProvider();
+  connectFakeProviderWebhooks();
+
+  const { id: stripeCustomerId } = await fake.createCustomer({ email: "payments-check@example.com" });
+  const fixture = await createFixture(stripeCustomerId);
+  const eventIds = () => fake.emittedEvents().map(({ event }) => event.id);
+
+  try {
+    // Checkout
+    await cartService.addToCart(fixture.customerId, {
+      menuItemId: fixture.menuItemId,
+      restaurantId: fixture.restaurantUserId,
+      quantity: ITEM_QUANTITY,
+    });
+    const checkout = await checkoutService.createOrder({
+      userId: fixture.customerId,
+      fulfilmentType: "PICKUP",
+      paymentMethod: "CARD",
+    });
+    assert.ok("order" in checkout && checkout.order, "Checkout did not create a single order");
+    const orderId = checkout.order.id;
+
+    const placedOrder = await prisma.order.findUniqueOrThrow({ where: { id: orderId } });
+    assert.equal(placedOrder.paymentStatus, "PENDING");
+    assert.equal(Number(placedOrder.subtotal), ITEM_PRICE * ITEM_QUANTITY);
+    console.log(`[PaymentsCheck] Checkout: order ${placedOrder.orderNumber} placed, payment PENDING`);
+
+    // Payment
+    const req = { auth: { user: { id: fixture.customerId } } } as unknown as Request;
+    await createStripePaymentIntent(req, orderId);
+    const { stripePaymentIntentId } = await prisma.order.findUniqueOrThrow({ where: { id: orderId } });
+    assert.ok(stripePaymentIntentId, "The payment intent was not saved on the order");
+
+    const intent = await fake.completePayment(stripePaymentIntentId);
+    assert.equal(intent.amount, toCents(placedOrder.total));
+    await fake.flushEvents();
+    await expectEventsProcessed(eventIds());
+
+    const paidOrder = await prisma.order.findUniqueOrThrow({ where: { id: orderId } });
+    assert.equal(paidOrder.paymentStatus, "PAID");
+    console.log("[PaymentsCheck] Payment: order is PAID");
+
+    // Full refund
+    await refundOrder(orderId, undefined, undefined, undefined, "Payments check");
+    await fake.flushEvents();
+    await expectEventsProcessed(eventIds());
+
+    const refundedOrder = await prisma.order.findUniqueOrThrow({ where: { id: orderId } });
+    assert.equal(refundedOrder.paymentStatus, "REFUNDED");
+
+    const totalCents = toCents(placedOrder.total);
+    const balance = await refundLedgerService.getBalance(prisma, orderId);
+    assert.deepEqual(balance, {
+      totalCents,
+      refundedCents: totalCents,
+      committedCents: totalCents,
+      refundableCents: 0,
+    });
+    const refunds = await prisma.refund.findMany({ where: { orderId } });
+    assert.equal(refunds.length, 1, "The refund was recorded more than once");
+    console.log("[PaymentsCheck] Refund: order is REFUNDED, nothing left to refund");
+  } finally {
+    await fake.flushEvents();
+    await deleteFixture(fixture, eventIds());
+  }
+
+  console.log("[PaymentsCheck] All checks passed");
+}
+
+await main()
+  .catch((error) => {
+    console.error(`[PaymentsCheck] ${error.message}`);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,163 @@
+/**
+ * Stripe Event Replay
+ *
+ * Replays stored Stripe webhook payloads through the webhook handlers against the database of DATABASE_URL,
+ * without signature verification and without calling Stripe (no transfers, no subscription lookups). Used to
+ * reproduce and test webhook handling locally.
+ *
+ * Usage:
+ *   npm run stripe:replay -- evt_123 evt_456 [--source PAYMENTS]   Replay events stored in the database
+ *   npm run stripe:replay -- --failed [--source ACCOUNTS] [--limit 50]   Replay stored FAILED events
+ *   npm run stripe:replay -- --file events.json [--source SUBSCRIPTIONS]   Replay events from a JSON file
+ *
+ * The file holds one event or an array of events: raw Stripe events (the source is then required), or events
+ * as returned by GET /admin/stripe-events/{source}/{eventId} (with `source` and `payload`).
+ * Events already processed are skipped unless --force is given.
+ *
+ * @module scripts/replay-stripe-events
+ */
+
+import { readFileSync } from "node:fs";
+import { parseArgs } from "node:util";
+import Stripe from "stripe";
+import prisma from "../config/prisma";
+import type { StripeEventSource } from "../generated/prisma/client";
+import { stripeEventLogService } from "../modules/payments/stripe-webhooks/stripe-event-log.service";
+import { stripeEventProcessors } from "../modules/payments/stripe-webhooks/stripe-event-processors";
+
+const SOURCES: StripeEventSource[] = ["PAYMENTS", "ACCOUNTS", "SUBSCRIPTIONS"];
+
+interface ReplayItem {
+  source: StripeEventSource;
+  event: Stripe.Event;
+}
+
+function parseSource(value: string | undefined): StripeEventSource | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const source = value.toUpperCase() as StripeEventSource;
+  if (!SOURCES.includes(source)) {
+    throw new Error(`Invalid source "${value}", expected one of ${SOURCES.join(", ")}`);
+  }
+  return source;
+}
+
+// Events of a JSON file: raw Stripe events, or logged events with their source and payload
+function readFile(path: string, source: StripeEventSource | undefined): ReplayItem[] {
+  const content = JSON.parse(readFileSync(path, "utf8"));
+  // Also accept the admin API response ({ success, data })
+  const entries: any[] = [content?.data ?? content].flat();
+
+  return entries.map((entry) => {
+    if (entry?.payload) {
+      const entrySource = source ?? parseSource(entry.source);
+      if (!entrySource) {
+        throw new Error(`${path}: --source is required for logged events without a source (${entry.id})`);
+      }
+      return { source: entrySource, event: entry.payload as Stripe.Event };
+    }
+    if (entry?.object !== "event") {
+      throw new Error(`${path}: entries must be Stripe events or logged events with a payload`);
+    }
+    if (!source) {
+      throw new Error(`${path}: --source is required to replay raw Stripe events (${entry.id})`);
+    }
+    return { source, event: entry as Stripe.Event };
+  });
+}
+
+async function loadStoredEvents(
+  eventIds: string[],
+  source: StripeEventSource | undefined,
+  failed: boolean,
+  limit: number
+): Promise<ReplayItem[]> {
+  const records = await prisma.stripeEvent.findMany({
+    where: {
+      ...(source && { source }),
+      ...(failed ? { status: "FAILED" as const } : { id: { in: eventIds } }),
+    },
+    orderBy: { createdAt: "asc" },
+    ...(failed && { take: limit }),
+  });
+
+  const missing = eventIds.filter((id) => !records.some((record) => record.id === id));
+  if (missing.length > 0) {
+    throw new Error(`Stripe event(s) not found: ${missing.join(", ")}`);
+  }
+
+  return records.map((record) => ({
+    source: record.source,
+    event: stripeEventLogService.getPayload(record),
+  }));
+}
+
+async function main() {
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("Replaying Stripe events is meant for local databases, refusing to run with NODE_ENV=production");
+  }
+
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      source: { type: "string" },
+      failed: { type: "boolean", default: false },
+      file: { type: "string" },
+      limit: { type: "string", default: "100" },
+      force: { type: "boolean", default: false },
+    },
+  });
+
+  const source = parseSource(values.source);
+  const limit = Number(values.limit);
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new Error(`Invalid --limit "${values.limit}"`);
+  }
+
+  let items: ReplayItem[];
+  if (values.file) {
+    items = readFile(values.file, source);
+  } else if (values.failed || positionals.length > 0) {
+    items = await loadStoredEvents(positionals, source, values.failed, limit);
+  } else {
+    throw new Error("Nothing to replay: pass event IDs, --failed or --file (see the usage in the script header)");
+  }
+
+  console.log(`[Replay] Replaying ${items.length} Stripe event(s)`);
+
+  let failures = 0;
+  for (const { source: eventSource, event } of items) {
+    try {
+      const result = await stripeEventLogService.process(eventSource, event, stripeEventProcessors[eventSource], {
+        replay: true,
+        force: values.force,
+      });
+
+      if (!result.processed) {
+        console.log(`[Replay] ${eventSource} ${event.id} (${event.type}): already processed, skipped (use --force)`);
+        continue;
+      }
+      if (result.event?.status === "FAILED") {
+        failures++;
+      }
+      console.log(
+        `[Replay] ${eventSource} ${event.id} (${event.type}): ${result.event?.status}` +
+          (result.event?.error ? ` - ${result.event.error}` : "")
+      );
+    } catch (error: any) {
+      failures++;
+      console.error(`[Replay] ${eventSource} ${event.id} (${event.type}): error - ${error.message}`);
+    }
+  }
+
+  console.log(`[Replay] Done: ${items.length - failures} succeeded or skipped, ${failures} failed`);
+  process.exitCode = failures > 0 ? 1 : 0;
+}
+
+main()
+  .catch((error) => {
+    console.error(`[Replay] ${error.message}`);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
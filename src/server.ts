@@ -2,9 +2,13 @@ import dotenv from "dotenv";
 dotenv.config();
 
 import app from "./app";
+import { scheduledOrderService } from "./modules/orders/scheduled-order.service";
 
 const PORT = process.env.PORT || 5000;
 
 app.listen(PORT, () => {
   console.log(`🚀 Server running on port ${PORT}`);
+
+  // Releases scheduled pre-orders to the restaurants when they are due (serverless deployments use the cron job)
+  scheduledOrderService.start();
 });